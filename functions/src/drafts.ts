@@ -0,0 +1,416 @@
+import {
+  FieldValue,
+  type DocumentData,
+  type DocumentReference,
+  type Firestore,
+  type QuerySnapshot,
+  type Timestamp,
+} from "firebase-admin/firestore";
+import {HttpsError} from "firebase-functions/v2/https";
+import * as logger from "firebase-functions/logger";
+import {
+  draftLedgers,
+  draftTotals,
+  draftYear,
+  employeeMeta,
+  filedRequestsByName,
+  finalPayGap,
+  payHistory,
+  type DraftContext,
+  type DraftHeadLike,
+  type DraftLine,
+  type EmployeeDoc,
+  type EmployeeMeta,
+  type HistoryPayslip,
+} from "../../src/utils/draftPayroll";
+import {
+  resolvePayRules,
+  type CompanyPayRules,
+} from "../../src/utils/payRules";
+import type {StatutoryTables} from "../../src/utils/contributions";
+import type {ObRateSchedule} from "../../src/utils/obRates";
+import type {HolidayLite} from "../../src/utils/holidays";
+import type {CarryForward} from "../../src/utils/carryForward";
+import {
+  repriceRetroPay,
+  type RetroPayAdjustment,
+  type RetroPayslipLike,
+} from "../../src/utils/retroPay";
+import type {Loan} from "../../src/utils/loans";
+import {
+  advanceOwnerIndex,
+  openAdvances,
+  unmatchedAdvances,
+  type CashAdvance,
+} from "../../src/utils/cashAdvances";
+import {sumPesos} from "../../src/utils/money";
+import {
+  commissionRulesDue,
+  ruleCommissionDoc,
+  ruleCommissionId,
+} from "../../src/utils/commissionRules";
+import type {Caller} from "./roles";
+
+export type DraftHead = DraftHeadLike & {
+  status?: string;
+  totals?: DraftTotals;
+  approvalJob?: ApprovalJob;
+};
+
+export interface DraftTotals {
+  count: number;
+  gross: number;
+  net: number;
+}
+
+/**
+ * Progress of a final approval, kept on the draft. A run holds the lease
+ * while it writes payslips; a later call resumes where the last one stopped.
+ */
+export interface ApprovalJob {
+  state: "running" | "done";
+  total: number;
+  done: number; // lines whose payslip exists
+  leaseUntil: Timestamp | null;
+  startedBy: {uid: string; name: string};
+  startedAt: Timestamp;
+  updatedAt: Timestamp;
+  error?: string | null;
+}
+
+/** A draft with every input its lines are computed from. */
+export interface LoadedDraft {
+  ref: DocumentReference;
+  head: DraftHead;
+  lines: DraftLine[];
+  ctx: DraftContext;
+  employees: Record<string, DocumentData>; // raw employees docs by doc id
+}
+
+const withIds = <T>(snap: QuerySnapshot): T[] =>
+  snap.docs.map((d) => ({...d.data(), id: d.id}) as T);
+
+/**
+ * employees doc id of a line.
+ * @param {DraftLine} ln The draft line.
+ * @return {string} The employees doc id.
+ */
+export function lineEmployeeId(ln: DraftLine): string {
+  return String(ln.employeeId || ln.id).trim();
+}
+
+/**
+ * Payslips the draft's 13th month, final pay and year-end lines are summed
+ * from: every payslip of a separating employee (the last one paid may be
+ * last year's), else the payslips of the draft's year.
+ * @param {Firestore} db Admin Firestore.
+ * @param {DraftHead} head The draft.
+ * @param {Object<string, EmployeeMeta>} meta The lines' employees.
+ * @return {Promise<HistoryPayslip[]>} The payslips.
+ */
+async function historyPayslips(
+  db: Firestore,
+  head: DraftHead,
+  meta: Record<string, EmployeeMeta>,
+): Promise<HistoryPayslip[]> {
+  const year = draftYear(head);
+  const payslips = db.collection("payslips");
+  // payslips are keyed by employees doc id; older ones by auth uid
+  const snaps = head.type === "final_pay" ?
+    await Promise.all(Object.entries(meta).flatMap(([id, e]) => [
+      payslips.where("employeeDocId", "==", id).get(),
+      ...(e.uid ? [payslips.where("employeeId", "==", e.uid).get()] : []),
+    ])) :
+    [await payslips
+      .where("cutoffEnd", ">=", `${year}-01-01`)
+      .where("cutoffEnd", "<", `${year + 1}-01-01`)
+      .get()];
+  const byId = new Map<string, HistoryPayslip>();
+  snaps.forEach((snap) => snap.forEach((d) =>
+    byId.set(d.id, d.data() as HistoryPayslip)));
+  return [...byId.values()];
+}
+
+/**
+ * Open retro pay of the lines' employees, repriced from the payslips each
+ * adjustment names and the pay change recorded on the employee — the amount
+ * saved by the calculator is not paid as-is.
+ * @param {Firestore} db Admin Firestore.
+ * @param {RetroPayAdjustment[]} open The open adjustments.
+ * @param {Object<string, EmployeeMeta>} meta The lines' employees.
+ * @return {Promise<RetroPayAdjustment[]>} The open adjustments, repriced.
+ */
+async function repricedRetroPay(
+  db: Firestore,
+  open: RetroPayAdjustment[],
+  meta: Record<string, EmployeeMeta>,
+): Promise<RetroPayAdjustment[]> {
+  const due = open.filter((r) => meta[r.employeeId]);
+  if (!due.length) return [];
+  const owners = [...new Set(due.map((r) => r.employeeId))];
+  const slipIds = [...new Set(due.flatMap((r) =>
+    (r.payslips || []).map((p) => p.payslipId)))];
+  // every adjustment of the owners: payslips already repriced are skipped
+  const [adjustmentSnaps, slipSnaps] = await Promise.all([
+    Promise.all(owners.map((id) =>
+      db.collection("retroPay").where("employeeId", "==", id).get())),
+    slipIds.length ?
+      db.getAll(...slipIds.map((id) => db.collection("payslips").doc(id))) :
+      Promise.resolve([]),
+  ]);
+  const payslips: Record<string, RetroPayslipLike> = {};
+  for (const s of slipSnaps) {
+    if (s.exists) payslips[s.id] = {...s.data(), id: s.id};
+  }
+  return repriceRetroPay(
+    adjustmentSnaps.flatMap((snap) => withIds<RetroPayAdjustment>(snap)),
+    payslips,
+    meta,
+  );
+}
+
+/**
+ * Employees on a 13th month run of the year that is not approved yet: a
+ * year-end line annualizes their 13th month excess before it is released.
+ * @param {Firestore} db Admin Firestore.
+ * @param {number} year The year being annualized.
+ * @return {Promise<string[]>} The employees doc ids.
+ */
+async function pendingThirteenthMonth(
+  db: Firestore,
+  year: number,
+): Promise<string[]> {
+  const runs = await db.collection("payrollDrafts")
+    .where("type", "==", "thirteenth_month")
+    .where("year", "==", year)
+    .get();
+  const open = runs.docs.filter((d) =>
+    !["approved", "published", "rejected"].includes(String(d.get("status"))));
+  const lineSnaps = await Promise.all(open.map((d) =>
+    d.ref.collection("lines").select("employeeId").get()));
+  return lineSnaps.flatMap((snap) => snap.docs.map((d) =>
+    lineEmployeeId({...d.data(), id: d.id} as DraftLine)));
+}
+
+/**
+ * Reads a draft and everything its lines are computed from — the same
+ * sources PayrollDraftPage reads for its preview, but never from the caller.
+ * 13th month, final pay and year-end lines are summed from the employees'
+ * payslips, and retro pay is repriced.
+ * @param {Firestore} db Admin Firestore.
+ * @param {string} draftId payrollDrafts doc id.
+ * @return {Promise<LoadedDraft>} The draft, its lines and their inputs.
+ */
+export async function loadDraft(
+  db: Firestore,
+  draftId: string,
+): Promise<LoadedDraft> {
+  const ref = db.collection("payrollDrafts").doc(draftId);
+  const snap = await ref.get();
+  if (!snap.exists) throw new HttpsError("not-found", "Draft not found.");
+  const head = snap.data() as DraftHead;
+
+  const linesSnap = await ref.collection("lines").orderBy("name").get();
+  const lines = withIds<DraftLine & {_deleted?: boolean}>(linesSnap)
+    .filter((l) => !l._deleted);
+
+  const [
+    employeesSnap,
+    requestsSnap,
+    holidaysSnap,
+    companySnap,
+    statutorySnap,
+    obSnap,
+    carrySnap,
+    retroSnap,
+    loansSnap,
+    advancesSnap,
+    commissionSnaps,
+  ] = await Promise.all([
+    db.collection("employees").get(),
+    db.collection("requests").where("status", "==", "approved").get(),
+    db.collection("holidays").get(),
+    db.collection("payRules").get(),
+    db.doc("settings/statutory").get(),
+    db.doc("settings/obRates").get(),
+    db.collection("carryForwards").where("status", "==", "open").get(),
+    db.collection("retroPay").where("status", "==", "open").get(),
+    db.collection("loans").where("status", "==", "active").get(),
+    db.collection("cashAdvances").where("approved", "==", true).get(),
+    Promise.all(lines.map((ln) =>
+      ref.collection("lines").doc(ln.id).collection("commissions").get())),
+  ]);
+
+  const employees: Record<string, DocumentData> = {};
+  employeesSnap.forEach((d) => {
+    employees[d.id] = d.data();
+  });
+  // advances filed before the ledger carry the HR employee code, the oldest
+  // only the name
+  const owners = advanceOwnerIndex(
+    employeesSnap.docs.map((d) => ({...d.data(), id: d.id})),
+  );
+  const advances = withIds<CashAdvance>(advancesSnap);
+  const orphans = unmatchedAdvances(advances, owners);
+  if (orphans.length) {
+    logger.warn("open cash advances match no employee", {
+      draftId,
+      advanceIds: orphans.map((ca) => ca.id),
+    });
+  }
+
+  const meta: DraftContext["employees"] = {};
+  for (const ln of lines) {
+    const id = lineEmployeeId(ln);
+    meta[id] = employeeMeta(id, employees[id] as EmployeeDoc | undefined);
+  }
+
+  const commissions: Record<string, number> = {};
+  lines.forEach((ln, i) => {
+    commissions[ln.id] = sumPesos(...commissionSnaps[i].docs.map((d) =>
+      Number(d.get("commission") || 0)));
+  });
+
+  // the set pinned on the draft wins; otherwise as of the cutoff end
+  const rules = head.payRules ?? (head.cutoffEnd ?
+    resolvePayRules({
+      company: companySnap.docs.map((d) => d.data() as CompanyPayRules),
+      statutory: (statutorySnap.data() || {}) as StatutoryTables,
+      obRates: (obSnap.get("schedules") || []) as ObRateSchedule[],
+    }, head.cutoffEnd) :
+    undefined);
+
+  // 13th month, final pay and year-end lines hold only what finance picked
+  const yearEnd = lines.some((ln) => ln.yearEnd);
+  const needsHistory = head.type === "thirteenth_month" ||
+    head.type === "final_pay" || yearEnd;
+  const [slips, pending, retroPay] = await Promise.all([
+    needsHistory ? historyPayslips(db, head, meta) : Promise.resolve([]),
+    yearEnd ?
+      pendingThirteenthMonth(db, draftYear(head)) :
+      Promise.resolve([]),
+    head.type === "thirteenth_month" ?
+      Promise.resolve([]) :
+      repricedRetroPay(db, withIds<RetroPayAdjustment>(retroSnap), meta),
+  ]);
+  const history = needsHistory ?
+    payHistory(slips, draftYear(head), meta, draftId, pending) :
+    undefined;
+
+  // a final pay starts where the regular payroll stopped
+  for (const ln of head.type === "final_pay" ? lines : []) {
+    const id = lineEmployeeId(ln);
+    const gap = ln.finalPay && history?.[id] &&
+      finalPayGap(meta[id], history[id], ln.finalPay.separationDate);
+    if (gap) throw new HttpsError("failed-precondition", gap);
+  }
+
+  const ctx: DraftContext = {
+    draftId,
+    head,
+    rules,
+    holidays: holidaysSnap.docs.map((d) => d.data() as HolidayLite),
+    employees: meta,
+    filedRequests: head.cutoffStart && head.cutoffEnd ?
+      filedRequestsByName(
+        requestsSnap.docs.map((d) => d.data()),
+        head.cutoffStart,
+        head.cutoffEnd,
+      ) :
+      {},
+    commissions,
+    ...draftLedgers(head, draftId, {
+      carryForwards: withIds<CarryForward>(carrySnap),
+      retroPay,
+      loans: withIds<Loan>(loansSnap),
+    }),
+    cashAdvances: openAdvances(advances, owners),
+    history,
+  };
+
+  return {ref, head, lines, ctx, employees};
+}
+
+/**
+ * Adds the commission rules due in the cutoff to each line's commissions,
+ * once per rule (deterministic ids) — a rule finance removed from the line
+ * stays removed. Regular drafts still being edited only; the added amounts
+ * are folded into `ctx.commissions`.
+ * @param {Firestore} db Admin Firestore.
+ * @param {LoadedDraft} draft The loaded draft.
+ * @return {Promise<void>}
+ */
+async function applyCommissionRules(
+  db: Firestore,
+  draft: LoadedDraft,
+): Promise<void> {
+  const {ref, head, lines, ctx} = draft;
+  if ((head.type || "regular") !== "regular") return;
+  if (!["draft", "finance_review"].includes(String(head.status))) return;
+
+  const due = lines.flatMap((ln) => {
+    const removed = new Set(ln.removedCommissionRules || []);
+    const rules = ctx.employees[lineEmployeeId(ln)]?.commissionRules;
+    return commissionRulesDue(rules, head.cutoffEnd)
+      .filter((r) => !removed.has(r.id))
+      .map((r) => ({
+        ln,
+        rule: r,
+        doc: ref.collection("lines").doc(ln.id)
+          .collection("commissions").doc(ruleCommissionId(r.id)),
+      }));
+  });
+  if (!due.length) return;
+
+  const existing = await db.getAll(...due.map((d) => d.doc));
+  const batch = db.batch();
+  let added = 0;
+  due.forEach(({ln, rule, doc}, i) => {
+    if (existing[i].exists) return;
+    const c = ruleCommissionDoc(rule);
+    batch.set(doc, {...c, createdAt: FieldValue.serverTimestamp()});
+    ctx.commissions[ln.id] =
+      sumPesos(ctx.commissions[ln.id] || 0, c.commission);
+    added += 1;
+  });
+  if (added) await batch.commit();
+}
+
+/**
+ * Recomputes the draft's totals and stores them on the draft. Approved
+ * drafts keep the totals they were approved with — their ledgers have
+ * moved on since. The first recompute pins the pay rules in effect on the
+ * cutoff, so later catalog edits never move the draft's numbers; commission
+ * rules due in the cutoff are added first.
+ * @param {Firestore} db Admin Firestore.
+ * @param {string} draftId payrollDrafts doc id.
+ * @param {Caller} caller Who asked; recorded when the rules are pinned.
+ * @return {Promise<DraftTotals>} The draft totals.
+ */
+export async function recomputeDraft(
+  db: Firestore,
+  draftId: string,
+  caller: Caller,
+): Promise<DraftTotals> {
+  const draft = await loadDraft(db, draftId);
+  const {ref, head, lines, ctx} = draft;
+  if (["approved", "published"].includes(String(head.status))) {
+    return head.totals || {count: lines.length, gross: 0, net: 0};
+  }
+  await applyCommissionRules(db, draft);
+  const totals = draftTotals(lines, ctx);
+  const pin = !head.payRules && ctx.rules &&
+    head.type !== "thirteenth_month" ?
+    {
+      payRules: ctx.rules,
+      payRulesPinnedAt: FieldValue.serverTimestamp(),
+      payRulesPinnedBy: caller.email || caller.name,
+    } :
+    {};
+  await ref.update({
+    totals,
+    ...pin,
+    updatedAt: FieldValue.serverTimestamp(),
+  });
+  return totals;
+}
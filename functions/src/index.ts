@@ -1,4 +1,52 @@
-//@ts-ignore
-import { onCall } from "firebase-functions/v2/https";
-//@ts-ignore
+import {initializeApp} from "firebase-admin/app";
+import {getFirestore} from "firebase-admin/firestore";
+import {HttpsError, onCall} from "firebase-functions/v2/https";
 import * as logger from "firebase-functions/logger";
+import {recomputeDraft} from "./drafts";
+import {
+  approveDraft,
+  PAYSLIP_STATUSES,
+  setPayslipStatus as writePayslipStatus,
+  type PayslipStatus,
+} from "./payslips";
+import {requireRole, requireString} from "./roles";
+
+// Attendance hours are read in local time, as the browser reads them.
+process.env.TZ = "Asia/Manila";
+
+initializeApp();
+const db = getFirestore();
+db.settings({ignoreUndefinedProperties: true});
+
+// Payroll is computed here from the shared src/utils code and inputs read
+// server-side; these functions are the only writers of /payslips.
+
+export const recomputePayrollDraft = onCall(async (request) => {
+  const caller = requireRole(
+    request,
+    ["finance", "exec", "admin_final", "admin_overseer"],
+  );
+  return recomputeDraft(db, requireString(request.data, "draftId"), caller);
+});
+
+export const approvePayrollDraft = onCall(
+  {timeoutSeconds: 540, memory: "512MiB"},
+  async (request) => {
+    const caller = requireRole(request, ["admin_final"]);
+    const draftId = requireString(request.data, "draftId");
+    // resumable: the client calls again while this reports "running"
+    const progress = await approveDraft(db, draftId, caller);
+    logger.info("final approval", {draftId, uid: caller.uid, ...progress});
+    return progress;
+  },
+);
+
+export const setPayslipStatus = onCall(async (request) => {
+  requireRole(request, ["finance", "exec", "admin_final", "admin_overseer"]);
+  const status = requireString(request.data, "status") as PayslipStatus;
+  if (!PAYSLIP_STATUSES.includes(status)) {
+    throw new HttpsError("invalid-argument", `Unknown status ${status}.`);
+  }
+  const payslipId = requireString(request.data, "payslipId");
+  await writePayslipStatus(db, payslipId, status);
+});
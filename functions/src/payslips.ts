@@ -0,0 +1,543 @@
+import {
+  FieldValue,
+  Timestamp,
+  type DocumentData,
+  type DocumentReference,
+  type DocumentSnapshot,
+  type Firestore,
+} from "firebase-admin/firestore";
+import {HttpsError} from "firebase-functions/v2/https";
+import {
+  buildDraftPayrollInput,
+  computeDraftLine,
+  lineFinalPay,
+  payslipRows,
+  type DraftContext,
+  type DraftLine,
+} from "../../src/utils/draftPayroll";
+import {settleNetPay} from "../../src/utils/carryForward";
+import {toDateKey} from "../../src/utils/holidays";
+import {roundPesos, sumPesos} from "../../src/utils/money";
+import {countWorkdays} from "../../src/utils/paySegments";
+import type {FreelancerItem} from "../../src/utils/freelancerPay";
+import {
+  advanceBalance,
+  type CashAdvance,
+} from "../../src/utils/cashAdvances";
+import {
+  lineEmployeeId,
+  loadDraft,
+  type DraftHead,
+  type DraftTotals,
+  type LoadedDraft,
+} from "./drafts";
+import type {Caller} from "./roles";
+
+export type PayslipStatus = "ready" | "rejected";
+
+export const PAYSLIP_STATUSES: PayslipStatus[] = ["ready", "rejected"];
+
+const ymdKey = (v: unknown): string | null => {
+  if (!v) return null;
+  const d = new Date(String(v));
+  return Number.isNaN(d.getTime()) ? null : d.toISOString().slice(0, 10);
+};
+
+/**
+ * The filed requests stored on a payslip: the ones the line was computed
+ * from, with the in/out times of approved remote work / WFH requests merged
+ * in by date (those times are canonical).
+ * @param {Firestore} db Admin Firestore.
+ * @param {DraftLine} ln The draft line.
+ * @param {string} employeeName Canonical employee name.
+ * @param {DraftContext} ctx The draft's inputs.
+ * @return {Promise<DocumentData[]>} Filed requests for the payslip.
+ */
+async function payslipFiledRequests(
+  db: Firestore,
+  ln: DraftLine,
+  employeeName: string,
+  ctx: DraftContext,
+): Promise<DocumentData[]> {
+  const start = ctx.head?.cutoffStart ?
+    new Date(ctx.head.cutoffStart) :
+    new Date();
+  const end = ctx.head?.cutoffEnd ? new Date(ctx.head.cutoffEnd) : new Date();
+
+  const byDate = new Map<string, DocumentData>();
+  for (const f of ctx.filedRequests[employeeName] || []) {
+    const key = ymdKey(f.date);
+    if (!key) continue;
+    byDate.set(key, {
+      ...f,
+      filedAt: f.filedAt || new Date().toISOString(),
+      timeIn: typeof f.timeIn === "string" ? f.timeIn : null,
+      timeOut: typeof f.timeOut === "string" ? f.timeOut : null,
+    });
+  }
+
+  // support both schemas: details.* and root fields
+  const reqCol = db.collection("requests");
+  const [qDetails, qRoot] = await Promise.all([
+    reqCol.where("details.employeeId", "==", ln.employeeId)
+      .where("details.status", "==", "approved").get(),
+    reqCol.where("employeeId", "==", ln.employeeId)
+      .where("status", "==", "approved").get(),
+  ]);
+  for (const d of [...qDetails.docs, ...qRoot.docs]) {
+    const raw = d.data();
+    const det = raw.details ? raw.details : raw;
+    const type = String(det.type || "").toLowerCase();
+    if (!["remotework", "wfh"].includes(type)) continue;
+    const date = new Date(det.date);
+    if (Number.isNaN(date.getTime()) || date < start || date > end) continue;
+    const key = ymdKey(det.date);
+    if (!key) continue;
+    const existing = byDate.get(key) || {};
+    byDate.set(key, {
+      ...existing,
+      type,
+      date: det.date,
+      hours: Number(det.hours || 0),
+      timeIn: typeof det.timeIn === "string" ?
+        det.timeIn :
+        existing.timeIn ?? null,
+      timeOut: typeof det.timeOut === "string" ?
+        det.timeOut :
+        existing.timeOut ?? null,
+      filedAt: det.filedAt || existing.filedAt || null,
+    });
+  }
+  return Array.from(byDate.values());
+}
+
+/**
+ * Deterministic payslip id: one payslip per employee per draft, however many
+ * times final approval runs.
+ * @param {Firestore} db Admin Firestore.
+ * @param {string} draftId payrollDrafts doc id.
+ * @param {DraftLine} ln The draft line.
+ * @return {DocumentReference} The line's payslip.
+ */
+export function payslipRef(
+  db: Firestore,
+  draftId: string,
+  ln: DraftLine,
+): DocumentReference {
+  return db.collection("payslips").doc(`${draftId}_${lineEmployeeId(ln)}`);
+}
+
+/**
+ * Pays one line: writes its payslip and posts its deductions to the
+ * carry-forward, retro pay, cash advance, loan and freelancer ledgers in one
+ * transaction. Nothing is written when the payslip already exists, so a
+ * rerun never pays a line twice; the transaction aborts when a cash advance
+ * or loan balance moved, or a carry-forward or retro pay item was closed,
+ * since the draft was loaded (another approval, a repayment), and the next
+ * call recomputes from what is still owed.
+ * @param {Firestore} db Admin Firestore.
+ * @param {LoadedDraft} draft The loaded draft.
+ * @param {DraftLine} ln The line to pay.
+ * @param {Caller} caller The approving admin.
+ * @return {Promise<boolean>} Whether the payslip was written by this call.
+ */
+async function payLine(
+  db: Firestore,
+  draft: LoadedDraft,
+  ln: DraftLine,
+  caller: Caller,
+): Promise<boolean> {
+  const {head, ctx} = draft;
+  const draftId = ctx.draftId;
+  const empId = lineEmployeeId(ln);
+  const input = buildDraftPayrollInput(ln, ctx);
+  const out = computeDraftLine(ln, ctx);
+  const comm = ctx.commissions[ln.id] || 0;
+  const {earnings, deductions} = payslipRows(ln, input, out, ctx);
+  const settled = settleNetPay(out, comm);
+
+  const e = draft.employees[empId] || {};
+  const employeeName = e.name || ln.name;
+  const filedRequests = await payslipFiledRequests(db, ln, employeeName, ctx);
+  const start = toDateKey(head.cutoffStart);
+  const end = toDateKey(head.cutoffEnd);
+
+  const carried = (out.priorPeriodBalance ?
+    ctx.openCarry[empId]?.items || [] :
+    []).map((cf) => ({...cf, ref: db.collection("carryForwards").doc(cf.id)}));
+  const retro = (out.retroPay ? ctx.openRetro[empId]?.items || [] : [])
+    .map((r) => ({...r, ref: db.collection("retroPay").doc(r.id)}));
+
+  const slipRef = payslipRef(db, draftId, ln);
+  const empRef = db.collection("employees").doc(empId);
+  const advances = out.cashAdvanceLines
+    .filter((c) => c.advanceId)
+    .map((c) => ({...c, ref: db.collection("cashAdvances").doc(c.advanceId)}));
+  const loans = out.loanDeductions
+    .map((l) => ({...l, ref: db.collection("loans").doc(l.loanId)}));
+
+  return db.runTransaction(async (tx) => {
+    // reads first: the payslip guard, the deliverables being marked paid, the
+    // balances being drawn down and the carry-forwards and retro pay closed
+    if ((await tx.get(slipRef)).exists) return false;
+    const empSnap = out.freelancerItems.length ? await tx.get(empRef) : null;
+    const [advanceSnaps, loanSnaps, carrySnaps, retroSnaps] =
+      await Promise.all([
+        Promise.all(advances.map((c) => tx.get(c.ref))),
+        Promise.all(loans.map((l) => tx.get(l.ref))),
+        Promise.all(carried.map((cf) => tx.get(cf.ref))),
+        Promise.all(retro.map((r) => tx.get(r.ref))),
+      ]);
+    const open = (s: DocumentSnapshot) => s.get("status") === "open";
+    const moved = [
+      ...advances
+        .filter((c, i) => !advanceSnaps[i].exists || roundPesos(
+          advanceBalance(advanceSnaps[i].data() as CashAdvance),
+        ) !== c.balance)
+        .map((c) => `cash advance ${c.advanceId}`),
+      ...loans
+        .filter((l, i) => !loanSnaps[i].exists || Math.max(
+          0, roundPesos(Number(loanSnaps[i].get("balance")) || 0),
+        ) !== l.balance)
+        .map((l) => `loan ${l.loanId}`),
+      ...carried
+        .filter((_, i) => !open(carrySnaps[i]))
+        .map((cf) => `carry-forward ${cf.id}`),
+      ...retro
+        .filter((_, i) => !open(retroSnaps[i]))
+        .map((r) => `retro pay ${r.id}`),
+    ];
+    if (moved.length) {
+      throw new HttpsError(
+        "aborted",
+        `${moved.join(", ")} changed while ${employeeName} was being paid. ` +
+          "Approve again to pay from what is still owed.",
+      );
+    }
+
+    const now = FieldValue.serverTimestamp();
+    tx.create(slipRef, {
+      draftId,
+      payrollType: head.type || "regular",
+      employeeId: e.uid || ln.employeeId,
+      employeeDocId: ln.employeeId,
+      employeeEmail: String(e.email || "").toLowerCase(),
+      employeeName,
+      designation: e.position || "",
+      department: e.department || "",
+      employeeAlias: e.alias || "",
+      cutoffLabel: head.cutoffLabel,
+      cutoffStart: head.cutoffStart,
+      cutoffEnd: head.cutoffEnd,
+      periodKey: head.periodKey,
+      workDays: ln.daysWorkedOverride ?? (ln.daysWorked || 0),
+      daysOfWork: start && end ? countWorkdays(start, end) : 0,
+      createdAt: now,
+      status: "for_admin_review", // published from AllPayslipsPage
+
+      // totals are the exact centavo sums of the rows
+      grossEarnings: sumPesos(...earnings.map((r) => r.amount)),
+      totalDeductions: sumPesos(...deductions.map((r) => r.amount)),
+      netPay: settled.netPay,
+      carriedForward: settled.carriedForward,
+      ...(out.finalPay ? {
+        balanceDue: out.finalPay.balanceDue,
+        separationDate: out.finalPay.separationDate,
+      } : {}),
+
+      earnings,
+      deductions,
+
+      details: {
+        input,
+        output: {...out, trace: undefined},
+        finalPaySetup: lineFinalPay(ln, ctx),
+        trace: out.trace, // "How this was computed" on the payslip
+        commissions: comm,
+        filedRequests,
+        carryForwardIds: carried.map((cf) => cf.id),
+        // audit trail back to the payslips each retro difference came from
+        retroPay: retro.map((r) => ({
+          id: r.id,
+          effectiveFrom: r.effectiveFrom,
+          amount: r.amount,
+          payslipIds: r.payslips.map((p) => p.payslipId),
+        })),
+      },
+    });
+
+    // carry-forwards deducted here are closed
+    for (const cf of carried) {
+      tx.update(cf.ref, {
+        status: "recovered",
+        recoveredDraftId: draftId,
+        recoveredPeriodKey: head.periodKey,
+        recoveredPayslipId: slipRef.id,
+        recoveredAt: now,
+      });
+    }
+    for (const r of retro) {
+      tx.update(r.ref, {
+        status: "applied",
+        appliedDraftId: draftId,
+        appliedPeriodKey: head.periodKey,
+        appliedPayslipId: slipRef.id,
+        appliedAt: now,
+      });
+    }
+
+    const posting = {
+      draftId,
+      periodKey: head.periodKey,
+      cutoffLabel: head.cutoffLabel,
+      payslipId: slipRef.id,
+      postedAt: now,
+      postedBy: caller.email,
+    };
+    // cash advances and loans: post each deduction (keyed by payslip) and
+    // draw the balance down
+    for (const c of advances) {
+      const caRef = c.ref;
+      tx.create(caRef.collection("ledger").doc(slipRef.id), {
+        ...posting,
+        amount: c.amount,
+        balanceBefore: c.balance,
+        balanceAfter: c.balanceAfter,
+      });
+      tx.update(caRef, {
+        balance: c.balanceAfter,
+        ...(c.balanceAfter <= 0 ? {status: "paid", paidAt: now} : {}),
+        updatedAt: now,
+      });
+    }
+    for (const l of loans) {
+      const loanRef = l.ref;
+      tx.create(loanRef.collection("ledger").doc(slipRef.id), {
+        ...posting,
+        amount: l.amount,
+        balanceBefore: l.balance,
+        balanceAfter: l.balanceAfter,
+      });
+      tx.update(loanRef, {
+        balance: l.balanceAfter,
+        ...(l.balanceAfter <= 0 ? {status: "paid", paidAt: now} : {}),
+        updatedAt: now,
+      });
+    }
+
+    // freelancers: deliverables priced here are never paid again
+    if (empSnap) {
+      const paid = new Set(out.freelancerItems.map((it) => it.itemId));
+      const current = empSnap.get("freelancerItems") as FreelancerItem[];
+      const items = (current || []).map((it) =>
+        paid.has(it.id) ?
+          {
+            ...it,
+            status: "paid",
+            paidDraftId: draftId,
+            paidPayslipId: slipRef.id,
+          } :
+          it);
+      tx.update(empRef, {freelancerItems: items});
+    }
+
+    // final pay: every open advance was deducted in full above (a shortfall
+    // is in balanceDue) and the employee leaves payroll
+    if (out.finalPay) {
+      tx.update(empRef, {
+        status: "inactive",
+        finalPayDraftId: draftId,
+        finalPayPayslipId: slipRef.id,
+      });
+    }
+
+    // anything still unrecovered is deducted on the next cutoff
+    if (settled.carriedForward > 0) {
+      tx.create(db.collection("carryForwards").doc(slipRef.id), {
+        employeeId: empId,
+        employeeName,
+        amount: settled.carriedForward,
+        status: "open",
+        sourceDraftId: draftId,
+        sourcePeriodKey: head.periodKey,
+        sourceCutoffLabel: head.cutoffLabel,
+        sourcePayslipId: slipRef.id,
+        createdAt: now,
+      });
+    }
+    return true;
+  });
+}
+
+/** Lines paid per chunk; each line is its own transaction. */
+export const APPROVAL_CHUNK = 25;
+// renewed after every chunk; a run that died frees the draft after this
+const LEASE_MS = 2 * 60 * 1000;
+// a run stops starting chunks after this (timeout is 540s); the caller
+// calls again to carry on
+const RUN_BUDGET_MS = 6 * 60 * 1000;
+
+export interface ApprovalProgress {
+  status: "running" | "approved";
+  done: number;
+  total: number;
+}
+
+/**
+ * Takes the draft's approval lease. Returns the progress to report instead
+ * when the draft is already approved or another run holds the lease.
+ * @param {Firestore} db Admin Firestore.
+ * @param {LoadedDraft} draft The loaded draft.
+ * @param {Caller} caller The approving admin.
+ * @return {Promise<ApprovalProgress | null>} null once the lease is ours.
+ */
+async function claimApproval(
+  db: Firestore,
+  draft: LoadedDraft,
+  caller: Caller,
+): Promise<ApprovalProgress | null> {
+  const total = draft.lines.length;
+  return db.runTransaction(async (tx) => {
+    const head = (await tx.get(draft.ref)).data() as DraftHead | undefined;
+    const job = head?.approvalJob;
+    if (head?.status === "approved") {
+      return {status: "approved", done: job?.done ?? total, total};
+    }
+    if (head?.status !== "pending_admin") {
+      throw new HttpsError(
+        "failed-precondition",
+        `Draft is ${head?.status || "draft"}, not awaiting final approval.`,
+      );
+    }
+    if (job?.leaseUntil && job.leaseUntil.toMillis() > Date.now()) {
+      return {status: "running", done: job.done, total: job.total};
+    }
+    const now = FieldValue.serverTimestamp();
+    tx.update(draft.ref, {
+      approvalJob: {
+        state: "running",
+        total,
+        done: job?.done ?? 0,
+        leaseUntil: Timestamp.fromMillis(Date.now() + LEASE_MS),
+        startedBy: job?.startedBy ?? {uid: caller.uid, name: caller.name},
+        startedAt: job?.startedAt ?? now,
+        updatedAt: now,
+        error: null,
+      },
+    });
+    return null;
+  });
+}
+
+/**
+ * Final approval, as a resumable job: pays the lines in chunks, recording
+ * progress on the draft, and marks the draft approved once every line has
+ * its payslip. A run that stops (time budget, crash, network) is resumed by
+ * calling again — lines already paid are skipped.
+ * @param {Firestore} db Admin Firestore.
+ * @param {string} draftId payrollDrafts doc id.
+ * @param {Caller} caller The approving admin.
+ * @param {number} budgetMs How long this run may keep starting chunks.
+ * @return {Promise<ApprovalProgress>} Where the approval stands.
+ */
+export async function approveDraft(
+  db: Firestore,
+  draftId: string,
+  caller: Caller,
+  budgetMs = RUN_BUDGET_MS,
+): Promise<ApprovalProgress> {
+  const startedAt = Date.now();
+  const draft = await loadDraft(db, draftId);
+  const {ref, lines} = draft;
+  const total = lines.length;
+  const busy = await claimApproval(db, draft, caller);
+  if (busy) return busy;
+
+  let done = 0;
+  try {
+    for (let i = 0; i < total; i += APPROVAL_CHUNK) {
+      if (Date.now() - startedAt > budgetMs) {
+        await ref.update({
+          "approvalJob.leaseUntil": null,
+          "approvalJob.updatedAt": FieldValue.serverTimestamp(),
+        });
+        return {status: "running", done, total};
+      }
+      const chunk = lines.slice(i, i + APPROVAL_CHUNK);
+      const refs = chunk.map((ln) => payslipRef(db, draftId, ln));
+      const existing = await db.getAll(...refs);
+      const settled = await Promise.allSettled(chunk
+        .filter((_, j) => !existing[j].exists)
+        .map((ln) => payLine(db, draft, ln, caller)));
+      const failed = settled.find(
+        (r): r is PromiseRejectedResult => r.status === "rejected",
+      );
+      if (failed) {
+        // every line of the chunk has settled: count the payslips written
+        const written = await db.getAll(...refs);
+        done += written.filter((s) => s.exists).length;
+        throw failed.reason;
+      }
+      done += chunk.length;
+      await ref.update({
+        "approvalJob.done": done,
+        "approvalJob.leaseUntil": Timestamp.fromMillis(Date.now() + LEASE_MS),
+        "approvalJob.updatedAt": FieldValue.serverTimestamp(),
+      });
+    }
+  } catch (err) {
+    await ref.update({
+      "approvalJob.done": done,
+      "approvalJob.leaseUntil": null,
+      "approvalJob.error": err instanceof Error ? err.message : String(err),
+    });
+    throw err;
+  }
+
+  // the draft's totals are what its payslips pay
+  const paid = await Promise.all(
+    lines.map((ln) => payslipRef(db, draftId, ln).get()),
+  );
+  const totals: DraftTotals = {
+    count: total,
+    gross: sumPesos(...paid.map((s) => sumPesos(
+      Number(s.get("details.output.grossEarnings") || 0),
+      Number(s.get("details.commissions") || 0),
+    ))),
+    net: sumPesos(...paid.map((s) => Number(s.get("netPay") || 0))),
+  };
+  await ref.update({
+    "adminApproval": {
+      uid: caller.uid,
+      name: caller.name,
+      at: FieldValue.serverTimestamp(),
+    },
+    "status": "approved",
+    totals,
+    "approvalJob.state": "done",
+    "approvalJob.done": total,
+    "approvalJob.leaseUntil": null,
+    "approvalJob.updatedAt": FieldValue.serverTimestamp(),
+    "updatedAt": FieldValue.serverTimestamp(),
+  });
+  return {status: "approved", done: total, total};
+}
+
+/**
+ * Publishes or rejects a payslip (AllPayslipsPage).
+ * @param {Firestore} db Admin Firestore.
+ * @param {string} payslipId payslips doc id.
+ * @param {PayslipStatus} status The new status.
+ * @return {Promise<void>}
+ */
+export async function setPayslipStatus(
+  db: Firestore,
+  payslipId: string,
+  status: PayslipStatus,
+): Promise<void> {
+  const ref = db.collection("payslips").doc(payslipId);
+  if (!(await ref.get()).exists) {
+    throw new HttpsError("not-found", "Payslip not found.");
+  }
+  await ref.update({status, updatedAt: FieldValue.serverTimestamp()});
+}
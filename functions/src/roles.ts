@@ -0,0 +1,50 @@
+import {HttpsError, type CallableRequest} from "firebase-functions/v2/https";
+
+export type Role = "finance" | "exec" | "admin_final" | "admin_overseer";
+
+/** Signed-in caller of a payroll function. */
+export interface Caller {
+  uid: string;
+  name: string;
+  email: string | null;
+}
+
+/**
+ * Checks the caller's `roles` custom claim — the same claim RoleGate and
+ * PayrollDraftPage read in the browser.
+ * @param {CallableRequest} request The callable request.
+ * @param {Role[]} allowed Roles that may call the function.
+ * @return {Caller} The caller.
+ */
+export function requireRole(
+  request: CallableRequest<unknown>,
+  allowed: Role[],
+): Caller {
+  const auth = request.auth;
+  if (!auth) throw new HttpsError("unauthenticated", "Sign in first.");
+  const roles = Array.isArray(auth.token.roles) ?
+    auth.token.roles.map(String) :
+    [];
+  if (!allowed.some((r) => roles.includes(r))) {
+    throw new HttpsError(
+      "permission-denied",
+      `Requires one of: ${allowed.join(", ")}.`,
+    );
+  }
+  const email = auth.token.email || null;
+  return {uid: auth.uid, name: auth.token.name || email || allowed[0], email};
+}
+
+/**
+ * Reads a required string field from the callable payload.
+ * @param {unknown} data The callable payload.
+ * @param {string} field The field name.
+ * @return {string} The trimmed value.
+ */
+export function requireString(data: unknown, field: string): string {
+  const v = (data as Record<string, unknown> | null)?.[field];
+  if (typeof v !== "string" || !v.trim()) {
+    throw new HttpsError("invalid-argument", `${field} is required.`);
+  }
+  return v.trim();
+}
@@ -0,0 +1,78 @@
+// Pure payroll rules from src/utils — no emulator needed.
+import * as assert from "assert";
+import {
+  classifyCutoffAttendance,
+  isPaidLeave,
+  leaveDays,
+} from "../../src/utils/absences";
+import type {HolidayLite} from "../../src/utils/holidays";
+
+const holidays: HolidayLite[] = [
+  {name: "Ninoy Aquino Day", date: "2025-08-21", recurring: false,
+    type: "special_non_working"},
+  {name: "National Heroes Day", date: "2025-08-25", recurring: false,
+    type: "regular"},
+];
+
+/**
+ * Eight hours on every Aug 11–25 workday, with `over` replacing some days.
+ * @param {Object<string, number>} over Hours worked per YYYY-MM-DD.
+ * @return {Object<string, number>} Hours worked per day.
+ */
+function fullDays(over: Record<string, number>): Record<string, number> {
+  const days = ["11", "12", "13", "14", "15", "18", "19", "20", "22"];
+  return {
+    ...Object.fromEntries(days.map((d) => [`2025-08-${d}`, 8])),
+    ...over,
+  };
+}
+
+describe("absences and undertime", () => {
+  it("reads leave sizes up to 1 as days and larger ones as hours", () => {
+    assert.strictEqual(leaveDays(0.5), 0.5);
+    assert.strictEqual(leaveDays(4), 0.5);
+    assert.strictEqual(leaveDays(undefined), 1);
+  });
+
+  it("pays approved leaves unless they are without pay", () => {
+    assert.strictEqual(isPaidLeave("VL"), true);
+    assert.strictEqual(isPaidLeave("Leave without pay"), false);
+  });
+
+  it("sorts every workday into worked, leave, holiday or absent", () => {
+    const att = classifyCutoffAttendance({
+      start: "2025-08-11",
+      end: "2025-08-25",
+      hoursByDate: fullDays({
+        "2025-08-13": 6,
+        "2025-08-14": 0,
+        "2025-08-15": 0,
+      }),
+      tardyByDate: {"2025-08-13": 30},
+      paidLeaveByDate: {"2025-08-14": 0.5},
+      holidays,
+    });
+    assert.deepStrictEqual(att, {
+      workdays: 11,
+      presentDays: 7,
+      paidLeaveDays: 0.5,
+      holidayDays: 2,
+      absentDays: 1.5,
+      absentDates: ["2025-08-14", "2025-08-15"],
+      // 2 hours short on the 13th, less the 30 minutes already tardy
+      undertimeMinutes: 90,
+    });
+  });
+
+  it("docks an unworked regular holiday after an absent workday", () => {
+    const att = classifyCutoffAttendance({
+      start: "2025-08-11",
+      end: "2025-08-25",
+      hoursByDate: fullDays({"2025-08-22": 0}),
+      holidays,
+    });
+    // the special holiday on the 21st is not the workday before the 25th
+    assert.deepStrictEqual(att.absentDates, ["2025-08-22", "2025-08-25"]);
+    assert.strictEqual(att.holidayDays, 1);
+  });
+});
@@ -0,0 +1,52 @@
+// Pure payroll rules from src/utils — no emulator needed.
+import * as assert from "assert";
+import {
+  openBalances,
+  settleNetPay,
+  type CarryForward,
+} from "../../src/utils/carryForward";
+
+/**
+ * A carry-forward opened by draft `sourceDraftId`.
+ * @param {Partial<CarryForward>} over Fields to override.
+ * @return {CarryForward} The carry-forward.
+ */
+function carry(over: Partial<CarryForward>): CarryForward {
+  return {
+    id: "cf1",
+    employeeId: "emp1",
+    employeeName: "Juan Dela Cruz",
+    amount: 0,
+    status: "open",
+    sourceDraftId: "d1",
+    ...over,
+  };
+}
+
+describe("carry-forward of unrecovered deductions", () => {
+  it("sums each employee's open balances only", () => {
+    const balances = openBalances([
+      carry({id: "cf1", amount: 728.7}),
+      carry({id: "cf2", amount: 100.15, sourceDraftId: "d2"}),
+      carry({id: "cf3", amount: 500, status: "recovered"}),
+      carry({id: "cf4", employeeId: "emp2", amount: 50}),
+    ]);
+    assert.strictEqual(balances.emp1.amount, 828.85);
+    assert.deepStrictEqual(balances.emp1.items.map((c) => c.id),
+      ["cf1", "cf2"]);
+    assert.strictEqual(balances.emp2.amount, 50);
+  });
+
+  it("lets commissions cover a shortfall before carrying it", () => {
+    const out = {netPay: 0, unrecoveredDeductions: 728.7};
+    assert.deepStrictEqual(settleNetPay(out, 500),
+      {netPay: 0, carriedForward: 228.7});
+    assert.deepStrictEqual(settleNetPay(out, 1000),
+      {netPay: 271.3, carriedForward: 0});
+  });
+
+  it("adds commissions to a net pay without a shortfall", () => {
+    assert.deepStrictEqual(settleNetPay({netPay: 12000}, 2000),
+      {netPay: 14000, carriedForward: 0});
+  });
+});
@@ -0,0 +1,116 @@
+// Pure payroll rules from src/utils — no emulator needed.
+import * as assert from "assert";
+import {Timestamp} from "firebase-admin/firestore";
+import {
+  advanceOwnerIndex,
+  advanceStartCutoff,
+  openAdvances,
+  unmatchedAdvances,
+  type CashAdvance,
+} from "../../src/utils/cashAdvances";
+import {calculatePayroll} from "../../src/utils/payrollLogic";
+
+const owners = advanceOwnerIndex([
+  {id: "emp1", employeeId: "EMP001", name: "Ana Cruz"},
+  {id: "emp2", name: "Ben Reyes"},
+  {id: "emp3", name: "Carlo Santos"},
+  {id: "emp4", name: "carlo  santos"},
+]);
+
+/**
+ * An approved advance of ₱2,000 at ₱500 per cutoff.
+ * @param {string} id Doc id.
+ * @param {Partial<CashAdvance>} over Fields to override.
+ * @return {CashAdvance} The advance.
+ */
+function advance(id: string, over: Partial<CashAdvance>): CashAdvance {
+  return {
+    id,
+    employeeId: "",
+    employeeName: "",
+    totalAmount: 2000,
+    perCutOff: 500,
+    startDateCutOff: "first",
+    approved: true,
+    ...over,
+  };
+}
+
+describe("cash advance owners", () => {
+  const list = [
+    advance("byId", {employeeId: "emp1"}),
+    advance("byCode", {employeeId: "EMP001"}),
+    advance("byName", {employeeName: " Ben  Reyes"}),
+    advance("sharedName", {employeeName: "Carlo Santos"}),
+    advance("nobody", {employeeName: "Dana Lim"}),
+  ];
+
+  it("matches by doc id, then employee code, then name", () => {
+    const open = openAdvances(list, owners);
+    assert.deepStrictEqual(
+      open.emp1.map((a) => a.advanceId),
+      ["byId", "byCode"],
+    );
+    assert.deepStrictEqual(open.emp2.map((a) => a.advanceId), ["byName"]);
+    assert.strictEqual(open.emp3, undefined);
+  });
+
+  it("reports advances no employee matches", () => {
+    assert.deepStrictEqual(
+      unmatchedAdvances(list, owners).map((a) => a.id),
+      ["sharedName", "nobody"],
+    );
+  });
+});
+
+describe("cash advance start", () => {
+  const approvedOn = (date: string) =>
+    Timestamp.fromDate(new Date(`${date}T09:00:00`));
+
+  it("starts an older advance in the first cutoff of its half", () => {
+    const second = advance("a", {
+      startDateCutOff: "second",
+      approvedAt: approvedOn("2025-08-05"),
+    });
+    assert.strictEqual(advanceStartCutoff(second), "2025-08-11");
+    const first = advance("b", {approvedAt: approvedOn("2025-08-20")});
+    assert.strictEqual(advanceStartCutoff(first), "2025-08-26");
+    assert.strictEqual(advanceStartCutoff(advance("c", {})), undefined);
+  });
+
+  it("deducts every cutoff from the start, whichever half", () => {
+    const [input] = openAdvances([advance("a", {
+      employeeId: "emp1",
+      startDateCutOff: "second",
+      startCutoff: "2025-08-11",
+    })], owners).emp1;
+    const deducted = [
+      ["2025-08-10", "first"],
+      ["2025-08-25", "second"],
+      ["2025-09-10", "first"],
+      ["2025-09-25", "second"],
+    ].map(([asOf, half]) => calculatePayroll({
+      monthlySalary: 0,
+      workedDays: 0,
+      otHours: 0,
+      ndHours: 0,
+      rdotHours: 0,
+      holiday30Hours: 0,
+      holidayDoubleHours: 0,
+      holidayOtDoubleHours: 0,
+      tardinessMinutes: 0,
+      category: "freelancer",
+      manualNetPay: 5000,
+      asOf,
+      cashAdvance: {
+        totalAmount: 0,
+        perCutOff: 0,
+        currentCutOff: half as "first" | "second",
+        startDateCutOff: "second",
+        approved: true,
+        advances: [input],
+      },
+    }).cashAdvanceDeduction);
+    assert.deepStrictEqual(deducted, [0, 500, 500, 500]);
+  });
+});
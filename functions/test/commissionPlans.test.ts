@@ -0,0 +1,104 @@
+// Pure payroll rules from src/utils — no emulator needed.
+import * as assert from "assert";
+import {
+  commissionStatement,
+  evaluateTiers,
+  monthsEndingIn,
+  normalizeTiers,
+  type CommissionPlan,
+  type SaleEntry,
+} from "../../src/utils/commissionPlans";
+
+const plan: CommissionPlan = {
+  id: "p1",
+  name: "Sales ladder",
+  active: true,
+  tiers: [
+    {from: 100000, rate: 5},
+    {from: 0, rate: 2},
+    {from: 200000, rate: 8},
+  ],
+};
+
+/**
+ * A ledger entry credited to emp1 in full unless `splits` says otherwise.
+ * @param {Partial<SaleEntry>} over Fields to override.
+ * @return {SaleEntry} The entry.
+ */
+function entry(over: Partial<SaleEntry>): SaleEntry {
+  return {
+    id: "s1",
+    date: "2025-07-10",
+    client: "Acme",
+    amount: 100000,
+    kind: "sale",
+    splits: [{employeeId: "emp1", employeeName: "Ana Cruz", share: 100}],
+    ...over,
+  };
+}
+
+const ledger: SaleEntry[] = [
+  entry({id: "s1"}),
+  entry({id: "s2", date: "2025-08-05", amount: 50000, splits: [
+    {employeeId: "emp1", employeeName: "Ana Cruz", share: 60},
+    {employeeId: "emp2", employeeName: "Ben Reyes", share: 40},
+  ]}),
+  entry({id: "r1", date: "2025-08-20", amount: 50000, kind: "refund",
+    saleId: "s1"}),
+  entry({id: "s3", date: "2025-09-10"}),
+];
+
+describe("tiered commissions", () => {
+  it("sorts the tiers and starts the ladder at zero", () => {
+    assert.deepStrictEqual(
+      normalizeTiers([{from: 50000, rate: 3}]),
+      [{from: 0, rate: 0}, {from: 50000, rate: 3}],
+    );
+  });
+
+  it("pays each rate only on the sales inside its tier", () => {
+    const {lines, commission} = evaluateTiers(plan.tiers, 250000);
+    assert.deepStrictEqual(
+      lines.map((l) => [l.from, l.to, l.base, l.commission]),
+      [
+        [0, 100000, 100000, 2000],
+        [100000, 200000, 100000, 5000],
+        [200000, null, 50000, 4000],
+      ],
+    );
+    assert.strictEqual(commission, 11000);
+  });
+
+  it("credits each employee their share of a sale", () => {
+    const aug = commissionStatement(ledger, "emp2", plan, "2025-08");
+    assert.deepStrictEqual([aug.creditedSales, aug.commission], [20000, 400]);
+  });
+
+  it("claws a refund back at the rate of the refunded sale's month", () => {
+    const aug = commissionStatement(ledger, "emp1", plan, "2025-08");
+    assert.strictEqual(aug.commission, 600); // 2% of 30,000 credited
+    assert.deepStrictEqual(
+      aug.clawbacks.map((c) => [c.refundId, c.credited, c.rate, c.clawback]),
+      [["r1", 50000, 2, 1000]],
+    );
+    assert.deepStrictEqual([aug.net, aug.carriedOut], [0, 400]);
+  });
+
+  it("carries a clawback the month cannot absorb to the next", () => {
+    const sep = commissionStatement(ledger, "emp1", plan, "2025-09");
+    assert.deepStrictEqual(
+      [sep.commission, sep.carriedIn, sep.net, sep.carriedOut],
+      [2000, 400, 1600, 0],
+    );
+  });
+
+  it("pays each month on the cutoff its last day falls in", () => {
+    assert.deepStrictEqual(monthsEndingIn("2025-07-26", "2025-08-10"),
+      ["2025-07"]);
+    assert.deepStrictEqual(monthsEndingIn("2025-08-11", "2025-08-25"), []);
+    assert.deepStrictEqual(monthsEndingIn("2025-02-26", "2025-03-10"),
+      ["2025-02"]);
+    assert.deepStrictEqual(monthsEndingIn("2024-12-26", "2025-01-10"),
+      ["2024-12"]);
+  });
+});
@@ -0,0 +1,22 @@
+// Commission rules due per cutoff — no emulator needed.
+import * as assert from "assert";
+import {commissionRulesDue} from "../../src/utils/commissionRules";
+
+describe("commissionRulesDue", () => {
+  const rules = [{id: "r1", amount: 2000, payrollMonths: ["2025-08"]}];
+
+  it("pays a month's rule on the cutoffs ending in that month only", () => {
+    const cutoffEnds = ["2025-08-10", "2025-08-25", "2025-09-10"];
+    assert.deepStrictEqual(
+      cutoffEnds.map((end) => commissionRulesDue(rules, end).length),
+      [1, 1, 0],
+    );
+  });
+
+  it("skips rules without an id or an amount", () => {
+    assert.deepStrictEqual(commissionRulesDue([
+      {id: "", amount: 2000, payrollMonths: ["2025-08"]},
+      {id: "r2", amount: 0, payrollMonths: ["2025-08"]},
+    ], "2025-08-25"), []);
+  });
+});
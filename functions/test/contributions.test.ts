@@ -0,0 +1,113 @@
+// Pure payroll rules from src/utils — no emulator needed.
+import * as assert from "assert";
+import {
+  DEFAULT_PAGIBIG_SCHEDULES,
+  DEFAULT_PHILHEALTH_SCHEDULES,
+  DEFAULT_SSS_SCHEDULES,
+  computePagibig,
+  computePhilhealth,
+  computeSss,
+  pickEffective,
+  splitMonthly,
+  sssMsc,
+} from "../../src/utils/contributions";
+
+const sss2025 = DEFAULT_SSS_SCHEDULES[1];
+const philhealth2024 = DEFAULT_PHILHEALTH_SCHEDULES[1];
+const pagibig2024 = DEFAULT_PAGIBIG_SCHEDULES[1];
+
+describe("SSS contribution", () => {
+  it("picks the schedule in effect on the cutoff end", () => {
+    const on = (asOf: string) =>
+      pickEffective(DEFAULT_SSS_SCHEDULES, asOf)?.effectiveFrom;
+    assert.strictEqual(on("2024-12-31"), "2023-01-01");
+    assert.strictEqual(on("2025-01-01"), "2025-01-01");
+    // before the oldest row, the oldest still applies
+    assert.strictEqual(on("2020-06-30"), "2023-01-01");
+  });
+
+  it("centers each salary credit bracket on the credit", () => {
+    assert.strictEqual(sssMsc(14740, sss2025), 14500);
+    assert.strictEqual(sssMsc(14750, sss2025), 15000);
+    assert.strictEqual(sssMsc(3000, sss2025), 5000);
+    assert.strictEqual(sssMsc(80000, sss2025), 35000);
+  });
+
+  it("pays the low EC below the threshold, without MPF", () => {
+    assert.deepStrictEqual(computeSss(14740, sss2025), {
+      msc: 14500,
+      regularMsc: 14500,
+      mpfMsc: 0,
+      employeeRegular: 725,
+      employeeMpf: 0,
+      employerRegular: 1450,
+      employerMpf: 0,
+      ec: 10,
+      employee: 725,
+      employer: 1460,
+    });
+  });
+
+  it("sends the credit above the regular cap to MPF", () => {
+    const c = computeSss(30000, sss2025);
+    assert.deepStrictEqual(
+      [c.regularMsc, c.mpfMsc, c.employeeRegular, c.employeeMpf, c.ec],
+      [20000, 10000, 1000, 500, 30],
+    );
+    assert.strictEqual(c.employee, 1500);
+    assert.strictEqual(c.employer, 3030);
+  });
+
+  it("splits a monthly amount so both halves add up to it", () => {
+    assert.strictEqual(splitMonthly(725.01, "first"), 362.51);
+    assert.strictEqual(splitMonthly(725.01, "second"), 362.5);
+  });
+});
+
+describe("PhilHealth premium", () => {
+  it("holds the basic salary between the floor and the ceiling", () => {
+    assert.deepStrictEqual(computePhilhealth(8000, philhealth2024), {
+      base: 10000, premium: 500, employee: 250, employer: 250,
+    });
+    assert.deepStrictEqual(computePhilhealth(150000, philhealth2024), {
+      base: 100000, premium: 5000, employee: 2500, employer: 2500,
+    });
+  });
+
+  it("gives the employer the odd centavo", () => {
+    const c = computePhilhealth(25000.2, philhealth2024);
+    assert.deepStrictEqual(
+      [c.premium, c.employee, c.employer],
+      [1250.01, 625, 625.01],
+    );
+  });
+
+  it("uses the 4% rate before 2024", () => {
+    const s = pickEffective(DEFAULT_PHILHEALTH_SCHEDULES, "2023-12-25");
+    assert.strictEqual(s && computePhilhealth(30000, s).premium, 1200);
+  });
+});
+
+describe("Pag-IBIG contribution", () => {
+  it("caps the fund salary", () => {
+    assert.deepStrictEqual(computePagibig(30000, pagibig2024), {
+      fundSalary: 10000, mandatory: 200, voluntary: 0,
+      employee: 200, employer: 200,
+    });
+    const s = pickEffective(DEFAULT_PAGIBIG_SCHEDULES, "2024-01-25");
+    assert.strictEqual(s && computePagibig(30000, s).employee, 100);
+  });
+
+  it("takes 1% from the employee at or below the low threshold", () => {
+    const c = computePagibig(1500, pagibig2024);
+    assert.deepStrictEqual([c.employee, c.employer], [15, 30]);
+  });
+
+  it("adds a voluntary upgrade only above the mandatory share", () => {
+    const up = computePagibig(30000, pagibig2024, 500);
+    assert.deepStrictEqual([up.employee, up.voluntary, up.employer],
+      [500, 300, 200]);
+    const below = computePagibig(30000, pagibig2024, 100);
+    assert.deepStrictEqual([below.employee, below.voluntary], [200, 0]);
+  });
+});
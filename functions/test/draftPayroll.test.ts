@@ -0,0 +1,291 @@
+// Draft line → payroll input, as AttendancePage publishes it. No emulator.
+import * as assert from "assert";
+import {
+  buildDraftPayrollInput,
+  computeDraftLine,
+  employeeMeta,
+  finalPayGap,
+  lineFinalPay,
+  lineThirteenthMonth,
+  payHistory,
+  type DraftContext,
+  type DraftHeadLike,
+  type DraftLine,
+  type EmployeeDoc,
+  type HistoryPayslip,
+  type PayHistory,
+} from "../../src/utils/draftPayroll";
+
+/**
+ * A draft for Aug 11–25, 2025 (11 workdays, no holidays) with one employee.
+ * @param {EmployeeDoc} employee The employees doc of the line.
+ * @return {DraftContext} The draft's inputs.
+ */
+function context(employee: EmployeeDoc): DraftContext {
+  return {
+    draftId: "d1",
+    head: {
+      periodKey: "2025-08-2",
+      cutoffLabel: "Aug 11–25, 2025",
+      cutoffStart: "2025-08-11",
+      cutoffEnd: "2025-08-25",
+      workedDays: 11,
+    },
+    holidays: [],
+    employees: {emp1: employeeMeta("emp1", employee)},
+    filedRequests: {},
+    commissions: {},
+    openCarry: {},
+    openRetro: {},
+    loans: {},
+    cashAdvances: {},
+  };
+}
+
+const core: EmployeeDoc = {
+  name: "Ana Cruz",
+  category: "core",
+  monthlySalary: 30000,
+};
+
+/**
+ * A full 07:00–16:00 day (8 hours net of lunch), or one cut short.
+ * @param {string} date The day, YYYY-MM-DD.
+ * @param {string} out Time out, HH:MM.
+ * @return {object} The biometric row.
+ */
+function day(date: string, out = "16:00") {
+  return {date, in: `${date}T07:00:00`, out: `${date}T${out}:00`};
+}
+
+/**
+ * A line as AttendancePage.handlePublish writes it: biometric rows and
+ * their day count, a paid leave on Aug 14 and a 7-hour day on Aug 15.
+ * @param {Partial<DraftLine>} over Fields to override.
+ * @return {DraftLine} The draft line.
+ */
+function published(over: Partial<DraftLine> = {}): DraftLine {
+  const full = ["11", "12", "13", "18", "19", "20", "21", "22", "25"];
+  return {
+    id: "emp1",
+    employeeId: "emp1",
+    name: "Ana Cruz",
+    daysWorked: 9.875,
+    timeInOut: [
+      ...full.map((d) => day(`2025-08-${d}`)),
+      day("2025-08-15", "15:00"),
+    ],
+    adjustments: {
+      LEAVES: [{date: "2025-08-14", type: "SL", hoursOrDays: 1}],
+    },
+    ...over,
+  };
+}
+
+describe("buildDraftPayrollInput", () => {
+  it("prices a published line from its attendance, not its day count",
+    () => {
+      const input = buildDraftPayrollInput(published(), context(core));
+      assert.strictEqual(input.absentDays, 0);
+      assert.strictEqual(input.undertimeMinutes, 60);
+    });
+
+  it("takes days worked set by finance as the whole attendance", () => {
+    const input = buildDraftPayrollInput(
+      published({daysWorkedOverride: 10}),
+      context(core),
+    );
+    assert.strictEqual(input.workedDays, 10);
+    assert.strictEqual(input.absentDays, 1);
+    assert.strictEqual(input.undertimeMinutes, 0);
+  });
+  it("splits a published line on a mid-cutoff hire", () => {
+    const hired = ["18", "19", "20", "21", "22", "25"];
+    const input = buildDraftPayrollInput(
+      published({
+        daysWorked: 6,
+        timeInOut: hired.map((d) => day(`2025-08-${d}`)),
+        adjustments: {},
+      }),
+      context({...core, hireDate: "2025-08-18"}),
+    );
+    assert.deepStrictEqual(
+      input.segments?.map((s) => [s.start, s.workingDays, s.absentDays]),
+      [["2025-08-18", 6, 0]],
+    );
+  });
+
+  it("spreads days worked set by finance over a pay change", () => {
+    const input = buildDraftPayrollInput(
+      published({daysWorkedOverride: 9}),
+      context({
+        ...core,
+        monthlySalary: 36000,
+        compensationHistory: [
+          {effectiveFrom: "2025-01-01", monthlySalary: 30000},
+          {effectiveFrom: "2025-08-18", monthlySalary: 36000},
+        ],
+      }),
+    );
+    assert.deepStrictEqual(
+      input.segments?.map((s) => [
+        s.monthlySalary, s.workedDays, s.absentDays, s.undertimeMinutes,
+      ]),
+      [[30000, 5, 0, 0], [36000, 4, 2, 0]],
+    );
+  });
+});
+
+describe("13th month, final pay and year-end lines", () => {
+  const withUid: EmployeeDoc = {...core, uid: "u1"};
+
+  /**
+   * The employee's earlier payslips: one keyed by doc id, a legacy one
+   * keyed by auth uid, a 13th month release, a rejected payslip and one of
+   * the draft itself.
+   * @return {HistoryPayslip[]} The payslips.
+   */
+  function payslips(): HistoryPayslip[] {
+    return [
+      {
+        employeeDocId: "emp1", draftId: "a", cutoffEnd: "2025-08-10",
+        details: {output: {cutoffPay: 15000, taxableIncome: 14000,
+          withholdingTax: 500}},
+      },
+      {
+        employeeId: "u1", draftId: "b", cutoffEnd: "2025-07-25",
+        details: {output: {cutoffPay: 15000, absenceDeduction: 1000,
+          taxableIncome: 13000, withholdingTax: 400}},
+      },
+      {
+        employeeDocId: "emp1", draftId: "c", cutoffEnd: "2025-06-30",
+        payrollType: "thirteenth_month",
+        details: {output: {thirteenthMonthPay: 1000, taxableIncome: 0}},
+      },
+      {
+        employeeDocId: "emp1", draftId: "e", cutoffEnd: "2025-08-25",
+        status: "rejected",
+        details: {output: {cutoffPay: 15000, taxableIncome: 14000}},
+      },
+      {
+        employeeDocId: "emp1", draftId: "d1", cutoffEnd: "2025-08-25",
+        details: {output: {cutoffPay: 15000, taxableIncome: 14000}},
+      },
+    ];
+  }
+
+  /**
+   * The Aug 11–25 draft, its lines summed from the payslips above.
+   * @param {Partial<DraftHeadLike>} head Fields of the draft to override.
+   * @return {DraftContext} The draft's inputs.
+   */
+  function historyContext(head: Partial<DraftHeadLike>): DraftContext {
+    const ctx = context(withUid);
+    return {
+      ...ctx,
+      head: {...(ctx.head as DraftHeadLike), ...head},
+      history: payHistory(payslips(), 2025, ctx.employees, "d1"),
+    };
+  }
+
+  it("sums the year's payslips under the employees doc id", () => {
+    const ctx = historyContext({});
+    assert.deepStrictEqual(ctx.history?.emp1, {
+      year: 2025,
+      lastPaidThrough: "2025-08-10",
+      basicPayEarned: 29000,
+      payslipCount: 2,
+      thirteenthPaid: 1000,
+      thirteenthExemptUsed: 1000,
+      thirteenthPendingTaxable: 0,
+      ytd: {ytdTaxableIncome: 27000, ytdWithholdingTax: 900, payslipCount: 3},
+    });
+  });
+
+  it("pays the 13th month from the payslips, not from the line", () => {
+    const ctx = historyContext({type: "thirteenth_month", year: 2025});
+    const line = {
+      ...published(),
+      thirteenthMonth: {amount: 99999, taxable: 0},
+    } as DraftLine;
+    // 29,000 ÷ 12 less the 1,000 released in June
+    assert.strictEqual(lineThirteenthMonth(line, ctx)?.amount, 1416.67);
+    assert.strictEqual(computeDraftLine(line, ctx).grossEarnings, 1416.67);
+  });
+
+  it("sets final pay up from the selection and the payslips", () => {
+    const ctx = {
+      ...historyContext({type: "final_pay"}),
+      cashAdvances: {
+        emp1: [{advanceId: "a1", perCutOff: 500, balance: 1200,
+          startDateCutOff: "first" as const}],
+      },
+    };
+    const setup = lineFinalPay(published({
+      finalPay: {
+        separationDate: "2025-08-20",
+        daysWorked: 8,
+        leaveDays: 2,
+        loanBalance: 0,
+      },
+    }), ctx);
+    assert.strictEqual(setup?.lastPaidThrough, "2025-08-10");
+    assert.strictEqual(setup?.salary.workedDays, 8);
+    assert.deepStrictEqual(setup?.leave, {days: 2, dailyRate: 1363.64});
+    assert.strictEqual(setup?.cashAdvanceBalance, 1200);
+    assert.deepStrictEqual(setup?.thirteenth, {
+      year: 2025,
+      basicPayEarned: 29000,
+      payslipCount: 2,
+      alreadyPaid: 1000,
+      exemptUsed: 1000,
+    });
+    assert.deepStrictEqual(
+      setup?.ytd,
+      {ytdTaxableIncome: 27000, ytdWithholdingTax: 900},
+    );
+  });
+
+  it("refuses a final pay before the separation cutoff is reached", () => {
+    const ctx = historyContext({type: "final_pay"});
+    const meta = ctx.employees.emp1;
+    assert.strictEqual(
+      finalPayGap(meta, ctx.history?.emp1 as PayHistory, "2025-08-20"),
+      null,
+    );
+    assert.match(
+      String(finalPayGap(meta, ctx.history?.emp1 as PayHistory, "2025-09-15")),
+      /up to 2025-09-11 first/,
+    );
+  });
+
+  it("annualizes from the payslips once year-end is applied", () => {
+    const ctx = historyContext({});
+    assert.strictEqual(
+      buildDraftPayrollInput(published(), ctx).yearEnd,
+      undefined,
+    );
+    assert.deepStrictEqual(
+      buildDraftPayrollInput(published({yearEnd: {year: 2025}}), ctx).yearEnd,
+      {ytdTaxableIncome: 27000, ytdWithholdingTax: 900, payslipCount: 3},
+    );
+  });
+
+  it("annualizes the excess of a 13th month run not approved yet", () => {
+    const ctx = context(withUid);
+    const slips: HistoryPayslip[] = [...payslips(), {
+      employeeDocId: "emp1", draftId: "f", cutoffEnd: "2025-12-10",
+      details: {output: {cutoffPay: 1171000, taxableIncome: 0}},
+    }];
+    const history = payHistory(slips, 2025, ctx.employees, "d1", ["emp1"]);
+    // 1,200,000 ÷ 12 less the 1,000 released; 89,000 of the ceiling is left
+    assert.strictEqual(history.emp1.thirteenthPendingTaxable, 10000);
+    assert.deepStrictEqual(
+      buildDraftPayrollInput(
+        published({yearEnd: {year: 2025}}),
+        {...ctx, history},
+      ).yearEnd,
+      {ytdTaxableIncome: 37000, ytdWithholdingTax: 900, payslipCount: 4},
+    );
+  });
+});
@@ -0,0 +1,94 @@
+// Pure payroll rules from src/utils — no emulator needed.
+import * as assert from "assert";
+import {
+  calculatePayroll,
+  type PayrollInput,
+} from "../../src/utils/payrollLogic";
+import {
+  freelancerItemsDue,
+  type FreelancerItem,
+} from "../../src/utils/freelancerPay";
+
+/**
+ * An approved deliverable delivered Aug 20.
+ * @param {Partial<FreelancerItem>} over Fields to override.
+ * @return {FreelancerItem} The item.
+ */
+function item(over: Partial<FreelancerItem>): FreelancerItem {
+  return {
+    id: "f1",
+    project: "Product video",
+    quantity: 2,
+    rate: 5000,
+    deliveredOn: "2025-08-20",
+    status: "approved",
+    ...over,
+  };
+}
+
+/**
+ * A freelancer's Aug 11–25 line with contributions ticked by mistake.
+ * @param {Partial<PayrollInput>} over Fields to override.
+ * @return {PayrollInput} The payroll input.
+ */
+function freelancer(over: Partial<PayrollInput> = {}): PayrollInput {
+  return {
+    monthlySalary: 0,
+    workedDays: 0,
+    cutoffWorkingDays: 11,
+    otHours: 0,
+    ndHours: 0,
+    rdotHours: 0,
+    holiday30Hours: 0,
+    holidayDoubleHours: 0,
+    holidayOtDoubleHours: 0,
+    tardinessMinutes: 0,
+    category: "freelancer",
+    benefits: {sss: true, pagibig: true, philhealth: true},
+    cashAdvance: {
+      totalAmount: 0,
+      perCutOff: 0,
+      currentCutOff: "second",
+      startDateCutOff: "first",
+      approved: false,
+    },
+    asOf: "2025-08-25",
+    freelancerItems: freelancerItemsDue([
+      item({id: "f1"}),
+      item({id: "f2", project: "Photo set", quantity: 1, rate: 2500}),
+    ], "2025-08-25"),
+    ...over,
+  };
+}
+
+describe("freelancer pay", () => {
+  it("pays approved deliverables delivered by the cutoff end once", () => {
+    const due = freelancerItemsDue([
+      item({id: "f1"}),
+      item({id: "f2", deliveredOn: "2025-08-26"}),
+      item({id: "f3", status: "pending"}),
+      item({id: "f4", status: undefined}),
+      item({id: "f5", status: "paid", paidDraftId: "d0"}),
+      item({id: "f6", status: "paid", paidDraftId: "d1"}),
+      item({id: "f7", quantity: 0}),
+    ], "2025-08-25", "d1");
+    assert.deepStrictEqual(due.map((it) => it.itemId), ["f1", "f6"]);
+  });
+
+  it("withholds EWT on the fees instead of contributions and tax", () => {
+    const out = calculatePayroll(freelancer());
+    assert.strictEqual(out.freelancerFees, 12500);
+    assert.deepStrictEqual(out.freelancerItems.map((it) => it.amount),
+      [10000, 2500]);
+    assert.deepStrictEqual(
+      [out.ewtRate, out.expandedWithholdingTax, out.sss, out.withholdingTax],
+      [10, 1250, 0, 0],
+    );
+    assert.strictEqual(out.netPay, 11250);
+  });
+
+  it("uses the EWT rate set on the employee", () => {
+    const out = calculatePayroll(freelancer({ewtRate: 5}));
+    assert.strictEqual(out.expandedWithholdingTax, 625);
+  });
+});
@@ -0,0 +1,57 @@
+// Pure payroll rules from src/utils — no emulator needed.
+import * as assert from "assert";
+import {
+  classifyDay,
+  previousWorkday,
+  regularHolidaysInRange,
+  toDateKey,
+  type HolidayLite,
+} from "../../src/utils/holidays";
+
+const holidays: HolidayLite[] = [
+  {name: "Christmas Day", date: "2000-12-25", recurring: true},
+  {name: "Ninoy Aquino Day", date: "2025-08-21", recurring: false,
+    type: "special_working"},
+  {name: "Company foundation", date: "2025-08-22", recurring: false,
+    type: "special_non_working"},
+  {name: "National Heroes Day", date: "2025-08-25", recurring: false,
+    type: "regular"},
+  {name: "Eid al-Adha", date: "2025-08-25", recurring: false,
+    type: "regular"},
+];
+
+describe("holiday classification", () => {
+  it("reads dates typed either way as the same day", () => {
+    assert.strictEqual(toDateKey("08/05/2025"), "2025-08-05");
+    assert.strictEqual(toDateKey("2025-08-05"), "2025-08-05");
+    assert.strictEqual(toDateKey("not a date"), null);
+  });
+
+  it("classifies a day by its holidays and whether it is a rest day", () => {
+    assert.strictEqual(classifyDay("2025-12-25", holidays), "regular_holiday");
+    assert.strictEqual(
+      classifyDay("2025-12-25", holidays, true),
+      "regular_holiday_rest_day",
+    );
+    assert.strictEqual(classifyDay("2025-08-25", holidays), "double_holiday");
+    assert.strictEqual(classifyDay("2025-08-22", holidays), "special");
+    assert.strictEqual(classifyDay("2025-08-23", holidays), "rest_day");
+  });
+
+  it("pays a special working holiday as an ordinary day", () => {
+    assert.strictEqual(classifyDay("2025-08-21", holidays), "regular");
+  });
+
+  it("counts the regular holidays sharing a workday", () => {
+    const start = new Date(2025, 7, 11);
+    const end = new Date(2025, 7, 25);
+    assert.deepStrictEqual(regularHolidaysInRange(start, end, holidays), [
+      {date: "2025-08-25", count: 2},
+    ]);
+  });
+
+  it("finds the workday before a holiday past rest days and holidays", () => {
+    // Sat–Sun and the special non-working Friday are skipped
+    assert.strictEqual(previousWorkday("2025-08-25", holidays), "2025-08-21");
+  });
+});
@@ -0,0 +1,124 @@
+// Pure payroll rules from src/utils — no emulator needed.
+import * as assert from "assert";
+import {
+  calculatePayroll,
+  type PayrollInput,
+} from "../../src/utils/payrollLogic";
+import {dueLoans, loanLabel, type Loan} from "../../src/utils/loans";
+import {calculateFinalPay} from "../../src/utils/finalPay";
+import {cutoffContaining} from "../../src/utils/paySegments";
+
+/**
+ * An active SSS salary loan of emp1 from the Aug 11–25 cutoff on.
+ * @param {Partial<Loan>} over Fields to override.
+ * @return {Loan} The loan.
+ */
+function loan(over: Partial<Loan> = {}): Loan {
+  return {
+    id: "l1",
+    employeeId: "emp1",
+    employeeName: "Juan Dela Cruz",
+    type: "sss_salary",
+    reference: "SL-001",
+    principal: 20000,
+    amortization: 1000,
+    startCutoff: "2025-08-11",
+    balance: 20000,
+    status: "active",
+    ...over,
+  };
+}
+
+/**
+ * A core employee on ₱30,000/month, Aug 11–25, without contributions.
+ * @param {Partial<PayrollInput>} over Fields to override.
+ * @return {PayrollInput} The payroll input.
+ */
+function core(over: Partial<PayrollInput> = {}): PayrollInput {
+  return {
+    monthlySalary: 30000,
+    workedDays: 11,
+    cutoffWorkingDays: 11,
+    otHours: 0,
+    ndHours: 0,
+    rdotHours: 0,
+    holiday30Hours: 0,
+    holidayDoubleHours: 0,
+    holidayOtDoubleHours: 0,
+    tardinessMinutes: 0,
+    category: "core",
+    benefits: {sss: false, pagibig: false, philhealth: false},
+    cashAdvance: {
+      totalAmount: 0,
+      perCutOff: 0,
+      currentCutOff: "second",
+      startDateCutOff: "first",
+      approved: false,
+    },
+    asOf: "2025-08-25",
+    ...over,
+  };
+}
+
+describe("loans", () => {
+  it("labels a loan with its type and reference", () => {
+    assert.strictEqual(loanLabel(loan()), "SSS Salary Loan #SL-001");
+    assert.strictEqual(loanLabel(loan({type: "company", reference: null})),
+      "Company Loan");
+  });
+
+  it("deducts active loans with a balance from their start cutoff", () => {
+    const due = dueLoans([
+      loan(),
+      loan({id: "l2", startCutoff: "2025-08-26"}),
+      loan({id: "l3", status: "paid", balance: 0}),
+      loan({id: "l4", balance: 0}),
+    ], "2025-08-25");
+    assert.deepStrictEqual(due, {
+      emp1: [{loanId: "l1", label: "SSS Salary Loan #SL-001",
+        amortization: 1000, balance: 20000}],
+    });
+  });
+
+  it("never deducts more than the balance left", () => {
+    const out = calculatePayroll(core({loans: [
+      {loanId: "l1", label: "SSS Salary Loan", amortization: 1000,
+        balance: 20000},
+      {loanId: "l2", label: "Company Loan", amortization: 1000,
+        balance: 400},
+    ]}));
+    assert.deepStrictEqual(
+      out.loanDeductions.map((l) => [l.loanId, l.amount, l.balanceAfter]),
+      [["l1", 1000, 19000], ["l2", 400, 0]],
+    );
+    assert.strictEqual(out.loanDeduction, 1400);
+    // 15,000 − 687.45 tax − 1,400
+    assert.strictEqual(out.netPay, 12912.55);
+  });
+
+  it("deducts the whole balance on final pay", () => {
+    const out = calculateFinalPay({
+      separationDate: "2025-08-25",
+      lastPaidThrough: "2025-08-10",
+      salary: core({loans: [{loanId: "l1", label: "SSS Salary Loan",
+        amortization: 1000, balance: 5000}]}),
+      thirteenth: {year: 2025, basicPayEarned: 0, payslipCount: 0,
+        alreadyPaid: 0, exemptUsed: 0},
+      leave: {days: 0, dailyRate: 0},
+      cashAdvanceBalance: 0,
+      loanBalance: 0,
+      ytd: {ytdTaxableIncome: 0, ytdWithholdingTax: 0},
+    });
+    assert.strictEqual(out.loanDeduction, 5000);
+    assert.strictEqual(out.loanDeductions[0].balanceAfter, 0);
+  });
+
+  it("finds the cutoff a date falls in", () => {
+    assert.deepStrictEqual(cutoffContaining("2025-08-20"),
+      {start: "2025-08-11", end: "2025-08-25", half: "second"});
+    assert.deepStrictEqual(cutoffContaining("2025-08-26"),
+      {start: "2025-08-26", end: "2025-09-10", half: "first"});
+    assert.deepStrictEqual(cutoffContaining("2025-01-05"),
+      {start: "2024-12-26", end: "2025-01-10", half: "first"});
+  });
+});
@@ -0,0 +1,53 @@
+// Pure payroll rules from src/utils — no emulator needed.
+import * as assert from "assert";
+import {
+  DEFAULT_OB_RATE_SCHEDULES,
+  normalizeObCategory,
+  resolveObRate,
+  type ObRateSchedule,
+} from "../../src/utils/obRates";
+
+describe("OB rate catalog", () => {
+  it("maps legacy request categories to a catalog key", () => {
+    assert.strictEqual(normalizeObCategory("Shoot"), "videographer");
+    assert.strictEqual(normalizeObCategory("Videographer"), "videographer");
+    assert.strictEqual(normalizeObCategory("Talent"), "talent");
+    assert.strictEqual(normalizeObCategory(undefined), "assisted");
+  });
+
+  it("prefers the employee's own rate for the category", () => {
+    const employeeRates = [
+      {category: "Videographer", rate: 3000},
+      {category: "talent", rate: 0},
+    ];
+    assert.deepStrictEqual(
+      resolveObRate({category: "shoot", employeeRates}),
+      {category: "videographer", rate: 3000, source: "employee"},
+    );
+    // a zero override falls back to the catalog
+    assert.strictEqual(
+      resolveObRate({category: "talent", employeeRates}).rate,
+      2000,
+    );
+  });
+
+  it("pays interns the intern rate whatever the category", () => {
+    assert.deepStrictEqual(
+      resolveObRate({category: "videographer", isIntern: true}),
+      {category: "videographer", rate: 500, source: "intern",
+        effectiveFrom: "2023-01-01"},
+    );
+  });
+
+  it("uses the catalog entry in effect on the cutoff", () => {
+    const schedules: ObRateSchedule[] = [...DEFAULT_OB_RATE_SCHEDULES, {
+      effectiveFrom: "2025-07-01",
+      rates: {assisted: 1600, videographer: 2700, talent: 2200},
+      internRate: 600,
+    }];
+    const rate = (asOf: string) =>
+      resolveObRate({category: "talent", schedules, asOf}).rate;
+    assert.strictEqual(rate("2025-06-30"), 2000);
+    assert.strictEqual(rate("2025-08-25"), 2200);
+  });
+});
@@ -0,0 +1,78 @@
+// Pure payroll rules from src/utils — no emulator needed.
+import * as assert from "assert";
+import {
+  countWorkdays,
+  rateOn,
+  segmentLabel,
+  splitCutoff,
+  type CompensationChange,
+} from "../../src/utils/paySegments";
+
+const history: CompensationChange[] = [
+  {effectiveFrom: "2025-01-01", monthlySalary: 30000},
+  {effectiveFrom: "2025-08-20", monthlySalary: 33000},
+];
+const current = {monthlySalary: 33000, perDayRate: 0};
+
+describe("pay segments", () => {
+  it("counts Monday to Friday, holidays included", () => {
+    assert.strictEqual(countWorkdays("2025-08-11", "2025-08-25"), 11);
+    assert.strictEqual(countWorkdays("2025-08-23", "2025-08-24"), 0);
+  });
+
+  it("prices a date at the pay change in effect on it", () => {
+    assert.deepStrictEqual(rateOn("2025-08-19", current, history), {
+      rate: {monthlySalary: 30000, perDayRate: 0, allowancePerDay: undefined},
+      effectiveFrom: "2025-01-01",
+    });
+    assert.deepStrictEqual(rateOn("2024-12-31", current, history),
+      {rate: current});
+  });
+
+  it("keeps a whole cutoff at one rate in one piece", () => {
+    const cut = splitCutoff({
+      start: "2025-08-26",
+      end: "2025-09-10",
+      history,
+      current,
+    });
+    assert.strictEqual(cut.split, false);
+    assert.strictEqual(cut.segments[0].workingDays, 12);
+  });
+
+  it("splits a cutoff on the hire date and a pay change", () => {
+    const cut = splitCutoff({
+      start: "2025-08-11",
+      end: "2025-08-25",
+      hireDate: "2025-08-18",
+      history,
+      current,
+    });
+    assert.deepStrictEqual(
+      cut.segments.map((s) => [s.start, s.end, s.startReason, s.endReason,
+        s.workingDays, s.rate.monthlySalary]),
+      [
+        ["2025-08-18", "2025-08-19", "hire", "rate_change", 2, 30000],
+        ["2025-08-20", "2025-08-25", "rate_change", "cutoff", 4, 33000],
+      ],
+    );
+    assert.strictEqual(cut.split, true);
+    assert.strictEqual(segmentLabel(cut.segments[0]), "Aug 18–Aug 19 (hired)");
+  });
+
+  it("ends the last segment on the separation date", () => {
+    const cut = splitCutoff({
+      start: "2025-08-26",
+      end: "2025-09-10",
+      separationDate: "2025-09-03",
+      history,
+      current,
+    });
+    assert.deepStrictEqual(
+      cut.segments.map((s) => [s.end, s.endReason, s.workingDays]),
+      [["2025-09-03", "separation", 7]],
+    );
+    assert.strictEqual(segmentLabel(cut.segments[0]),
+      "Aug 26–Sep 3 (separated)");
+  });
+});
@@ -0,0 +1,488 @@
+// Runs against the Firestore emulator: npm test (firebase emulators:exec).
+import * as assert from "assert";
+import functionsTest from "firebase-functions-test";
+import {
+  getFirestore,
+  Timestamp,
+  type Firestore,
+} from "firebase-admin/firestore";
+import type {
+  CallableFunction,
+  CallableRequest,
+} from "firebase-functions/v2/https";
+
+const fft = functionsTest({projectId: "demo-payflow"});
+
+let fns: typeof import("../src/index");
+let db: Firestore;
+
+/**
+ * Calls a wrapped callable as a signed-in user holding `roles`.
+ * @param {CallableFunction} fn The callable.
+ * @param {object} data The payload.
+ * @param {string[] | null} roles The caller's roles; null = signed out.
+ * @return {Promise<unknown>} The callable's result.
+ */
+function call(
+  fn: CallableFunction<unknown, unknown>,
+  data: object,
+  roles: string[] | null,
+): Promise<unknown> {
+  const request = {
+    data,
+    auth: roles ?
+      {uid: "u1", token: {roles, email: "admin@example.com"}} :
+      undefined,
+    rawRequest: {},
+    acceptsStreaming: false,
+  } as unknown as CallableRequest;
+  return Promise.resolve(fft.wrap(fn)(request));
+}
+
+/**
+ * Asserts the call fails with an HttpsError of `code`.
+ * @param {Promise<unknown>} p The pending call.
+ * @param {string} code The expected error code.
+ */
+async function rejectsWith(p: Promise<unknown>, code: string): Promise<void> {
+  await assert.rejects(p, (e: {code?: string}) => e.code === code);
+}
+
+/** One freelancer with an approved deliverable and an open cash advance. */
+async function seed(): Promise<void> {
+  await db.doc("employees/emp1").set({
+    name: "Ana Cruz",
+    email: "Ana@Example.com",
+    uid: "uid-ana",
+    category: "freelancer",
+    freelancerItems: [{
+      id: "fi1",
+      project: "Logo",
+      quantity: 2,
+      rate: 5000,
+      deliveredOn: "2025-08-20",
+      status: "approved",
+    }],
+  });
+  await db.doc("cashAdvances/ca1").set({
+    employeeId: "emp1",
+    employeeName: "Ana Cruz",
+    totalAmount: 2000,
+    balance: 2000,
+    perCutOff: 1000,
+    startDateCutOff: "first",
+    approved: true,
+    status: "approved",
+  });
+  await db.doc("payrollDrafts/d1").set({
+    status: "pending_admin",
+    type: "regular",
+    periodKey: "2025-08-2",
+    cutoffLabel: "Aug 11–25, 2025",
+    cutoffStart: "2025-08-11",
+    cutoffEnd: "2025-08-25",
+    workedDays: 11,
+    // a tampered client wrote these — the functions never read them
+    totals: {count: 1, gross: 999999, net: 999999},
+  });
+  await db.doc("payrollDrafts/d1/lines/emp1").set({
+    employeeId: "emp1",
+    name: "Ana Cruz",
+    daysWorked: 0,
+    timeInOut: [],
+  });
+}
+
+describe("payroll functions", () => {
+  before(async () => {
+    fns = await import("../src/index");
+    db = getFirestore();
+  });
+
+  beforeEach(async () => {
+    for (const c of await db.listCollections()) await db.recursiveDelete(c);
+    await seed();
+  });
+
+  after(() => fft.cleanup());
+
+  describe("recomputePayrollDraft", () => {
+    it("rejects signed-out callers and callers without a payroll role",
+      async () => {
+        const fn = fns.recomputePayrollDraft;
+        await rejectsWith(call(fn, {draftId: "d1"}, null), "unauthenticated");
+        await rejectsWith(
+          call(fn, {draftId: "d1"}, ["employee"]),
+          "permission-denied",
+        );
+      });
+
+    it("stores totals computed from server-side inputs", async () => {
+      const totals = await call(
+        fns.recomputePayrollDraft,
+        {draftId: "d1"},
+        ["finance"],
+      );
+      // 2 × 5,000 fees − 10% EWT − 1,000 cash advance
+      assert.deepStrictEqual(totals, {count: 1, gross: 10000, net: 8000});
+      const head = (await db.doc("payrollDrafts/d1").get()).data();
+      assert.deepStrictEqual(head?.totals, {count: 1, gross: 10000, net: 8000});
+    });
+
+    it("adds the commission rules due in the cutoff once", async () => {
+      await db.doc("employees/emp1").update({
+        commissionRules: [{id: "r1", amount: 2000, payrollMonths: ["2025-08"]}],
+      });
+      await db.doc("payrollDrafts/d1").update({status: "draft"});
+      for (let i = 0; i < 2; i++) {
+        const totals = await call(
+          fns.recomputePayrollDraft,
+          {draftId: "d1"},
+          ["finance"],
+        ) as {gross: number};
+        assert.strictEqual(totals.gross, 12000);
+      }
+      const comms = await db
+        .collection("payrollDrafts/d1/lines/emp1/commissions").get();
+      assert.deepStrictEqual(comms.docs.map((d) => d.id), ["rule_r1"]);
+    });
+
+    it("sums a 13th month run from the payslips, not the line", async () => {
+      await db.doc("employees/emp2").set({
+        name: "Ben Reyes",
+        category: "core",
+        monthlySalary: 30000,
+      });
+      await db.doc("payslips/old_emp2").set({
+        employeeDocId: "emp2",
+        draftId: "old",
+        status: "ready",
+        payrollType: "regular",
+        cutoffEnd: "2025-08-25T15:59:59.999Z",
+        details: {output: {cutoffPay: 15000}},
+      });
+      await db.doc("payrollDrafts/d13").set({
+        status: "draft",
+        type: "thirteenth_month",
+        year: 2025,
+        periodKey: "2025_13th_month",
+        cutoffLabel: "13th Month Pay 2025",
+        cutoffStart: "2025-01-01T00:00:00.000Z",
+        cutoffEnd: "2025-12-31T15:59:59.999Z",
+      });
+      await db.doc("payrollDrafts/d13/lines/emp2").set({
+        employeeId: "emp2",
+        name: "Ben Reyes",
+        daysWorked: 0,
+        timeInOut: [],
+        // a tampered client wrote this — the functions never read it
+        thirteenthMonth: {year: 2025, amount: 999999, taxable: 0},
+      });
+      const totals = await call(
+        fns.recomputePayrollDraft,
+        {draftId: "d13"},
+        ["finance"],
+      );
+      // 15,000 ÷ 12
+      assert.deepStrictEqual(totals, {count: 1, gross: 1250, net: 1250});
+    });
+
+    it("pins the pay rules on the first recompute", async () => {
+      await call(fns.recomputePayrollDraft, {draftId: "d1"}, ["finance"]);
+      const head = (await db.doc("payrollDrafts/d1").get()).data();
+      assert.strictEqual(head?.payRules?.asOf, "2025-08-25");
+      assert.strictEqual(head?.payRulesPinnedBy, "admin@example.com");
+
+      // a later catalog edit (5% EWT) leaves the draft's numbers alone
+      await db.doc("payRules/2025").set({
+        effectiveFrom: "2025-01-01",
+        internDailyAllowance: 125,
+        ownerCutoffPay: 60000,
+        freelancerEwtRate: 5,
+      });
+      const totals = await call(
+        fns.recomputePayrollDraft,
+        {draftId: "d1"},
+        ["finance"],
+      );
+      assert.deepStrictEqual(totals, {count: 1, gross: 10000, net: 8000});
+    });
+  });
+
+  describe("approvePayrollDraft", () => {
+    it("is reserved to admin_final", async () => {
+      await rejectsWith(
+        call(fns.approvePayrollDraft, {draftId: "d1"}, ["finance", "exec"]),
+        "permission-denied",
+      );
+      assert.strictEqual((await db.collection("payslips").get()).size, 0);
+    });
+
+    it("requires the draft to await final approval", async () => {
+      await db.doc("payrollDrafts/d1").update({status: "pending_exec"});
+      await rejectsWith(
+        call(fns.approvePayrollDraft, {draftId: "d1"}, ["admin_final"]),
+        "failed-precondition",
+      );
+    });
+
+    it("writes payslips and posts the ledgers", async () => {
+      const res = await call(
+        fns.approvePayrollDraft,
+        {draftId: "d1"},
+        ["admin_final"],
+      );
+      assert.deepStrictEqual(res, {status: "approved", done: 1, total: 1});
+
+      const slips = await db.collection("payslips").get();
+      assert.strictEqual(slips.size, 1);
+      assert.strictEqual(slips.docs[0].id, "d1_emp1");
+      const slip = slips.docs[0].data();
+      assert.strictEqual(slip.employeeId, "uid-ana");
+      assert.strictEqual(slip.employeeEmail, "ana@example.com");
+      assert.strictEqual(slip.grossEarnings, 10000);
+      assert.strictEqual(slip.totalDeductions, 2000);
+      assert.strictEqual(slip.netPay, 8000);
+      assert.deepStrictEqual(
+        slip.deductions.map((d: {label: string}) => d.label),
+        ["Cash Advance", "Expanded Withholding Tax (EWT)"],
+      );
+
+      const head = (await db.doc("payrollDrafts/d1").get()).data();
+      assert.strictEqual(head?.status, "approved");
+      assert.strictEqual(head?.adminApproval.uid, "u1");
+      assert.deepStrictEqual(head?.totals, {count: 1, gross: 10000, net: 8000});
+      assert.strictEqual(head?.approvalJob.state, "done");
+      assert.strictEqual(head?.approvalJob.done, 1);
+
+      const ca = (await db.doc("cashAdvances/ca1").get()).data();
+      assert.strictEqual(ca?.balance, 1000);
+      const ledger = await db.collection("cashAdvances/ca1/ledger").get();
+      assert.strictEqual(ledger.size, 1);
+      assert.strictEqual(ledger.docs[0].id, "d1_emp1");
+      assert.strictEqual(ledger.docs[0].get("payslipId"), "d1_emp1");
+
+      const emp = (await db.doc("employees/emp1").get()).data();
+      assert.strictEqual(emp?.freelancerItems[0].status, "paid");
+      assert.strictEqual(emp?.freelancerItems[0].paidDraftId, "d1");
+    });
+
+    it("pays each line once however often it is called", async () => {
+      const approve = () =>
+        call(fns.approvePayrollDraft, {draftId: "d1"}, ["admin_final"]);
+      // a double click: the second call finds the first holding the lease
+      await Promise.all([approve(), approve()]);
+      assert.deepStrictEqual(
+        await approve(),
+        {status: "approved", done: 1, total: 1},
+      );
+
+      assert.strictEqual((await db.collection("payslips").get()).size, 1);
+      const ca = (await db.doc("cashAdvances/ca1").get()).data();
+      assert.strictEqual(ca?.balance, 1000);
+      const ledger = await db.collection("cashAdvances/ca1/ledger").get();
+      assert.strictEqual(ledger.size, 1);
+    });
+
+    it("draws an advance down from its current balance across drafts",
+      async () => {
+        // each draft pays Ana a fee entered on the line, not a deliverable
+        await db.doc("employees/emp1").update({freelancerItems: []});
+        await db.doc("payrollDrafts/d1/lines/emp1").update({
+          adjustmentsTotal: 5000,
+        });
+        const head = (await db.doc("payrollDrafts/d1").get()).data();
+        const line = (await db.doc("payrollDrafts/d1/lines/emp1").get()).data();
+        await db.doc("payrollDrafts/d2").set(head || {});
+        await db.doc("payrollDrafts/d2/lines/emp1").set(line || {});
+        const approve = (draftId: string) =>
+          call(fns.approvePayrollDraft, {draftId}, ["admin_final"]);
+
+        // both drafts may load the advance at 2,000; whichever pays second
+        // aborts instead of writing a stale balance, and is approved again
+        const runs = await Promise.allSettled([approve("d1"), approve("d2")]);
+        for (const [i, run] of runs.entries()) {
+          if (run.status === "fulfilled") continue;
+          assert.strictEqual((run.reason as {code?: string}).code, "aborted");
+          await approve(`d${i + 1}`);
+        }
+
+        const ca = (await db.doc("cashAdvances/ca1").get()).data();
+        assert.strictEqual(ca?.balance, 0);
+        const ledger = await db.collection("cashAdvances/ca1/ledger").get();
+        assert.deepStrictEqual(
+          ledger.docs
+            .map((d) => [d.get("balanceBefore"), d.get("balanceAfter")])
+            .sort((a, b) => b[0] - a[0]),
+          [[2000, 1000], [1000, 0]],
+        );
+      });
+
+    it("recovers a carry-forward once across drafts", async () => {
+      await db.doc("carryForwards/cf1").set({
+        employeeId: "emp1",
+        employeeName: "Ana Cruz",
+        amount: 500,
+        status: "open",
+        sourceDraftId: "d0",
+      });
+      await db.doc("employees/emp1").update({freelancerItems: []});
+      await db.doc("payrollDrafts/d1/lines/emp1").update({
+        adjustmentsTotal: 5000,
+      });
+      const head = (await db.doc("payrollDrafts/d1").get()).data();
+      const line = (await db.doc("payrollDrafts/d1/lines/emp1").get()).data();
+      await db.doc("payrollDrafts/d2").set(head || {});
+      await db.doc("payrollDrafts/d2/lines/emp1").set(line || {});
+      const approve = (draftId: string) =>
+        call(fns.approvePayrollDraft, {draftId}, ["admin_final"]);
+
+      const runs = await Promise.allSettled([approve("d1"), approve("d2")]);
+      for (const [i, run] of runs.entries()) {
+        if (run.status === "fulfilled") continue;
+        assert.strictEqual((run.reason as {code?: string}).code, "aborted");
+        await approve(`d${i + 1}`);
+      }
+
+      const slips = await db.collection("payslips").get();
+      assert.strictEqual(slips.size, 2);
+      const recovering = slips.docs.filter((d) =>
+        (d.get("details.carryForwardIds") || []).includes("cf1"));
+      assert.strictEqual(recovering.length, 1);
+      const cf = (await db.doc("carryForwards/cf1").get()).data();
+      assert.strictEqual(cf?.status, "recovered");
+      assert.strictEqual(cf?.recoveredPayslipId, recovering[0].id);
+    });
+
+    it("resumes an interrupted run, paying only the missing lines",
+      async () => {
+        await db.doc("employees/emp2").set({
+          name: "Ben Reyes",
+          category: "freelancer",
+          freelancerItems: [{
+            id: "fi2",
+            project: "Banner",
+            quantity: 1,
+            rate: 3000,
+            deliveredOn: "2025-08-21",
+            status: "approved",
+          }],
+        });
+        await db.doc("payrollDrafts/d1/lines/emp2").set({
+          employeeId: "emp2",
+          name: "Ben Reyes",
+          daysWorked: 0,
+          timeInOut: [],
+        });
+        // the earlier run paid Ana, then died holding a lease since lapsed
+        await db.doc("payslips/d1_emp1").set({
+          draftId: "d1",
+          netPay: 8000,
+          details: {output: {grossEarnings: 10000}, commissions: 0},
+        });
+        await db.doc("payrollDrafts/d1").update({
+          approvalJob: {
+            state: "running",
+            total: 2,
+            done: 1,
+            leaseUntil: Timestamp.fromMillis(Date.now() - 1000),
+          },
+        });
+
+        const res = await call(
+          fns.approvePayrollDraft,
+          {draftId: "d1"},
+          ["admin_final"],
+        );
+        assert.deepStrictEqual(res, {status: "approved", done: 2, total: 2});
+
+        assert.strictEqual((await db.collection("payslips").get()).size, 2);
+        // Ana's payslip and ledgers are left as the first run wrote them
+        const ana = await db.doc("payslips/d1_emp1").get();
+        assert.strictEqual(ana.get("employeeName"), undefined);
+        const ca = (await db.doc("cashAdvances/ca1").get()).data();
+        assert.strictEqual(ca?.balance, 2000);
+        const ben = (await db.doc("payslips/d1_emp2").get()).data();
+        assert.strictEqual(ben?.netPay, 2700); // 3,000 − 10% EWT
+
+        const head = (await db.doc("payrollDrafts/d1").get()).data();
+        assert.strictEqual(head?.status, "approved");
+        assert.deepStrictEqual(
+          head?.totals,
+          {count: 2, gross: 13000, net: 10700},
+        );
+      });
+
+    it("counts only the payslips written when a line fails", async () => {
+      await db.doc("employees/emp2").set({
+        name: "Ben Reyes",
+        category: "freelancer",
+        freelancerItems: [{
+          id: "fi2",
+          project: "Banner",
+          quantity: 1,
+          rate: 3000,
+          deliveredOn: "2025-08-21",
+          status: "approved",
+        }],
+      });
+      await db.doc("payrollDrafts/d1/lines/emp2").set({
+        employeeId: "emp2",
+        name: "Ben Reyes",
+        daysWorked: 0,
+        timeInOut: [],
+      });
+      // Ana's ledger entry is already there, so her transaction fails
+      await db.doc("cashAdvances/ca1/ledger/d1_emp1").set({amount: 1000});
+
+      await assert.rejects(
+        call(fns.approvePayrollDraft, {draftId: "d1"}, ["admin_final"]),
+      );
+      const slips = await db.collection("payslips").get();
+      assert.deepStrictEqual(slips.docs.map((d) => d.id), ["d1_emp2"]);
+      const job = (await db.doc("payrollDrafts/d1").get()).get("approvalJob");
+      assert.strictEqual(job.done, 1);
+      assert.strictEqual(job.leaseUntil, null);
+      assert.ok(job.error);
+    });
+
+    it("leaves a draft alone while another run holds the lease", async () => {
+      await db.doc("payrollDrafts/d1").update({
+        approvalJob: {
+          state: "running",
+          total: 1,
+          done: 0,
+          leaseUntil: Timestamp.fromMillis(Date.now() + 60000),
+        },
+      });
+      const res = await call(
+        fns.approvePayrollDraft,
+        {draftId: "d1"},
+        ["admin_final"],
+      );
+      assert.deepStrictEqual(res, {status: "running", done: 0, total: 1});
+      assert.strictEqual((await db.collection("payslips").get()).size, 0);
+    });
+  });
+
+  describe("setPayslipStatus", () => {
+    it("publishes a payslip and rejects unknown statuses", async () => {
+      await db.doc("payslips/p1").set({status: "for_admin_review"});
+      await rejectsWith(
+        call(
+          fns.setPayslipStatus,
+          {payslipId: "p1", status: "paid"},
+          ["finance"],
+        ),
+        "invalid-argument",
+      );
+      await call(
+        fns.setPayslipStatus,
+        {payslipId: "p1", status: "ready"},
+        ["finance"],
+      );
+      assert.strictEqual((await db.doc("payslips/p1").get()).get("status"),
+        "ready");
+    });
+  });
+});
@@ -0,0 +1,161 @@
+// Pure payroll rules from src/utils — no emulator needed.
+import * as assert from "assert";
+import {
+  calculatePayroll,
+  type PayrollInput,
+} from "../../src/utils/payrollLogic";
+import {splitCutoff} from "../../src/utils/paySegments";
+
+/**
+ * A core employee on ₱30,000/month with all contributions, Aug 11–25.
+ * @param {Partial<PayrollInput>} over Fields to override.
+ * @return {PayrollInput} The payroll input.
+ */
+function core(over: Partial<PayrollInput> = {}): PayrollInput {
+  return {
+    monthlySalary: 30000,
+    workedDays: 11,
+    cutoffWorkingDays: 11,
+    otHours: 0,
+    ndHours: 0,
+    rdotHours: 0,
+    holiday30Hours: 0,
+    holidayDoubleHours: 0,
+    holidayOtDoubleHours: 0,
+    tardinessMinutes: 0,
+    category: "core",
+    benefits: {sss: true, pagibig: true, philhealth: true},
+    cashAdvance: {
+      totalAmount: 0,
+      perCutOff: 0,
+      currentCutOff: "second",
+      startDateCutOff: "first",
+      approved: false,
+    },
+    asOf: "2025-08-25",
+    ...over,
+  };
+}
+
+describe("calculatePayroll", () => {
+  describe("a cutoff the employee was not employed in", () => {
+    const cases = {
+      "not yet hired": {hireDate: "2025-09-01"},
+      "already separated": {separationDate: "2025-08-05"},
+    };
+    for (const [name, dates] of Object.entries(cases)) {
+      it(`charges no contributions when ${name}`, () => {
+        const cut = splitCutoff({
+          start: "2025-08-11",
+          end: "2025-08-25",
+          current: {monthlySalary: 30000, perDayRate: 0},
+          ...dates,
+        });
+        assert.deepStrictEqual(cut, {split: true, segments: []});
+
+        const out = calculatePayroll(core({segments: []}));
+        assert.strictEqual(out.grossEarnings, 0);
+        assert.strictEqual(out.sss, 0);
+        assert.strictEqual(out.pagibig, 0);
+        assert.strictEqual(out.philhealth, 0);
+        assert.strictEqual(out.totalDeductions, 0);
+        assert.strictEqual(out.unrecoveredDeductions, 0);
+        assert.strictEqual(out.netPay, 0);
+      });
+    }
+
+    it("still contributes for a cutoff worked in full", () => {
+      const out = calculatePayroll(core());
+      assert.ok(out.sss > 0 && out.pagibig > 0 && out.philhealth > 0);
+    });
+  });
+  describe("a manual cash advance override", () => {
+    it("never deducts more than the advances still owe", () => {
+      const out = calculatePayroll(core({
+        cashAdvance: {
+          totalAmount: 0,
+          perCutOff: 0,
+          currentCutOff: "second",
+          startDateCutOff: "first",
+          approved: true,
+          override: 5000,
+          advances: [
+            {advanceId: "a1", perCutOff: 500, balance: 1200,
+              startDateCutOff: "first"},
+            {advanceId: "a2", perCutOff: 500, balance: 800,
+              startDateCutOff: "first"},
+          ],
+        },
+      }));
+      assert.strictEqual(out.cashAdvanceDeduction, 2000);
+      assert.deepStrictEqual(
+        out.cashAdvanceLines.map((l) => [l.advanceId, l.amount,
+          l.balanceAfter]),
+        [["a1", 1200, 0], ["a2", 800, 0]],
+      );
+    });
+  });
+  describe("year-end annualization", () => {
+    const yearEnd = {ytdTaxableIncome: 316225, ytdWithholdingTax: 9000};
+
+    it("collects the annual tax not yet withheld", () => {
+      const out = calculatePayroll(core({asOf: "2025-12-25", yearEnd}));
+      // 316,225 + this cutoff's 13,775
+      assert.strictEqual(out.annualTaxableIncome, 330000);
+      assert.strictEqual(out.annualTaxDue, 12000);
+      // 12,000 − 9,000 − this cutoff's 503.70
+      assert.strictEqual(out.yearEndTaxAdjustment, 2496.3);
+      assert.strictEqual(out.netPay, 10775);
+    });
+
+    it("refunds what was withheld beyond the annual tax", () => {
+      const out = calculatePayroll(core({
+        asOf: "2025-12-25",
+        yearEnd: {...yearEnd, ytdWithholdingTax: 20000},
+      }));
+      assert.strictEqual(out.yearEndTaxAdjustment, -8503.7);
+    });
+
+    it("leaves interns out", () => {
+      const out = calculatePayroll(core({category: "intern", yearEnd}));
+      assert.strictEqual(out.yearEndTaxAdjustment, 0);
+    });
+  });
+  describe("the computation trace", () => {
+    const out = calculatePayroll(core({
+      workedDays: 10,
+      otHours: 2,
+      tardinessMinutes: 30,
+    }));
+    const step = (key: string) => out.trace.steps.find((s) => s.key === key);
+
+    it("explains each amount with the value on the payslip", () => {
+      const keys = ["cutoffPay", "grossEarnings", "sss", "pagibig",
+        "philhealth", "tardinessDeduction", "absenceDeduction",
+        "taxableIncome", "withholdingTax", "totalDeductions", "netPay"];
+      for (const key of keys) {
+        assert.strictEqual(step(key)?.value,
+          out[key as keyof typeof out], key);
+      }
+      assert.strictEqual(step("premiumLines")?.value, 426.14);
+    });
+
+    it("names the schedule each deduction was read from", () => {
+      assert.strictEqual(step("sss")?.rule,
+        "SSS schedule 2025-01-01 (default)");
+      assert.strictEqual(step("withholdingTax")?.rule,
+        "BIR semi-monthly table 2023-01-01 (default)");
+      assert.strictEqual(out.trace.engineVersion, "payrollLogic/1");
+      assert.match(String(out.trace.rulesVersion), /sss@2025-01-01/);
+    });
+  });
+  describe("a prior period balance", () => {
+    it("stops net pay at zero and reports what it could not deduct", () => {
+      const out = calculatePayroll(core({priorPeriodBalance: 14000}));
+      // 750 SSS + 100 Pag-IBIG + 375 PhilHealth + 503.70 tax + 14,000
+      assert.strictEqual(out.totalDeductions, 15728.7);
+      assert.strictEqual(out.netPay, 0);
+      assert.strictEqual(out.unrecoveredDeductions, 728.7);
+    });
+  });
+});
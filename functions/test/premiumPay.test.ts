@@ -0,0 +1,66 @@
+// Pure payroll rules from src/utils — no emulator needed.
+import * as assert from "assert";
+import {
+  DEFAULT_PREMIUM_MATRIX,
+  WORKDAY_HOLIDAY_TYPES,
+  mergePremiumHours,
+  premiumMultiplier,
+  pricePremiumHours,
+  resolvePremiumMatrix,
+} from "../../src/utils/premiumPay";
+
+const dole = DEFAULT_PREMIUM_MATRIX;
+
+describe("premium pay matrix", () => {
+  it("compounds the day type with overtime", () => {
+    assert.strictEqual(premiumMultiplier(dole, "regular", {ot: true}), 1.25);
+    assert.strictEqual(
+      premiumMultiplier(dole, "regular_holiday_rest_day", {ot: true}),
+      3.38,
+    );
+  });
+
+  it("prices each kind of hour on its own line", () => {
+    const lines = pricePremiumHours(100, {
+      regular_holiday: {hours: 8, otHours: 2, ndHours: 1},
+      rest_day: {ndOtHours: 1},
+    }, dole);
+    assert.deepStrictEqual(
+      lines.map((l) => [l.dayType, l.kind, l.amount]),
+      [
+        ["rest_day", "nd_ot", 16.9], // 1.69 × 10%
+        ["regular_holiday", "hours", 1600],
+        ["regular_holiday", "ot", 520],
+        ["regular_holiday", "nd", 20],
+      ],
+    );
+  });
+
+  it("pays only the premium on holidays already in basic pay", () => {
+    const lines = pricePremiumHours(100, {
+      regular_holiday: {hours: 8},
+      special: {hours: 8},
+      rest_day: {hours: 8},
+    }, dole, {inBasic: WORKDAY_HOLIDAY_TYPES});
+    assert.deepStrictEqual(
+      lines.map((l) => [l.dayType, l.amount]),
+      [["rest_day", 1040], ["special", 240], ["regular_holiday", 800]],
+    );
+  });
+
+  it("keeps the DOLE rates for day types settings leave out", () => {
+    const m = resolvePremiumMatrix({
+      days: {...dole.days, rest_day: {base: 1.5, ot: 1.95}},
+    });
+    assert.strictEqual(m.ndRate, 0.1);
+    assert.deepStrictEqual(m.days.rest_day, {base: 1.5, ot: 1.95});
+    assert.deepStrictEqual(m.days.special, dole.days.special);
+  });
+
+  it("adds hour buckets together", () => {
+    assert.deepStrictEqual(
+      mergePremiumHours({special: {hours: 4}}, {special: {otHours: 1}}),
+      {special: {hours: 4, otHours: 1, ndHours: 0, ndOtHours: 0}},
+    );
+  });
+});
@@ -0,0 +1,90 @@
+// Pure payroll rules from src/utils — no emulator needed.
+import * as assert from "assert";
+import {
+  calculatePayroll,
+  type PayrollInput,
+} from "../../src/utils/payrollLogic";
+import {
+  dueRecurringItems,
+  type RecurringPayItem,
+} from "../../src/utils/recurringItems";
+
+/**
+ * A recurring item on every cutoff from Jan 1, 2025.
+ * @param {Partial<RecurringPayItem>} over Fields to override.
+ * @return {RecurringPayItem} The item.
+ */
+function item(over: Partial<RecurringPayItem>): RecurringPayItem {
+  return {
+    id: "r1",
+    label: "Rice allowance",
+    kind: "earning",
+    taxable: false,
+    amount: 1000,
+    half: "both",
+    startDate: "2025-01-01",
+    ...over,
+  };
+}
+
+const aug2 = {start: "2025-08-11", end: "2025-08-25", half: "second" as const};
+
+describe("recurring pay items", () => {
+  it("keeps the items of the cutoff's half and date range", () => {
+    const due = dueRecurringItems([
+      item({id: "r1"}),
+      item({id: "r2", half: "first"}),
+      item({id: "r3", half: "second", startDate: "2025-08-20"}),
+      item({id: "r4", endDate: "2025-08-10"}),
+      item({id: "r5", startDate: "2025-08-26"}),
+      item({id: "r6", amount: 0}),
+    ], aug2);
+    assert.deepStrictEqual(due.map((r) => r.itemId), ["r1", "r3"]);
+  });
+
+  it("never treats a deduction as taxable", () => {
+    const [due] = dueRecurringItems(
+      [item({kind: "deduction", taxable: true, label: ""})],
+      aug2,
+    );
+    assert.deepStrictEqual(due, {itemId: "r1", label: "Deduction",
+      kind: "deduction", taxable: false, amount: 1000});
+  });
+
+  it("taxes only the taxable earnings and deducts the deductions", () => {
+    const input: PayrollInput = {
+      monthlySalary: 30000,
+      workedDays: 11,
+      cutoffWorkingDays: 11,
+      otHours: 0,
+      ndHours: 0,
+      rdotHours: 0,
+      holiday30Hours: 0,
+      holidayDoubleHours: 0,
+      holidayOtDoubleHours: 0,
+      tardinessMinutes: 0,
+      category: "core",
+      benefits: {sss: false, pagibig: false, philhealth: false},
+      cashAdvance: {
+        totalAmount: 0,
+        perCutOff: 0,
+        currentCutOff: "second",
+        startDateCutOff: "first",
+        approved: false,
+      },
+      asOf: "2025-08-25",
+      recurringItems: dueRecurringItems([
+        item({id: "r1"}),
+        item({id: "r2", label: "Transportation", taxable: true, amount: 500}),
+        item({id: "r3", label: "Uniform", kind: "deduction", amount: 300}),
+      ], aug2),
+    };
+    const out = calculatePayroll(input);
+    assert.strictEqual(out.recurringEarnings, 1500);
+    assert.strictEqual(out.recurringDeductions, 300);
+    assert.strictEqual(out.grossEarnings, 16500);
+    assert.strictEqual(out.taxableIncome, 15500);
+    // 16,500 − 762.45 tax − 300
+    assert.strictEqual(out.netPay, 15437.55);
+  });
+});
@@ -0,0 +1,184 @@
+// Pure payroll rules from src/utils — no emulator needed.
+import * as assert from "assert";
+import type {PayrollInput} from "../../src/utils/payrollLogic";
+import {
+  computeRetroPay,
+  openRetroPay,
+  repriceRetroPay,
+  retroRate,
+  type RetroPayAdjustment,
+  type RetroPayslipLike,
+} from "../../src/utils/retroPay";
+
+/**
+ * A published payslip of a core employee on ₱30,000/month who worked
+ * the whole 11-workday cutoff.
+ * @param {string} id The payslip id.
+ * @param {string} start Cutoff start, YYYY-MM-DD.
+ * @param {string} end Cutoff end, YYYY-MM-DD.
+ * @param {string} employeeDocId Whose payslip it is.
+ * @return {RetroPayslipLike} The payslip.
+ */
+function slip(
+  id: string,
+  start: string,
+  end: string,
+  employeeDocId = "emp1",
+): RetroPayslipLike {
+  const input: PayrollInput = {
+    monthlySalary: 30000,
+    workedDays: 11,
+    cutoffWorkingDays: 11,
+    otHours: 0,
+    ndHours: 0,
+    rdotHours: 0,
+    holiday30Hours: 0,
+    holidayDoubleHours: 0,
+    holidayOtDoubleHours: 0,
+    tardinessMinutes: 0,
+    category: "core",
+    benefits: {sss: false, pagibig: false, philhealth: false},
+    cashAdvance: {
+      totalAmount: 0,
+      perCutOff: 0,
+      currentCutOff: "second",
+      startDateCutOff: "first",
+      approved: false,
+    },
+    asOf: end,
+  };
+  return {
+    id,
+    employeeDocId,
+    status: "ready",
+    periodKey: end,
+    cutoffStart: start,
+    cutoffEnd: end,
+    details: {input},
+  };
+}
+
+/**
+ * An adjustment for the Aug 11 raise naming `payslipIds`.
+ * @param {string} id The adjustment id.
+ * @param {string} status "open" or "applied".
+ * @param {string[]} payslipIds The payslips it reprices.
+ * @return {RetroPayAdjustment} The adjustment, as RetroPayPage saves it.
+ */
+function adjustment(
+  id: string,
+  status: "open" | "applied",
+  payslipIds: string[],
+): RetroPayAdjustment {
+  return {
+    id,
+    employeeId: "emp1",
+    employeeName: "Ana Cruz",
+    effectiveFrom: "2025-08-11",
+    rate: {monthlySalary: 99000, perDayRate: 0},
+    amount: 99999,
+    payslips: payslipIds.map((payslipId) => ({
+      payslipId, before: 0, after: 0, share: 1, difference: 0,
+    })),
+    status,
+  };
+}
+
+const payslips = {
+  p1: slip("p1", "2025-08-11", "2025-08-25"),
+  p2: slip("p2", "2025-08-26", "2025-09-10"),
+  p3: slip("p3", "2025-08-26", "2025-09-10", "emp2"),
+};
+
+const raised = {
+  emp1: {
+    category: "core",
+    compensationHistory: [
+      {effectiveFrom: "2025-01-01", monthlySalary: 30000},
+      {effectiveFrom: "2025-08-11", monthlySalary: 33000},
+    ],
+  },
+};
+
+describe("retro pay repricing", () => {
+  it("reprices at the recorded pay change, not the amount saved", () => {
+    const [a] = repriceRetroPay(
+      [adjustment("a1", "open", ["p1", "p2"])],
+      payslips,
+      raised,
+    );
+    assert.deepStrictEqual(a.rate, {monthlySalary: 33000, perDayRate: 0});
+    // 16,500 − 15,000 on each semi-monthly cutoff
+    assert.strictEqual(a.amount, 3000);
+    assert.deepStrictEqual(a.payslips.map((p) => p.payslipId), ["p1", "p2"]);
+  });
+
+  it("skips payslips already repriced and other employees'", () => {
+    const out = repriceRetroPay(
+      [
+        adjustment("a1", "open", ["p1", "p2", "p3"]),
+        adjustment("a0", "applied", ["p1"]),
+      ],
+      payslips,
+      raised,
+    );
+    assert.deepStrictEqual(out.map((a) => [a.id, a.amount]), [["a1", 1500]]);
+    assert.deepStrictEqual(out[0].payslips.map((p) => p.payslipId), ["p2"]);
+  });
+
+  it("pays nothing when the pay change is no longer recorded", () => {
+    const [a] = repriceRetroPay(
+      [adjustment("a1", "open", ["p1"])],
+      payslips,
+      {emp1: {category: "core", compensationHistory: []}},
+    );
+    assert.strictEqual(a.amount, 0);
+    assert.deepStrictEqual(a.payslips, []);
+  });
+});
+
+describe("retro pay", () => {
+  const raise = {monthlySalary: 33000, perDayRate: 0};
+
+  it("pro-rates a cutoff the raise falls inside by workdays", () => {
+    const out = computeRetroPay([payslips.p1], raise, "2025-08-18");
+    // 1,500 × 6 of 11 workdays
+    assert.strictEqual(out.amount, 818.18);
+    assert.strictEqual(out.payslips[0].share, 0.545);
+  });
+
+  it("reprices absences at the new daily rate too", () => {
+    const p = slip("p4", "2025-08-11", "2025-08-25");
+    const input = p.details?.input as PayrollInput;
+    const absent = {...p, details: {input: {...input, workedDays: 8}}};
+    const [line] = computeRetroPay([absent], raise, "2025-08-11").payslips;
+    // 15,000 − 3 × 15,000 ÷ 11 → 16,500 − 3 × 16,500 ÷ 11
+    assert.deepStrictEqual([line.before, line.after, line.difference],
+      [10909.09, 12000, 1090.91]);
+  });
+
+  it("leaves out earlier cutoffs and 13th month payslips", () => {
+    const early = slip("p0", "2025-07-26", "2025-08-10");
+    const thirteenth = {...payslips.p2, payrollType: "thirteenth_month"};
+    assert.deepStrictEqual(
+      computeRetroPay([early, thirteenth], raise, "2025-08-11"),
+      {amount: 0, payslips: []},
+    );
+  });
+
+  it("reprices probationary employees by the day", () => {
+    const change = {effectiveFrom: "2025-08-11", monthlySalary: 0,
+      perDayRate: 800};
+    assert.deepStrictEqual(retroRate(change, "core_probationary"),
+      {monthlySalary: 0, perDayRate: 800});
+    assert.strictEqual(retroRate(change, "core").perDayRate, 0);
+  });
+
+  it("sums each employee's open adjustments", () => {
+    const open = {...adjustment("a1", "open", []), amount: 1500};
+    const applied = {...adjustment("a0", "applied", []), amount: 700};
+    assert.deepStrictEqual(openRetroPay([open, applied]), {
+      emp1: {amount: 1500, items: [open]},
+    });
+  });
+});
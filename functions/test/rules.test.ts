@@ -0,0 +1,225 @@
+// Runs against the Firestore emulator: npm test (firebase emulators:exec).
+import {readFileSync} from "fs";
+import {resolve} from "path";
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  type RulesTestEnvironment,
+} from "@firebase/rules-unit-testing";
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  setDoc,
+  updateDoc,
+  where,
+} from "firebase/firestore";
+
+let env: RulesTestEnvironment;
+
+const asRole = (...roles: string[]) =>
+  env.authenticatedContext("u1", {roles}).firestore();
+
+// a plain employee, signed in as uid u2
+const asEmployee = () =>
+  env.authenticatedContext("u2", {
+    roles: ["employee"],
+    email: "ana@example.com",
+  }).firestore();
+
+describe("firestore.rules", () => {
+  before(async () => {
+    env = await initializeTestEnvironment({
+      projectId: "demo-payflow",
+      firestore: {
+        rules: readFileSync(
+          resolve(__dirname, "../../firestore.rules"),
+          "utf8",
+        ),
+      },
+    });
+  });
+
+  beforeEach(async () => {
+    await env.clearFirestore();
+    await env.withSecurityRulesDisabled(async (ctx) => {
+      const db = ctx.firestore();
+      await setDoc(doc(db, "payslips/p1"), {
+        employeeId: "u1",
+        employeeEmail: "admin@example.com",
+        netPay: 8000,
+        status: "ready",
+      });
+      await setDoc(doc(db, "payslips/p2"), {
+        employeeId: "u2",
+        employeeEmail: "ana@example.com",
+        netPay: 9000,
+        status: "ready",
+      });
+      await setDoc(doc(db, "employees/u2"), {
+        name: "Ana Cruz",
+        email: "ana@example.com",
+        monthlySalary: 30000,
+      });
+      await setDoc(doc(db, "employees/EMP003"), {
+        employeeId: "EMP003",
+        uid: "u3",
+        name: "Ben Reyes",
+        email: "ben@example.com",
+        monthlySalary: 40000,
+      });
+      await setDoc(doc(db, "loans/l1"), {employeeId: "u2", balance: 5000});
+      await setDoc(doc(db, "users/u2"), {roles: ["employee"]});
+      await setDoc(doc(db, "payrollDrafts/d1"), {
+        status: "pending_admin",
+        totals: {count: 1, gross: 10000, net: 8000},
+      });
+    });
+  });
+
+  after(() => env.cleanup());
+
+  it("lets no client write payslips, whatever its roles", async () => {
+    const db = asRole("admin_final", "finance");
+    await assertSucceeds(getDoc(doc(db, "payslips/p1")));
+    await assertFails(setDoc(doc(db, "payslips/p2"), {netPay: 999999}));
+    await assertFails(updateDoc(doc(db, "payslips/p1"), {netPay: 999999}));
+    await assertFails(updateDoc(doc(db, "payslips/p1"), {status: "rejected"}));
+  });
+
+  it("keeps draft totals and final approval to the functions", async () => {
+    const db = asRole("admin_final");
+    const draft = doc(db, "payrollDrafts/d1");
+    await assertFails(updateDoc(draft, {totals: {net: 999999}}));
+    await assertFails(updateDoc(draft, {status: "approved"}));
+    await assertFails(updateDoc(draft, {adminApproval: {uid: "u1"}}));
+    await assertFails(updateDoc(draft, {approvalJob: {done: 1}}));
+    await assertSucceeds(updateDoc(draft, {status: "rejected"}));
+  });
+
+  it("freezes a draft once final approval has started", async () => {
+    await env.withSecurityRulesDisabled((ctx) =>
+      updateDoc(doc(ctx.firestore(), "payrollDrafts/d1"), {
+        approvalJob: {state: "running", total: 2, done: 1},
+      }));
+    const db = asRole("admin_final", "finance");
+    const draft = doc(db, "payrollDrafts/d1");
+    await assertFails(updateDoc(draft, {status: "rejected"}));
+    await assertFails(setDoc(doc(db, "payrollDrafts/d1/lines/emp1"), {
+      name: "Ana Cruz",
+      daysWorked: 30,
+    }));
+    await assertFails(deleteDoc(draft));
+  });
+
+  it("shows an employee their own payslips only", async () => {
+    const db = asEmployee();
+    await assertSucceeds(getDoc(doc(db, "payslips/p2")));
+    await assertFails(getDoc(doc(db, "payslips/p1")));
+    await assertSucceeds(getDocs(query(
+      collection(db, "payslips"),
+      where("employeeEmail", "==", "ana@example.com"),
+    )));
+    await assertFails(getDocs(collection(db, "payslips")));
+    await assertSucceeds(getDoc(doc(asRole("exec"), "payslips/p2")));
+  });
+
+  it("keeps payroll inputs to payroll staff", async () => {
+    const db = asEmployee();
+    const inputs = [
+      "cashAdvances/ca1", "loans/l1", "carryForwards/cf1", "retroPay/r1",
+      "payRules/2025", "settings/statutory", "holidays/h1", "sales/s1",
+      "commissionPlans/p1", "employees/emp9",
+    ];
+    for (const path of inputs) {
+      await assertFails(setDoc(doc(db, path), {amount: 1}));
+    }
+    await assertFails(updateDoc(doc(db, "employees/u2"), {
+      monthlySalary: 90000,
+    }));
+    await assertFails(updateDoc(doc(db, "employees/u2"), {
+      freelancerItems: [],
+    }));
+    await assertSucceeds(setDoc(doc(asRole("finance"), "loans/l1"), {
+      amount: 1,
+    }));
+  });
+
+  it("lets an employee edit their profile and file requests", async () => {
+    const db = asEmployee();
+    await assertSucceeds(updateDoc(doc(db, "employees/u2"), {
+      email: "ana@example.com",
+    }));
+    // filed requests and older cash advances are matched by name
+    await assertFails(updateDoc(doc(db, "employees/u2"), {name: "Ben Reyes"}));
+    await assertSucceeds(addDoc(collection(db, "requests"), {
+      type: "ob",
+      status: "pending",
+      filedBy: "ana@example.com",
+    }));
+    await assertFails(addDoc(collection(db, "requests"), {
+      type: "ob",
+      status: "approved",
+      filedBy: "ana@example.com",
+    }));
+    await assertSucceeds(addDoc(collection(db, "budgets"), {
+      amount: 1,
+      status: "pending",
+      requesterEmail: "ana@example.com",
+    }));
+    await assertFails(addDoc(collection(db, "budgets"), {
+      amount: 1,
+      status: "approved",
+      requesterEmail: "ana@example.com",
+    }));
+    await assertFails(setDoc(doc(db, "auditLogs/a1"), {action: "x"}));
+  });
+
+  it("shows an employee their own pay and debts only", async () => {
+    const db = asEmployee();
+    await assertSucceeds(getDoc(doc(db, "employees/u2")));
+    await assertFails(getDoc(doc(db, "employees/EMP003")));
+    await assertSucceeds(getDocs(query(
+      collection(db, "employees"),
+      where("email", "==", "ana@example.com"),
+    )));
+    await assertFails(getDocs(collection(db, "employees")));
+    for (const path of ["loans/l1", "payRules/2025", "cashAdvances/ca1"]) {
+      await assertFails(getDoc(doc(db, path)));
+    }
+    const ben = env.authenticatedContext("u3", {email: "ben@example.com"});
+    await assertSucceeds(getDoc(doc(ben.firestore(), "employees/EMP003")));
+    await assertSucceeds(getDoc(doc(asRole("finance"), "loans/l1")));
+  });
+
+  it("keeps roles to admins", async () => {
+    const employee = asEmployee();
+    await assertSucceeds(getDoc(doc(employee, "users/u2")));
+    await assertFails(getDoc(doc(employee, "users/u1")));
+    await assertFails(updateDoc(doc(employee, "users/u2"), {
+      roles: ["admin"],
+    }));
+
+    const finance = asRole("finance");
+    await assertSucceeds(setDoc(doc(finance, "users/u4"), {
+      roles: ["employee"],
+    }));
+    await assertFails(setDoc(doc(finance, "users/u5"), {roles: ["finance"]}));
+    await assertFails(updateDoc(doc(finance, "users/u2"), {
+      roles: ["employee", "finance"],
+    }));
+    await assertSucceeds(updateDoc(doc(asRole("admin_final"), "users/u2"), {
+      roles: ["employee", "finance"],
+    }));
+  });
+
+  it("keeps drafts to payroll staff", async () => {
+    await assertFails(getDoc(doc(asRole("employee"), "payrollDrafts/d1")));
+    await assertSucceeds(getDoc(doc(asRole("exec"), "payrollDrafts/d1")));
+  });
+});
@@ -0,0 +1,216 @@
+// Pure payroll rules from src/utils — no emulator needed.
+import * as assert from "assert";
+import {
+  calculatePayroll,
+  calculateThirteenthMonthPayroll,
+  type CashAdvanceDeductionInput,
+  type PayrollInput,
+} from "../../src/utils/payrollLogic";
+import {
+  basicPayEarned,
+  computeThirteenthMonth,
+  sumBasicPayByEmployee,
+  thirteenthMonthDue,
+} from "../../src/utils/thirteenthMonth";
+import {
+  calculateFinalPay,
+  type FinalPayOutput,
+} from "../../src/utils/finalPay";
+
+/**
+ * A core employee on ₱30,000/month over an 11-workday cutoff.
+ * @param {Partial<PayrollInput>} over Fields to override.
+ * @return {PayrollInput} The payroll input.
+ */
+function core(over: Partial<PayrollInput> = {}): PayrollInput {
+  return {
+    monthlySalary: 30000,
+    workedDays: 11,
+    cutoffWorkingDays: 11,
+    otHours: 0,
+    ndHours: 0,
+    rdotHours: 0,
+    holiday30Hours: 0,
+    holidayDoubleHours: 0,
+    holidayOtDoubleHours: 0,
+    tardinessMinutes: 0,
+    category: "core",
+    benefits: {sss: false, pagibig: false, philhealth: false},
+    cashAdvance: {
+      totalAmount: 0,
+      perCutOff: 0,
+      currentCutOff: "second",
+      startDateCutOff: "first",
+      approved: false,
+    },
+    asOf: "2025-08-25",
+    ...over,
+  };
+}
+
+describe("13th month basic pay", () => {
+  it("counts the full basic for a cutoff without absences", () => {
+    assert.strictEqual(basicPayEarned(calculatePayroll(core())), 15000);
+  });
+
+  it("leaves absences out of basic pay earned", () => {
+    const out = calculatePayroll(core({workedDays: 8}));
+    assert.strictEqual(out.cutoffPay, 15000); // full semi-monthly basic
+    assert.strictEqual(out.absenceDeduction, 4090.91); // 3 × 15,000 ÷ 11
+    assert.strictEqual(basicPayEarned(out), 10909.09);
+
+    const sums = sumBasicPayByEmployee([
+      {employeeDocId: "emp1", cutoffEnd: "2025-08-25", details: {output: out}},
+      {
+        employeeDocId: "emp1",
+        cutoffEnd: "2025-09-10",
+        details: {output: calculatePayroll(core())},
+      },
+    ], 2025);
+    assert.deepStrictEqual(
+      sums.emp1,
+      {basicPayEarned: 25909.09, payslipCount: 2},
+    );
+  });
+
+  it("pro-rates final pay on the last salary's earned basic", () => {
+    const out = calculateFinalPay({
+      separationDate: "2025-08-25",
+      lastPaidThrough: "2025-08-10",
+      salary: core({workedDays: 8}),
+      thirteenth: {
+        year: 2025,
+        basicPayEarned: 0,
+        payslipCount: 0,
+        alreadyPaid: 0,
+        exemptUsed: 0,
+      },
+      leave: {days: 0, dailyRate: 0},
+      cashAdvanceBalance: 0,
+      loanBalance: 0,
+      ytd: {ytdTaxableIncome: 0, ytdWithholdingTax: 0},
+    });
+    // 10,909.09 ÷ 12
+    assert.strictEqual(out.finalPay.thirteenthMonth.amount, 909.09);
+  });
+});
+
+describe("final pay cash advances", () => {
+  /**
+   * Final pay for Aug 11–25 with `cashAdvanceBalance` entered at setup.
+   * @param {CashAdvanceDeductionInput[]} advances Open advances, if loaded.
+   * @return {FinalPayOutput} The final pay.
+   */
+  function finalPay(
+    advances?: CashAdvanceDeductionInput[],
+  ): FinalPayOutput {
+    const base = core();
+    return calculateFinalPay({
+      separationDate: "2025-08-25",
+      lastPaidThrough: "2025-08-10",
+      salary: {...base, cashAdvance: {...base.cashAdvance, advances}},
+      thirteenth: {
+        year: 2025,
+        basicPayEarned: 0,
+        payslipCount: 0,
+        alreadyPaid: 0,
+        exemptUsed: 0,
+      },
+      leave: {days: 0, dailyRate: 0},
+      cashAdvanceBalance: 500,
+      loanBalance: 0,
+      ytd: {ytdTaxableIncome: 0, ytdWithholdingTax: 0},
+    });
+  }
+
+  it("deducts every open advance in full, whatever was entered", () => {
+    const out = finalPay([
+      {advanceId: "a1", perCutOff: 500, balance: 1200,
+        startDateCutOff: "second"},
+      {advanceId: "a2", perCutOff: 300, balance: 800,
+        startDateCutOff: "first"},
+    ]);
+    assert.strictEqual(out.cashAdvanceDeduction, 2000);
+    assert.deepStrictEqual(
+      out.cashAdvanceLines.map((l) => l.balanceAfter),
+      [0, 0],
+    );
+    assert.strictEqual(out.finalPay.cashAdvanceBalance, 2000);
+  });
+
+  it("deducts the balance entered when the advances are not loaded", () => {
+    assert.strictEqual(finalPay().cashAdvanceDeduction, 500);
+  });
+});
+
+describe("13th month amount", () => {
+  it("pays a twelfth of the year's basic, exempt up to ₱90,000", () => {
+    const small = computeThirteenthMonth(2025, 360000, 24);
+    assert.deepStrictEqual([small.amount, small.exempt, small.taxable],
+      [30000, 30000, 0]);
+    const big = computeThirteenthMonth(2025, 1200000, 24);
+    assert.deepStrictEqual([big.amount, big.exempt, big.taxable],
+      [100000, 90000, 10000]);
+  });
+
+  it("leaves out of the ceiling what earlier releases used", () => {
+    const t = computeThirteenthMonth(2025, 1200000, 24, 85000);
+    assert.deepStrictEqual([t.exempt, t.taxable], [5000, 95000]);
+  });
+
+  it("pays only what was not released earlier in the year", () => {
+    const full = computeThirteenthMonth(2025, 1200000, 24);
+    const due = thirteenthMonthDue(full, 30000, 30000);
+    assert.deepStrictEqual(
+      [due.amount, due.exempt, due.taxable, due.alreadyPaid],
+      [70000, 60000, 10000, 30000],
+    );
+    assert.strictEqual(thirteenthMonthDue(full, 120000, 90000).amount, 0);
+  });
+
+  it("sums regular payslips of the year only", () => {
+    const output = {cutoffPay: 15000};
+    const sums = sumBasicPayByEmployee([
+      {employeeDocId: "emp1", cutoffEnd: "2025-01-10", details: {output}},
+      {employeeDocId: "emp1", cutoffEnd: "2024-12-25", details: {output}},
+      {employeeDocId: "emp1", cutoffEnd: "2025-02-10", status: "rejected",
+        details: {output}},
+      {employeeDocId: "emp1", cutoffEnd: "2025-12-20",
+        payrollType: "thirteenth_month", details: {output}},
+    ], 2025);
+    assert.deepStrictEqual(sums, {
+      emp1: {basicPayEarned: 15000, payslipCount: 1},
+    });
+  });
+
+  it("pays on final pay only what the 13th month run left", () => {
+    const out = calculateFinalPay({
+      separationDate: "2025-08-25",
+      lastPaidThrough: "2025-08-10",
+      salary: core(),
+      thirteenth: {
+        year: 2025,
+        basicPayEarned: 165000,
+        payslipCount: 11,
+        alreadyPaid: 10000,
+        exemptUsed: 10000,
+      },
+      leave: {days: 0, dailyRate: 0},
+      cashAdvanceBalance: 0,
+      loanBalance: 0,
+      ytd: {ytdTaxableIncome: 0, ytdWithholdingTax: 0},
+    });
+    // (165,000 + 15,000) ÷ 12 less the 10,000 released
+    assert.strictEqual(out.finalPay.thirteenthMonth.amount, 5000);
+    assert.strictEqual(out.finalPay.thirteenthMonthAlreadyPaid, 10000);
+  });
+
+  it("reports the taxable excess of a 13th month run without tax", () => {
+    const out = calculateThirteenthMonthPayroll(
+      computeThirteenthMonth(2025, 1200000, 24));
+    assert.deepStrictEqual(
+      [out.grossEarnings, out.taxableIncome, out.withholdingTax, out.netPay],
+      [100000, 10000, 0, 100000],
+    );
+  });
+});
@@ -0,0 +1,71 @@
+// Pure payroll rules from src/utils — no emulator needed.
+import * as assert from "assert";
+import {
+  DEFAULT_WITHHOLDING_TABLES,
+  computeAnnualTax,
+  computeWithholding,
+  resolveWithholdingTable,
+  sumYtdTaxByEmployee,
+  type WithholdingTable,
+} from "../../src/utils/withholdingTax";
+
+const train2023 = DEFAULT_WITHHOLDING_TABLES[1];
+
+describe("withholding tax on compensation", () => {
+  it("withholds nothing up to the exempt bracket", () => {
+    assert.strictEqual(computeWithholding(10417, train2023), 0);
+    assert.strictEqual(computeWithholding(-500, train2023), 0);
+  });
+
+  it("adds the bracket rate on the excess to its fixed tax", () => {
+    // 937.50 + 20% of (20,000 − 16,667)
+    assert.strictEqual(computeWithholding(20000, train2023), 1604.1);
+    // 4,270.70 + 25% of (40,000 − 33,333)
+    assert.strictEqual(computeWithholding(40000, train2023), 5937.45);
+  });
+
+  it("uses the 2018 table for cutoffs before 2023", () => {
+    const table = resolveWithholdingTable(undefined, "2022-12-25");
+    assert.strictEqual(table?.effectiveFrom, "2018-01-01");
+    assert.strictEqual(table && computeWithholding(20000, table), 2083.25);
+  });
+
+  it("prefers the tables configured in settings", () => {
+    const flat: WithholdingTable = {
+      effectiveFrom: "2025-01-01",
+      period: "semi_monthly",
+      brackets: [{over: 0, base: 0, rate: 0.1}],
+    };
+    const table = resolveWithholdingTable([flat], "2025-08-25");
+    assert.strictEqual(table && computeWithholding(20000, table), 2000);
+  });
+});
+
+describe("year-end annualization", () => {
+  it("taxes the year's compensation on the annual table", () => {
+    // 22,500 + 20% of (600,000 − 400,000)
+    assert.strictEqual(computeAnnualTax(600000, undefined, "2025-12-25"),
+      62500);
+    assert.strictEqual(computeAnnualTax(600000, undefined, "2022-12-25"),
+      80000);
+  });
+
+  it("counts earlier year-end adjustments as tax withheld", () => {
+    const sums = sumYtdTaxByEmployee([
+      {employeeDocId: "emp1", cutoffEnd: "2025-01-10",
+        details: {output: {taxableIncome: 14000, withholdingTax: 500}}},
+      {employeeDocId: "emp1", cutoffEnd: "2025-06-25",
+        details: {output: {taxableIncome: 14000, withholdingTax: 500,
+          yearEndTaxAdjustment: -200}}},
+      {employeeDocId: "emp1", cutoffEnd: "2024-12-25",
+        details: {output: {taxableIncome: 14000, withholdingTax: 500}}},
+      {employeeDocId: "emp1", cutoffEnd: "2025-07-10", status: "rejected",
+        details: {output: {taxableIncome: 14000, withholdingTax: 500}}},
+      {employeeDocId: "emp1", cutoffEnd: "2025-12-25", draftId: "d1",
+        details: {output: {taxableIncome: 14000, withholdingTax: 500}}},
+    ], 2025, "d1");
+    assert.deepStrictEqual(sums, {emp1: {
+      ytdTaxableIncome: 28000, ytdWithholdingTax: 800, payslipCount: 2,
+    }});
+  });
+});
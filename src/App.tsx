@@ -17,6 +17,12 @@ import EmployeeDetailPage from "./pages/Finance/EmployeeDetailPage";
 import EditEmployeePage from "./pages/Finance/EditEmployeePage";
 import PayrollPage from "./pages/Finance/PayrollPage";
 import CashAdvancePage from "./pages/Finance/CashAdvance";
+import CarryForwardsPage from "./pages/Finance/CarryForwardsPage";
+import RetroPayPage from "./pages/Finance/RetroPayPage";
+import LoansPage from "./pages/Finance/LoansPage";
+import CommissionsPage from "./pages/Finance/CommissionsPage";
+import FinalPayPage from "./pages/Finance/FinalPayPage";
+import FinalPaySheetPage from "./pages/Finance/FinalPaySheetPage";
 import PayrollDraftPage from "./pages/Finance/PayrollDraftPage";
 import AttendancePage from "./pages/Finance/AttendancePage";
 import RequestsPage from "./pages/Finance/RequestsPage";
@@ -279,6 +285,59 @@ export default function App() {
             }
           />
 
+          <Route
+            path="/finance/carry-forwards"
+            element={
+              <RoleGate allow={["admin_final", "finance", "exec"]}>
+                <CarryForwardsPage />
+              </RoleGate>
+            }
+          />
+
+          <Route
+            path="/finance/retro-pay"
+            element={
+              <RoleGate allow={["admin_final", "finance", "exec"]}>
+                <RetroPayPage />
+              </RoleGate>
+            }
+          />
+
+          <Route
+            path="/finance/loans"
+            element={
+              <RoleGate allow={["admin_final", "finance", "exec"]}>
+                <LoansPage />
+              </RoleGate>
+            }
+          />
+
+          <Route
+            path="/finance/commissions"
+            element={
+              <RoleGate allow={["admin_final", "finance", "exec"]}>
+                <CommissionsPage />
+              </RoleGate>
+            }
+          />
+
+          <Route
+            path="/finance/final-pay"
+            element={
+              <RoleGate allow={["admin_final", "finance", "exec"]}>
+                <FinalPayPage />
+              </RoleGate>
+            }
+          />
+          <Route
+            path="/finance/final-pay/:draftId/sheet"
+            element={
+              <RoleGate allow={["admin_final", "finance", "exec"]}>
+                <FinalPaySheetPage />
+              </RoleGate>
+            }
+          />
+
           {/* Budgets */}
           <Route
             path="/finance/budgets"
@@ -0,0 +1,60 @@
+// src/components/ComputationTrace.tsx
+// Collapsible "How this was computed" panel for payslips (reads payslips.details.trace).
+import { useState } from "react";
+import type { PayrollTrace } from "../utils/payrollLogic";
+
+const fmt = (v: number | string) =>
+  typeof v === "number"
+    ? v.toLocaleString("en-PH", { minimumFractionDigits: 0, maximumFractionDigits: 4 })
+    : v;
+
+const peso = (n: number) =>
+  `₱${(Number(n) || 0).toLocaleString("en-PH", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export default function ComputationTrace({ trace }: { trace?: PayrollTrace | null }) {
+  const [open, setOpen] = useState(false);
+  if (!trace?.steps?.length) return null;
+
+  return (
+    <div className="mx-3 sm:mx-6 my-4 rounded-xl border border-white/10 bg-gray-800/40">
+      <button
+        type="button"
+        onClick={() => setOpen((v) => !v)}
+        className="w-full px-4 py-3 flex items-center justify-between text-left text-sm font-semibold"
+      >
+        <span>How this was computed</span>
+        <span className="text-gray-400">{open ? "▲" : "▼"}</span>
+      </button>
+
+      {open && (
+        <div className="px-4 pb-4">
+          <div className="text-xs text-gray-400 mb-3">
+            Engine {trace.engineVersion}
+            {trace.rulesVersion && <> • Rules {trace.rulesVersion}</>}
+          </div>
+          <ol className="space-y-3">
+            {trace.steps.map((s, i) => (
+              <li key={i} className="border-l-2 border-blue-500/40 pl-3">
+                <div className="flex items-baseline justify-between gap-3 text-sm">
+                  <span className="font-medium">{s.label}</span>
+                  <span className="font-mono">{s.key === "dailyRate" ? fmt(s.value) : peso(s.value)}</span>
+                </div>
+                <div className="text-xs text-gray-300">{s.formula}</div>
+                {s.inputs && Object.keys(s.inputs).length > 0 && (
+                  <div className="text-[11px] text-gray-400 mt-1 flex flex-wrap gap-x-3">
+                    {Object.entries(s.inputs).map(([k, v]) => (
+                      <span key={k}>
+                        {k}: <span className="font-mono">{fmt(v)}</span>
+                      </span>
+                    ))}
+                  </div>
+                )}
+                {s.rule && <div className="text-[11px] text-blue-300 mt-1">{s.rule}</div>}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+}
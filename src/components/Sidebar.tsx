@@ -133,6 +133,11 @@ const Sidebar: React.FC = () => {
         { label: "Attendance", href: "/finance/attendance", icon: <HiOutlineClipboardList size={20} /> },
         { label: "Requests", href: "/finance/requests", icon: <MdOutlineRequestQuote size={20} /> },
         { label: "Payroll", href: "/finance/payroll", icon: <HiOutlineDocumentText size={20} /> },
+        { label: "Carry-Forwards", href: "/finance/carry-forwards", icon: <HiOutlineDocumentText size={20} /> },
+        { label: "Retro Pay", href: "/finance/retro-pay", icon: <HiOutlineDocumentText size={20} /> },
+        { label: "Loans", href: "/finance/loans", icon: <HiOutlineDocumentText size={20} /> },
+        { label: "Commissions", href: "/finance/commissions", icon: <HiOutlineDocumentText size={20} /> },
+        { label: "Final Pay", href: "/finance/final-pay", icon: <HiOutlineDocumentText size={20} /> },
         { label: "Reports", href: "/finance/reports", icon: <HiOutlineDocumentText size={20} /> },
         { label: "Audit Logs", href: "/finance/audit-logs", icon: <HiOutlineFolder size={20} /> },
         { label: "Settings", href: "/finance/settings", icon: <CiSettings size={20} /> },
@@ -1,18 +1,26 @@
 // src/pages/admin/AllPayslipsPage.tsx
 import { useEffect, useMemo, useRef, useState } from "react";
-import { db } from "../../firebase/firebase";
+import { db, functions } from "../../firebase/firebase";
 import {
   collection,
-  doc,
   getDocs,
   query,
   orderBy,
-  updateDoc,
   where,
 } from "firebase/firestore";
+import { httpsCallable } from "firebase/functions";
 import iplogo from "../../assets/iplogo.png";
 import { toPng } from "html-to-image";
 import { jsPDF } from "jspdf";
+import { subtractPesos, sumPesos } from "../../utils/money";
+import type { PayrollTrace } from "../../utils/payrollLogic";
+import ComputationTrace from "../../components/ComputationTrace";
+
+// payslips are only written by the payroll functions (functions/src)
+const setPayslipStatus = httpsCallable<{ payslipId: string; status: "ready" | "rejected" }, void>(
+  functions,
+  "setPayslipStatus"
+);
 
 /* ================= Types ================= */
 type MoneyRow = {
@@ -45,15 +53,18 @@ type PayslipDoc = {
   daysOfWork?: number;
   earnings?: MoneyRow[];
   deductions?: MoneyRow[];
+  grossEarnings?: number;
   totalEarnings?: number;
   totalDeductions?: number;
   netPay?: number;
+  carriedForward?: number; // unrecovered deductions, deducted next cutoff as Prior Period Balance
   periodKey?: string;
   draftId?: string;
   createdAt?: any;
   status?: string;
   details?: {
     filedRequests?: FiledRequest[];
+    trace?: PayrollTrace;
   };
 };
 
@@ -243,7 +254,7 @@ reqSnap.forEach((d) => {
 
   async function publishPayslip(p: PayslipDoc) {
     try {
-      await updateDoc(doc(db, "payslips", p.id), { status: "ready" });
+      await setPayslipStatus({ payslipId: p.id, status: "ready" });
       // send email
       await fetch("/api/sendEmail", {
         method: "POST",
@@ -264,7 +275,7 @@ reqSnap.forEach((d) => {
   async function publishAllPayslips(rows: PayslipDoc[]) {
   try {
     for (const p of rows) {
-      await updateDoc(doc(db, "payslips", p.id), { status: "ready" });
+      await setPayslipStatus({ payslipId: p.id, status: "ready" });
 
       if (p.employeeEmail) {
         await fetch("/api/sendEmail", {
@@ -288,7 +299,7 @@ reqSnap.forEach((d) => {
 
   async function rejectPayslip(p: PayslipDoc) {
     try {
-      await updateDoc(doc(db, "payslips", p.id), { status: "rejected" });
+      await setPayslipStatus({ payslipId: p.id, status: "rejected" });
       alert("Payslip rejected.");
     } catch (e) {
       console.error("Reject error:", e);
@@ -455,12 +466,11 @@ function PayslipModal({
   const earnings = payslip.earnings || [];
   const deductions = payslip.deductions || [];
   const totE =
+    payslip.grossEarnings ??
     payslip.totalEarnings ??
-    earnings.reduce((a, b) => a + Number(b.amount || 0), 0);
-  const totD =
-    payslip.totalDeductions ??
-    deductions.reduce((a, b) => a + Number(b.amount || 0), 0);
-  const net = payslip.netPay ?? totE - totD;
+    sumPesos(...earnings.map((e) => Number(e.amount || 0)));
+  const totD = payslip.totalDeductions ?? sumPesos(...deductions.map((d) => Number(d.amount || 0)));
+  const net = payslip.netPay ?? subtractPesos(totE, totD);
   // attendance time renderer: show raw strings (e.g., "wfh") or time if ISO/date-like
   function renderTime(val: any) {
   if (!val) return "";
@@ -525,7 +535,7 @@ function PayslipModal({
     const label = (e.label || "").toLowerCase();
     const row = { ...e };
 
-    if (label.includes("basic")) {
+    if (label.includes("basic") && !row.note) {
       const worked = Number(input?.workedDays || 0);
       if (worked && dailyRate) {
         row.note = `${worked} day(s) × ${peso(dailyRate)} = ${peso(dailyRate * worked)}`;
@@ -533,6 +543,12 @@ function PayslipModal({
       }
     }
 
+    // retro pay links back to the payslips it repriced (audit)
+    if (label === "retro pay" && Array.isArray(details.retroPay)) {
+      const ids = details.retroPay.flatMap((r: { payslipIds?: string[] }) => r.payslipIds || []);
+      if (ids.length) row.note = `${row.note ? `${row.note} • ` : ""}payslips ${ids.join(", ")}`;
+    }
+
     if (label.includes("official business") || label === "ob" || label.includes("(ob)")) {
       if (obQty) {
         row.note = `${obQty} × ${peso(obUnit)} = ${peso(Number(output?.obPay || 0))}`;
@@ -726,6 +742,17 @@ function PayslipModal({
                              {peso(net)}
                            </td>
                          </tr>
+                         {Number(payslip.carriedForward) > 0 && (
+                           <tr className="border-t border-black">
+                             <td colSpan={3} className="p-2 sm:p-3 border-r border-black">
+                               <div className="font-medium">Unrecovered deductions</div>
+                               <div className="text-[10px] sm:text-xs text-gray-600">
+                                 Carried to the next cutoff as Prior Period Balance
+                               </div>
+                             </td>
+                             <td className="p-2 sm:p-3 text-right">{peso(Number(payslip.carriedForward))}</td>
+                           </tr>
+                         )}
                        </tbody>
                      </table>
                    </div>
@@ -788,6 +815,8 @@ function PayslipModal({
                    </div>
                  )}
                </div>
+
+               <ComputationTrace trace={payslip.details?.trace} />
              </div>
              <style>{`
                .force-a4 { width: 794px !important; }
@@ -130,7 +130,10 @@ export default function Dashboard() {
       setLoading(true);
       try {
         /* ========= Employee ========= */
-        const empSnap = await safeGetDocs<MyEmployee>(collection(db, "employees"));
+        // firestore.rules let an employee read only their own employees doc
+        const empSnap = myEmail
+          ? await safeGetDocs<MyEmployee>(query(collection(db, "employees"), where("email", "==", myEmail)))
+          : [];
         const meEmp =
           empSnap.find(
             (x) =>
@@ -170,10 +173,11 @@ export default function Dashboard() {
         setRequests(reqs);
 
         /* ========= Payslips ========= */
+        // firestore.rules let an employee query payslips by their uid or email only
         let slips: Payslip[] = [];
-        if (employeeIdCode) {
+        if (myUid) {
           slips = await safeGetDocs<Payslip>(
-            query(collection(db, "payslips"), where("employeeId", "==", employeeIdCode), limit(10))
+            query(collection(db, "payslips"), where("employeeId", "==", myUid), limit(10))
           );
         }
         if (slips.length === 0 && myEmail) {
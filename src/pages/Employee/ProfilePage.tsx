@@ -5,7 +5,6 @@ import {
   reauthenticateWithCredential,
   EmailAuthProvider,
   updateEmail as fbUpdateEmail,
-  updateProfile as fbUpdateProfile,
   sendPasswordResetEmail,
 } from "firebase/auth";
 import type { User } from "firebase/auth";
@@ -104,14 +103,9 @@ export default function ProfilePage() {
     if (!user) return false;
     if (status === "saving") return false;
 
-    const baseName = empDoc?.name ?? user.displayName ?? "";
     const baseEmail = empDoc?.email ?? user.email ?? "";
-
-    const changingName = (name || "") !== (baseName || "");
-    const changingEmail = (email.trim() || "") !== (baseEmail || "");
-
-    return changingName || changingEmail;
-  }, [user, empDoc, name, email, status]);
+    return (email.trim() || "") !== (baseEmail || "");
+  }, [user, empDoc, email, status]);
 
   async function handleSave() {
     if (!user) return;
@@ -127,19 +121,13 @@ export default function ProfilePage() {
         await reauthenticateWithCredential(user, cred);
       }
 
-      const baseName = empDoc?.name ?? user.displayName ?? "";
-      const wantsNameChange = (name || "") !== (baseName || "");
-      if (wantsNameChange) {
-        await fbUpdateProfile(user, { displayName: name || "" });
-      }
-
       if (wantsEmailChange) {
         await fbUpdateEmail(user, email.trim());
       }
 
+      // the name is kept by payroll staff (firestore.rules): filed requests are matched to payroll lines by it
       const empRef = doc(db, "employees", user.uid);
       const payload = {
-        name: name || null,
         email: email ? email.toLowerCase() : null,
         updatedAt: serverTimestamp(),
         updatedBy: user.uid,
@@ -153,7 +141,6 @@ export default function ProfilePage() {
       setEmpDoc((prev) => ({
         id: myUid,
         ...(prev || {}),
-        name: payload.name ?? undefined,
         email: payload.email ?? undefined,
         updatedAt: payload.updatedAt,
         updatedBy: payload.updatedBy,
@@ -221,7 +208,7 @@ export default function ProfilePage() {
       <div className="max-w-xl mx-auto px-4 space-y-8">
         <header className="space-y-2 text-center">
           <h1 className="text-3xl font-bold">My Profile</h1>
-          <p className="text-gray-300">Update your name, email, and reset your password.</p>
+          <p className="text-gray-300">Update your email and reset your password.</p>
         </header>
 
         <div className="rounded-2xl border border-white/10 bg-gray-800/40 overflow-hidden">
@@ -235,12 +222,8 @@ export default function ProfilePage() {
                 <Label>Name</Label>
                 <SourcePill label={nameSource} />
               </div>
-              <input
-                className="inp h-11 w-full"
-                placeholder="Your full name"
-                value={name}
-                onChange={(e) => setName(e.target.value)}
-              />
+              <input className="inp h-11 w-full bg-gray-700/50 text-gray-300" value={name} readOnly />
+              <p className="text-xs text-gray-400">Ask HR or finance to correct your name.</p>
             </Field>
 
             <Field>
@@ -294,7 +277,7 @@ export default function ProfilePage() {
         </div>
 
         <div className="text-xs text-gray-400">
-          Name and email are mirrored to <code>employees/{myUid}</code> and also kept in Firebase Auth.
+          Your email is mirrored to <code>employees/{myUid}</code> and also kept in Firebase Auth.
         </div>
       </div>
 
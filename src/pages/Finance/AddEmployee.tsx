@@ -296,10 +296,13 @@ const AddEmployeePage = () => {
 
         freelancerItems: isFreelancer
           ? formData.freelancerItems
-              .map((x) => ({
+              .map((x, i) => ({
+                id: `fi_${i}_${Date.now()}`,
                 project: String(x.project || "").trim(),
                 quantity: Number(x.quantity || 0),
                 rate: Number(x.rate || 0),
+                deliveredOn: null,
+                status: "pending", // approved on the employee's edit page once delivered
               }))
               .filter((x) => x.project || x.quantity || x.rate)
           : [],
@@ -19,6 +19,11 @@ import {
   where,
 } from "firebase/firestore";
 import { getAuth } from "firebase/auth";
+import { httpsCallable } from "firebase/functions";
+import { functions } from "../../firebase/firebase";
+import { toDateKey } from "../../utils/holidays";
+import { cutoffContaining } from "../../utils/paySegments";
+import { dueRecurringItems, type RecurringPayItem } from "../../utils/recurringItems";
 
 type AttendanceRecord = {
   id: string; // key: normalizedName + date
@@ -53,6 +58,12 @@ declare global {
 const db = getFirestore();
 const auth = getAuth();
 
+// computes the new draft's totals and pins the pay rules in effect on its cutoff
+const recomputeDraft = httpsCallable<{ draftId: string }, { count: number; gross: number; net: number }>(
+  functions,
+  "recomputePayrollDraft"
+);
+
 const AttendancePage = () => {
   const [attendance, setAttendance] = useState<AttendanceRecord[]>([]);
   const [loading, setLoading] = useState(false);
@@ -755,10 +766,11 @@ daysWorked = Math.round(daysWorked * 1000) / 1000;
         employeeId: emp.id,
         canonicalName: emp.name || emp.fullName || displayName,
         email: emp.email || null,
-        fixedOut: emp.fixedOut || null
+        fixedOut: emp.fixedOut || null,
+        recurringItems: (Array.isArray(emp.recurringItems) ? emp.recurringItems : []) as RecurringPayItem[],
       };
     }
-    return { employeeId: aliasLower, canonicalName: displayName, email: null, fixedOut: null };
+    return { employeeId: aliasLower, canonicalName: displayName, email: null, fixedOut: null, recurringItems: [] };
   }
 
   // ───────── actions: Publish (attendance + payroll draft) & Delete ─────────
@@ -842,6 +854,12 @@ daysWorked = Math.round(daysWorked * 1000) / 1000;
       // 2a) CREATE lines
       const start = selected.start;
       const end = selected.end;
+      // recurring pay items are matched to the cutoff by its dates and half (26–10 / 11–25)
+      const cutoffKeys = {
+        start: toDateKey(start) || cutoffStart.slice(0, 10),
+        end: toDateKey(end) || cutoffEnd.slice(0, 10),
+        half: cutoffContaining(toDateKey(end) || cutoffEnd.slice(0, 10)).half,
+      };
 
       const byEmp = new Map<string, AttendanceRecord[]>();
       for (const row of attendance) {
@@ -882,11 +900,15 @@ daysWorked = Math.round(daysWorked * 1000) / 1000;
               OB: approved.OB,
               LEAVES: approved.LEAVES,
             },
+            recurringItems: dueRecurringItems(resolved.recurringItems, cutoffKeys),
             updatedAt: serverTimestamp(),
           }
         );
       }
 
+      // 3) PIN pay rules and compute totals server-side
+      await recomputeDraft({ draftId: draftRef.id });
+
       setSuccess("✅ Attendance saved and Payroll Draft created. Finance may finalize then request approvals.");
     } catch (err: any) {
       setError("Publish failed: " + (err?.message || "Unknown error."));
@@ -8,6 +8,7 @@ import {
   orderBy,
   query,
   serverTimestamp,
+  where,
 } from "firebase/firestore";
 import { getAuth } from "firebase/auth";
 
@@ -95,7 +96,8 @@ export default function BudgetsPage() {
         const email = (auth.currentUser?.email || "").toLowerCase();
         if (!email) return setMe(null);
 
-        const snap = await getDocs(collection(db, "employees"));
+        // firestore.rules let an employee read only their own employees doc
+        const snap = await getDocs(query(collection(db, "employees"), where("email", "==", email)));
         let found: Emp | null = null;
         snap.forEach((d) => {
           const x = d.data() as any;
@@ -0,0 +1,168 @@
+// src/pages/Finance/CarryForwardsPage.tsx
+// Outstanding unrecovered deductions (/carryForwards), opened on final approval of a draft and closed
+// when the next draft deducts them as "Prior Period Balance".
+import { useEffect, useMemo, useState } from "react";
+import { collection, onSnapshot, orderBy, query } from "firebase/firestore";
+import { db } from "../../firebase/firebase";
+import { sumPesos } from "../../utils/money";
+import type { CarryForward } from "../../utils/carryForward";
+
+const peso = (n: number) =>
+  `₱${(Number(n) || 0).toLocaleString("en-PH", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+function fmtDate(v: unknown): string {
+  const t = v as { toDate?: () => Date } | null;
+  if (t && typeof t.toDate === "function") return t.toDate().toLocaleDateString();
+  return "—";
+}
+
+export default function CarryForwardsPage() {
+  const [rows, setRows] = useState<CarryForward[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showRecovered, setShowRecovered] = useState(false);
+  const [q, setQ] = useState("");
+
+  useEffect(() => {
+    const unsub = onSnapshot(
+      query(collection(db, "carryForwards"), orderBy("createdAt", "desc")),
+      (snap) => {
+        setRows(snap.docs.map((d) => ({ ...(d.data() as Omit<CarryForward, "id">), id: d.id })));
+        setLoading(false);
+      },
+      (err) => {
+        console.error("carryForwards subscribe error:", err);
+        setLoading(false);
+      }
+    );
+    return () => unsub();
+  }, []);
+
+  const filtered = useMemo(() => {
+    const needle = q.trim().toLowerCase();
+    return rows.filter(
+      (r) =>
+        (showRecovered || r.status === "open") &&
+        (!needle || `${r.employeeName} ${r.employeeId}`.toLowerCase().includes(needle))
+    );
+  }, [rows, showRecovered, q]);
+
+  const outstanding = useMemo(
+    () => sumPesos(...rows.filter((r) => r.status === "open").map((r) => r.amount)),
+    [rows]
+  );
+  const openCount = rows.filter((r) => r.status === "open").length;
+
+  return (
+    <div className="min-h-screen bg-gray-900 rounded-2xl text-white pt-20 pb-20">
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold">Carry-Forwards</h1>
+          <p className="text-gray-300 mt-1">
+            Deductions a cutoff could not recover. Each is deducted on the employee&apos;s next payslip as Prior
+            Period Balance.
+          </p>
+        </div>
+
+        <div className="grid sm:grid-cols-2 gap-4 mb-5">
+          <div className="rounded-2xl border border-white/10 bg-gray-800/40 p-5">
+            <div className="text-sm text-gray-400">Outstanding</div>
+            <div className="text-2xl font-bold text-amber-300">{peso(outstanding)}</div>
+          </div>
+          <div className="rounded-2xl border border-white/10 bg-gray-800/40 p-5">
+            <div className="text-sm text-gray-400">Open carry-forwards</div>
+            <div className="text-2xl font-bold">{openCount}</div>
+          </div>
+        </div>
+
+        <div className="rounded-2xl border border-white/10 bg-gray-800/40 p-5 mb-5 flex flex-col md:flex-row md:items-end gap-4">
+          <div className="flex-1">
+            <label className="lbl">Search</label>
+            <input
+              className="inp"
+              placeholder="Employee name or ID…"
+              value={q}
+              onChange={(e) => setQ(e.target.value)}
+            />
+          </div>
+          <label className="flex items-center gap-2 text-sm text-gray-300 pb-3">
+            <input type="checkbox" checked={showRecovered} onChange={(e) => setShowRecovered(e.target.checked)} />
+            Include recovered
+          </label>
+        </div>
+
+        <div className="overflow-x-auto rounded-2xl border border-white/10">
+          <table className="min-w-full divide-y divide-white/10">
+            <thead className="bg-gray-800/60 text-left text-xs uppercase tracking-wider text-gray-400">
+              <tr>
+                <th className="px-4 py-3">Employee</th>
+                <th className="px-4 py-3">From Cutoff</th>
+                <th className="px-4 py-3">Opened</th>
+                <th className="px-4 py-3 text-right">Amount</th>
+                <th className="px-4 py-3">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/10 bg-gray-900/20 text-sm">
+              {loading ? (
+                <tr>
+                  <td colSpan={5} className="px-4 py-6 text-center text-gray-400">
+                    Loading…
+                  </td>
+                </tr>
+              ) : filtered.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-4 py-6 text-center text-gray-400">
+                    No carry-forwards.
+                  </td>
+                </tr>
+              ) : (
+                filtered.map((r) => (
+                  <tr key={r.id}>
+                    <td className="px-4 py-3">
+                      <div className="font-medium">{r.employeeName}</div>
+                      <div className="text-xs text-gray-400">{r.employeeId}</div>
+                    </td>
+                    <td className="px-4 py-3">{r.sourceCutoffLabel || r.sourcePeriodKey || "—"}</td>
+                    <td className="px-4 py-3">{fmtDate(r.createdAt)}</td>
+                    <td className="px-4 py-3 text-right font-mono">{peso(r.amount)}</td>
+                    <td className="px-4 py-3">
+                      {r.status === "open" ? (
+                        <span className="text-amber-300">Open</span>
+                      ) : (
+                        <span className="text-emerald-300">
+                          Recovered{r.recoveredPeriodKey ? ` in ${r.recoveredPeriodKey}` : ""}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <style>{`
+        .inp {
+          width: 100%;
+          padding: 0.75rem 1rem;
+          background: rgba(255,255,255,0.06);
+          border: 1px solid rgba(255,255,255,0.15);
+          border-radius: 0.75rem;
+          color: #fff;
+          outline: none;
+        }
+        .inp:focus {
+          box-shadow: 0 0 0 2px rgba(59,130,246,0.5);
+          border-color: rgba(59,130,246,0.6);
+        }
+        .lbl {
+          display:block;
+          font-size: 0.9rem;
+          font-weight: 500;
+          color: #d1d5db;
+          margin-bottom: 0.35rem;
+        }
+      `}</style>
+    </div>
+  );
+}
@@ -9,6 +9,7 @@ import {
 } from "firebase/firestore";
 import { useNavigate } from "react-router-dom";
 import { getAuth } from "firebase/auth";
+import { cutoffContaining } from "../../utils/paySegments";
 
 type Emp = {
   id: string;           // doc id
@@ -30,6 +31,7 @@ export default function CashAdvancePage() {
   const [amount, setAmount] = useState<number | "">("");
   const [perCutOff, setPerCutOff] = useState<number | "">("");
   const [startDateCutOff, setStartDateCutOff] = useState<"first" | "second">("first");
+  const [startMonth, setStartMonth] = useState(() => new Date().toISOString().slice(0, 7)); // YYYY-MM
   const [note, setNote] = useState("");
 
   // ui
@@ -93,6 +95,7 @@ export default function CashAdvancePage() {
       if (!a || a <= 0) throw new Error("Enter a valid CA Amount.");
       if (!p || p <= 0) throw new Error("Enter a valid deduction per cut-off.");
       if (p > a) throw new Error("Per-cutoff deduction cannot exceed total amount.");
+      if (!/^\d{4}-\d{2}$/.test(startMonth)) throw new Error("Pick the month deductions start.");
 
       const user = auth.currentUser;
       const filedBy = user?.email || "unknown@local";
@@ -100,7 +103,8 @@ export default function CashAdvancePage() {
 
       // CA document stored in cashAdvances collection
       const payload = {
-        employeeId: selectedEmp.employeeId,
+        employeeId: selectedEmp.id, // employees doc id — the payroll draft keys advances by it
+        employeeCode: selectedEmp.employeeId,
         employeeName: selectedEmp.name,
         status: "pending", // always pending first
         filedAt: serverTimestamp(),
@@ -109,7 +113,10 @@ export default function CashAdvancePage() {
         // core CA fields (flat for payrollDraftPage consumption)
         totalAmount: a,
         perCutOff: p,
+        balance: a, // drawn down by each approved payslip (cashAdvances/{id}/ledger)
         startDateCutOff,
+        // first cutoff deducted; every cutoff after it is deducted until the balance is paid
+        startCutoff: cutoffContaining(`${startMonth}-${startDateCutOff === "second" ? "11" : "01"}`).start,
         note: note || "",
 
         // workflow flags
@@ -220,7 +227,17 @@ export default function CashAdvancePage() {
         </div>
 
         {/* Deduction start */}
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div>
+            <label className="lbl">Start Month</label>
+            <input
+              type="month"
+              value={startMonth}
+              onChange={(e) => setStartMonth(e.target.value)}
+              className="inp"
+              required
+            />
+          </div>
           <div>
             <label className="lbl">When to Deduct (start)</label>
             <select
@@ -0,0 +1,709 @@
+// src/pages/Finance/CommissionsPage.tsx
+// Tiered commissions: plans (/commissionPlans), the sales ledger (/sales) with splits and refunds, and the monthly
+// statement per employee. Payroll drafts pick the statements up on their own (see utils/commissionPlans.ts).
+import { useEffect, useMemo, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { addDoc, collection, getDocs, onSnapshot, orderBy, query, serverTimestamp, updateDoc, doc } from "firebase/firestore";
+import { getAuth } from "firebase/auth";
+import { db } from "../../firebase/firebase";
+import { roundPesos, sumPesos } from "../../utils/money";
+import {
+  commissionStatement,
+  normalizeTiers,
+  type CommissionPlan,
+  type CommissionTier,
+  type SaleEntry,
+  type SaleSplit,
+} from "../../utils/commissionPlans";
+
+type Emp = { id: string; employeeId: string; name: string; commissionPlanId?: string | null };
+type Tab = "statement" | "ledger" | "plans";
+type TierRow = { from: string; rate: string };
+type SplitRow = { employeeId: string; share: string };
+
+const peso = (n: number) =>
+  `₱${(Number(n) || 0).toLocaleString("en-PH", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const thisMonth = () => new Date().toISOString().slice(0, 7);
+
+export default function CommissionsPage() {
+  const [searchParams] = useSearchParams();
+  const [tab, setTab] = useState<Tab>("statement");
+  const [emps, setEmps] = useState<Emp[]>([]);
+  const [plans, setPlans] = useState<CommissionPlan[]>([]);
+  const [ledger, setLedger] = useState<SaleEntry[]>([]);
+
+  // statement
+  const [stmtEmp, setStmtEmp] = useState(searchParams.get("employee") || "");
+  const [stmtMonth, setStmtMonth] = useState(searchParams.get("month") || thisMonth());
+
+  // ledger form
+  const [kind, setKind] = useState<SaleEntry["kind"]>("sale");
+  const [saleDate, setSaleDate] = useState(() => new Date().toISOString().slice(0, 10));
+  const [client, setClient] = useState("");
+  const [project, setProject] = useState("");
+  const [amount, setAmount] = useState<number | "">("");
+  const [refundOf, setRefundOf] = useState("");
+  const [splits, setSplits] = useState<SplitRow[]>([{ employeeId: "", share: "100" }]);
+  const [saleNote, setSaleNote] = useState("");
+  const [ledgerMonth, setLedgerMonth] = useState(thisMonth());
+
+  // plan form
+  const [planId, setPlanId] = useState<string | null>(null);
+  const [planName, setPlanName] = useState("");
+  const [tiers, setTiers] = useState<TierRow[]>([{ from: "0", rate: "" }]);
+  const [planNote, setPlanNote] = useState("");
+  const [planActive, setPlanActive] = useState(true);
+
+  const [saving, setSaving] = useState(false);
+  const [err, setErr] = useState("");
+  const [ok, setOk] = useState("");
+
+  useEffect(() => {
+    (async () => {
+      const snap = await getDocs(collection(db, "employees"));
+      const list: Emp[] = snap.docs.map((d) => {
+        const x = d.data() as Partial<Emp>;
+        return { id: d.id, employeeId: x.employeeId || "", name: x.name || d.id, commissionPlanId: x.commissionPlanId || null };
+      });
+      list.sort((a, b) => a.name.localeCompare(b.name));
+      setEmps(list);
+    })();
+  }, []);
+
+  useEffect(() => {
+    const unsubPlans = onSnapshot(
+      query(collection(db, "commissionPlans"), orderBy("name", "asc")),
+      (snap) => setPlans(snap.docs.map((d) => ({ ...(d.data() as Omit<CommissionPlan, "id">), id: d.id }))),
+      (e) => console.error("commissionPlans subscribe error:", e)
+    );
+    const unsubSales = onSnapshot(
+      query(collection(db, "sales"), orderBy("date", "desc")),
+      (snap) => setLedger(snap.docs.map((d) => ({ ...(d.data() as Omit<SaleEntry, "id">), id: d.id }))),
+      (e) => console.error("sales subscribe error:", e)
+    );
+    return () => {
+      unsubPlans();
+      unsubSales();
+    };
+  }, []);
+
+  const empById = useMemo(() => new Map(emps.map((e) => [e.id, e])), [emps]);
+  const planById = useMemo(() => new Map(plans.map((p) => [p.id, p])), [plans]);
+
+  const reset = (msg = "") => {
+    setErr("");
+    setOk(msg);
+  };
+
+  /* ───────── Statement ───────── */
+  const stmtPlan = planById.get(empById.get(stmtEmp)?.commissionPlanId || "");
+  const statement = useMemo(
+    () => (stmtEmp && stmtPlan && stmtMonth ? commissionStatement(ledger, stmtEmp, stmtPlan, stmtMonth) : null),
+    [ledger, stmtEmp, stmtPlan, stmtMonth]
+  );
+
+  /* ───────── Ledger ───────── */
+  const salesOnly = useMemo(() => ledger.filter((s) => s.kind === "sale"), [ledger]);
+  const ledgerRows = useMemo(() => ledger.filter((s) => s.date.startsWith(ledgerMonth)), [ledger, ledgerMonth]);
+  const shareTotal = sumPesos(...splits.map((s) => Number(s.share) || 0));
+
+  const saveSale = async () => {
+    reset();
+    const amt = roundPesos(Number(amount || 0));
+    if (!saleDate) return setErr("Set the date.");
+    if (!(amt > 0)) return setErr("Enter the amount.");
+
+    let entrySplits: SaleSplit[];
+    let entryClient = client.trim();
+    let entryProject = project.trim() || null;
+    if (kind === "refund") {
+      const sale = salesOnly.find((s) => s.id === refundOf);
+      if (!sale) return setErr("Pick the sale being refunded.");
+      if (amt > sale.amount) return setErr("A refund cannot exceed the sale.");
+      entrySplits = sale.splits;
+      entryClient = sale.client;
+      entryProject = sale.project || null;
+    } else {
+      if (!entryClient) return setErr("Enter the client.");
+      const rows = splits.filter((s) => s.employeeId && Number(s.share) > 0);
+      if (!rows.length) return setErr("Credit the sale to at least one employee.");
+      if (new Set(rows.map((s) => s.employeeId)).size !== rows.length) return setErr("An employee is listed twice.");
+      if (Math.abs(sumPesos(...rows.map((s) => Number(s.share))) - 100) > 0.001) return setErr("Shares must add up to 100%.");
+      entrySplits = rows.map((s) => ({
+        employeeId: s.employeeId,
+        employeeName: empById.get(s.employeeId)?.name || s.employeeId,
+        share: Number(s.share),
+      }));
+    }
+
+    setSaving(true);
+    try {
+      await addDoc(collection(db, "sales"), {
+        date: saleDate,
+        client: entryClient,
+        project: entryProject,
+        amount: amt,
+        kind,
+        saleId: kind === "refund" ? refundOf : null,
+        splits: entrySplits,
+        note: saleNote.trim() || null,
+        createdAt: serverTimestamp(),
+        createdBy: getAuth().currentUser?.email || null,
+      });
+      reset(kind === "refund" ? "Refund recorded — it is clawed back on this month's statement." : "Sale recorded.");
+      setClient("");
+      setProject("");
+      setAmount("");
+      setRefundOf("");
+      setSaleNote("");
+      setSplits([{ employeeId: "", share: "100" }]);
+    } catch (e) {
+      console.error(e);
+      setErr("Failed to save the entry.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  /* ───────── Plans ───────── */
+  const editPlan = (p: CommissionPlan | null) => {
+    reset();
+    setPlanId(p?.id || null);
+    setPlanName(p?.name || "");
+    setTiers(
+      p ? normalizeTiers(p.tiers).map((t) => ({ from: String(t.from), rate: String(t.rate) })) : [{ from: "0", rate: "" }]
+    );
+    setPlanNote(p?.note || "");
+    setPlanActive(p?.active ?? true);
+  };
+
+  const savePlan = async () => {
+    reset();
+    if (!planName.trim()) return setErr("Name the plan.");
+    const list: CommissionTier[] = tiers
+      .filter((t) => t.from !== "" && t.rate !== "")
+      .map((t) => ({ from: Number(t.from) || 0, rate: Number(t.rate) || 0 }));
+    if (!list.length) return setErr("Add at least one tier.");
+    if (new Set(list.map((t) => t.from)).size !== list.length) return setErr("Two tiers start at the same amount.");
+    const payload = {
+      name: planName.trim(),
+      tiers: normalizeTiers(list),
+      note: planNote.trim() || null,
+      active: planActive,
+      updatedAt: serverTimestamp(),
+    };
+    setSaving(true);
+    try {
+      if (planId) await updateDoc(doc(db, "commissionPlans", planId), payload);
+      else await addDoc(collection(db, "commissionPlans"), { ...payload, createdAt: serverTimestamp() });
+      editPlan(null);
+      reset("Plan saved. Assign it on the employee's edit page.");
+    } catch (e) {
+      console.error(e);
+      setErr("Failed to save the plan.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const TabBtn = ({ id, label }: { id: Tab; label: string }) => (
+    <button
+      onClick={() => {
+        setTab(id);
+        reset();
+      }}
+      className={`px-4 py-2 rounded-xl text-sm ${tab === id ? "bg-blue-600" : "bg-white/5 hover:bg-white/10"}`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-900 rounded-2xl text-white pt-20 pb-20">
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold">Commissions</h1>
+          <p className="text-gray-300 mt-1">
+            Tiered plans over monthly sales. Each month's statement is paid on the cutoff the month ends in.
+          </p>
+        </div>
+
+        <div className="flex justify-center gap-2 mb-6">
+          <TabBtn id="statement" label="Statements" />
+          <TabBtn id="ledger" label="Sales Ledger" />
+          <TabBtn id="plans" label="Plans" />
+        </div>
+
+        {err && <div className="text-rose-300 text-sm mb-4 text-center">{err}</div>}
+        {ok && <div className="text-emerald-300 text-sm mb-4 text-center">{ok}</div>}
+
+        {tab === "statement" && (
+          <>
+            <div className="rounded-2xl border border-white/10 bg-gray-800/40 p-5 mb-5 grid md:grid-cols-3 gap-4">
+              <div className="md:col-span-2">
+                <label className="lbl">Employee</label>
+                <select className="inp" value={stmtEmp} onChange={(e) => setStmtEmp(e.target.value)}>
+                  <option value="">Select employee…</option>
+                  {emps
+                    .filter((e) => e.commissionPlanId)
+                    .map((e) => (
+                      <option key={e.id} value={e.id}>
+                        {e.name} — {planById.get(e.commissionPlanId || "")?.name || "unknown plan"}
+                      </option>
+                    ))}
+                </select>
+              </div>
+              <div>
+                <label className="lbl">Month</label>
+                <input type="month" className="inp" value={stmtMonth} onChange={(e) => setStmtMonth(e.target.value)} />
+              </div>
+            </div>
+
+            {stmtEmp && !stmtPlan && <p className="text-gray-400 text-sm">This employee has no commission plan.</p>}
+
+            {statement && (
+              <div className="rounded-2xl border border-white/10 bg-gray-800/40 p-5 space-y-5">
+                <div className="flex flex-wrap justify-between gap-2">
+                  <div>
+                    <div className="text-lg font-semibold">{empById.get(stmtEmp)?.name}</div>
+                    <div className="text-sm text-gray-400">
+                      {statement.planName} • {statement.month}
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    <div className="text-sm text-gray-400">Payable</div>
+                    <div className="text-2xl font-bold text-emerald-300">{peso(statement.net)}</div>
+                  </div>
+                </div>
+
+                <div className="overflow-x-auto rounded-xl border border-white/10">
+                  <table className="min-w-full divide-y divide-white/10 text-sm">
+                    <thead className="bg-gray-800/60 text-left text-xs uppercase tracking-wider text-gray-400">
+                      <tr>
+                        <th className="px-4 py-3">Date</th>
+                        <th className="px-4 py-3">Client / Project</th>
+                        <th className="px-4 py-3 text-right">Sale</th>
+                        <th className="px-4 py-3 text-right">Share</th>
+                        <th className="px-4 py-3 text-right">Credited</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-white/10">
+                      {statement.sales.length === 0 ? (
+                        <tr>
+                          <td colSpan={5} className="px-4 py-4 text-center text-gray-400">
+                            No sales credited this month.
+                          </td>
+                        </tr>
+                      ) : (
+                        statement.sales.map((s) => (
+                          <tr key={s.saleId}>
+                            <td className="px-4 py-2">{s.date}</td>
+                            <td className="px-4 py-2">
+                              {s.client}
+                              {s.project ? <span className="text-gray-400"> — {s.project}</span> : null}
+                            </td>
+                            <td className="px-4 py-2 text-right font-mono">{peso(s.amount)}</td>
+                            <td className="px-4 py-2 text-right">{s.share}%</td>
+                            <td className="px-4 py-2 text-right font-mono">{peso(s.credited)}</td>
+                          </tr>
+                        ))
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+
+                <div className="overflow-x-auto rounded-xl border border-white/10">
+                  <table className="min-w-full divide-y divide-white/10 text-sm">
+                    <thead className="bg-gray-800/60 text-left text-xs uppercase tracking-wider text-gray-400">
+                      <tr>
+                        <th className="px-4 py-3">Tier</th>
+                        <th className="px-4 py-3 text-right">Rate</th>
+                        <th className="px-4 py-3 text-right">Sales in Tier</th>
+                        <th className="px-4 py-3 text-right">Commission</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-white/10">
+                      {statement.tiers.map((t) => (
+                        <tr key={t.from}>
+                          <td className="px-4 py-2">
+                            {peso(t.from)} {t.to === null ? "and above" : `– ${peso(t.to)}`}
+                          </td>
+                          <td className="px-4 py-2 text-right">{t.rate}%</td>
+                          <td className="px-4 py-2 text-right font-mono">{peso(t.base)}</td>
+                          <td className="px-4 py-2 text-right font-mono">{peso(t.commission)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+
+                {statement.clawbacks.length > 0 && (
+                  <div className="overflow-x-auto rounded-xl border border-white/10">
+                    <table className="min-w-full divide-y divide-white/10 text-sm">
+                      <thead className="bg-gray-800/60 text-left text-xs uppercase tracking-wider text-gray-400">
+                        <tr>
+                          <th className="px-4 py-3">Refund</th>
+                          <th className="px-4 py-3">Client</th>
+                          <th className="px-4 py-3 text-right">Credited Refund</th>
+                          <th className="px-4 py-3 text-right">Rate Paid</th>
+                          <th className="px-4 py-3 text-right">Clawback</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-white/10">
+                        {statement.clawbacks.map((c) => (
+                          <tr key={c.refundId}>
+                            <td className="px-4 py-2">{c.date}</td>
+                            <td className="px-4 py-2">{c.client}</td>
+                            <td className="px-4 py-2 text-right font-mono">{peso(c.credited)}</td>
+                            <td className="px-4 py-2 text-right">{c.rate}%</td>
+                            <td className="px-4 py-2 text-right font-mono text-rose-300">{peso(c.clawback)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+
+                <div className="grid sm:grid-cols-2 md:grid-cols-3 gap-3 text-sm">
+                  <Stat label="Credited sales" value={peso(statement.creditedSales)} />
+                  <Stat label={`Tier commission (${statement.effectiveRate}% effective)`} value={peso(statement.commission)} />
+                  <Stat label="Clawbacks this month" value={peso(statement.clawbackTotal)} />
+                  <Stat label="Clawbacks carried in" value={peso(statement.carriedIn)} />
+                  <Stat label="Carried to next month" value={peso(statement.carriedOut)} />
+                  <Stat label="Payable" value={peso(statement.net)} />
+                </div>
+              </div>
+            )}
+          </>
+        )}
+
+        {tab === "ledger" && (
+          <>
+            <div className="rounded-2xl border border-white/10 bg-gray-800/40 p-5 mb-8 space-y-4">
+              <div className="grid md:grid-cols-4 gap-4">
+                <div>
+                  <label className="lbl">Entry</label>
+                  <select className="inp" value={kind} onChange={(e) => setKind(e.target.value as SaleEntry["kind"])}>
+                    <option value="sale">Sale</option>
+                    <option value="refund">Refund (clawback)</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="lbl">Date</label>
+                  <input type="date" className="inp" value={saleDate} onChange={(e) => setSaleDate(e.target.value)} />
+                </div>
+                <div>
+                  <label className="lbl">Amount (₱)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    className="inp"
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value === "" ? "" : Number(e.target.value))}
+                  />
+                </div>
+                {kind === "refund" ? (
+                  <div>
+                    <label className="lbl">Sale Refunded</label>
+                    <select className="inp" value={refundOf} onChange={(e) => setRefundOf(e.target.value)}>
+                      <option value="">Select sale…</option>
+                      {salesOnly.map((s) => (
+                        <option key={s.id} value={s.id}>
+                          {s.date} • {s.client} • {peso(s.amount)}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ) : (
+                  <div>
+                    <label className="lbl">Client</label>
+                    <input className="inp" value={client} onChange={(e) => setClient(e.target.value)} />
+                  </div>
+                )}
+                {kind === "sale" && (
+                  <div className="md:col-span-2">
+                    <label className="lbl">Project</label>
+                    <input className="inp" value={project} onChange={(e) => setProject(e.target.value)} />
+                  </div>
+                )}
+                <div className={kind === "sale" ? "md:col-span-2" : "md:col-span-4"}>
+                  <label className="lbl">Note</label>
+                  <input className="inp" value={saleNote} onChange={(e) => setSaleNote(e.target.value)} />
+                </div>
+              </div>
+
+              {kind === "sale" && (
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="lbl !mb-0">Credited To</span>
+                    <button
+                      type="button"
+                      onClick={() => setSplits((s) => [...s, { employeeId: "", share: "" }])}
+                      className="text-sm text-blue-400 hover:text-blue-300"
+                    >
+                      + Split
+                    </button>
+                  </div>
+                  {splits.map((sp, i) => (
+                    <div key={i} className="flex gap-3 items-center">
+                      <select
+                        className="inp flex-1"
+                        value={sp.employeeId}
+                        onChange={(e) =>
+                          setSplits((s) => s.map((x, j) => (j === i ? { ...x, employeeId: e.target.value } : x)))
+                        }
+                      >
+                        <option value="">Select employee…</option>
+                        {emps.map((e) => (
+                          <option key={e.id} value={e.id}>
+                            {e.name}
+                          </option>
+                        ))}
+                      </select>
+                      <input
+                        type="number"
+                        min={0}
+                        max={100}
+                        className="inp !w-28"
+                        placeholder="%"
+                        value={sp.share}
+                        onChange={(e) => setSplits((s) => s.map((x, j) => (j === i ? { ...x, share: e.target.value } : x)))}
+                      />
+                      {splits.length > 1 && (
+                        <button
+                          type="button"
+                          onClick={() => setSplits((s) => s.filter((_, j) => j !== i))}
+                          className="text-rose-400 hover:text-rose-300 text-sm"
+                        >
+                          Remove
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                  <p className={`text-xs ${shareTotal === 100 ? "text-gray-400" : "text-amber-300"}`}>
+                    Shares: {shareTotal}% of 100%
+                  </p>
+                </div>
+              )}
+
+              <div className="flex justify-end">
+                <button
+                  onClick={saveSale}
+                  disabled={saving}
+                  className="px-5 py-2 rounded-xl bg-emerald-600 hover:bg-emerald-500 disabled:opacity-60"
+                >
+                  {saving ? "Saving…" : kind === "refund" ? "Record Refund" : "Record Sale"}
+                </button>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between mb-3">
+              <h2 className="text-lg font-semibold">Ledger</h2>
+              <input type="month" className="inp !w-auto" value={ledgerMonth} onChange={(e) => setLedgerMonth(e.target.value)} />
+            </div>
+            <div className="overflow-x-auto rounded-2xl border border-white/10">
+              <table className="min-w-full divide-y divide-white/10">
+                <thead className="bg-gray-800/60 text-left text-xs uppercase tracking-wider text-gray-400">
+                  <tr>
+                    <th className="px-4 py-3">Date</th>
+                    <th className="px-4 py-3">Entry</th>
+                    <th className="px-4 py-3">Client / Project</th>
+                    <th className="px-4 py-3">Credited To</th>
+                    <th className="px-4 py-3 text-right">Amount</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-white/10 bg-gray-900/20 text-sm">
+                  {ledgerRows.length === 0 ? (
+                    <tr>
+                      <td colSpan={5} className="px-4 py-6 text-center text-gray-400">
+                        No entries this month.
+                      </td>
+                    </tr>
+                  ) : (
+                    ledgerRows.map((s) => (
+                      <tr key={s.id}>
+                        <td className="px-4 py-3">{s.date}</td>
+                        <td className="px-4 py-3">
+                          {s.kind === "refund" ? <span className="text-rose-300">Refund</span> : "Sale"}
+                        </td>
+                        <td className="px-4 py-3">
+                          {s.client}
+                          {s.project ? <span className="text-gray-400"> — {s.project}</span> : null}
+                        </td>
+                        <td className="px-4 py-3 text-xs text-gray-300">
+                          {(s.splits || []).map((sp) => `${sp.employeeName} ${sp.share}%`).join(", ")}
+                        </td>
+                        <td className={`px-4 py-3 text-right font-mono ${s.kind === "refund" ? "text-rose-300" : ""}`}>
+                          {s.kind === "refund" ? `(${peso(s.amount)})` : peso(s.amount)}
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+
+        {tab === "plans" && (
+          <>
+            <div className="rounded-2xl border border-white/10 bg-gray-800/40 p-5 mb-8 space-y-4">
+              <div className="grid md:grid-cols-3 gap-4">
+                <div className="md:col-span-2">
+                  <label className="lbl">Plan Name</label>
+                  <input className="inp" value={planName} onChange={(e) => setPlanName(e.target.value)} />
+                </div>
+                <label className="flex items-center gap-2 text-sm text-gray-300 md:mt-7">
+                  <input type="checkbox" checked={planActive} onChange={(e) => setPlanActive(e.target.checked)} />
+                  Active
+                </label>
+              </div>
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="lbl !mb-0">Tiers (rate applies to monthly sales above the threshold)</span>
+                  <button
+                    type="button"
+                    onClick={() => setTiers((t) => [...t, { from: "", rate: "" }])}
+                    className="text-sm text-blue-400 hover:text-blue-300"
+                  >
+                    + Tier
+                  </button>
+                </div>
+                {tiers.map((t, i) => (
+                  <div key={i} className="flex gap-3 items-center">
+                    <input
+                      type="number"
+                      min={0}
+                      className="inp"
+                      placeholder="Sales from (₱)"
+                      value={t.from}
+                      onChange={(e) => setTiers((l) => l.map((x, j) => (j === i ? { ...x, from: e.target.value } : x)))}
+                    />
+                    <input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      className="inp !w-32"
+                      placeholder="Rate %"
+                      value={t.rate}
+                      onChange={(e) => setTiers((l) => l.map((x, j) => (j === i ? { ...x, rate: e.target.value } : x)))}
+                    />
+                    {tiers.length > 1 && (
+                      <button
+                        type="button"
+                        onClick={() => setTiers((l) => l.filter((_, j) => j !== i))}
+                        className="text-rose-400 hover:text-rose-300 text-sm"
+                      >
+                        Remove
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+              <div>
+                <label className="lbl">Note</label>
+                <input className="inp" value={planNote} onChange={(e) => setPlanNote(e.target.value)} />
+              </div>
+              <div className="flex justify-end gap-3">
+                {planId && (
+                  <button onClick={() => editPlan(null)} className="px-5 py-2 rounded-xl bg-white/10 hover:bg-white/20">
+                    Cancel
+                  </button>
+                )}
+                <button
+                  onClick={savePlan}
+                  disabled={saving}
+                  className="px-5 py-2 rounded-xl bg-emerald-600 hover:bg-emerald-500 disabled:opacity-60"
+                >
+                  {saving ? "Saving…" : planId ? "Update Plan" : "Add Plan"}
+                </button>
+              </div>
+            </div>
+
+            <div className="overflow-x-auto rounded-2xl border border-white/10">
+              <table className="min-w-full divide-y divide-white/10">
+                <thead className="bg-gray-800/60 text-left text-xs uppercase tracking-wider text-gray-400">
+                  <tr>
+                    <th className="px-4 py-3">Plan</th>
+                    <th className="px-4 py-3">Tiers</th>
+                    <th className="px-4 py-3">Employees</th>
+                    <th className="px-4 py-3">Status</th>
+                    <th className="px-4 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-white/10 bg-gray-900/20 text-sm">
+                  {plans.length === 0 ? (
+                    <tr>
+                      <td colSpan={5} className="px-4 py-6 text-center text-gray-400">
+                        No plans yet.
+                      </td>
+                    </tr>
+                  ) : (
+                    plans.map((p) => (
+                      <tr key={p.id}>
+                        <td className="px-4 py-3">{p.name}</td>
+                        <td className="px-4 py-3 text-xs text-gray-300">
+                          {normalizeTiers(p.tiers)
+                            .map((t) => `${t.rate}% from ${peso(t.from)}`)
+                            .join(" • ")}
+                        </td>
+                        <td className="px-4 py-3 text-xs text-gray-300">
+                          {emps
+                            .filter((e) => e.commissionPlanId === p.id)
+                            .map((e) => e.name)
+                            .join(", ") || "—"}
+                        </td>
+                        <td className="px-4 py-3">
+                          {p.active ? <span className="text-emerald-300">Active</span> : <span className="text-gray-400">Inactive</span>}
+                        </td>
+                        <td className="px-4 py-3 text-right">
+                          <button onClick={() => editPlan(p)} className="text-xs text-blue-400 hover:text-blue-300">
+                            Edit
+                          </button>
+                        </td>
+                      </tr>
+                    ))
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+
+      <style>{`
+        .inp {
+          width: 100%;
+          padding: 0.75rem 1rem;
+          background: rgba(255,255,255,0.06);
+          border: 1px solid rgba(255,255,255,0.15);
+          border-radius: 0.75rem;
+          color: #fff;
+          outline: none;
+        }
+        .inp:focus {
+          box-shadow: 0 0 0 2px rgba(59,130,246,0.5);
+          border-color: rgba(59,130,246,0.6);
+        }
+        .lbl {
+          display:block;
+          font-size: 0.9rem;
+          font-weight: 500;
+          color: #d1d5db;
+          margin-bottom: 0.35rem;
+        }
+      `}</style>
+    </div>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="rounded-xl border border-white/10 bg-white/5 p-3">
+      <div className="text-xs text-gray-400">{label}</div>
+      <div className="font-mono">{value}</div>
+    </div>
+  );
+}
@@ -1,28 +1,21 @@
 // src/pages/Finance/EditEmployeePage.tsx
 import { useEffect, useState } from "react";
 import { db } from "../../firebase/firebase";
-import { doc, getDoc, updateDoc } from "firebase/firestore";
+import { collection, doc, getDoc, getDocs, updateDoc } from "firebase/firestore";
 import { useNavigate, useParams } from "react-router-dom";
+import { OB_CATEGORIES } from "../../utils/obRates";
+import type { CommissionRule } from "../../utils/commissionRules";
+import type { CommissionPlan } from "../../utils/commissionPlans";
+import { FREELANCER_ITEM_STATUSES, type FreelancerItem, type FreelancerItemStatus } from "../../utils/freelancerPay";
+import { RECURRING_HALVES, type RecurringHalf, type RecurringPayItem } from "../../utils/recurringItems";
+import type { CompensationChange } from "../../utils/paySegments";
 
 /* ───────── Types ───────── */
 type EmpType = "core" | "core_probationary" | "intern" | "freelancer" | "owner";
 type EmpStatus = "active" | "inactive";
 
-interface CommissionRule {
-  id: string;
-  amount: number;
-  payrollMonths: string[]; // ["2025-08", "2025-09"]
-}
-
 type ObRate = { id: string; category: string; rate: number };
 
-type FreelancerItem = {
-  id: string;
-  project: string;
-  quantity: number;
-  rate: number;
-};
-
 interface EmployeeDoc {
   employeeId?: string;
   name?: string;
@@ -38,12 +31,15 @@ interface EmployeeDoc {
   perDayRate?: number;       // core_probationary
   allowancePerDay?: number;  // intern
   freelancerItems?: Array<Partial<FreelancerItem>>; // freelancer
+  ewtRate?: number | null; // freelancer: overrides the pay rules' EWT rate
 
   status?: EmpStatus;
   email?: string;
   phoneNumber?: string;
   address?: string;
   hireDate?: any;
+  separationDate?: unknown;
+  compensationHistory?: CompensationChange[]; // pay changes, each effective until the next
   bankName?: string;
   accountNumber?: string;
 
@@ -51,12 +47,15 @@ interface EmployeeDoc {
   sssNumber?: string;
   philhealthNumber?: string;
   pagibigNumber?: string;
+  pagibigVoluntary?: number; // elected monthly Pag-IBIG contribution (0 = mandatory only)
 
   obRates?:
     | Array<{ id?: string; category?: string; rate?: number }>
     | Record<string, number>
     | number[]; // legacy-friendly
   commissionRules?: CommissionRule[];
+  commissionPlanId?: string | null;
+  recurringItems?: RecurringPayItem[];
 }
 
 /* ───────── Helpers ───────── */
@@ -120,12 +119,15 @@ export default function EditEmployeePage() {
     phoneNumber: string;
     address: string;
     hireDate: string; // yyyy-mm-dd
+    separationDate: string; // yyyy-mm-dd, last day employed
 
     // pay fields
     monthlySalary: number;     // Core/Owner
     perDayRate: number;        // Core(Probationary)
     allowancePerDay: number;   // Intern
     freelancerItems: FreelancerItem[]; // Freelancer
+    ewtRate: string; // Freelancer — blank = pay rules
+    compensationHistory: CompensationChange[];
 
     bankName: string;
     accountNumber: string;
@@ -134,9 +136,12 @@ export default function EditEmployeePage() {
     sssNumber: string;
     philhealthNumber: string;
     pagibigNumber: string;
+    pagibigVoluntary: number;
 
     obRates: ObRate[];
     commissionRules: CommissionRule[];
+    commissionPlanId: string;
+    recurringItems: RecurringPayItem[];
   }>({
     id: "",
     employeeId: "",
@@ -150,11 +155,14 @@ export default function EditEmployeePage() {
     phoneNumber: "",
     address: "",
     hireDate: "",
+    separationDate: "",
 
     monthlySalary: 0,
     perDayRate: 0,
     allowancePerDay: 125,
     freelancerItems: [],
+    ewtRate: "",
+    compensationHistory: [],
 
     bankName: "",
     accountNumber: "",
@@ -163,11 +171,19 @@ export default function EditEmployeePage() {
     sssNumber: "",
     philhealthNumber: "",
     pagibigNumber: "",
+    pagibigVoluntary: 0,
 
     obRates: [],
     commissionRules: [],
+    commissionPlanId: "",
+    recurringItems: [],
   });
 
+  // pay as loaded — a change on save is recorded in compensationHistory from `payEffectiveFrom`
+  const [loadedPay, setLoadedPay] = useState({ monthlySalary: 0, perDayRate: 0, allowancePerDay: 0 });
+  const [payEffectiveFrom, setPayEffectiveFrom] = useState(() => new Date().toISOString().slice(0, 10));
+  const [plans, setPlans] = useState<CommissionPlan[]>([]);
+
   useEffect(() => {
     (async () => {
       if (!id) return;
@@ -209,6 +225,7 @@ export default function EditEmployeePage() {
           phoneNumber: d.phoneNumber || "",
           address: d.address || "",
           hireDate: fmtDateMaybe(d.hireDate),
+          separationDate: fmtDateMaybe(d.separationDate),
 
           monthlySalary: Number(d.monthlySalary ?? (normalized === "owner" ? 60000 : 0)),
           perDayRate: Number(d.perDayRate ?? 0),
@@ -219,8 +236,14 @@ export default function EditEmployeePage() {
                 project: String(x?.project || ""),
                 quantity: Number(x?.quantity || 0),
                 rate: Number(x?.rate || 0),
+                deliveredOn: x?.deliveredOn || null,
+                status: x?.status || "pending",
+                paidDraftId: x?.paidDraftId || null,
+                paidPayslipId: x?.paidPayslipId || null,
               }))
             : [],
+          ewtRate: d.ewtRate === null || d.ewtRate === undefined ? "" : String(d.ewtRate),
+          compensationHistory: Array.isArray(d.compensationHistory) ? d.compensationHistory : [],
 
           bankName: d.bankName || "",
           accountNumber: d.accountNumber || "",
@@ -233,6 +256,7 @@ export default function EditEmployeePage() {
           sssNumber: d.sssNumber || "",
           philhealthNumber: d.philhealthNumber || "",
           pagibigNumber: d.pagibigNumber || "",
+          pagibigVoluntary: Number(d.pagibigVoluntary || 0),
 
           obRates: inflatedRates,
           commissionRules: Array.isArray(d.commissionRules)
@@ -242,6 +266,13 @@ export default function EditEmployeePage() {
                 payrollMonths: Array.isArray(c.payrollMonths) ? c.payrollMonths : [],
               }))
             : [],
+          commissionPlanId: d.commissionPlanId || "",
+          recurringItems: Array.isArray(d.recurringItems) ? d.recurringItems : [],
+        });
+        setLoadedPay({
+          monthlySalary: Number(d.monthlySalary || 0),
+          perDayRate: Number(d.perDayRate || 0),
+          allowancePerDay: Number(d.allowancePerDay || 0),
         });
       } catch (e) {
         console.error(e);
@@ -252,6 +283,12 @@ export default function EditEmployeePage() {
     })();
   }, [id]);
 
+  useEffect(() => {
+    getDocs(collection(db, "commissionPlans"))
+      .then((snap) => setPlans(snap.docs.map((d) => ({ ...(d.data() as Omit<CommissionPlan, "id">), id: d.id }))))
+      .catch((e) => console.error("commissionPlans load error:", e));
+  }, []);
+
   /* ───────── UI helpers ───────── */
   const salaryLabel =
     emp.type === "intern"
@@ -271,7 +308,7 @@ export default function EditEmployeePage() {
       : emp.monthlySalary;
 
   const internNote =
-    emp.type === "intern" ? "Interns use ₱125/day allowance and ₱500 per OB (fixed)." : "";
+    emp.type === "intern" ? "Interns use ₱125/day allowance; OBs are paid at the intern rate in the OB rate catalog." : "";
 
   const ownerNote =
     emp.type === "owner" ? "Owner monthly salary is fixed at ₱60,000." : "";
@@ -287,13 +324,6 @@ export default function EditEmployeePage() {
         updated.allowancePerDay = 125;
         updated.monthlySalary = 0;
         updated.perDayRate = 0;
-        const exists = (updated.obRates || []).some(
-          (r) => r.category?.toLowerCase?.() === "ob (intern fixed)"
-        );
-        if (!exists) {
-          const rand = (crypto as any).randomUUID ? crypto.randomUUID() : String(Date.now());
-          updated.obRates = [...(updated.obRates || []), { id: rand, category: "OB (Intern Fixed)", rate: 500 }];
-        }
       } else if (newType === "owner") {
         updated.monthlySalary = 60000;
         updated.allowancePerDay = 0;
@@ -322,6 +352,12 @@ export default function EditEmployeePage() {
     setEmp((prev) => ({ ...prev, hireDate: e.target.value }));
   };
 
+  const removePayChange = (effectiveFrom: string) =>
+    setEmp((p) => ({
+      ...p,
+      compensationHistory: (p.compensationHistory || []).filter((h) => h.effectiveFrom !== effectiveFrom),
+    }));
+
   /* ───────── OB RATES ───────── */
   const addObRate = () =>
     setEmp((p) => ({
@@ -368,6 +404,32 @@ export default function EditEmployeePage() {
   const removeCommissionRule = (id: string) =>
     setEmp((p) => ({ ...p, commissionRules: (p.commissionRules || []).filter((r) => r.id !== id) }));
 
+  /* ───────── Recurring pay items ───────── */
+  const addRecurringItem = (kind: RecurringPayItem["kind"]) =>
+    setEmp((p) => ({
+      ...p,
+      recurringItems: [
+        ...(p.recurringItems || []),
+        {
+          id: typeof crypto.randomUUID === "function" ? crypto.randomUUID() : String(Date.now()),
+          label: "",
+          kind,
+          taxable: false,
+          amount: 0,
+          half: "both",
+          startDate: new Date().toISOString().slice(0, 10),
+          endDate: null,
+        },
+      ],
+    }));
+  const updateRecurringItem = (id: string, patch: Partial<RecurringPayItem>) =>
+    setEmp((p) => ({
+      ...p,
+      recurringItems: (p.recurringItems || []).map((it) => (it.id === id ? { ...it, ...patch } : it)),
+    }));
+  const removeRecurringItem = (id: string) =>
+    setEmp((p) => ({ ...p, recurringItems: (p.recurringItems || []).filter((it) => it.id !== id) }));
+
   /* ───────── Benefits ───────── */
   const toggleBenefit = (key: "sss" | "pagibig" | "philhealth") =>
     setEmp((p) => ({ ...p, benefits: { ...(p.benefits || {}), [key]: !p.benefits?.[key] } }));
@@ -383,17 +445,24 @@ export default function EditEmployeePage() {
           project: "",
           quantity: 0,
           rate: 0,
+          deliveredOn: null,
+          status: "pending",
         },
       ],
     }));
-  const updateFreelancerItem = (id: string, field: "project" | "quantity" | "rate", val: string) =>
+  const updateFreelancerItem = (
+    id: string,
+    field: "project" | "quantity" | "rate" | "deliveredOn" | "status",
+    val: string
+  ) =>
     setEmp((p) => ({
       ...p,
       freelancerItems: (p.freelancerItems || []).map((it) =>
         it.id === id
           ? {
               ...it,
-              [field]: field === "project" ? val : Number(val) || 0,
+              [field]:
+                field === "quantity" || field === "rate" ? Number(val) || 0 : field === "deliveredOn" ? val || null : val,
             }
           : it
       ),
@@ -420,6 +489,32 @@ export default function EditEmployeePage() {
       if (emp.type === "core_probationary") perDayRate = Number(emp.perDayRate || 0);
       if (emp.type === "intern") allowancePerDay = Number(emp.allowancePerDay || 125);
 
+      // ✅ pay change → history entry, so drafts price the days before it at the old rate
+      let compensationHistory = [...(emp.compensationHistory || [])];
+      const payChanged =
+        monthlySalary !== loadedPay.monthlySalary ||
+        perDayRate !== loadedPay.perDayRate ||
+        allowancePerDay !== loadedPay.allowancePerDay;
+      if (payChanged && emp.type !== "freelancer" && emp.type !== "owner") {
+        if (!payEffectiveFrom) {
+          setError("Set the date the pay change takes effect.");
+          return;
+        }
+        if (!compensationHistory.length) {
+          compensationHistory.push({ effectiveFrom: emp.hireDate || "2000-01-01", ...loadedPay, note: "before first recorded change" });
+        }
+        compensationHistory = compensationHistory
+          .filter((h) => h.effectiveFrom !== payEffectiveFrom)
+          .concat({
+            effectiveFrom: payEffectiveFrom,
+            monthlySalary,
+            perDayRate,
+            allowancePerDay,
+            recordedAt: new Date().toISOString(),
+          })
+          .sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+      }
+
       const payload: EmployeeDoc = {
         employeeId: emp.employeeId,
         name: emp.name,
@@ -441,9 +536,20 @@ export default function EditEmployeePage() {
         sssNumber: emp.sssNumber,
         philhealthNumber: emp.philhealthNumber,
         pagibigNumber: emp.pagibigNumber,
+        pagibigVoluntary: emp.benefits.pagibig ? Math.max(0, Number(emp.pagibigVoluntary || 0)) : 0,
 
         obRates: deflateObRates(emp.obRates),
         commissionRules: emp.commissionRules,
+        commissionPlanId: emp.commissionPlanId || null,
+        recurringItems: (emp.recurringItems || [])
+          .filter((it) => it.label.trim() && Number(it.amount) > 0)
+          .map((it) => ({
+            ...it,
+            label: it.label.trim(),
+            amount: Number(it.amount),
+            taxable: it.kind === "earning" && it.taxable,
+            endDate: it.endDate || null,
+          })),
 
         monthlySalary,
         perDayRate,
@@ -455,10 +561,17 @@ export default function EditEmployeePage() {
                 project: it.project,
                 quantity: Number(it.quantity || 0),
                 rate: Number(it.rate || 0),
+                deliveredOn: it.deliveredOn || null,
+                status: it.status || "pending",
+                paidDraftId: it.paidDraftId || null,
+                paidPayslipId: it.paidPayslipId || null,
               }))
             : [],
+        ewtRate: emp.type === "freelancer" && emp.ewtRate.trim() !== "" ? Number(emp.ewtRate) || 0 : null,
 
         hireDate: emp.hireDate ? new Date(emp.hireDate) : null,
+        separationDate: emp.separationDate ? new Date(emp.separationDate) : null,
+        compensationHistory,
       };
 
       const ref = doc(db, "employees", id);
@@ -576,6 +689,10 @@ export default function EditEmployeePage() {
                 <option value="inactive">Inactive</option>
               </select>
             </Field>
+            <Field label="Separation Date">
+              <input name="separationDate" type="date" value={emp.separationDate} onChange={handleChange} className="inp" />
+              <p className="text-xs text-gray-400 mt-2">Last day employed. Cutoffs after it pay nothing.</p>
+            </Field>
 
             {/* Salary slot (adapts by type) */}
             <Field label={salaryLabel} className="md:col-span-2">
@@ -602,31 +719,111 @@ export default function EditEmployeePage() {
               {ownerNote && <p className="text-xs text-gray-400 mt-2">{ownerNote}</p>}
               {freelancerNote && <p className="text-xs text-gray-400 mt-2">{freelancerNote}</p>}
             </Field>
+            {!salaryDisabled && (
+              <Field label="Pay Change Effective">
+                <input
+                  type="date"
+                  value={payEffectiveFrom}
+                  onChange={(e) => setPayEffectiveFrom(e.target.value)}
+                  className="inp"
+                />
+                <p className="text-xs text-gray-400 mt-2">Used only when the rate above changes.</p>
+              </Field>
+            )}
           </div>
+
+          {emp.compensationHistory.length > 0 && (
+            <div>
+              <h3 className="text-sm font-semibold text-gray-300 mb-2">Pay History</h3>
+              <div className="overflow-x-auto rounded-xl border border-white/10">
+                <table className="min-w-full text-sm">
+                  <thead className="bg-gray-800/60 text-left text-xs uppercase tracking-wider text-gray-400">
+                    <tr>
+                      <th className="px-3 py-2">Effective From</th>
+                      <th className="px-3 py-2 text-right">Monthly</th>
+                      <th className="px-3 py-2 text-right">Per Day</th>
+                      <th className="px-3 py-2 text-right">Allowance</th>
+                      <th className="px-3 py-2" />
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-white/10">
+                    {emp.compensationHistory.map((h) => (
+                      <tr key={h.effectiveFrom}>
+                        <td className="px-3 py-2">
+                          {h.effectiveFrom}
+                          {h.note && <span className="text-xs text-gray-400"> • {h.note}</span>}
+                        </td>
+                        <td className="px-3 py-2 text-right font-mono">{money(Number(h.monthlySalary || 0))}</td>
+                        <td className="px-3 py-2 text-right font-mono">{money(Number(h.perDayRate || 0))}</td>
+                        <td className="px-3 py-2 text-right font-mono">{money(Number(h.allowancePerDay || 0))}</td>
+                        <td className="px-3 py-2 text-right">
+                          <button
+                            type="button"
+                            onClick={() => removePayChange(h.effectiveFrom)}
+                            className="text-rose-400 hover:text-rose-300"
+                          >
+                            Remove
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="text-xs text-gray-400 mt-2">
+                Payroll drafts split a cutoff on hire, separation and each change here, pricing each part at its rate.
+              </p>
+            </div>
+          )}
         </section>
 
         {/* Freelancer Rates */}
         {emp.type === "freelancer" && (
           <section className="rounded-2xl border border-white/10 bg-gray-800/40 p-6 space-y-4">
             <div className="flex items-center justify-between">
-              <h2 className="text-lg font-semibold">Freelancer Rates</h2>
+              <h2 className="text-lg font-semibold">Freelancer Deliverables</h2>
               <button type="button" onClick={addFreelancerItem} className="btn-link">
-                + Add Project Rate
+                + Add Deliverable
               </button>
             </div>
+            <p className="text-sm text-gray-300">
+              Approved deliverables are paid on the first regular cutoff ending on or after their delivery date, less
+              expanded withholding tax. Paid items are locked.
+            </p>
+            <div className="max-w-xs">
+              <label className="lbl">EWT Rate (%)</label>
+              <input
+                type="number"
+                step="0.01"
+                value={emp.ewtRate}
+                onChange={(e) => setEmp((p) => ({ ...p, ewtRate: e.target.value }))}
+                className="inp"
+                placeholder="Blank = pay rules"
+              />
+            </div>
             <div className="space-y-3">
               {(emp.freelancerItems || []).map((it) => (
                 <div key={it.id} className="flex flex-wrap gap-3 items-center">
                   <input
                     placeholder="Project"
                     value={it.project}
+                    disabled={it.status === "paid"}
                     onChange={(e) => updateFreelancerItem(it.id, "project", e.target.value)}
                     className="inp flex-1 min-w-[200px]"
                   />
+                  <input
+                    type="date"
+                    title="Delivered on"
+                    value={it.deliveredOn || ""}
+                    disabled={it.status === "paid"}
+                    onChange={(e) => updateFreelancerItem(it.id, "deliveredOn", e.target.value)}
+                    className="inp w-44"
+                  />
                   <input
                     type="number"
                     placeholder="Quantity"
                     value={it.quantity}
+                    disabled={it.status === "paid"}
                     onChange={(e) => updateFreelancerItem(it.id, "quantity", e.target.value)}
                     className="inp w-32"
                   />
@@ -634,19 +831,34 @@ export default function EditEmployeePage() {
                     type="number"
                     placeholder="Rate (₱)"
                     value={it.rate}
+                    disabled={it.status === "paid"}
                     onChange={(e) => updateFreelancerItem(it.id, "rate", e.target.value)}
                     className="inp w-36"
                   />
                   <span className="text-sm text-green-300 min-w-[120px]">
                     Subtotal: <b>{money(it.quantity * it.rate)}</b>
                   </span>
-                  <button
-                    type="button"
-                    onClick={() => removeFreelancerItem(it.id)}
-                    className="text-rose-400 hover:text-rose-300"
-                  >
-                    Remove
-                  </button>
+                  {it.status === "paid" ? (
+                    <span className="text-xs text-emerald-300">{FREELANCER_ITEM_STATUSES.paid}</span>
+                  ) : (
+                    <>
+                      <select
+                        value={it.status || "pending"}
+                        onChange={(e) => updateFreelancerItem(it.id, "status", e.target.value as FreelancerItemStatus)}
+                        className="inp w-44"
+                      >
+                        <option value="pending">{FREELANCER_ITEM_STATUSES.pending}</option>
+                        <option value="approved">{FREELANCER_ITEM_STATUSES.approved}</option>
+                      </select>
+                      <button
+                        type="button"
+                        onClick={() => removeFreelancerItem(it.id)}
+                        className="text-rose-400 hover:text-rose-300"
+                      >
+                        Remove
+                      </button>
+                    </>
+                  )}
                 </div>
               ))}
             </div>
@@ -661,16 +873,28 @@ export default function EditEmployeePage() {
               + Add OB Rate
             </button>
           </div>
-          <p className="text-sm text-gray-300">Set per-category rates, e.g., “Videographer = 2500”, “Shoot = 1500”.</p>
+          <p className="text-sm text-gray-300">
+            Overrides for this employee only. Categories without an override use the company OB rate catalog (Finance
+            Settings).
+          </p>
           <div className="space-y-3">
             {(emp.obRates || []).map((r) => (
               <div key={r.id} className="flex gap-3 items-center">
-                <input
-                  placeholder="Category (e.g., Videographer)"
+                <select
                   value={r.category}
                   onChange={(e) => updateObRate(r.id!, "category", e.target.value)}
                   className="inp flex-1 min-w-[220px]"
-                />
+                >
+                  <option value="">Select category…</option>
+                  {OB_CATEGORIES.map((c) => (
+                    <option key={c.key} value={c.label}>
+                      {c.label}
+                    </option>
+                  ))}
+                  {r.category && !OB_CATEGORIES.some((c) => c.label === r.category) && (
+                    <option value={r.category}>{r.category} (legacy)</option>
+                  )}
+                </select>
                 <input
                   type="number"
                   placeholder="Rate"
@@ -683,9 +907,6 @@ export default function EditEmployeePage() {
                 </button>
               </div>
             ))}
-            {emp.type === "intern" && (
-              <div className="text-xs text-amber-300">Interns include a fixed entry “OB (Intern Fixed)” = ₱500.</div>
-            )}
           </div>
         </section>
 
@@ -697,7 +918,31 @@ export default function EditEmployeePage() {
               + Add Commission Rule
             </button>
           </div>
-          <p className="text-sm text-gray-300">Example: ₱2,000 per cutoff for 2025-08 to 2025-10.</p>
+          <p className="text-sm text-gray-300">
+            Example: ₱2,000 per cutoff for 2025-08 to 2025-10. Added to every regular payroll draft whose cutoff ends in one
+            of the months; finance can remove it for a single cutoff.
+          </p>
+          <div>
+            <label className="lbl">Commission Plan</label>
+            <select
+              value={emp.commissionPlanId}
+              onChange={(e) => setEmp((p) => ({ ...p, commissionPlanId: e.target.value }))}
+              className="inp"
+            >
+              <option value="">No tiered plan</option>
+              {plans
+                .filter((p) => p.active || p.id === emp.commissionPlanId)
+                .map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.name}
+                    {p.active ? "" : " (inactive)"}
+                  </option>
+                ))}
+            </select>
+            <p className="text-xs text-gray-400 mt-1">
+              Monthly statements from the sales ledger (Finance → Commissions) are added on the cutoff each month ends in.
+            </p>
+          </div>
           <div className="space-y-3">
             {(emp.commissionRules || []).map((c) => (
               <div key={c.id} className="rounded-xl border border-white/10 p-4 bg-black/20">
@@ -736,6 +981,103 @@ export default function EditEmployeePage() {
           </div>
         </section>
 
+        {/* Recurring Pay Items */}
+        <section className="rounded-2xl border border-white/10 bg-gray-800/40 p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <h2 className="text-lg font-semibold">Recurring Pay Items</h2>
+            <div className="flex gap-4">
+              <button type="button" onClick={() => addRecurringItem("earning")} className="btn-link">
+                + Add Earning
+              </button>
+              <button type="button" onClick={() => addRecurringItem("deduction")} className="btn-link">
+                + Add Deduction
+              </button>
+            </div>
+          </div>
+          <p className="text-sm text-gray-300">
+            Added to every payroll draft published within the date range, e.g. rice allowance or HMO dependent premium.
+          </p>
+          <div className="space-y-3">
+            {(emp.recurringItems || []).map((it) => (
+              <div key={it.id} className="rounded-xl border border-white/10 p-4 bg-black/20">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                  <div>
+                    <label className="lbl">{it.kind === "earning" ? "Earning" : "Deduction"}</label>
+                    <input
+                      value={it.label}
+                      onChange={(e) => updateRecurringItem(it.id, { label: e.target.value })}
+                      className="inp"
+                      placeholder={it.kind === "earning" ? "Rice Allowance" : "HMO Dependent Premium"}
+                    />
+                  </div>
+                  <div>
+                    <label className="lbl">Amount per Cutoff (₱)</label>
+                    <input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={it.amount}
+                      onChange={(e) => updateRecurringItem(it.id, { amount: Number(e.target.value) || 0 })}
+                      className="inp"
+                    />
+                  </div>
+                  <div>
+                    <label className="lbl">Cutoff</label>
+                    <select
+                      value={it.half}
+                      onChange={(e) => updateRecurringItem(it.id, { half: e.target.value as RecurringHalf })}
+                      className="inp"
+                    >
+                      {(Object.keys(RECURRING_HALVES) as RecurringHalf[]).map((h) => (
+                        <option key={h} value={h}>
+                          {RECURRING_HALVES[h]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="lbl">Start Date</label>
+                    <input
+                      type="date"
+                      value={it.startDate}
+                      onChange={(e) => updateRecurringItem(it.id, { startDate: e.target.value })}
+                      className="inp"
+                    />
+                  </div>
+                  <div>
+                    <label className="lbl">End Date (optional)</label>
+                    <input
+                      type="date"
+                      value={it.endDate || ""}
+                      onChange={(e) => updateRecurringItem(it.id, { endDate: e.target.value || null })}
+                      className="inp"
+                    />
+                  </div>
+                  {it.kind === "earning" && (
+                    <label className="flex items-center gap-2 text-sm text-gray-300 md:mt-7">
+                      <input
+                        type="checkbox"
+                        checked={it.taxable}
+                        onChange={(e) => updateRecurringItem(it.id, { taxable: e.target.checked })}
+                      />
+                      Taxable
+                    </label>
+                  )}
+                </div>
+                <div className="mt-2">
+                  <button
+                    type="button"
+                    onClick={() => removeRecurringItem(it.id)}
+                    className="text-rose-400 hover:text-rose-300"
+                  >
+                    Remove
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </section>
+
         {/* Financial & Benefits */}
         <section className="rounded-2xl border border-white/10 bg-gray-800/40 p-6 space-y-6">
           <h2 className="text-lg font-semibold border-b border-white/10 pb-3">Financial & Benefits</h2>
@@ -772,6 +1114,26 @@ export default function EditEmployeePage() {
               onIdChange={(v) => setEmp((p) => ({ ...p, pagibigNumber: v }))}
             />
           </div>
+
+          {emp.benefits.pagibig && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <Field label="Pag-IBIG Voluntary Monthly Contribution (₱)">
+                <input
+                  name="pagibigVoluntary"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={emp.pagibigVoluntary}
+                  onChange={handleChange}
+                  className="inp"
+                  placeholder="0"
+                />
+                <p className="text-xs text-gray-400 mt-2">
+                  Total employee share per month. Leave at 0 for the mandatory rate; only applied when higher.
+                </p>
+              </Field>
+            </div>
+          )}
         </section>
 
         {/* Actions */}
@@ -1,8 +1,9 @@
 // src/pages/Finance/EmployeeDetailPage.tsx
 import { useEffect, useMemo, useState } from "react";
 import { db } from "../../firebase/firebase";
-import { doc, getDoc } from "firebase/firestore";
+import { collection, doc, getDoc, getDocs, orderBy, query, where } from "firebase/firestore";
 import { useNavigate, useParams } from "react-router-dom";
+import { loanLabel, type Loan, type LoanLedgerEntry } from "../../utils/loans";
 
 /* ───────────────── Types ───────────────── */
 type EmployeeType =
@@ -40,6 +41,7 @@ interface EmployeeDoc {
   bankName?: string;
   accountNumber?: string;
   hireDate?: any;
+  separationDate?: unknown;
   status?: EmpStatus;
   email?: string;
   phoneNumber?: string;
@@ -70,6 +72,7 @@ interface Employee
   bankName: string;
   accountNumber: string;
   hireDate: string;
+  separationDate: string;
   phoneNumber: string;
   address: string;
   sssNumber: string;
@@ -169,6 +172,7 @@ export default function EmployeeDetailPage() {
   const navigate = useNavigate();
   const [employee, setEmployee] = useState<Employee | null>(null);
   const [loading, setLoading] = useState(true);
+  const [loans, setLoans] = useState<Array<Loan & { ledger: LoanLedgerEntry[] }>>([]);
 
   useEffect(() => {
     (async () => {
@@ -217,6 +221,7 @@ export default function EmployeeDetailPage() {
           bankName: d.bankName || "—",
           accountNumber: d.accountNumber || "—",
           hireDate: formatMaybeTimestamp(d.hireDate),
+          separationDate: d.separationDate ? formatMaybeTimestamp(d.separationDate) : "—",
           status: (d.status as EmpStatus) || "active",
           email: d.email || "—",
           phoneNumber: d.phoneNumber || "—",
@@ -236,6 +241,30 @@ export default function EmployeeDetailPage() {
     })();
   }, [id]);
 
+  // loans with their posted deductions
+  useEffect(() => {
+    (async () => {
+      if (!id) return;
+      try {
+        const snap = await getDocs(query(collection(db, "loans"), where("employeeId", "==", id)));
+        const list = await Promise.all(
+          snap.docs.map(async (d) => {
+            const ledger = await getDocs(query(collection(db, "loans", d.id, "ledger"), orderBy("postedAt", "asc")));
+            return {
+              ...(d.data() as Omit<Loan, "id">),
+              id: d.id,
+              ledger: ledger.docs.map((e) => ({ ...(e.data() as Omit<LoanLedgerEntry, "id">), id: e.id })),
+            };
+          })
+        );
+        list.sort((a, b) => String(b.startCutoff).localeCompare(String(a.startCutoff)));
+        setLoans(list);
+      } catch (e) {
+        console.error("Loans load error:", e);
+      }
+    })();
+  }, [id]);
+
   const categoryChip = useMemo(() => {
     if (!employee) return "";
     switch (employee.type) {
@@ -397,6 +426,7 @@ export default function EmployeeDetailPage() {
                 <Row label="Phone" value={employee.phoneNumber} />
                 <Row label="Address" value={employee.address} />
                 <Row label="Hire Date" value={employee.hireDate} />
+                <Row label="Separation Date" value={employee.separationDate} />
               </div>
             </section>
 
@@ -499,6 +529,55 @@ export default function EmployeeDetailPage() {
               )}
             </section>
 
+            {/* Loans */}
+            <section className="space-y-4">
+              <h2 className="text-lg font-semibold">Loans</h2>
+              {loans.length === 0 ? (
+                <div className="text-sm text-gray-400 bg-white/5 border border-white/10 rounded-xl p-4">
+                  No loans recorded.
+                </div>
+              ) : (
+                loans.map((l) => (
+                  <div key={l.id} className="rounded-xl border border-white/10 bg-white/5 p-4 space-y-3">
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                      <div className="font-medium">{loanLabel(l)}</div>
+                      <div className="text-xs text-gray-300">
+                        {peso(l.principal)} principal • {peso(l.amortization)}/cutoff from {l.startCutoff} • balance{" "}
+                        <span className="font-mono text-amber-300">{peso(l.balance)}</span> •{" "}
+                        <span className="capitalize">{l.status}</span>
+                      </div>
+                    </div>
+                    {l.ledger.length > 0 ? (
+                      <div className="overflow-x-auto rounded-xl border border-white/10">
+                        <table className="w-full">
+                          <thead className="bg-gray-800/60 border-b border-white/10">
+                            <tr>
+                              <th className="text-left text-sm text-gray-300 py-2 px-3">Cutoff</th>
+                              <th className="text-left text-sm text-gray-300 py-2 px-3">Deducted</th>
+                              <th className="text-left text-sm text-gray-300 py-2 px-3">Balance Before</th>
+                              <th className="text-left text-sm text-gray-300 py-2 px-3">Balance After</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {l.ledger.map((e) => (
+                              <tr key={e.id} className="border-b border-white/5">
+                                <td className="py-2 px-3">{e.cutoffLabel || e.periodKey}</td>
+                                <td className="py-2 px-3 font-mono">{peso(e.amount)}</td>
+                                <td className="py-2 px-3 font-mono">{peso(e.balanceBefore)}</td>
+                                <td className="py-2 px-3 font-mono">{peso(e.balanceAfter)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    ) : (
+                      <div className="text-xs text-gray-400">No deductions posted yet.</div>
+                    )}
+                  </div>
+                ))
+              )}
+            </section>
+
             <div className="flex justify-center">
               <button
                 onClick={() => navigate(`/finance/employees/${employee.id}/edit`)}
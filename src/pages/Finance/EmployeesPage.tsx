@@ -239,6 +239,12 @@ export default function EmployeesPage() {
                           >
                             Edit
                           </button>
+                          <button
+                            onClick={() => navigate(`/finance/final-pay?employee=${emp.id}`)}
+                            className="text-amber-400 hover:text-amber-300 text-sm"
+                          >
+                            Final Pay
+                          </button>
                           {/* Hook up delete later if needed */}
                         </td>
                       </tr>
@@ -0,0 +1,528 @@
+// src/pages/Finance/FinalPayPage.tsx
+// Final pay for separating employees. Gathers what the payslips already paid this year, the open cash advance and
+// the balances finance enters (leave credits, loans), previews the computation and creates a one-line
+// "final_pay" payroll draft that goes through the usual approvals. The line keeps only what finance picked; the
+// payroll functions set the run up again from the employee and their payslips (finalPaySetup).
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import {
+  addDoc,
+  collection,
+  doc,
+  getDocs,
+  limit,
+  onSnapshot,
+  query,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  where,
+} from "firebase/firestore";
+import { getAuth } from "firebase/auth";
+import { httpsCallable } from "firebase/functions";
+import { db, functions } from "../../firebase/firebase";
+import { sumPesos } from "../../utils/money";
+import { countWorkdays } from "../../utils/paySegments";
+import type { LoanDeductionInput } from "../../utils/payrollLogic";
+import { dueLoans, type Loan } from "../../utils/loans";
+import { advanceBalance, isOpenAdvance, type CashAdvance } from "../../utils/cashAdvances";
+import { calculateFinalPay, type FinalPaySelection } from "../../utils/finalPay";
+import {
+  employeeMeta,
+  finalPayGap,
+  finalPaySetup,
+  leaveDailyRate,
+  payHistory,
+  unpaidPeriod,
+  type EmployeeDoc,
+  type EmployeeMeta,
+  type HistoryPayslip,
+  type PayHistory,
+} from "../../utils/draftPayroll";
+
+type Emp = EmployeeMeta & {
+  id: string; // employees doc id
+  employeeId: string; // HR employee code
+};
+
+/** What the employee's payslips, cash advances and loans say as of the separation date. */
+type PayContext = {
+  history: PayHistory;
+  cashAdvanceBalance: number;
+  loans: LoanDeductionInput[]; // active /loans, settled in full on the draft
+};
+
+type FinalDraft = {
+  id: string;
+  status: string;
+  cutoffLabel?: string | null;
+  separationDate?: string;
+  employeeId?: string;
+  totals?: { net?: number };
+};
+
+const REASONS = ["Resignation", "End of contract", "Termination", "Retirement", "Other"];
+
+const recomputeDraft = httpsCallable<{ draftId: string }, { count: number; gross: number; net: number }>(
+  functions,
+  "recomputePayrollDraft"
+);
+
+const peso = (n: number) =>
+  `₱${(Number(n) || 0).toLocaleString("en-PH", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const localIso = (key: string, endOfDay = false) => {
+  const [y, m, d] = key.split("-").map(Number);
+  return (endOfDay ? new Date(y, m - 1, d, 23, 59, 59, 999) : new Date(y, m - 1, d, 0, 0, 0, 0)).toISOString();
+};
+
+async function loadPayContext(emp: Emp, separationDate: string): Promise<PayContext> {
+  const year = Number(separationDate.slice(0, 4));
+
+  // payslips are keyed by employees doc id; older ones by auth uid
+  const queries = [getDocs(query(collection(db, "payslips"), where("employeeDocId", "==", emp.id)))];
+  if (emp.uid) queries.push(getDocs(query(collection(db, "payslips"), where("employeeId", "==", emp.uid))));
+  const byId = new Map<string, HistoryPayslip>();
+  for (const snap of await Promise.all(queries)) {
+    snap.forEach((d) => byId.set(d.id, d.data() as HistoryPayslip));
+  }
+
+  // cash advances: what is left on each open advance (older advances hold the HR employee code)
+  const caSnap = await getDocs(
+    query(
+      collection(db, "cashAdvances"),
+      where("employeeId", "in", [emp.id, emp.employeeId].filter(Boolean)),
+      where("approved", "==", true)
+    )
+  );
+  const caBalance = sumPesos(
+    ...caSnap.docs
+      .map((d) => ({ ...(d.data() as Omit<CashAdvance, "id">), id: d.id }))
+      .filter(isOpenAdvance)
+      .map(advanceBalance)
+  );
+
+  const loanSnap = await getDocs(
+    query(collection(db, "loans"), where("employeeId", "==", emp.id), where("status", "==", "active"))
+  );
+  const loans = dueLoans(
+    loanSnap.docs.map((d) => ({ ...(d.data() as Omit<Loan, "id">), id: d.id })),
+    null
+  )[emp.id];
+
+  return {
+    history: payHistory([...byId.values()], year, { [emp.id]: emp })[emp.id],
+    cashAdvanceBalance: caBalance,
+    loans: loans || [],
+  };
+}
+
+export default function FinalPayPage() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const [emps, setEmps] = useState<Emp[]>([]);
+  const [drafts, setDrafts] = useState<FinalDraft[]>([]);
+
+  // form
+  const [employeeDocId, setEmployeeDocId] = useState("");
+  const [separationDate, setSeparationDate] = useState("");
+  const [reason, setReason] = useState(REASONS[0]);
+  const [daysWorked, setDaysWorked] = useState<number | "">("");
+  const [leaveDays, setLeaveDays] = useState<number | "">("");
+  const [loanBalance, setLoanBalance] = useState<number | "">("");
+
+  const [ctx, setCtx] = useState<PayContext | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [creating, setCreating] = useState(false);
+  const [err, setErr] = useState("");
+
+  useEffect(() => {
+    (async () => {
+      const snap = await getDocs(collection(db, "employees"));
+      const list: Emp[] = [];
+      snap.forEach((d) => {
+        const x = d.data();
+        const meta = employeeMeta(d.id, { ...(x as EmployeeDoc), category: x.category || x.type });
+        if (meta.category === "owner" || meta.category === "freelancer") return;
+        list.push({ ...meta, id: d.id, employeeId: x.employeeId || "" });
+      });
+      list.sort((a, b) => a.name.localeCompare(b.name));
+      setEmps(list);
+
+      // opened from EmployeesPage → Final Pay
+      const pre = list.find((e) => e.id === searchParams.get("employee"));
+      if (pre) {
+        setEmployeeDocId(pre.id);
+        setSeparationDate(pre.separationDate || "");
+      }
+    })();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  useEffect(() => {
+    const unsub = onSnapshot(
+      query(collection(db, "payrollDrafts"), where("type", "==", "final_pay")),
+      (snap) => {
+        const list = snap.docs.map((d) => ({ ...(d.data() as Omit<FinalDraft, "id">), id: d.id }));
+        list.sort((a, b) => String(b.separationDate || "").localeCompare(String(a.separationDate || "")));
+        setDrafts(list);
+      },
+      (e) => console.error("final pay drafts subscribe error:", e)
+    );
+    return () => unsub();
+  }, []);
+
+  const selected = useMemo(() => emps.find((e) => e.id === employeeDocId), [emps, employeeDocId]);
+
+  const pickEmployee = (id: string) => {
+    setEmployeeDocId(id);
+    setCtx(null);
+    setErr("");
+    setSeparationDate(emps.find((e) => e.id === id)?.separationDate || "");
+  };
+
+  // ✅ reload what was already paid whenever the employee or the separation date changes
+  useEffect(() => {
+    if (!selected || !/^\d{4}-\d{2}-\d{2}$/.test(separationDate)) return;
+    let cancelled = false;
+    setLoading(true);
+    setErr("");
+    loadPayContext(selected, separationDate)
+      .then((c) => {
+        if (cancelled) return;
+        setCtx(c);
+        setDaysWorked(unpaidPeriod(selected, c.history, separationDate).days);
+      })
+      .catch((e) => {
+        console.error(e);
+        if (!cancelled) setErr("Failed to load payslips and cash advances.");
+      })
+      .finally(() => !cancelled && setLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [selected, separationDate]);
+
+  // only the selection is saved on the line; the payroll functions derive the rest the same way
+  const selection: FinalPaySelection = {
+    separationDate,
+    reason,
+    daysWorked: Number(daysWorked || 0),
+    leaveDays: Number(leaveDays || 0),
+    loanBalance: Number(loanBalance || 0),
+  };
+
+  const preview = useMemo(() => {
+    if (!selected || !ctx || !separationDate) return null;
+    const gap = finalPayGap(selected, ctx.history, separationDate);
+    if (gap) return { setup: null, out: null, error: gap };
+    const setup = finalPaySetup(selected, ctx.history, selection, ctx.cashAdvanceBalance);
+    const out = calculateFinalPay({ ...setup, salary: { ...setup.salary, loans: ctx.loans } });
+    return { setup, out, error: "" };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selected, ctx, separationDate, reason, daysWorked, leaveDays, loanBalance]);
+
+  const createDraft = async () => {
+    const me = getAuth().currentUser;
+    if (!me || !selected || !preview?.setup) return;
+    setCreating(true);
+    setErr("");
+    try {
+      const periodKey = `final_pay_${selected.id}_${separationDate}`;
+      const existing = await getDocs(
+        query(collection(db, "payrollDrafts"), where("periodKey", "==", periodKey), limit(1))
+      );
+      if (!existing.empty && existing.docs[0].data().status !== "rejected") {
+        throw new Error(`A final pay run for ${selected.name} already exists.`);
+      }
+
+      const { from, cutoff } = unpaidPeriod(selected, (ctx as PayContext).history, separationDate);
+      const draftRef = await addDoc(collection(db, "payrollDrafts"), {
+        type: "final_pay",
+        employeeId: selected.id,
+        separationDate,
+        status: "draft",
+        periodKey,
+        cutoffLabel: `Final Pay — ${selected.name} (separated ${separationDate})`,
+        cutoffStart: localIso(from <= separationDate ? from : separationDate),
+        cutoffEnd: localIso(separationDate, true),
+        workedDays: countWorkdays(cutoff.start, cutoff.end),
+        createdAt: serverTimestamp(),
+        createdBy: { uid: me.uid, name: me.displayName || me.email || "user" },
+        requiredExecApprovals: 2,
+      });
+
+      await setDoc(doc(db, "payrollDrafts", draftRef.id, "lines", selected.id), {
+        employeeId: selected.id,
+        name: selected.name,
+        category: selected.category,
+        periodKey,
+        daysWorked: selection.daysWorked,
+        hoursWorked: 0,
+        timeInOut: [],
+        adjustments: {},
+        adjustmentsTotal: 0,
+        commissionsTotal: 0,
+        finalPay: selection,
+        updatedAt: serverTimestamp(),
+      });
+
+      // pins the pay rules in effect on the separation date and computes the totals
+      await recomputeDraft({ draftId: draftRef.id });
+
+      const [y, m, d] = separationDate.split("-").map(Number);
+      await updateDoc(doc(db, "employees", selected.id), {
+        separationDate: new Date(y, m - 1, d),
+        separationReason: reason,
+      });
+
+      navigate(`/finance/payroll/drafts/${draftRef.id}`);
+    } catch (e) {
+      setErr(e instanceof Error ? e.message : "Failed to create the final pay draft.");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const out = preview?.out;
+  const fp = out?.finalPay;
+  const num = (set: (v: number | "") => void) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    set(e.target.value === "" ? "" : Number(e.target.value));
+
+  return (
+    <div className="min-h-screen bg-gray-900 rounded-2xl text-white pt-20 pb-20">
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold">Final Pay</h1>
+          <p className="text-gray-300 mt-1">
+            Last salary, pro-rated 13th month, leave conversion and tax true-up for a separating employee, less what
+            they still owe.
+          </p>
+        </div>
+
+        <div className="rounded-2xl border border-white/10 bg-gray-800/40 p-5 mb-5 space-y-4">
+          <div className="grid md:grid-cols-4 gap-4">
+            <div className="md:col-span-2">
+              <label className="lbl">Employee</label>
+              <select className="inp" value={employeeDocId} onChange={(e) => pickEmployee(e.target.value)}>
+                <option value="">Select employee…</option>
+                {emps.map((e) => (
+                  <option key={e.id} value={e.id}>
+                    {e.name} {e.employeeId ? `(${e.employeeId})` : ""}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="lbl">Separation Date</label>
+              <input
+                type="date"
+                className="inp"
+                value={separationDate}
+                onChange={(e) => {
+                  setCtx(null);
+                  setSeparationDate(e.target.value);
+                }}
+              />
+            </div>
+            <div>
+              <label className="lbl">Reason</label>
+              <select className="inp" value={reason} onChange={(e) => setReason(e.target.value)}>
+                {REASONS.map((r) => (
+                  <option key={r}>{r}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {ctx && (
+            <>
+              <p className="text-xs text-gray-400">
+                Last paid through {ctx.history.lastPaidThrough || "—"} • {ctx.history.payslipCount} payslip(s) this
+                year • basic pay {peso(ctx.history.basicPayEarned)} • tax withheld{" "}
+                {peso(ctx.history.ytd.ytdWithholdingTax)}
+                {ctx.history.thirteenthPaid ? ` • 13th month already released ${peso(ctx.history.thirteenthPaid)}` : ""}
+                {ctx.loans.length
+                  ? ` • loans on record ${peso(sumPesos(...ctx.loans.map((l) => l.balance)))} (deducted in full)`
+                  : ""}
+              </p>
+              <div className="grid md:grid-cols-5 gap-4">
+                <div>
+                  <label className="lbl">Days Worked (unpaid)</label>
+                  <input type="number" min={0} step="0.5" className="inp" value={daysWorked} onChange={num(setDaysWorked)} />
+                </div>
+                <div>
+                  <label className="lbl">Unused Leave (days)</label>
+                  <input type="number" min={0} step="0.5" className="inp" value={leaveDays} onChange={num(setLeaveDays)} />
+                </div>
+                <div>
+                  <label className="lbl">Leave Daily Rate (₱) — rate on file</label>
+                  <input
+                    type="number"
+                    className="inp"
+                    value={selected ? leaveDailyRate(selected, separationDate) : ""}
+                    readOnly
+                  />
+                </div>
+                <div>
+                  <label className="lbl">Cash Advance Balance (₱) — deducted in full</label>
+                  <input type="number" className="inp" value={ctx.cashAdvanceBalance} readOnly />
+                </div>
+                <div>
+                  <label className="lbl">Other Loans (₱)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    className="inp"
+                    value={loanBalance}
+                    onChange={num(setLoanBalance)}
+                  />
+                </div>
+              </div>
+            </>
+          )}
+          {loading && <div className="text-gray-400 text-sm">Loading payslips…</div>}
+          {(err || preview?.error) && <div className="text-rose-300 text-sm">{err || preview?.error}</div>}
+        </div>
+
+        {out && fp && (
+          <div className="rounded-2xl border border-white/10 bg-gray-800/40 p-5 mb-8 space-y-4">
+            <div className="grid md:grid-cols-2 gap-6 text-sm">
+              <div className="space-y-1">
+                <h3 className="font-semibold mb-2">Earnings</h3>
+                <Row label="Last salary" value={peso(fp.lastSalary)} />
+                {out.segments.map((sg) => (
+                  <div key={sg.start} className="pl-3 text-xs text-gray-400">
+                    {sg.label}: {peso(sg.cutoffPay)} @ {peso(sg.dailyRate)}/day
+                  </div>
+                ))}
+                <Row
+                  label={`13th month (${peso(fp.thirteenthMonth.basicPayEarned)} ÷ 12${
+                    fp.thirteenthMonthAlreadyPaid ? ` − ${peso(fp.thirteenthMonthAlreadyPaid)}` : ""
+                  })`}
+                  value={peso(fp.thirteenthMonth.amount)}
+                />
+                <Row label={`Leave conversion (${fp.leaveDays} day/s)`} value={peso(fp.leaveConversionPay)} />
+                <Row label="Gross" value={peso(out.grossEarnings)} strong />
+              </div>
+              <div className="space-y-1">
+                <h3 className="font-semibold mb-2">Deductions</h3>
+                <Row label="SSS / PhilHealth / Pag-IBIG" value={peso(sumPesos(out.sss, out.philhealth, out.pagibig))} />
+                <Row
+                  label={`Tax (annual due ${peso(out.annualTaxDue)} − withheld ${peso(ctx?.history.ytd.ytdWithholdingTax || 0)})`}
+                  value={peso(sumPesos(out.withholdingTax, out.yearEndTaxAdjustment))}
+                />
+                <Row label="Absences" value={peso(out.absenceDeduction)} />
+                <Row label="Cash advance balance" value={peso(fp.cashAdvanceBalance)} />
+                {out.loanDeductions.map((l) => (
+                  <Row key={l.loanId} label={l.label} value={peso(l.amount)} />
+                ))}
+                <Row label="Other loans" value={peso(fp.loanBalance)} />
+                <Row label="Total" value={peso(out.totalDeductions)} strong />
+              </div>
+            </div>
+            <p className="text-xs text-gray-400">
+              Commissions, open retro pay and carried balances are added on the draft. Rates and tables are pinned
+              when the draft is opened.
+            </p>
+            <div className="flex flex-col md:flex-row md:items-end md:justify-end gap-4">
+              <div className="text-right">
+                <div className="text-sm text-gray-400">{fp.balanceDue ? "Balance due from employee" : "Final pay"}</div>
+                <div className={`text-2xl font-bold ${fp.balanceDue ? "text-amber-300" : "text-emerald-300"}`}>
+                  {peso(fp.balanceDue || out.netPay)}
+                </div>
+              </div>
+              <button
+                onClick={createDraft}
+                disabled={creating}
+                className="px-5 py-2 rounded-xl bg-emerald-600 hover:bg-emerald-500 disabled:opacity-60"
+              >
+                {creating ? "Creating…" : "Create Final Pay Draft"}
+              </button>
+            </div>
+          </div>
+        )}
+
+        <h2 className="text-lg font-semibold mb-3">Final Pay Runs</h2>
+        <div className="overflow-x-auto rounded-2xl border border-white/10">
+          <table className="min-w-full divide-y divide-white/10">
+            <thead className="bg-gray-800/60 text-left text-xs uppercase tracking-wider text-gray-400">
+              <tr>
+                <th className="px-4 py-3">Run</th>
+                <th className="px-4 py-3">Separated</th>
+                <th className="px-4 py-3">Status</th>
+                <th className="px-4 py-3 text-right">Net</th>
+                <th className="px-4 py-3 text-center">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/10 bg-gray-900/20 text-sm">
+              {drafts.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="px-4 py-6 text-center text-gray-400">
+                    No final pay runs yet.
+                  </td>
+                </tr>
+              ) : (
+                drafts.map((d) => (
+                  <tr key={d.id}>
+                    <td className="px-4 py-3">{d.cutoffLabel || d.id}</td>
+                    <td className="px-4 py-3">{d.separationDate || "—"}</td>
+                    <td className="px-4 py-3">{d.status.replace(/_/g, " ")}</td>
+                    <td className="px-4 py-3 text-right font-mono">{d.totals?.net != null ? peso(d.totals.net) : "—"}</td>
+                    <td className="px-4 py-3 text-center space-x-3">
+                      <button
+                        onClick={() => navigate(`/finance/payroll/drafts/${d.id}`)}
+                        className="text-blue-400 hover:text-blue-300"
+                      >
+                        Open
+                      </button>
+                      <button
+                        onClick={() => navigate(`/finance/final-pay/${d.id}/sheet`)}
+                        className="text-blue-400 hover:text-blue-300"
+                      >
+                        Sheet
+                      </button>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <style>{`
+        .inp {
+          width: 100%;
+          padding: 0.75rem 1rem;
+          background: rgba(255,255,255,0.06);
+          border: 1px solid rgba(255,255,255,0.15);
+          border-radius: 0.75rem;
+          color: #fff;
+          outline: none;
+        }
+        .inp:focus {
+          box-shadow: 0 0 0 2px rgba(59,130,246,0.5);
+          border-color: rgba(59,130,246,0.6);
+        }
+        .lbl {
+          display:block;
+          font-size: 0.9rem;
+          font-weight: 500;
+          color: #d1d5db;
+          margin-bottom: 0.35rem;
+        }
+      `}</style>
+    </div>
+  );
+}
+
+function Row({ label, value, strong }: { label: string; value: string; strong?: boolean }) {
+  return (
+    <div className={`flex justify-between gap-4 ${strong ? "font-semibold border-t border-white/10 pt-1" : ""}`}>
+      <span className="text-gray-300">{label}</span>
+      <span className="font-mono">{value}</span>
+    </div>
+  );
+}
@@ -0,0 +1,389 @@
+// src/pages/Finance/FinalPaySheetPage.tsx
+// Printable final pay computation sheet. Once the run is approved it reads the payslip; before that it computes
+// the draft line the same way PayrollDraftPage does (pinned rules, open carry-forwards and retro pay, commissions,
+// the setup derived from the employee's payslips).
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { collection, doc, getDoc, getDocs, limit, query, where } from "firebase/firestore";
+import { db } from "../../firebase/firebase";
+import { toDateKey } from "../../utils/holidays";
+import { subtractPesos, sumPesos } from "../../utils/money";
+import { openBalances, settleNetPay, type CarryForward } from "../../utils/carryForward";
+import { openRetroPay, type RetroPayAdjustment } from "../../utils/retroPay";
+import type { PayRuleSet } from "../../utils/payRules";
+import {
+  calculateFinalPay,
+  type FinalPayOutput,
+  type FinalPaySelection,
+  type FinalPaySetup,
+} from "../../utils/finalPay";
+import { dueLoans, type Loan } from "../../utils/loans";
+import { advanceBalance, isOpenAdvance, type CashAdvance } from "../../utils/cashAdvances";
+import {
+  employeeMeta,
+  finalPaySetup,
+  payHistory,
+  type EmployeeDoc,
+  type HistoryPayslip,
+} from "../../utils/draftPayroll";
+
+type SheetEmployee = {
+  name: string;
+  employeeId?: string;
+  position?: string;
+  department?: string;
+  hireDate?: string | null;
+  separationReason?: string;
+};
+
+type Sheet = {
+  status: string;
+  cutoffStart: string | null;
+  setup: FinalPaySetup;
+  out: FinalPayOutput;
+  commission: number;
+  netPay: number;
+  payslipId?: string;
+  preparedBy?: string;
+};
+
+const peso = (n: number) =>
+  `₱${(Number(n) || 0).toLocaleString("en-PH", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/** Firestore Timestamp / Date / string → YYYY-MM-DD. */
+const timestampKey = (v: unknown) => toDateKey((v as { toDate?: () => Date } | null)?.toDate?.() ?? v);
+
+const fmtDate = (key?: string | null) =>
+  key ? new Date(`${key}T00:00:00`).toLocaleDateString("en-US", { year: "numeric", month: "long", day: "numeric" }) : "—";
+
+export default function FinalPaySheetPage() {
+  const { draftId } = useParams();
+  const navigate = useNavigate();
+  const [sheet, setSheet] = useState<Sheet | null>(null);
+  const [emp, setEmp] = useState<SheetEmployee | null>(null);
+  const [err, setErr] = useState("");
+
+  useEffect(() => {
+    if (!draftId) return;
+    (async () => {
+      try {
+        const headSnap = await getDoc(doc(db, "payrollDrafts", draftId));
+        if (!headSnap.exists() || headSnap.data().type !== "final_pay") throw new Error("Final pay run not found.");
+        const head = headSnap.data();
+        const employeeId = String(head.employeeId || "");
+
+        const [lineSnap, empSnap, slipSnap] = await Promise.all([
+          getDoc(doc(db, "payrollDrafts", draftId, "lines", employeeId)),
+          getDoc(doc(db, "employees", employeeId)),
+          getDocs(query(collection(db, "payslips"), where("draftId", "==", draftId), limit(1))),
+        ]);
+        const selection = lineSnap.data()?.finalPay as FinalPaySelection | undefined;
+        if (!selection) throw new Error("This run has no final pay line.");
+
+        if (empSnap.exists()) {
+          const e = empSnap.data();
+          setEmp({
+            name: e.name || employeeId,
+            employeeId: e.employeeId,
+            position: e.position,
+            department: e.department,
+            hireDate: timestampKey(e.hireDate),
+            separationReason: e.separationReason || selection.reason,
+          });
+        } else {
+          setEmp({ name: lineSnap.data()?.name || employeeId, separationReason: selection.reason });
+        }
+
+        const base = {
+          status: String(head.status || "draft"),
+          cutoffStart: toDateKey(head.cutoffStart),
+          preparedBy: head.createdBy?.name,
+        };
+
+        // ✅ approved: the payslip is the record
+        const slip = slipSnap.docs[0];
+        if (slip) {
+          const p = slip.data();
+          const out = p.details?.output as FinalPayOutput;
+          const setup = p.details?.finalPaySetup as FinalPaySetup;
+          setSheet({ ...base, setup, out, commission: Number(p.details?.commissions || 0), netPay: Number(p.netPay || 0), payslipId: slip.id });
+          return;
+        }
+
+        // still a draft: same inputs PayrollDraftPage feeds the engine, the setup derived from the payslips
+        const meta = employeeMeta(employeeId, empSnap.exists() ? (empSnap.data() as EmployeeDoc) : null);
+        const hrCode = empSnap.exists() ? String(empSnap.data().employeeId || "") : "";
+        const [cfSnap, retroSnap, commSnap, loanSnap, caSnap, ...slipSnaps] = await Promise.all([
+          getDocs(query(collection(db, "carryForwards"), where("employeeId", "==", employeeId), where("status", "==", "open"))),
+          getDocs(query(collection(db, "retroPay"), where("employeeId", "==", employeeId), where("status", "==", "open"))),
+          getDocs(collection(db, "payrollDrafts", draftId, "lines", employeeId, "commissions")),
+          getDocs(query(collection(db, "loans"), where("employeeId", "==", employeeId), where("status", "==", "active"))),
+          getDocs(
+            query(
+              collection(db, "cashAdvances"),
+              where("employeeId", "in", [employeeId, hrCode].filter(Boolean)),
+              where("approved", "==", true)
+            )
+          ),
+          // payslips are keyed by employees doc id; older ones by auth uid
+          getDocs(query(collection(db, "payslips"), where("employeeDocId", "==", employeeId))),
+          ...(meta.uid ? [getDocs(query(collection(db, "payslips"), where("employeeId", "==", meta.uid)))] : []),
+        ]);
+        const byId = new Map<string, HistoryPayslip>();
+        slipSnaps.forEach((snap) => snap.forEach((d) => byId.set(d.id, d.data() as HistoryPayslip)));
+        const year = Number(selection.separationDate.slice(0, 4));
+        const history = payHistory([...byId.values()], year, { [employeeId]: meta }, draftId)[employeeId];
+        const caBalance = sumPesos(
+          ...caSnap.docs
+            .map((d) => ({ ...(d.data() as Omit<CashAdvance, "id">), id: d.id }))
+            .filter(isOpenAdvance)
+            .map(advanceBalance)
+        );
+        const setup = finalPaySetup(meta, history, selection, caBalance);
+        const carry = openBalances(
+          cfSnap.docs
+            .map((d) => ({ ...(d.data() as Omit<CarryForward, "id">), id: d.id }))
+            .filter((cf) => cf.sourceDraftId !== draftId)
+        )[employeeId];
+        const retro = openRetroPay(retroSnap.docs.map((d) => ({ ...(d.data() as Omit<RetroPayAdjustment, "id">), id: d.id })))[
+          employeeId
+        ];
+        const commission = sumPesos(...commSnap.docs.map((d) => Number(d.data().commission || 0)));
+        const out = calculateFinalPay({
+          ...setup,
+          salary: {
+            ...setup.salary,
+            rules: head.payRules as PayRuleSet | undefined,
+            otherTaxableIncome: commission,
+            priorPeriodBalance: carry?.amount || 0,
+            retroPay: retro?.amount || 0,
+            loans: dueLoans(loanSnap.docs.map((d) => ({ ...(d.data() as Omit<Loan, "id">), id: d.id })), null)[employeeId],
+          },
+        });
+        setSheet({ ...base, setup, out, commission, netPay: settleNetPay(out, commission).netPay });
+      } catch (e) {
+        console.error(e);
+        setErr(e instanceof Error ? e.message : "Failed to load the final pay run.");
+      }
+    })();
+  }, [draftId]);
+
+  if (err) {
+    return (
+      <div className="min-h-screen bg-gray-900 text-white pt-20 px-4">
+        <div className="max-w-3xl mx-auto text-rose-300">{err}</div>
+      </div>
+    );
+  }
+  if (!sheet || !emp) {
+    return (
+      <div className="min-h-screen bg-gray-900 text-white pt-20 px-4">
+        <div className="max-w-3xl mx-auto text-gray-400">Loading…</div>
+      </div>
+    );
+  }
+
+  const { out, setup, commission } = sheet;
+  const fp = out.finalPay;
+  const otherPay = subtractPesos(fp.lastSalary, out.cutoffPay, out.retroPay);
+  const taxOnFinal = sumPesos(out.withholdingTax, out.yearEndTaxAdjustment);
+
+  const earnings: Array<[string, number, string?]> = [
+    ...(out.segments.length
+      ? out.segments.map((sg): [string, number, string] => [
+          `Basic pay — ${sg.label}`,
+          sg.cutoffPay,
+          `${setup.salary.category === "core" ? sg.workingDays : sg.workedDays} day(s) × ${peso(sg.dailyRate)}`,
+        ])
+      : [["Basic pay", out.cutoffPay] as [string, number]]),
+    ["OB, overtime & holiday pay", otherPay],
+    ["Retro pay", out.retroPay],
+    ["Commission", commission],
+    [
+      "13th month pay (pro-rated)",
+      fp.thirteenthMonth.amount,
+      `${peso(fp.thirteenthMonth.basicPayEarned)} basic pay this year ÷ 12` +
+        (fp.thirteenthMonthAlreadyPaid ? ` − ${peso(fp.thirteenthMonthAlreadyPaid)} already released` : ""),
+    ],
+    ["Unused leave conversion", fp.leaveConversionPay, `${fp.leaveDays} day(s) × ${peso(fp.leaveDailyRate)}`],
+  ];
+  const deductions: Array<[string, number, string?]> = [
+    ["Absences", out.absenceDeduction, out.absentDays ? `${out.absentDays} day(s)` : undefined],
+    ["Tardiness", out.tardinessDeduction],
+    ["Undertime", out.undertimeDeduction],
+    ["SSS", out.sss],
+    ["PhilHealth", out.philhealth],
+    ["Pag-IBIG", out.pagibig],
+    [taxOnFinal < 0 ? "Tax refund" : "Withholding tax (annualized)", taxOnFinal],
+    ["Cash advance balance", fp.cashAdvanceBalance],
+    ...(out.loanDeductions || []).map((l): [string, number, string] => [
+      l.label,
+      l.amount,
+      `balance ${peso(l.balance)} settled`,
+    ]),
+    ["Other loans", fp.loanBalance],
+    ["Prior period balance", out.priorPeriodBalance],
+  ];
+  const totalEarnings = sumPesos(out.grossEarnings, commission);
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white pt-20 px-4 sm:px-6 lg:px-8 pb-8">
+      <div className="max-w-3xl mx-auto">
+        <div className="no-print mb-4 flex items-center justify-between">
+          <button onClick={() => navigate(-1)} className="text-blue-400 hover:text-blue-300">
+            ← Back
+          </button>
+          <button
+            onClick={() => window.print()}
+            className="px-4 py-2 rounded-lg text-sm font-medium bg-blue-600 hover:bg-blue-500 text-white"
+          >
+            Print
+          </button>
+        </div>
+
+        <div className="print-sheet bg-white text-gray-900 rounded-xl p-8 text-sm">
+          <div className="text-center mb-6">
+            <h1 className="text-xl font-bold uppercase tracking-wide">Final Pay Computation</h1>
+            {sheet.status !== "approved" && sheet.status !== "published" && (
+              <p className="text-xs text-amber-700 mt-1">Draft — {sheet.status.replace(/_/g, " ")}; figures may change</p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-x-8 gap-y-1 mb-6">
+            <Field label="Employee" value={emp.name} />
+            <Field label="Employee ID" value={emp.employeeId || "—"} />
+            <Field label="Position" value={emp.position || "—"} />
+            <Field label="Department" value={emp.department || "—"} />
+            <Field label="Date Hired" value={fmtDate(emp.hireDate)} />
+            <Field label="Separation Date" value={fmtDate(setup.separationDate)} />
+            <Field label="Reason" value={emp.separationReason || "—"} />
+            <Field label="Last Paid Through" value={fmtDate(setup.lastPaidThrough)} />
+            <Field
+              label="Final Salary Period"
+              value={
+                sheet.cutoffStart && sheet.cutoffStart <= setup.separationDate
+                  ? `${fmtDate(sheet.cutoffStart)} – ${fmtDate(setup.separationDate)}`
+                  : "None (fully paid)"
+              }
+            />
+            {sheet.payslipId && <Field label="Payslip" value={sheet.payslipId} />}
+          </div>
+
+          <Section title="A. Earnings" rows={earnings} total={["Total earnings", totalEarnings]} />
+          <Section title="B. Deductions" rows={deductions} total={["Total deductions", out.totalDeductions]} />
+
+          <div className="mt-4 border-t-2 border-gray-900 pt-2 flex justify-between text-base font-bold">
+            <span>{fp.balanceDue ? "Balance due from employee (B − A)" : "Net final pay (A − B)"}</span>
+            <span className="font-mono">{peso(fp.balanceDue || sheet.netPay)}</span>
+          </div>
+
+          <div className="mt-6">
+            <h2 className="font-semibold mb-2">C. Tax Annualization {setup.thirteenth.year}</h2>
+            <table className="w-full">
+              <tbody>
+                <TaxRow label="Taxable compensation, earlier payslips" value={setup.ytd.ytdTaxableIncome} />
+                <TaxRow label="Taxable compensation, this final pay" value={out.taxableIncome} />
+                <TaxRow label="Annual taxable compensation" value={out.annualTaxableIncome} strong />
+                <TaxRow label="Annual tax due" value={out.annualTaxDue} />
+                <TaxRow label="Less: tax withheld, earlier payslips" value={setup.ytd.ytdWithholdingTax} />
+                <TaxRow
+                  label={taxOnFinal < 0 ? "Tax refund (included above)" : "Tax to collect (included above)"}
+                  value={Math.abs(taxOnFinal)}
+                  strong
+                />
+              </tbody>
+            </table>
+            <p className="text-xs text-gray-500 mt-1">
+              13th month exempt {peso(fp.thirteenthMonth.exempt)} • leave conversion exempt{" "}
+              {peso(fp.leaveConversionExempt)} (₱90,000 ceiling on 13th month and other benefits)
+            </p>
+          </div>
+
+          <div className="mt-12 grid grid-cols-3 gap-8 text-center text-xs">
+            <Signature label="Prepared by" name={sheet.preparedBy} />
+            <Signature label="Checked by" />
+            <Signature label="Approved by" />
+          </div>
+          <p className="mt-10 text-xs leading-relaxed">
+            I acknowledge receipt of the amount above as full payment of my final pay and all benefits due to me from
+            my employment, and that the computation was explained to me.
+          </p>
+          <div className="mt-10 w-64">
+            <Signature label="Employee signature / date" name={emp.name} />
+          </div>
+        </div>
+      </div>
+
+      <style>{`
+        @media print {
+          body * { visibility: hidden; }
+          .print-sheet, .print-sheet * { visibility: visible; }
+          .print-sheet { position: absolute; left: 0; top: 0; width: 100%; border-radius: 0; }
+          .no-print { display: none !important; }
+        }
+      `}</style>
+    </div>
+  );
+}
+
+function Field({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex gap-2">
+      <span className="font-semibold whitespace-nowrap">{label}:</span>
+      <span>{value}</span>
+    </div>
+  );
+}
+
+function Section({
+  title,
+  rows,
+  total,
+}: {
+  title: string;
+  rows: Array<[string, number, string?]>;
+  total: [string, number];
+}) {
+  return (
+    <div className="mb-4">
+      <h2 className="font-semibold mb-2">{title}</h2>
+      <table className="w-full">
+        <tbody>
+          {rows
+            .filter(([, amount]) => amount)
+            .map(([label, amount, note]) => (
+              <tr key={label} className="border-b border-gray-200">
+                <td className="py-1">
+                  {label}
+                  {note && <div className="text-xs text-gray-500">{note}</div>}
+                </td>
+                <td className="py-1 text-right font-mono align-top">{peso(amount)}</td>
+              </tr>
+            ))}
+          <tr className="font-semibold">
+            <td className="py-1">{total[0]}</td>
+            <td className="py-1 text-right font-mono">{peso(total[1])}</td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+function TaxRow({ label, value, strong }: { label: string; value: number; strong?: boolean }) {
+  return (
+    <tr className={strong ? "font-semibold" : ""}>
+      <td className="py-0.5">{label}</td>
+      <td className="py-0.5 text-right font-mono">{peso(value)}</td>
+    </tr>
+  );
+}
+
+function Signature({ label, name }: { label: string; name?: string }) {
+  return (
+    <div>
+      <div className="border-b border-gray-900 h-8 flex items-end justify-center">{name || ""}</div>
+      <div className="mt-1 text-gray-600">{label}</div>
+    </div>
+  );
+}
@@ -16,6 +16,27 @@ import {
   where,
 } from "firebase/firestore";
 import { db } from "../../firebase/firebase";
+import {
+  DEFAULT_PAGIBIG_SCHEDULES,
+  DEFAULT_PHILHEALTH_SCHEDULES,
+  DEFAULT_SSS_SCHEDULES,
+  type PagibigSchedule,
+  type PhilhealthSchedule,
+  type SssSchedule,
+  type StatutoryTables,
+} from "../../utils/contributions";
+import { DEFAULT_WITHHOLDING_TABLES, type WithholdingTable } from "../../utils/withholdingTax";
+import {
+  DAY_TYPES,
+  DEFAULT_PREMIUM_MATRIX,
+  premiumMultiplier,
+  resolvePremiumMatrix,
+  type DayType,
+  type PremiumMatrix,
+} from "../../utils/premiumPay";
+import { HOLIDAY_TYPES, type HolidayLite, type HolidayType } from "../../utils/holidays";
+import { DEFAULT_OB_RATE_SCHEDULES, OB_CATEGORIES, type ObRateSchedule } from "../../utils/obRates";
+import { DEFAULT_COMPANY_PAY_RULES, DEFAULT_FREELANCER_EWT_RATE, type CompanyPayRules } from "../../utils/payRules";
 
 /* ========================= Types ========================= */
 type FinanceSettings = {
@@ -30,11 +51,11 @@ type Holiday = {
   name: string;
   date: string;
   recurring: boolean;
+  type?: HolidayType; // missing on older entries → regular
   createdAt?: string; // ✅ always string after sanitize
   createdBy?: string;
 };
 
-type HolidayLite = { name: string; date: string; recurring: boolean };
 
 /* ========================= Utils ========================= */
 function toNumber(v: any, def = 0) {
@@ -85,6 +106,38 @@ export default function FinanceSettingsPage() {
   const [hName, setHName] = useState("");
   const [hDate, setHDate] = useState("");
   const [hRecurring, setHRecurring] = useState(false);
+  const [hType, setHType] = useState<HolidayType>("regular");
+
+  // statutory tables (settings/statutory)
+  const [sssSchedules, setSssSchedules] = useState<SssSchedule[]>(DEFAULT_SSS_SCHEDULES);
+  const [sssForm, setSssForm] = useState({
+    effectiveFrom: "",
+    employeeRate: "",
+    employerRate: "",
+    minMsc: "",
+    maxMsc: "",
+    regularMscCap: "",
+  });
+  const [phSchedules, setPhSchedules] = useState<PhilhealthSchedule[]>(DEFAULT_PHILHEALTH_SCHEDULES);
+  const [phForm, setPhForm] = useState({ effectiveFrom: "", rate: "", floor: "", ceiling: "" });
+  const [hdmfSchedules, setHdmfSchedules] = useState<PagibigSchedule[]>(DEFAULT_PAGIBIG_SCHEDULES);
+  const [hdmfForm, setHdmfForm] = useState({ effectiveFrom: "", employeeRate: "", employerRate: "", maxFundSalary: "" });
+  const [whTables, setWhTables] = useState<WithholdingTable[]>(DEFAULT_WITHHOLDING_TABLES);
+  const [savingTables, setSavingTables] = useState(false);
+  const [premium, setPremium] = useState<PremiumMatrix>(DEFAULT_PREMIUM_MATRIX);
+
+  // company pay rules (/payRules, one doc per effectiveFrom)
+  const [payRules, setPayRules] = useState<CompanyPayRules[]>(DEFAULT_COMPANY_PAY_RULES);
+  const [payRulesForm, setPayRulesForm] = useState({
+    effectiveFrom: "",
+    internDailyAllowance: "",
+    ownerCutoffPay: "",
+    freelancerEwtRate: "",
+  });
+
+  // OB rate catalog (settings/obRates)
+  const [obSchedules, setObSchedules] = useState<ObRateSchedule[]>(DEFAULT_OB_RATE_SCHEDULES);
+  const [obForm, setObForm] = useState({ effectiveFrom: "", assisted: "", videographer: "", talent: "", internRate: "" });
 
   /* ---------- Load data ---------- */
   useEffect(() => {
@@ -98,6 +151,29 @@ export default function FinanceSettingsPage() {
           setFinSettings(sanitize(fsDoc.data()) as FinanceSettings);
         }
 
+        // Statutory tables
+        const stDoc = await getDoc(doc(db, "settings", "statutory"));
+        if (stDoc.exists()) {
+          const st = stDoc.data() as StatutoryTables;
+          if (Array.isArray(st.sss) && st.sss.length) setSssSchedules(st.sss);
+          if (Array.isArray(st.philhealth) && st.philhealth.length) setPhSchedules(st.philhealth);
+          if (Array.isArray(st.pagibig) && st.pagibig.length) setHdmfSchedules(st.pagibig);
+          if (Array.isArray(st.withholding) && st.withholding.length) setWhTables(st.withholding);
+          if (st.premiumMatrix) setPremium(resolvePremiumMatrix(st.premiumMatrix));
+        }
+
+        // Company pay rules
+        const prSnap = await getDocs(collection(db, "payRules"));
+        const prList = prSnap.docs
+          .map((d) => d.data() as CompanyPayRules)
+          .sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+        if (prList.length) setPayRules(prList);
+
+        // OB rate catalog
+        const obDoc = await getDoc(doc(db, "settings", "obRates"));
+        const obList = obDoc.exists() ? (obDoc.data().schedules as ObRateSchedule[]) : null;
+        if (Array.isArray(obList) && obList.length) setObSchedules(obList);
+
         // Holidays
         const hq = query(collection(db, "holidays"), orderBy("date", "asc"), fsLimit(500));
         const hSnap = await getDocs(hq);
@@ -131,6 +207,182 @@ export default function FinanceSettingsPage() {
     }
   }
 
+  /* ---------- Statutory tables ---------- */
+  async function saveStatutory(patch: StatutoryTables) {
+    setSavingTables(true);
+    try {
+      await setDoc(
+        doc(db, "settings", "statutory"),
+        { ...patch, updatedAt: serverTimestamp(), updatedBy: myEmail || null },
+        { merge: true }
+      );
+    } finally {
+      setSavingTables(false);
+    }
+  }
+
+  function setDayMultiplier(day: DayType, field: "base" | "ot", value: string) {
+    setPremium((m) => ({ ...m, days: { ...m.days, [day]: { ...m.days[day], [field]: toNumber(value, 0) } } }));
+  }
+
+  async function addSssSchedule() {
+    if (!sssForm.effectiveFrom) return;
+    const base = sssSchedules[sssSchedules.length - 1] || DEFAULT_SSS_SCHEDULES[DEFAULT_SSS_SCHEDULES.length - 1];
+    const row: SssSchedule = {
+      ...base,
+      effectiveFrom: sssForm.effectiveFrom,
+      employeeRate: toNumber(sssForm.employeeRate, base.employeeRate * 100) / 100,
+      employerRate: toNumber(sssForm.employerRate, base.employerRate * 100) / 100,
+      minMsc: toNumber(sssForm.minMsc, base.minMsc),
+      maxMsc: toNumber(sssForm.maxMsc, base.maxMsc),
+      regularMscCap: toNumber(sssForm.regularMscCap, base.regularMscCap),
+    };
+    const next = [...sssSchedules.filter((x) => x.effectiveFrom !== row.effectiveFrom), row].sort((a, b) =>
+      a.effectiveFrom.localeCompare(b.effectiveFrom)
+    );
+    await saveStatutory({ sss: next });
+    setSssSchedules(next);
+    setSssForm({ effectiveFrom: "", employeeRate: "", employerRate: "", minMsc: "", maxMsc: "", regularMscCap: "" });
+  }
+
+  async function deleteSssSchedule(effectiveFrom: string) {
+    const next = sssSchedules.filter((x) => x.effectiveFrom !== effectiveFrom);
+    if (!next.length) return;
+    await saveStatutory({ sss: next });
+    setSssSchedules(next);
+  }
+
+  async function addPhSchedule() {
+    if (!phForm.effectiveFrom) return;
+    const base = phSchedules[phSchedules.length - 1] || DEFAULT_PHILHEALTH_SCHEDULES[DEFAULT_PHILHEALTH_SCHEDULES.length - 1];
+    const row: PhilhealthSchedule = {
+      effectiveFrom: phForm.effectiveFrom,
+      rate: toNumber(phForm.rate, base.rate * 100) / 100,
+      floor: toNumber(phForm.floor, base.floor),
+      ceiling: toNumber(phForm.ceiling, base.ceiling),
+    };
+    const next = [...phSchedules.filter((x) => x.effectiveFrom !== row.effectiveFrom), row].sort((a, b) =>
+      a.effectiveFrom.localeCompare(b.effectiveFrom)
+    );
+    await saveStatutory({ philhealth: next });
+    setPhSchedules(next);
+    setPhForm({ effectiveFrom: "", rate: "", floor: "", ceiling: "" });
+  }
+
+  async function deletePhSchedule(effectiveFrom: string) {
+    const next = phSchedules.filter((x) => x.effectiveFrom !== effectiveFrom);
+    if (!next.length) return;
+    await saveStatutory({ philhealth: next });
+    setPhSchedules(next);
+  }
+
+  async function addHdmfSchedule() {
+    if (!hdmfForm.effectiveFrom) return;
+    const base = hdmfSchedules[hdmfSchedules.length - 1] || DEFAULT_PAGIBIG_SCHEDULES[DEFAULT_PAGIBIG_SCHEDULES.length - 1];
+    const row: PagibigSchedule = {
+      ...base,
+      effectiveFrom: hdmfForm.effectiveFrom,
+      employeeRate: toNumber(hdmfForm.employeeRate, base.employeeRate * 100) / 100,
+      employerRate: toNumber(hdmfForm.employerRate, base.employerRate * 100) / 100,
+      maxFundSalary: toNumber(hdmfForm.maxFundSalary, base.maxFundSalary),
+    };
+    const next = [...hdmfSchedules.filter((x) => x.effectiveFrom !== row.effectiveFrom), row].sort((a, b) =>
+      a.effectiveFrom.localeCompare(b.effectiveFrom)
+    );
+    await saveStatutory({ pagibig: next });
+    setHdmfSchedules(next);
+    setHdmfForm({ effectiveFrom: "", employeeRate: "", employerRate: "", maxFundSalary: "" });
+  }
+
+  async function deleteHdmfSchedule(effectiveFrom: string) {
+    const next = hdmfSchedules.filter((x) => x.effectiveFrom !== effectiveFrom);
+    if (!next.length) return;
+    await saveStatutory({ pagibig: next });
+    setHdmfSchedules(next);
+  }
+
+  /* ---------- Company pay rules ---------- */
+  async function addPayRules() {
+    if (!payRulesForm.effectiveFrom) return;
+    const base = payRules[payRules.length - 1] || DEFAULT_COMPANY_PAY_RULES[DEFAULT_COMPANY_PAY_RULES.length - 1];
+    const row: CompanyPayRules = {
+      effectiveFrom: payRulesForm.effectiveFrom,
+      internDailyAllowance: toNumber(payRulesForm.internDailyAllowance || undefined, base.internDailyAllowance),
+      ownerCutoffPay: toNumber(payRulesForm.ownerCutoffPay || undefined, base.ownerCutoffPay),
+      freelancerEwtRate: toNumber(
+        payRulesForm.freelancerEwtRate || undefined,
+        base.freelancerEwtRate ?? DEFAULT_FREELANCER_EWT_RATE
+      ),
+    };
+    setSavingTables(true);
+    try {
+      await setDoc(doc(db, "payRules", row.effectiveFrom), {
+        ...row,
+        updatedAt: serverTimestamp(),
+        updatedBy: myEmail || null,
+      });
+      setPayRules((prev) =>
+        [...prev.filter((x) => x.effectiveFrom !== row.effectiveFrom), row].sort((a, b) =>
+          a.effectiveFrom.localeCompare(b.effectiveFrom)
+        )
+      );
+      setPayRulesForm({ effectiveFrom: "", internDailyAllowance: "", ownerCutoffPay: "", freelancerEwtRate: "" });
+    } finally {
+      setSavingTables(false);
+    }
+  }
+
+  async function deletePayRules(effectiveFrom: string) {
+    if (payRules.length <= 1) return;
+    setSavingTables(true);
+    try {
+      await deleteDoc(doc(db, "payRules", effectiveFrom));
+      setPayRules((prev) => prev.filter((x) => x.effectiveFrom !== effectiveFrom));
+    } finally {
+      setSavingTables(false);
+    }
+  }
+
+  /* ---------- OB rate catalog ---------- */
+  async function saveObSchedules(next: ObRateSchedule[]) {
+    setSavingTables(true);
+    try {
+      await setDoc(
+        doc(db, "settings", "obRates"),
+        { schedules: next, updatedAt: serverTimestamp(), updatedBy: myEmail || null },
+        { merge: true }
+      );
+      setObSchedules(next);
+    } finally {
+      setSavingTables(false);
+    }
+  }
+
+  async function addObSchedule() {
+    if (!obForm.effectiveFrom) return;
+    const base = obSchedules[obSchedules.length - 1] || DEFAULT_OB_RATE_SCHEDULES[DEFAULT_OB_RATE_SCHEDULES.length - 1];
+    const row: ObRateSchedule = {
+      effectiveFrom: obForm.effectiveFrom,
+      rates: {
+        assisted: toNumber(obForm.assisted || undefined, base.rates.assisted),
+        videographer: toNumber(obForm.videographer || undefined, base.rates.videographer),
+        talent: toNumber(obForm.talent || undefined, base.rates.talent),
+      },
+      internRate: toNumber(obForm.internRate || undefined, base.internRate),
+    };
+    const next = [...obSchedules.filter((x) => x.effectiveFrom !== row.effectiveFrom), row].sort((a, b) =>
+      a.effectiveFrom.localeCompare(b.effectiveFrom)
+    );
+    await saveObSchedules(next);
+    setObForm({ effectiveFrom: "", assisted: "", videographer: "", talent: "", internRate: "" });
+  }
+
+  async function deleteObSchedule(effectiveFrom: string) {
+    const next = obSchedules.filter((x) => x.effectiveFrom !== effectiveFrom);
+    if (!next.length) return;
+    await saveObSchedules(next);
+  }
+
   /* ---------- Holiday CRUD ---------- */
   async function addHoliday(applyAfter = false) {
     if (!hName.trim() || !hDate) return;
@@ -138,6 +390,7 @@ export default function FinanceSettingsPage() {
       name: hName.trim(),
       date: hDate,
       recurring: !!hRecurring,
+      type: hType,
       createdAt: serverTimestamp(),
       createdBy: myEmail || null,
     };
@@ -146,6 +399,7 @@ export default function FinanceSettingsPage() {
     setHName("");
     setHDate("");
     setHRecurring(false);
+    setHType("regular");
     if (applyAfter) await applyToDrafts();
   }
 
@@ -164,6 +418,7 @@ export default function FinanceSettingsPage() {
         name: h.name,
         date: h.date,
         recurring: h.recurring,
+        type: h.type || "regular",
       }));
 
       const statuses = ["draft", "finance_review", "pending_exec"] as const;
@@ -256,9 +511,545 @@ export default function FinanceSettingsPage() {
           </div>
         </Card>
 
+        {/* Statutory contribution tables */}
+        <Card title="Statutory Contribution Tables">
+          <h3 className="font-semibold mb-3">SSS Schedule</h3>
+          <div className="overflow-x-auto rounded-lg border border-white/10">
+            <table className="min-w-full divide-y divide-white/10">
+              <thead className="bg-gray-800/60">
+                <tr>
+                  <Th>Effective From</Th>
+                  <Th>EE Rate</Th>
+                  <Th>ER Rate</Th>
+                  <Th>MSC Range</Th>
+                  <Th>Regular MSC Cap (MPF above)</Th>
+                  <Th>EC</Th>
+                  <Th>Actions</Th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-white/10 bg-gray-900/20">
+                {sssSchedules.map((r) => (
+                  <tr key={r.effectiveFrom}>
+                    <Td>{r.effectiveFrom}</Td>
+                    <Td>{(r.employeeRate * 100).toFixed(2)}%</Td>
+                    <Td>{(r.employerRate * 100).toFixed(2)}%</Td>
+                    <Td>
+                      ₱{r.minMsc.toLocaleString()} – ₱{r.maxMsc.toLocaleString()} (step ₱{r.mscStep})
+                    </Td>
+                    <Td>₱{r.regularMscCap.toLocaleString()}</Td>
+                    <Td>
+                      ₱{r.ecLow} / ₱{r.ecHigh} (≥ ₱{r.ecThreshold.toLocaleString()})
+                    </Td>
+                    <Td>
+                      <button
+                        onClick={() => deleteSssSchedule(r.effectiveFrom)}
+                        disabled={savingTables || sssSchedules.length <= 1}
+                        className="px-3 py-1 bg-rose-600 hover:bg-rose-500 rounded text-sm disabled:opacity-60"
+                      >
+                        Delete
+                      </button>
+                    </Td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="grid sm:grid-cols-3 md:grid-cols-6 gap-3 mt-4">
+            <Field label="Effective From">
+              <input
+                type="date"
+                className="inp h-11"
+                value={sssForm.effectiveFrom}
+                onChange={(e) => setSssForm((f) => ({ ...f, effectiveFrom: e.target.value }))}
+              />
+            </Field>
+            <Field label="EE Rate (%)">
+              <input
+                type="number"
+                className="inp h-11"
+                value={sssForm.employeeRate}
+                onChange={(e) => setSssForm((f) => ({ ...f, employeeRate: e.target.value }))}
+              />
+            </Field>
+            <Field label="ER Rate (%)">
+              <input
+                type="number"
+                className="inp h-11"
+                value={sssForm.employerRate}
+                onChange={(e) => setSssForm((f) => ({ ...f, employerRate: e.target.value }))}
+              />
+            </Field>
+            <Field label="Min MSC">
+              <input
+                type="number"
+                className="inp h-11"
+                value={sssForm.minMsc}
+                onChange={(e) => setSssForm((f) => ({ ...f, minMsc: e.target.value }))}
+              />
+            </Field>
+            <Field label="Max MSC">
+              <input
+                type="number"
+                className="inp h-11"
+                value={sssForm.maxMsc}
+                onChange={(e) => setSssForm((f) => ({ ...f, maxMsc: e.target.value }))}
+              />
+            </Field>
+            <Field label="Regular MSC Cap">
+              <input
+                type="number"
+                className="inp h-11"
+                value={sssForm.regularMscCap}
+                onChange={(e) => setSssForm((f) => ({ ...f, regularMscCap: e.target.value }))}
+              />
+            </Field>
+          </div>
+          <p className="text-xs text-gray-400 mt-2">
+            Blank fields copy the latest schedule. Drafts pick the schedule in effect on their cutoff end date.
+          </p>
+          <div className="mt-4">
+            <button
+              onClick={addSssSchedule}
+              disabled={savingTables || !sssForm.effectiveFrom}
+              className="px-4 py-2 rounded-lg bg-emerald-600 hover:bg-emerald-500 disabled:opacity-60"
+            >
+              {savingTables ? "Saving…" : "Add SSS Schedule"}
+            </button>
+          </div>
+
+          <h3 className="font-semibold mt-8 mb-3">PhilHealth Premium</h3>
+          <div className="overflow-x-auto rounded-lg border border-white/10">
+            <table className="min-w-full divide-y divide-white/10">
+              <thead className="bg-gray-800/60">
+                <tr>
+                  <Th>Effective From</Th>
+                  <Th>Rate (EE/ER 50-50)</Th>
+                  <Th>Income Floor</Th>
+                  <Th>Income Ceiling</Th>
+                  <Th>Actions</Th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-white/10 bg-gray-900/20">
+                {phSchedules.map((r) => (
+                  <tr key={r.effectiveFrom}>
+                    <Td>{r.effectiveFrom}</Td>
+                    <Td>{(r.rate * 100).toFixed(2)}%</Td>
+                    <Td>₱{r.floor.toLocaleString()}</Td>
+                    <Td>₱{r.ceiling.toLocaleString()}</Td>
+                    <Td>
+                      <button
+                        onClick={() => deletePhSchedule(r.effectiveFrom)}
+                        disabled={savingTables || phSchedules.length <= 1}
+                        className="px-3 py-1 bg-rose-600 hover:bg-rose-500 rounded text-sm disabled:opacity-60"
+                      >
+                        Delete
+                      </button>
+                    </Td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="grid sm:grid-cols-4 gap-3 mt-4">
+            <Field label="Effective From">
+              <input
+                type="date"
+                className="inp h-11"
+                value={phForm.effectiveFrom}
+                onChange={(e) => setPhForm((f) => ({ ...f, effectiveFrom: e.target.value }))}
+              />
+            </Field>
+            <Field label="Rate (%)">
+              <input
+                type="number"
+                className="inp h-11"
+                value={phForm.rate}
+                onChange={(e) => setPhForm((f) => ({ ...f, rate: e.target.value }))}
+              />
+            </Field>
+            <Field label="Income Floor">
+              <input
+                type="number"
+                className="inp h-11"
+                value={phForm.floor}
+                onChange={(e) => setPhForm((f) => ({ ...f, floor: e.target.value }))}
+              />
+            </Field>
+            <Field label="Income Ceiling">
+              <input
+                type="number"
+                className="inp h-11"
+                value={phForm.ceiling}
+                onChange={(e) => setPhForm((f) => ({ ...f, ceiling: e.target.value }))}
+              />
+            </Field>
+          </div>
+          <div className="mt-4">
+            <button
+              onClick={addPhSchedule}
+              disabled={savingTables || !phForm.effectiveFrom}
+              className="px-4 py-2 rounded-lg bg-emerald-600 hover:bg-emerald-500 disabled:opacity-60"
+            >
+              {savingTables ? "Saving…" : "Add PhilHealth Schedule"}
+            </button>
+          </div>
+
+          <h3 className="font-semibold mt-8 mb-3">Pag-IBIG (HDMF)</h3>
+          <div className="overflow-x-auto rounded-lg border border-white/10">
+            <table className="min-w-full divide-y divide-white/10">
+              <thead className="bg-gray-800/60">
+                <tr>
+                  <Th>Effective From</Th>
+                  <Th>EE Rate</Th>
+                  <Th>ER Rate</Th>
+                  <Th>Max Fund Salary</Th>
+                  <Th>Actions</Th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-white/10 bg-gray-900/20">
+                {hdmfSchedules.map((r) => (
+                  <tr key={r.effectiveFrom}>
+                    <Td>{r.effectiveFrom}</Td>
+                    <Td>
+                      {(r.lowEmployeeRate * 100).toFixed(0)}% (≤ ₱{r.lowThreshold.toLocaleString()}) /{" "}
+                      {(r.employeeRate * 100).toFixed(0)}%
+                    </Td>
+                    <Td>{(r.employerRate * 100).toFixed(0)}%</Td>
+                    <Td>₱{r.maxFundSalary.toLocaleString()}</Td>
+                    <Td>
+                      <button
+                        onClick={() => deleteHdmfSchedule(r.effectiveFrom)}
+                        disabled={savingTables || hdmfSchedules.length <= 1}
+                        className="px-3 py-1 bg-rose-600 hover:bg-rose-500 rounded text-sm disabled:opacity-60"
+                      >
+                        Delete
+                      </button>
+                    </Td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="grid sm:grid-cols-4 gap-3 mt-4">
+            <Field label="Effective From">
+              <input
+                type="date"
+                className="inp h-11"
+                value={hdmfForm.effectiveFrom}
+                onChange={(e) => setHdmfForm((f) => ({ ...f, effectiveFrom: e.target.value }))}
+              />
+            </Field>
+            <Field label="EE Rate (%)">
+              <input
+                type="number"
+                className="inp h-11"
+                value={hdmfForm.employeeRate}
+                onChange={(e) => setHdmfForm((f) => ({ ...f, employeeRate: e.target.value }))}
+              />
+            </Field>
+            <Field label="ER Rate (%)">
+              <input
+                type="number"
+                className="inp h-11"
+                value={hdmfForm.employerRate}
+                onChange={(e) => setHdmfForm((f) => ({ ...f, employerRate: e.target.value }))}
+              />
+            </Field>
+            <Field label="Max Fund Salary">
+              <input
+                type="number"
+                className="inp h-11"
+                value={hdmfForm.maxFundSalary}
+                onChange={(e) => setHdmfForm((f) => ({ ...f, maxFundSalary: e.target.value }))}
+              />
+            </Field>
+          </div>
+          <div className="mt-4">
+            <button
+              onClick={addHdmfSchedule}
+              disabled={savingTables || !hdmfForm.effectiveFrom}
+              className="px-4 py-2 rounded-lg bg-emerald-600 hover:bg-emerald-500 disabled:opacity-60"
+            >
+              {savingTables ? "Saving…" : "Add Pag-IBIG Schedule"}
+            </button>
+          </div>
+
+          <h3 className="font-semibold mt-8 mb-3">BIR Withholding Tax (semi-monthly)</h3>
+          <div className="space-y-4">
+            {whTables.map((t) => (
+              <div key={t.effectiveFrom} className="overflow-x-auto rounded-lg border border-white/10">
+                <div className="px-4 py-2 text-sm text-gray-300 bg-gray-800/60">Effective {t.effectiveFrom}</div>
+                <table className="min-w-full divide-y divide-white/10">
+                  <thead className="bg-gray-800/40">
+                    <tr>
+                      <Th>Taxable Income Over</Th>
+                      <Th>Fixed Tax</Th>
+                      <Th>Rate on Excess</Th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-white/10 bg-gray-900/20">
+                    {t.brackets.map((b) => (
+                      <tr key={b.over}>
+                        <Td>₱{b.over.toLocaleString()}</Td>
+                        <Td>₱{b.base.toLocaleString(undefined, { minimumFractionDigits: 2 })}</Td>
+                        <Td>{(b.rate * 100).toFixed(0)}%</Td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-gray-400 mt-2">
+            Revised tables are added as a new entry in <code>settings/statutory.withholding</code> with their
+            effective date.
+          </p>
+        </Card>
+
+        {/* Premium pay */}
+        <Card title="Premium Pay Matrix (DOLE)">
+          <p className="text-sm text-gray-400 mb-4">
+            Multipliers of the hourly rate (daily rate ÷ 8). Night differential is added on top of the hour&apos;s rate
+            for work between 10pm and 6am.
+          </p>
+          <div className="grid sm:grid-cols-4 gap-3 mb-4">
+            <Field label="Night Differential (%)">
+              <input
+                type="number"
+                className="inp h-11"
+                value={Math.round(premium.ndRate * 10000) / 100}
+                onChange={(e) => setPremium((m) => ({ ...m, ndRate: toNumber(e.target.value, 0) / 100 }))}
+              />
+            </Field>
+          </div>
+          <div className="overflow-x-auto rounded-lg border border-white/10">
+            <table className="min-w-full divide-y divide-white/10">
+              <thead className="bg-gray-800/60">
+                <tr>
+                  <Th>Day Type</Th>
+                  <Th>First 8 Hours</Th>
+                  <Th>Overtime</Th>
+                  <Th>Night Diff</Th>
+                  <Th>Night Diff OT</Th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-white/10 bg-gray-900/20">
+                {DAY_TYPES.map(({ key, label }) => (
+                  <tr key={key}>
+                    <Td>{label}</Td>
+                    <Td>
+                      <input
+                        type="number"
+                        step="0.01"
+                        className="inp h-9 w-24"
+                        value={premium.days[key].base}
+                        onChange={(e) => setDayMultiplier(key, "base", e.target.value)}
+                      />
+                    </Td>
+                    <Td>
+                      <input
+                        type="number"
+                        step="0.01"
+                        className="inp h-9 w-24"
+                        value={premium.days[key].ot}
+                        onChange={(e) => setDayMultiplier(key, "ot", e.target.value)}
+                      />
+                    </Td>
+                    <Td>+{(premiumMultiplier(premium, key, { nd: true }) * 100).toFixed(1)}%</Td>
+                    <Td>+{(premiumMultiplier(premium, key, { ot: true, nd: true }) * 100).toFixed(1)}%</Td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="mt-4 flex gap-3">
+            <button
+              onClick={() => saveStatutory({ premiumMatrix: premium })}
+              disabled={savingTables}
+              className="px-4 py-2 rounded-lg bg-emerald-600 hover:bg-emerald-500 disabled:opacity-60"
+            >
+              {savingTables ? "Saving…" : "Save Premium Matrix"}
+            </button>
+            <button
+              onClick={() => setPremium(DEFAULT_PREMIUM_MATRIX)}
+              className="px-4 py-2 rounded-lg bg-gray-700 hover:bg-gray-600"
+            >
+              Reset to DOLE Defaults
+            </button>
+          </div>
+        </Card>
+
+        {/* Company pay rules */}
+        <Card title="Pay Rules">
+          <p className="text-sm text-gray-400 mb-4">
+            Company constants used by the payroll engine. Each draft pins the rules (together with the statutory tables
+            and OB rates) in effect on its cutoff end date when first opened, so adding a version here does not change
+            drafts already in progress.
+          </p>
+          <div className="overflow-x-auto rounded-lg border border-white/10">
+            <table className="min-w-full divide-y divide-white/10">
+              <thead className="bg-gray-800/60">
+                <tr>
+                  <Th>Effective From</Th>
+                  <Th>Intern Daily Allowance</Th>
+                  <Th>Owner Pay per Cutoff</Th>
+                  <Th>Freelancer EWT</Th>
+                  <Th>Actions</Th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-white/10 bg-gray-900/20">
+                {payRules.map((r) => (
+                  <tr key={r.effectiveFrom}>
+                    <Td>{r.effectiveFrom}</Td>
+                    <Td>₱{Number(r.internDailyAllowance || 0).toLocaleString()}</Td>
+                    <Td>₱{Number(r.ownerCutoffPay || 0).toLocaleString()}</Td>
+                    <Td>{r.freelancerEwtRate ?? DEFAULT_FREELANCER_EWT_RATE}%</Td>
+                    <Td>
+                      <button
+                        onClick={() => deletePayRules(r.effectiveFrom)}
+                        disabled={savingTables || payRules.length <= 1}
+                        className="px-3 py-1 bg-rose-600 hover:bg-rose-500 rounded text-sm disabled:opacity-60"
+                      >
+                        Delete
+                      </button>
+                    </Td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="grid sm:grid-cols-4 gap-3 mt-4">
+            <Field label="Effective From">
+              <input
+                type="date"
+                className="inp h-11"
+                value={payRulesForm.effectiveFrom}
+                onChange={(e) => setPayRulesForm((f) => ({ ...f, effectiveFrom: e.target.value }))}
+              />
+            </Field>
+            <Field label="Intern Daily Allowance (₱)">
+              <input
+                type="number"
+                className="inp h-11"
+                value={payRulesForm.internDailyAllowance}
+                onChange={(e) => setPayRulesForm((f) => ({ ...f, internDailyAllowance: e.target.value }))}
+              />
+            </Field>
+            <Field label="Owner Pay per Cutoff (₱)">
+              <input
+                type="number"
+                className="inp h-11"
+                value={payRulesForm.ownerCutoffPay}
+                onChange={(e) => setPayRulesForm((f) => ({ ...f, ownerCutoffPay: e.target.value }))}
+              />
+            </Field>
+            <Field label="Freelancer EWT (%)">
+              <input
+                type="number"
+                step="0.01"
+                className="inp h-11"
+                value={payRulesForm.freelancerEwtRate}
+                onChange={(e) => setPayRulesForm((f) => ({ ...f, freelancerEwtRate: e.target.value }))}
+              />
+            </Field>
+          </div>
+          <p className="text-xs text-gray-400 mt-2">Blank fields copy the latest version.</p>
+          <div className="mt-4">
+            <button
+              onClick={addPayRules}
+              disabled={savingTables || !payRulesForm.effectiveFrom}
+              className="px-4 py-2 rounded-lg bg-emerald-600 hover:bg-emerald-500 disabled:opacity-60"
+            >
+              {savingTables ? "Saving…" : "Add Pay Rules Version"}
+            </button>
+          </div>
+        </Card>
+
+        {/* OB rates */}
+        <Card title="OB Rate Catalog">
+          <p className="text-sm text-gray-400 mb-4">
+            Company default pay per official business, by category. Rates set on an employee&apos;s profile override
+            these; interns are paid the intern rate for any category.
+          </p>
+          <div className="overflow-x-auto rounded-lg border border-white/10">
+            <table className="min-w-full divide-y divide-white/10">
+              <thead className="bg-gray-800/60">
+                <tr>
+                  <Th>Effective From</Th>
+                  {OB_CATEGORIES.map((c) => (
+                    <Th key={c.key}>{c.label}</Th>
+                  ))}
+                  <Th>Intern</Th>
+                  <Th>Actions</Th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-white/10 bg-gray-900/20">
+                {obSchedules.map((r) => (
+                  <tr key={r.effectiveFrom}>
+                    <Td>{r.effectiveFrom}</Td>
+                    {OB_CATEGORIES.map((c) => (
+                      <Td key={c.key}>₱{Number(r.rates?.[c.key] || 0).toLocaleString()}</Td>
+                    ))}
+                    <Td>₱{Number(r.internRate || 0).toLocaleString()}</Td>
+                    <Td>
+                      <button
+                        onClick={() => deleteObSchedule(r.effectiveFrom)}
+                        disabled={savingTables || obSchedules.length <= 1}
+                        className="px-3 py-1 bg-rose-600 hover:bg-rose-500 rounded text-sm disabled:opacity-60"
+                      >
+                        Delete
+                      </button>
+                    </Td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="grid sm:grid-cols-3 md:grid-cols-5 gap-3 mt-4">
+            <Field label="Effective From">
+              <input
+                type="date"
+                className="inp h-11"
+                value={obForm.effectiveFrom}
+                onChange={(e) => setObForm((f) => ({ ...f, effectiveFrom: e.target.value }))}
+              />
+            </Field>
+            {OB_CATEGORIES.map((c) => (
+              <Field key={c.key} label={`${c.label} (₱)`}>
+                <input
+                  type="number"
+                  className="inp h-11"
+                  value={obForm[c.key]}
+                  onChange={(e) => setObForm((f) => ({ ...f, [c.key]: e.target.value }))}
+                />
+              </Field>
+            ))}
+            <Field label="Intern (₱)">
+              <input
+                type="number"
+                className="inp h-11"
+                value={obForm.internRate}
+                onChange={(e) => setObForm((f) => ({ ...f, internRate: e.target.value }))}
+              />
+            </Field>
+          </div>
+          <p className="text-xs text-gray-400 mt-2">
+            Blank fields copy the latest entry. Each OB is priced with the entry in effect on the OB date.
+          </p>
+          <div className="mt-4">
+            <button
+              onClick={addObSchedule}
+              disabled={savingTables || !obForm.effectiveFrom}
+              className="px-4 py-2 rounded-lg bg-emerald-600 hover:bg-emerald-500 disabled:opacity-60"
+            >
+              {savingTables ? "Saving…" : "Add OB Rates"}
+            </button>
+          </div>
+        </Card>
+
         {/* Holidays */}
         <Card title="Company Holidays">
-          <div className="grid md:grid-cols-3 gap-5">
+          <div className="grid md:grid-cols-4 gap-5">
             <Field label="Holiday Name">
               <input
                 className="inp h-11"
@@ -275,6 +1066,19 @@ export default function FinanceSettingsPage() {
                 onChange={(e) => setHDate(e.target.value)}
               />
             </Field>
+            <Field label="Type">
+              <select
+                className="inp h-11"
+                value={hType}
+                onChange={(e) => setHType(e.target.value as HolidayType)}
+              >
+                {HOLIDAY_TYPES.map((t) => (
+                  <option key={t.key} value={t.key}>
+                    {t.label}
+                  </option>
+                ))}
+              </select>
+            </Field>
             <Field label="Recurring?">
               <input
                 type="checkbox"
@@ -300,6 +1104,7 @@ export default function FinanceSettingsPage() {
                 <tr>
                   <Th>Holiday</Th>
                   <Th>Date</Th>
+                  <Th>Type</Th>
                   <Th>Recurring</Th>
                   <Th>Created</Th>
                   <Th>Actions</Th>
@@ -308,13 +1113,14 @@ export default function FinanceSettingsPage() {
               <tbody className="divide-y divide-white/10 bg-gray-900/20">
                 {holidays.length === 0 ? (
                   <tr>
-                    <Td colSpan={5}>No holidays yet.</Td>
+                    <Td colSpan={6}>No holidays yet.</Td>
                   </tr>
                 ) : (
                   holidays.map((h) => (
                     <tr key={h.id}>
                       <Td>{h.name}</Td>
                       <Td>{h.date}</Td>
+                      <Td>{HOLIDAY_TYPES.find((t) => t.key === (h.type || "regular"))?.label}</Td>
                       <Td>{h.recurring ? "Yes" : "No"}</Td>
                       <Td>{h.createdAt || "—"} {h.createdBy ? `by ${h.createdBy}` : ""}</Td>
                       <Td>
@@ -0,0 +1,304 @@
+// src/pages/Finance/LoansPage.tsx
+// Employee loans (/loans). Each active loan is deducted from its start cutoff by its amortization until the
+// balance reaches zero; the deductions are posted to loans/{id}/ledger when the payroll run is approved.
+import { useEffect, useMemo, useState } from "react";
+import { addDoc, collection, getDocs, onSnapshot, orderBy, query, serverTimestamp, updateDoc, doc } from "firebase/firestore";
+import { getAuth } from "firebase/auth";
+import { db } from "../../firebase/firebase";
+import { roundPesos } from "../../utils/money";
+import { cutoffContaining } from "../../utils/paySegments";
+import { LOAN_TYPES, loanLabel, type Loan, type LoanType } from "../../utils/loans";
+
+type Emp = { id: string; employeeId: string; name: string };
+
+const peso = (n: number) =>
+  `₱${(Number(n) || 0).toLocaleString("en-PH", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const fmtCutoff = (start: string) => {
+  const c = cutoffContaining(start);
+  return `${c.start} → ${c.end}`;
+};
+
+export default function LoansPage() {
+  const [emps, setEmps] = useState<Emp[]>([]);
+  const [loans, setLoans] = useState<Loan[]>([]);
+  const [filter, setFilter] = useState<"active" | "all">("active");
+
+  // form
+  const [employeeDocId, setEmployeeDocId] = useState("");
+  const [type, setType] = useState<LoanType>("sss_salary");
+  const [reference, setReference] = useState("");
+  const [principal, setPrincipal] = useState<number | "">("");
+  const [balance, setBalance] = useState<number | "">("");
+  const [amortization, setAmortization] = useState<number | "">("");
+  const [firstCutoff, setFirstCutoff] = useState("");
+  const [note, setNote] = useState("");
+
+  const [saving, setSaving] = useState(false);
+  const [err, setErr] = useState("");
+  const [ok, setOk] = useState("");
+
+  useEffect(() => {
+    (async () => {
+      const snap = await getDocs(collection(db, "employees"));
+      const list: Emp[] = snap.docs.map((d) => {
+        const x = d.data() as Partial<Emp>;
+        return { id: d.id, employeeId: x.employeeId || "", name: x.name || d.id };
+      });
+      list.sort((a, b) => a.name.localeCompare(b.name));
+      setEmps(list);
+    })();
+  }, []);
+
+  useEffect(() => {
+    const unsub = onSnapshot(
+      query(collection(db, "loans"), orderBy("createdAt", "desc")),
+      (snap) => setLoans(snap.docs.map((d) => ({ ...(d.data() as Omit<Loan, "id">), id: d.id }))),
+      (e) => console.error("loans subscribe error:", e)
+    );
+    return () => unsub();
+  }, []);
+
+  const visible = useMemo(() => (filter === "active" ? loans.filter((l) => l.status === "active") : loans), [loans, filter]);
+
+  const reset = () => {
+    setReference("");
+    setPrincipal("");
+    setBalance("");
+    setAmortization("");
+    setFirstCutoff("");
+    setNote("");
+  };
+
+  const save = async () => {
+    setErr("");
+    setOk("");
+    const emp = emps.find((e) => e.id === employeeDocId);
+    if (!emp) return setErr("Select an employee.");
+    const p = roundPesos(Number(principal || 0));
+    const b = balance === "" ? p : roundPesos(Number(balance));
+    const a = roundPesos(Number(amortization || 0));
+    if (!(p > 0)) return setErr("Enter the loan principal.");
+    if (!(b > 0) || b > p) return setErr("The balance must be above zero and not more than the principal.");
+    if (!(a > 0)) return setErr("Enter the amortization per cutoff.");
+    if (!firstCutoff) return setErr("Pick the first cutoff to deduct.");
+    setSaving(true);
+    try {
+      await addDoc(collection(db, "loans"), {
+        employeeId: emp.id,
+        employeeName: emp.name,
+        type,
+        reference: reference.trim() || null,
+        principal: p,
+        amortization: a,
+        startCutoff: cutoffContaining(firstCutoff).start,
+        balance: b,
+        status: "active",
+        note: note.trim() || null,
+        createdAt: serverTimestamp(),
+        createdBy: getAuth().currentUser?.email || null,
+      });
+      setOk(`${loanLabel({ type, reference })} added for ${emp.name}.`);
+      reset();
+    } catch (e) {
+      console.error(e);
+      setErr("Failed to save the loan.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const cancel = async (l: Loan) => {
+    if (!window.confirm(`Cancel ${loanLabel(l)} of ${l.employeeName}? It will no longer be deducted.`)) return;
+    try {
+      await updateDoc(doc(db, "loans", l.id), {
+        status: "cancelled",
+        cancelledAt: serverTimestamp(),
+        cancelledBy: getAuth().currentUser?.email || null,
+      });
+    } catch (e) {
+      console.error(e);
+      alert("Failed to cancel the loan.");
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-900 rounded-2xl text-white pt-20 pb-20">
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold">Loans</h1>
+          <p className="text-gray-300 mt-1">
+            SSS, Pag-IBIG and company loans are deducted every cutoff until the balance is paid.
+          </p>
+        </div>
+
+        <div className="rounded-2xl border border-white/10 bg-gray-800/40 p-5 mb-8 space-y-4">
+          <div className="grid md:grid-cols-4 gap-4">
+            <div className="md:col-span-2">
+              <label className="lbl">Employee</label>
+              <select className="inp" value={employeeDocId} onChange={(e) => setEmployeeDocId(e.target.value)}>
+                <option value="">Select employee…</option>
+                {emps.map((e) => (
+                  <option key={e.id} value={e.id}>
+                    {e.name} {e.employeeId ? `(${e.employeeId})` : ""}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="lbl">Loan Type</label>
+              <select className="inp" value={type} onChange={(e) => setType(e.target.value as LoanType)}>
+                {(Object.keys(LOAN_TYPES) as LoanType[]).map((t) => (
+                  <option key={t} value={t}>
+                    {LOAN_TYPES[t]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="lbl">Loan / Reference No.</label>
+              <input className="inp" value={reference} onChange={(e) => setReference(e.target.value)} />
+            </div>
+            <div>
+              <label className="lbl">Principal (₱)</label>
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                className="inp"
+                value={principal}
+                onChange={(e) => setPrincipal(e.target.value === "" ? "" : Number(e.target.value))}
+              />
+            </div>
+            <div>
+              <label className="lbl">Remaining Balance (₱)</label>
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                className="inp"
+                placeholder="Same as principal"
+                value={balance}
+                onChange={(e) => setBalance(e.target.value === "" ? "" : Number(e.target.value))}
+              />
+            </div>
+            <div>
+              <label className="lbl">Amortization per Cutoff (₱)</label>
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                className="inp"
+                value={amortization}
+                onChange={(e) => setAmortization(e.target.value === "" ? "" : Number(e.target.value))}
+              />
+            </div>
+            <div>
+              <label className="lbl">First Deduction Cutoff</label>
+              <input type="date" className="inp" value={firstCutoff} onChange={(e) => setFirstCutoff(e.target.value)} />
+            </div>
+            <div className="md:col-span-4">
+              <label className="lbl">Note</label>
+              <input className="inp" value={note} onChange={(e) => setNote(e.target.value)} />
+            </div>
+          </div>
+          {firstCutoff && <p className="text-xs text-gray-400">First deducted in the {fmtCutoff(firstCutoff)} cutoff.</p>}
+          {err && <div className="text-rose-300 text-sm">{err}</div>}
+          {ok && <div className="text-emerald-300 text-sm">{ok}</div>}
+          <div className="flex justify-end">
+            <button
+              onClick={save}
+              disabled={saving}
+              className="px-5 py-2 rounded-xl bg-emerald-600 hover:bg-emerald-500 disabled:opacity-60"
+            >
+              {saving ? "Saving…" : "Add Loan"}
+            </button>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-lg font-semibold">Loans</h2>
+          <select className="inp !w-auto" value={filter} onChange={(e) => setFilter(e.target.value as "active" | "all")}>
+            <option value="active">Active</option>
+            <option value="all">All</option>
+          </select>
+        </div>
+        <div className="overflow-x-auto rounded-2xl border border-white/10">
+          <table className="min-w-full divide-y divide-white/10">
+            <thead className="bg-gray-800/60 text-left text-xs uppercase tracking-wider text-gray-400">
+              <tr>
+                <th className="px-4 py-3">Employee</th>
+                <th className="px-4 py-3">Loan</th>
+                <th className="px-4 py-3">Starts</th>
+                <th className="px-4 py-3 text-right">Principal</th>
+                <th className="px-4 py-3 text-right">Per Cutoff</th>
+                <th className="px-4 py-3 text-right">Balance</th>
+                <th className="px-4 py-3">Status</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/10 bg-gray-900/20 text-sm">
+              {visible.length === 0 ? (
+                <tr>
+                  <td colSpan={8} className="px-4 py-6 text-center text-gray-400">
+                    No loans yet.
+                  </td>
+                </tr>
+              ) : (
+                visible.map((l) => (
+                  <tr key={l.id}>
+                    <td className="px-4 py-3">{l.employeeName}</td>
+                    <td className="px-4 py-3">{loanLabel(l)}</td>
+                    <td className="px-4 py-3">{l.startCutoff}</td>
+                    <td className="px-4 py-3 text-right font-mono">{peso(l.principal)}</td>
+                    <td className="px-4 py-3 text-right font-mono">{peso(l.amortization)}</td>
+                    <td className="px-4 py-3 text-right font-mono">{peso(l.balance)}</td>
+                    <td className="px-4 py-3">
+                      {l.status === "active" ? (
+                        <span className="text-amber-300">Active</span>
+                      ) : l.status === "paid" ? (
+                        <span className="text-emerald-300">Paid</span>
+                      ) : (
+                        <span className="text-gray-400">Cancelled</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      {l.status === "active" && (
+                        <button onClick={() => cancel(l)} className="text-xs text-rose-300 hover:text-rose-200">
+                          Cancel
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <style>{`
+        .inp {
+          width: 100%;
+          padding: 0.75rem 1rem;
+          background: rgba(255,255,255,0.06);
+          border: 1px solid rgba(255,255,255,0.15);
+          border-radius: 0.75rem;
+          color: #fff;
+          outline: none;
+        }
+        .inp:focus {
+          box-shadow: 0 0 0 2px rgba(59,130,246,0.5);
+          border-color: rgba(59,130,246,0.6);
+        }
+        .lbl {
+          display:block;
+          font-size: 0.9rem;
+          font-weight: 500;
+          color: #d1d5db;
+          margin-bottom: 0.35rem;
+        }
+      `}</style>
+    </div>
+  );
+}
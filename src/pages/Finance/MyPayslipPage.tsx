@@ -10,6 +10,9 @@ import { onAuthStateChanged, getAuth, type User } from "firebase/auth";
 import iplogo from "../../assets/iplogo.png";
 import { toPng } from "html-to-image";
 import { jsPDF } from "jspdf";
+import { subtractPesos, sumPesos } from "../../utils/money";
+import type { PayrollTrace } from "../../utils/payrollLogic";
+import ComputationTrace from "../../components/ComputationTrace";
 
 /** ───────────────── Types ───────────────── */
 type MoneyRow = {
@@ -42,15 +45,18 @@ type PayslipDoc = {
   daysOfWork?: number;
   earnings?: MoneyRow[];
   deductions?: MoneyRow[];
+  grossEarnings?: number;
   totalEarnings?: number;
   totalDeductions?: number;
   netPay?: number;
+  carriedForward?: number; // unrecovered deductions, deducted next cutoff as Prior Period Balance
   periodKey?: string;
   draftId?: string;
   createdAt?: any;
   status?: string;
   details?: {
     filedRequests?: FiledRequest[];
+    trace?: PayrollTrace;
   };
 };
 
@@ -120,22 +126,7 @@ export default function MyPayslipsPage() {
           );
           s2.forEach((d) => rows.push({ id: d.id, ...(d.data() as any) }));
         }
-
-        if (rows.length === 0) {
-          const empSnap = await getDocs(
-            query(collection(db, "employees"), where("email", "==", email))
-          );
-          if (!empSnap.empty) {
-            const emp = empSnap.docs[0].data() as any;
-            const alias = (emp.alias || "").toLowerCase();
-            if (alias) {
-              const s3 = await getDocs(
-                query(payslipRef, where("employeeAlias", "==", alias), where("status", "==", "ready"))
-              );
-              s3.forEach((d) => rows.push({ id: d.id, ...(d.data() as any) }));
-            }
-          }
-        }
+        // (firestore.rules only lets an employee read payslips carrying their uid or email)
 
         rows.sort((a, b) => {
           const da = toDate(a.cutoffEnd) || toDate(a.createdAt) || new Date(0);
@@ -402,10 +393,11 @@ function PayslipModal({
   const earnings = payslip.earnings || [];
   const deductions = payslip.deductions || [];
   const totE =
-    payslip.totalEarnings ?? earnings.reduce((a, b) => a + Number(b.amount || 0), 0);
-  const totD =
-    payslip.totalDeductions ?? deductions.reduce((a, b) => a + Number(b.amount || 0), 0);
-  const net = payslip.netPay ?? totE - totD;
+    payslip.grossEarnings ??
+    payslip.totalEarnings ??
+    sumPesos(...earnings.map((e) => Number(e.amount || 0)));
+  const totD = payslip.totalDeductions ?? sumPesos(...deductions.map((d) => Number(d.amount || 0)));
+  const net = payslip.netPay ?? subtractPesos(totE, totD);
 
   // ── BEGIN: computed helpers for earnings/deductions/attendance labels ──
   const details: any = payslip.details || {};
@@ -440,7 +432,7 @@ function PayslipModal({
     const label = (e.label || "").toLowerCase();
     const row = { ...e };
 
-    if (label.includes("basic")) {
+    if (label.includes("basic") && !row.note) {
       const worked = Number(input?.workedDays || 0);
       if (worked && dailyRate) {
         row.note = `${worked} day(s) × ${peso(dailyRate)} = ${peso(dailyRate * worked)}`;
@@ -673,6 +665,17 @@ function PayslipModal({
                       {peso(net)}
                     </td>
                   </tr>
+                  {Number(payslip.carriedForward) > 0 && (
+                    <tr className="border-t border-black">
+                      <td colSpan={3} className="p-2 sm:p-3 border-r border-black">
+                        <div className="font-medium">Unrecovered deductions</div>
+                        <div className="text-[10px] sm:text-xs text-gray-600">
+                          Carried to the next cutoff as Prior Period Balance
+                        </div>
+                      </td>
+                      <td className="p-2 sm:p-3 text-right">{peso(Number(payslip.carriedForward))}</td>
+                    </tr>
+                  )}
                 </tbody>
               </table>
             </div>
@@ -735,6 +738,8 @@ function PayslipModal({
             </div>
           )}
         </div>
+
+        <ComputationTrace trace={payslip.details?.trace} />
       </div>
       <style>{`
         .force-a4 { width: 794px !important; }
@@ -15,10 +15,61 @@ import {
   where,
   getDoc,
   setDoc,
+  deleteField,
+  deleteDoc,
+  arrayUnion,
 } from "firebase/firestore";
 import { getAuth } from "firebase/auth";
+import { getFunctions, httpsCallable } from "firebase/functions";
 import { useParams, useNavigate } from "react-router-dom";
-import { calculatePayroll } from "../../utils/payrollLogic";
+import { calculatePayroll, type CashAdvanceDeductionInput } from "../../utils/payrollLogic";
+import type { StatutoryTables } from "../../utils/contributions";
+import {
+  resolvePayRules,
+  stableKey,
+  type CompanyPayRules,
+  type PayRuleSet,
+  type PayRuleSources,
+} from "../../utils/payRules";
+import type { YtdTax } from "../../utils/withholdingTax";
+import { toDateKey, type HolidayLite } from "../../utils/holidays";
+import { sumPesos } from "../../utils/money";
+import { settleNetPay, type CarryForward } from "../../utils/carryForward";
+import type { RetroPayAdjustment } from "../../utils/retroPay";
+import type { ObRateSchedule } from "../../utils/obRates";
+import type { Loan } from "../../utils/loans";
+import { advanceBalance, advanceOwnerIndex, openAdvances, unmatchedAdvances, type CashAdvance } from "../../utils/cashAdvances";
+import {
+  commissionStatement,
+  monthsEndingIn,
+  planCommissionId,
+  type CommissionPlan,
+  type CommissionStatement,
+  type SaleEntry,
+} from "../../utils/commissionPlans";
+import { freelancerItemsDue, type FreelancerItem } from "../../utils/freelancerPay";
+import {
+  buildDraftPayrollInput,
+  computeDailyWithFiled,
+  computeDraftLine,
+  computeHoursAndDaysForOne,
+  draftLedgers,
+  draftTotals,
+  draftYear,
+  employeeMeta,
+  filedRequestsByName,
+  inferCurrentCutoffHalf,
+  lineThirteenthMonth,
+  payHistory,
+  yearEndYtd,
+  type DraftContext,
+  type DraftLine,
+  type EmployeeDoc,
+  type EmployeeMeta,
+  type FiledRequest,
+  type HistoryPayslip,
+  type PayHistory,
+} from "../../utils/draftPayroll";
 
 /* ========================================================================
    TYPES
@@ -37,41 +88,39 @@ type DraftHead = {
   totals?: { gross?: number; net?: number; count?: number };
   updatedAt?: any;
   workedDays?: number;
+  type?: "regular" | "thirteenth_month" | "final_pay"; // missing = regular cutoff
+  year?: number; // thirteenth_month runs
+  employeeId?: string; // final_pay runs: the separating employee
+  separationDate?: string; // final_pay runs
+  financeConfig?: { holidays?: HolidayLite[] }; // pushed from FinanceSettingsPage → applyToDrafts
+  payRules?: PayRuleSet; // pinned on first open, resolved as of cutoffEnd
+  payRulesPinnedAt?: unknown;
+  payRulesPinnedBy?: string | null;
+  // written by approvePayrollDraft while it pays the lines
+  approvalJob?: { state: "running" | "done"; total: number; done: number; error?: string | null };
 };
 
-type TimeInOut = { date: string; in: string | null; out: string | null };
-
-type NormalizedCategory = "core" | "core_probationary" | "intern" | "freelancer" | "owner";
-
-type Line = {
-  id: string;
-  employeeId: string;
-  name: string; // may be an alias snapshot; UI must override with canonical employees.name
+// the draft fields payroll is computed from live in utils/draftPayroll; these are the page's own
+type Line = DraftLine & {
   periodKey: string;
-  daysWorked: number;
   hoursWorked: number;
-  category?: NormalizedCategory;
-  monthlySalary?: number;
-  timeInOut: TimeInOut[];
-  adjustments?: {
-    OT?: { date: string; hours: number; rate?: number }[];
-    OB?: { date: string; hours?: number; note?: string }[];
-    LEAVES?: { date: string; type: string; hoursOrDays: number }[];
-  };
   commissionsTotal?: number;
-  adjustmentsTotal?: number;
   updatedAt?: any;
   _deleted?: boolean;
-  manualCashAdvance?: number; // 👈 NEW - manual override
+  removedCommissionPlans?: string[]; // statement months (YYYY-MM) finance removed from this cutoff
 };
 
 type CommissionDoc = {
   client: string;
-  type: "sales" | "others";    // 👈 new
+  type: "sales" | "others" | "plan";
   amount: number;
   percent: number;             // can be 0 for "others"
   commission: number;          // computed final commission
   createdAt?: any;
+  source?: "rule" | "plan";    // added from employees.commissionRules / the commission plan statement (missing = typed in the modal)
+  ruleId?: string;
+  month?: string;              // plan statements: YYYY-MM
+  statement?: CommissionStatement;
 };
 
 type CommRow = {
@@ -82,59 +131,21 @@ type CommRow = {
   percent: string;             // keep as string for inputs
 };
 
-type EmployeeDoc = {
-  name: string;
-  alias?: string;
-  category: NormalizedCategory | "core_probationary" | string;
-  monthlySalary?: number;
-  perDayRate?: number;
-  perDayOrMonthly?: number;
-  dailyProbationary?: number;
-  fixedWorkedDays?: number;
-  fixedOut?: string | null;
-  benefits?: {
-    sss?: boolean;
-    philhealth?: boolean;
-    pagibig?: boolean;
-  };
-  rates?: {
-    ob?: number;
-    obShoot?: number;
-    obEvents?: number;
-    ot?: number;
-  };
-};
-
-
-type CashAdvanceEntry = {
-  totalAmount: number;
-  perCutOff: number;
-  startDateCutOff: "first" | "second";
-  approved: boolean;
-};
-
-type FiledRequest = {
-  type: "OB" | "OT" | "LEAVE" | "REMOTEWORK" | "WFH" | "RDOT";
-  date?: string;
-  hours?: number;
-  category?: "shoot" | "events" | "ob";
-  status: "approved" | "pending" | "rejected";
-  employeeName?: string;
-  suggestedRate?: number;
-  filedAt?: any;
-
-  // 👇 always require explicit filed in/out for remote & rdot
-  timeIn?: string | null;
-  timeOut?: string | null;
-};
-
-
-type PayrollInputLike = Parameters<typeof calculatePayroll>[0];
-
 /* ========================================================================
    UTILS
    ======================================================================== */
 const db = getFirestore();
+const functions = getFunctions();
+
+// payroll Cloud Functions (functions/src) — the only writers of payslips
+const recomputeDraft = httpsCallable<{ draftId: string }, { count: number; gross: number; net: number }>(
+  functions,
+  "recomputePayrollDraft"
+);
+const approveDraft = httpsCallable<
+  { draftId: string },
+  { status: "running" | "approved"; done: number; total: number }
+>(functions, "approvePayrollDraft");
 
 const peso = (n: number) =>
   `₱${(Number(n) || 0).toLocaleString(undefined, {
@@ -160,113 +171,14 @@ const toISOTAt = (dMMDDYYYY: string, hhmmStr: string) => {
   return isNaN(d.getTime()) ? null : d.toISOString();
 };
 
-function inferCurrentCutoffHalf(head: DraftHead): "first" | "second" {
-  const label = head.cutoffLabel || "";
-  if (label.includes("11–25") || label.includes("11-25")) return "second";
-  return "first";
-}
-
-// Normalize category strings (handles hyphen/underscore/case)
-function normalizeCategory(input?: string | null): NormalizedCategory {
-  const s = String(input || "").toLowerCase();
-  if (s.includes("owner")) return "owner";
-  if (s.includes("freelancer")) return "freelancer";
-  if (s.includes("intern")) return "intern";
-  if (s.includes("core") && (s.includes("probationary") || s.includes("probation"))) {
-    return "core_probationary";
-  }
-  return "core";
-}
-
-// Attendance windows & breaks
-const SHIFT_IN = { h: 7, m: 0 };
-const SHIFT_OUT = { h: 17, m: 30 };
-//@ts-ignore
-const IN_MIN = 6 * 60;
-//@ts-ignore
-const IN_MAX = 13 * 60 + 59;
-//@ts-ignore
-const OUT_MIN = 16 * 60;
-
-function clipToShift(timeIn: Date | null, timeOut: Date | null) {
-  if (!timeIn || !timeOut) return { start: null as Date | null, end: null as Date | null };
-  const dayStart = new Date(timeIn.getFullYear(), timeIn.getMonth(), timeIn.getDate(), SHIFT_IN.h, SHIFT_IN.m, 0, 0);
-  const dayEnd = new Date(timeIn.getFullYear(), timeIn.getMonth(), timeIn.getDate(), SHIFT_OUT.h, SHIFT_OUT.m, 0, 0);
-  const start = timeIn > dayStart ? timeIn : dayStart;
-  const end = timeOut < dayEnd ? timeOut : dayEnd;
-  if (end <= start) return { start: null, end: null };
-  return { start, end };
-}
-function computeHoursAndDaysForOne(
-  inISO: string | null,
-  outISO: string | null,
-  fixedOut?: string | null
-) {
-  if ((inISO && !outISO) || (!inISO && outISO)) {
-    return { hours: 4, days: 0.5 };
-  }
-
-  const tIn = inISO ? new Date(inISO) : null;
-  const tOut = outISO ? new Date(outISO) : null;
-  if (!tIn || !tOut) return { hours: 0, days: 0 };
-
-  const inM = tIn.getHours() * 60 + tIn.getMinutes();
-  const outM = tOut.getHours() * 60 + tOut.getMinutes();
-  if (inM < 360 || outM < 420 || outM <= inM) {
-    return { hours: 0, days: 0 };
-  }
-
-  // 🔹 Hard rule: if time-in is 12:00–12:59 → half-day regardless of time-out
-  if (tIn.getHours() === 12) {
-    return { hours: 4, days: 0.5 };
-  }
-
-  // --- apply fixed out for interns ---
-  let adjustedOut = tOut;
-  if (fixedOut) {
-    const [hh, mm] = fixedOut.split(":").map(Number);
-    if (!isNaN(hh) && !isNaN(mm)) {
-      const forced = new Date(tOut.getFullYear(), tOut.getMonth(), tOut.getDate(), hh, mm, 0, 0);
-      if (forced.getTime() < adjustedOut.getTime()) {
-        adjustedOut = forced;
-      }
-    }
-  }
-
-  const { start, end } = clipToShift(tIn, adjustedOut);
-  if (!start || !end) return { hours: 0, days: 0 };
-
-  // 🔹 Hard rule: If actual timeout ≤ 1:59 PM → always half-day
-  if (end.getHours() < 13 || (end.getHours() === 13 && end.getMinutes() <= 59)) {
-    return { hours: 4, days: 0.5 };
-  }
-
-  let mins = (end.getTime() - start.getTime()) / 60000;
-
-  // Deduct lunch only if they worked into it
-  const lunchStart = new Date(start.getFullYear(), start.getMonth(), start.getDate(), 12, 0);
-  const lunchEnd = new Date(start.getFullYear(), start.getMonth(), start.getDate(), 13, 0);
-  if (end > lunchStart) {
-    const overlap =
-      Math.max(0, Math.min(end.getTime(), lunchEnd.getTime()) - Math.max(start.getTime(), lunchStart.getTime())) /
-      60000;
-    mins -= overlap;
-  }
-
-  if (mins < 0) mins = 0;
-
-  let hours = Math.round((mins / 60) * 100) / 100;
-  if (hours > 8) hours = 8;
-
-  let days = hours / 8;
-  if (days > 1) days = 1;
-
-  if (fixedOut) {
-    days = 1;
-    hours = 8;
-  }
-
-  return { hours, days };
+/** Employees on a 13th month run of `year` not approved yet — year-end lines annualize their excess too. */
+async function pendingThirteenthMonth(year: number): Promise<string[]> {
+  const runs = await getDocs(
+    query(collection(db, "payrollDrafts"), where("type", "==", "thirteenth_month"), where("year", "==", year))
+  );
+  const open = runs.docs.filter((d) => !["approved", "published", "rejected"].includes(String(d.get("status"))));
+  const lineSnaps = await Promise.all(open.map((d) => getDocs(collection(d.ref, "lines"))));
+  return lineSnaps.flatMap((snap) => snap.docs.map((d) => String(d.get("employeeId") || d.id).trim()));
 }
 
 
@@ -312,36 +224,35 @@ const canEdit = isFinance;
   const [err, setErr] = useState("");
 
   // canonical employee data (KEYED BY EXACT employees doc id)
-  const [empMeta, setEmpMeta] = useState<
-  Record<
-    string,
-    {
-      name: string;
-      alias?: string;
-      category: NormalizedCategory;
-      monthlySalary: number;
-      perDayRate: number;
-      fixedWorkedDays: number;
-      fixedOut?: string | null;
-      rates?: EmployeeDoc["rates"];
-      // ✅ add these
-      sss?: boolean;
-      philhealth?: boolean;
-      pagibig?: boolean;
-    }
-  >
->({});
+  const [empMeta, setEmpMeta] = useState<Record<string, EmployeeMeta>>({});
 
 
   // commissions total per line
   const [commTotals, setCommTotals] = useState<Record<string, number>>({});
+  const [commEntries, setCommEntries] = useState<Record<string, Array<CommissionDoc & { id: string }>>>({});
+  const [commissionPlans, setCommissionPlans] = useState<CommissionPlan[]>([]);
+  const [salesLedger, setSalesLedger] = useState<SaleEntry[] | null>(null);
 
-  // cash advance per full name
-  const [cashAdvances, setCashAdvances] = useState<Record<string, CashAdvanceEntry[]>>({});
+  // open cash advances per employees doc id, oldest first
+  const [cashAdvances, setCashAdvances] = useState<Record<string, CashAdvanceDeductionInput[]>>({});
+  const [orphanAdvances, setOrphanAdvances] = useState<CashAdvance[]>([]); // open advances matching no employee
 
   // filed requests per full name
   const [filedRequests, setFiledRequests] = useState<Record<string, FiledRequest[]>>({});
 
+  // pay rule sources (/payRules, settings/statutory, settings/obRates) — null until loaded
+  const [ruleSources, setRuleSources] = useState<PayRuleSources | null>(null);
+
+  // open carry-forwards (unrecovered deductions from earlier cutoffs)
+  const [carryForwards, setCarryForwards] = useState<CarryForward[]>([]);
+
+  // open retro pay (back-dated raises, paid on the next draft)
+  const [retroAdjustments, setRetroAdjustments] = useState<RetroPayAdjustment[]>([]);
+  const [loans, setLoans] = useState<Loan[]>([]);
+
+  // company holidays (used when the draft has no financeConfig.holidays snapshot)
+  const [holidayList, setHolidayList] = useState<HolidayLite[]>([]);
+
   // freelancers dropdown
   const [freelanceOptions, setFreelanceOptions] = useState<Array<{ id: string; name: string }>>([]);
 
@@ -427,7 +338,7 @@ const [commRows, setCommRows] = useState<CommRow[]>([]);
      ------------------------------------------------------------ */
   useEffect(() => {
     (async () => {
-      if (!draftId || !head) return;
+      if (!draftId || !head || head.type === "thirteenth_month" || head.type === "final_pay") return;
       try {
         const ownersSnap = await getDocs(
         query(collection(db, "employees"), where("category", "==", "owner"))
@@ -479,15 +390,81 @@ const [commRows, setCommRows] = useState<CommRow[]>([]);
         let t = 0;
         snap.forEach((d) => {
           const c = d.data() as CommissionDoc;
-          t += Number(c.commission || 0);
+          t = sumPesos(t, Number(c.commission || 0));
         });
         setCommTotals((prev) => ({ ...prev, [ln.id]: t }));
+        setCommEntries((prev) => ({
+          ...prev,
+          [ln.id]: snap.docs.map((d) => ({ ...(d.data() as CommissionDoc), id: d.id })),
+        }));
       });
       unsubs.push(u);
     });
     return () => unsubs.forEach((fn) => fn());
   }, [draftId, lines.map((l) => l.id).join(",")]);
 
+  /* ------------------------------------------------------------
+     SUBSCRIBE: COMMISSION PLANS + SALES LEDGER
+     ------------------------------------------------------------ */
+  useEffect(() => {
+    const unsubPlans = onSnapshot(
+      collection(db, "commissionPlans"),
+      (snap) => setCommissionPlans(snap.docs.map((d) => ({ ...(d.data() as Omit<CommissionPlan, "id">), id: d.id }))),
+      () => setCommissionPlans([])
+    );
+    const unsubSales = onSnapshot(
+      collection(db, "sales"),
+      (snap) => setSalesLedger(snap.docs.map((d) => ({ ...(d.data() as Omit<SaleEntry, "id">), id: d.id }))),
+      () => setSalesLedger(null)
+    );
+    return () => {
+      unsubPlans();
+      unsubSales();
+    };
+  }, []);
+
+  /* ------------------------------------------------------------
+     SYNC: PLAN STATEMENTS → LINE COMMISSIONS
+     Every month that ends inside the cutoff adds its statement; a changed ledger rewrites it while the draft is
+     still being edited.
+     ------------------------------------------------------------ */
+  useEffect(() => {
+    if (!draftId || !head || !canEdit || !salesLedger) return;
+    if ((head.type || "regular") !== "regular" || !["draft", "finance_review"].includes(head.status)) return;
+    const start = toDateKey(head.cutoffStart);
+    const end = toDateKey(head.cutoffEnd);
+    const months = start && end ? monthsEndingIn(start, end) : [];
+    if (!months.length) return;
+    (async () => {
+      for (const ln of lines) {
+        const empId = String(ln.employeeId || ln.id).trim();
+        const plan = commissionPlans.find((p) => p.id === empMeta[empId]?.commissionPlanId);
+        const existing = commEntries[ln.id];
+        if (!plan || !existing) continue;
+        const removed = new Set(ln.removedCommissionPlans || []);
+        for (const month of months) {
+          if (removed.has(month)) continue;
+          const st = commissionStatement(salesLedger, empId, plan, month);
+          if (!st.sales.length && !st.clawbacks.length && !st.carriedIn) continue;
+          const id = planCommissionId(month);
+          const prev = existing.find((c) => c.id === id);
+          if (prev && prev.commission === st.net && prev.amount === st.creditedSales && prev.statement?.carriedOut === st.carriedOut) continue;
+          await setDoc(doc(db, "payrollDrafts", draftId, "lines", ln.id, "commissions", id), {
+            client: `${plan.name} — ${month}`,
+            type: "plan",
+            amount: st.creditedSales,
+            percent: st.effectiveRate,
+            commission: st.net,
+            source: "plan",
+            month,
+            statement: st,
+            createdAt: serverTimestamp(),
+          });
+        }
+      }
+    })().catch((e) => console.error("commission plan sync failed", e));
+  }, [draftId, head, canEdit, lines, empMeta, commEntries, commissionPlans, salesLedger]);
+
   /* ------------------------------------------------------------
      FETCH: ALL NEEDED EMPLOYEE DATA (CANONICAL NAMES + RATES)
      ------------------------------------------------------------ */
@@ -501,79 +478,15 @@ const [commRows, setCommRows] = useState<CommRow[]>([]);
     );
     if (!ids.length) return;
 
-    const map: Record<
-      string,
-      {
-        name: string;
-        alias?: string;
-        category: NormalizedCategory;
-        monthlySalary: number;
-        perDayRate: number;
-        fixedWorkedDays: number;
-        fixedOut: string | null;
-        rates?: EmployeeDoc["rates"];
-        // ✅ add deduction flags in the type
-        sss: boolean;
-        philhealth: boolean;
-        pagibig: boolean;
-      }
-    > = {};
+    const map: Record<string, EmployeeMeta> = {};
 
     await Promise.all(
       ids.map(async (id) => {
         try {
           const s = await getDoc(doc(db, "employees", id));
-          if (s.exists()) {
-            const e = s.data() as EmployeeDoc;
-            const perDayRaw =
-              Number(e.perDayRate || e.perDayOrMonthly || e.dailyProbationary || 0) || 0;
-            const monthlyRaw = Number(e.monthlySalary || 0) || 0;
-
-            map[id] = {
-              name: e.name ? String(e.name) : id,
-              alias: e.alias ? String(e.alias) : undefined,
-              category: normalizeCategory((e as any).category),
-              monthlySalary: monthlyRaw,
-              perDayRate: perDayRaw,
-              fixedWorkedDays: Number(e.fixedWorkedDays || 0),
-              fixedOut:
-                normalizeCategory((e as any).category) === "intern"
-                  ? "16:00"
-                  : e.fixedOut || null,
-              rates: e.rates || {},
-              // ✅ now these are valid
-             // ✅ pull booleans from nested benefits
-  sss: Boolean(e.benefits?.sss),
-  philhealth: Boolean(e.benefits?.philhealth),
-  pagibig: Boolean(e.benefits?.pagibig),
-            };
-          } else {
-            map[id] = {
-              name: id,
-              category: "core",
-              monthlySalary: 0,
-              perDayRate: 0,
-              fixedWorkedDays: 0,
-              fixedOut: null,
-              rates: {},
-              sss: false,
-              philhealth: false,
-              pagibig: false,
-            };
-          }
+          map[id] = employeeMeta(id, s.exists() ? (s.data() as EmployeeDoc) : null);
         } catch {
-          map[id] = {
-            name: id,
-            category: "core",
-            monthlySalary: 0,
-            perDayRate: 0,
-            fixedWorkedDays: 0,
-            fixedOut: null,
-            rates: {},
-            sss: false,
-            philhealth: false,
-            pagibig: false,
-          };
+          map[id] = employeeMeta(id, null);
         }
       })
     );
@@ -603,127 +516,215 @@ const [commRows, setCommRows] = useState<CommRow[]>([]);
   }, []);
 
   /* ------------------------------------------------------------
-   FETCH: CASH ADVANCES (APPROVED)
-   ------------------------------------------------------------ */
-useEffect(() => {
-  (async () => {
-    if (!head || !lines.length) return;
-    try {
-      // ✅ read from cashAdvances collection, not requests
-      const qy = query(
-  collection(db, "cashAdvances"),
-  where("approved", "==", true)
-);
+     FETCH: PAY RULE SOURCES (company rules, statutory tables, OB catalog)
+     ------------------------------------------------------------ */
+  useEffect(() => {
+    (async () => {
+      try {
+        const [companySnap, statutorySnap, obSnap] = await Promise.all([
+          getDocs(collection(db, "payRules")),
+          getDoc(doc(db, "settings", "statutory")),
+          getDoc(doc(db, "settings", "obRates")),
+        ]);
+        setRuleSources({
+          company: companySnap.docs.map((d) => d.data() as CompanyPayRules),
+          statutory: statutorySnap.exists() ? (statutorySnap.data() as StatutoryTables) : {},
+          obRates: obSnap.exists() ? ((obSnap.data().schedules as ObRateSchedule[]) || []) : [],
+        });
+      } catch {
+        setRuleSources(null);
+      }
+    })();
+  }, []);
 
-      const snap = await getDocs(qy);
+  // rules currently in effect on this cutoff vs. the set pinned on the draft
+  const currentRules = useMemo(
+    () => (ruleSources && head?.cutoffEnd ? resolvePayRules(ruleSources, head.cutoffEnd) : null),
+    [ruleSources, head?.cutoffEnd]
+  );
+  const rules: PayRuleSet | undefined = head?.payRules ?? currentRules ?? undefined;
+  const rulesOutdated =
+    !!head?.payRules && !!currentRules && stableKey(head.payRules) !== stableKey(currentRules);
 
-      const map: Record<string, CashAdvanceEntry[]> = {};
+  async function pinPayRules(next: PayRuleSet) {
+    if (!draftId || !canEdit) return;
+    await updateDoc(doc(db, "payrollDrafts", draftId), {
+      payRules: next,
+      payRulesPinnedAt: serverTimestamp(),
+      payRulesPinnedBy: getAuth().currentUser?.email || null,
+    });
+  }
 
-      snap.forEach((d) => {
-        const r = d.data() as any;
-        const key = String(r.employeeName || r.name || "").trim();
-        if (!key) return;
+  // (the rules are pinned by recomputePayrollDraft when the draft is created — see AttendancePage / FinalPayPage)
 
-        const entry: CashAdvanceEntry = {
-          totalAmount: Number(r.totalAmount || 0),
-          perCutOff: Number(r.perCutOff || 0),
-          startDateCutOff: (r.startDateCutOff as "first" | "second") || "first",
-          approved: r.approved === true,
-        };
+  /* ------------------------------------------------------------
+     SUBSCRIBE: OPEN CARRY-FORWARDS
+     ------------------------------------------------------------ */
+  useEffect(() => {
+    const unsub = onSnapshot(
+      query(collection(db, "carryForwards"), where("status", "==", "open")),
+      (snap) => setCarryForwards(snap.docs.map((d) => ({ ...(d.data() as Omit<CarryForward, "id">), id: d.id }))),
+      () => setCarryForwards([])
+    );
+    return unsub;
+  }, []);
 
-        if (!map[key]) map[key] = [];
-        map[key].push(entry);
-      });
+  /* ------------------------------------------------------------
+     SUBSCRIBE: OPEN RETRO PAY
+     ------------------------------------------------------------ */
+  useEffect(() => {
+    const unsub = onSnapshot(
+      query(collection(db, "retroPay"), where("status", "==", "open")),
+      (snap) => setRetroAdjustments(snap.docs.map((d) => ({ ...(d.data() as Omit<RetroPayAdjustment, "id">), id: d.id }))),
+      () => setRetroAdjustments([])
+    );
+    return unsub;
+  }, []);
 
-      setCashAdvances(map);
+  /* ------------------------------------------------------------
+     SUBSCRIBE: ACTIVE LOANS
+     ------------------------------------------------------------ */
+  useEffect(() => {
+    const unsub = onSnapshot(
+      query(collection(db, "loans"), where("status", "==", "active")),
+      (snap) => setLoans(snap.docs.map((d) => ({ ...(d.data() as Omit<Loan, "id">), id: d.id }))),
+      () => setLoans([])
+    );
+    return unsub;
+  }, []);
+
+
+  // carry-forwards, retro pay and loans this draft deducts
+  const { openCarry, openRetro, loans: loansDue } = useMemo(
+    () => draftLedgers(head, draftId || "", { carryForwards, retroPay: retroAdjustments, loans }),
+    [head, draftId, carryForwards, retroAdjustments, loans]
+  );
+
+  /* ------------------------------------------------------------
+     FETCH: COMPANY HOLIDAYS
+     ------------------------------------------------------------ */
+  useEffect(() => {
+    (async () => {
+      try {
+        const snap = await getDocs(collection(db, "holidays"));
+        setHolidayList(snap.docs.map((d) => d.data() as HolidayLite));
+      } catch {
+        setHolidayList([]);
+      }
+    })();
+  }, []);
+
+  /* ------------------------------------------------------------
+   FETCH: CASH ADVANCES (APPROVED)
+   ------------------------------------------------------------ */
+useEffect(() => {
+  (async () => {
+    if (!head || !lines.length) return;
+    try {
+      // ✅ read from cashAdvances collection, not requests; the remaining balance drives the deduction
+      const [caSnap, empSnap] = await Promise.all([
+        getDocs(query(collection(db, "cashAdvances"), where("approved", "==", true))),
+        getDocs(collection(db, "employees")),
+      ]);
+
+      // advances filed before the ledger carry the HR employee code, the oldest only the name
+      const owners = advanceOwnerIndex(empSnap.docs.map((d) => ({ ...d.data(), id: d.id })));
+      const list = caSnap.docs.map((d) => ({ ...(d.data() as Omit<CashAdvance, "id">), id: d.id }));
+      setCashAdvances(openAdvances(list, owners));
+      setOrphanAdvances(unmatchedAdvances(list, owners));
     } catch (err) {
       console.error("Failed to fetch cash advances", err);
       setCashAdvances({});
+      setOrphanAdvances([]);
     }
   })();
 }, [head?.cutoffStart, head?.cutoffEnd, lines.length]);
 
 
+  /* ------------------------------------------------------------
+   FETCH: EARLIER PAYSLIPS (13TH MONTH, FINAL PAY, YEAR-END LINES)
+   ------------------------------------------------------------ */
+  const [history, setHistory] = useState<Record<string, PayHistory>>({});
+  const hasYearEnd = lines.some((ln) => ln.yearEnd);
+  const needsHistory = head?.type === "thirteenth_month" || head?.type === "final_pay" || hasYearEnd;
+  useEffect(() => {
+    (async () => {
+      if (!head || !needsHistory || !Object.keys(empMeta).length) return;
+      const year = draftYear(head);
+      try {
+        // a separating employee's payslips of every year (the last one paid may be last year's), else the year's
+        const snaps =
+          head.type === "final_pay"
+            ? await Promise.all(
+                Object.entries(empMeta).flatMap(([id, e]) => [
+                  getDocs(query(collection(db, "payslips"), where("employeeDocId", "==", id))),
+                  ...(e.uid ? [getDocs(query(collection(db, "payslips"), where("employeeId", "==", e.uid)))] : []),
+                ])
+              )
+            : [
+                await getDocs(
+                  query(
+                    collection(db, "payslips"),
+                    where("cutoffEnd", ">=", `${year}-01-01`),
+                    where("cutoffEnd", "<", `${year + 1}-01-01`)
+                  )
+                ),
+              ];
+        const byId = new Map<string, HistoryPayslip>();
+        snaps.forEach((snap) => snap.forEach((d) => byId.set(d.id, d.data() as HistoryPayslip)));
+        const pending = hasYearEnd ? await pendingThirteenthMonth(year) : [];
+        setHistory(payHistory([...byId.values()], year, empMeta, draftId, pending));
+      } catch (err) {
+        console.error("Failed to fetch earlier payslips", err);
+        setHistory({});
+      }
+    })();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [head?.type, head?.year, head?.cutoffEnd, needsHistory, hasYearEnd, empMeta, draftId]);
+
   /* ------------------------------------------------------------
    FETCH: FILED REQUESTS (APPROVED, WITHIN CUTOFF)
    ------------------------------------------------------------ */
     useEffect(() => {
       (async () => {
         if (!head || !head.cutoffStart || !head.cutoffEnd || !lines.length) return;
-        const start = new Date(head.cutoffStart);
-        const end = new Date(head.cutoffEnd);
-
-        // ✅ move end to 23:59:59
-        end.setHours(23, 59, 59, 999);
-
-
         try {
-          const qRef = query(collection(db, "requests"), where("status", "==", "approved"));
-          const snap = await getDocs(qRef);
-          const map: Record<string, FiledRequest[]> = {};
-
-          snap.forEach((d) => {
-            const r = d.data() as any;
-            const details = r.details || {}; // ✅ wrapper fallback
-            const fullName = String(r.employeeName || r.name || "").trim();
-            if (!fullName) return;
-
-            // ✅ date comes from details first
-            const dtStr: string | undefined = details.date || r.date || r.filedDate;
-            if (dtStr) {
-      const dt = new Date(dtStr);
-
-      // ✅ End date must be INCLUDED (<= end)
-      if (isNaN(dt.getTime()) || dt < start || dt > new Date(end.getTime() + 24 * 60 * 60 * 1000 - 1)) {
-        return;
-      }
-    }
-
-
-        const fr: FiledRequest = {
-        type: (r.type || details.type || details.kind || "OB").toUpperCase(),
-        date: dtStr,
-        hours: Number(details.hours ?? r.hours ?? 0),
-        category: details.categoryKey || details.category || r.category || r.obType || undefined,
-        status: "approved",
-        employeeName: fullName,
-        suggestedRate: Number(details.suggestedRate ?? r.suggestedRate ?? 0) || undefined,
-        filedAt: r.filedAt || r.createdAt || serverTimestamp(),
-
-        // ✅ pick up filed in/out (always required for remotework/wfh/rdot)
-        timeIn: details.in || r.in || null,
-        timeOut: details.out || r.out || null,
-      };
-
-
-        if (!map[fullName]) map[fullName] = [];
-        map[fullName].push(fr);
-      });
-
-      setFiledRequests(map);
-    } catch {
-      setFiledRequests({});
-    }
-  })();
-}, [head?.cutoffStart, head?.cutoffEnd, lines.length]);
+          const snap = await getDocs(query(collection(db, "requests"), where("status", "==", "approved")));
+          setFiledRequests(filedRequestsByName(snap.docs.map((d) => d.data()), head.cutoffStart, head.cutoffEnd));
+        } catch {
+          setFiledRequests({});
+        }
+      })();
+    }, [head?.cutoffStart, head?.cutoffEnd, lines.length]);
 
 
   /* ------------------------------------------------------------
      PREVIEW TOTALS (ALWAYS COMPUTED FROM payrollLogic)
      ------------------------------------------------------------ */
-  const previewTotals = useMemo(() => {
-    if (!head) return { count: lines.length, gross: 0, net: 0 };
-    let gross = 0;
-    let net = 0;
-    for (const ln of lines) {
-      const p = calculatePayroll(buildPayrollInput(ln));
-      const comm = commTotals[ln.id] || 0;
-      gross += (p.grossEarnings || 0) + comm;
-      net += (p.netPay || 0) + comm;
-    }
-    return { count: lines.length, gross, net };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [head?.periodKey, lines, commTotals, empMeta, cashAdvances, filedRequests]);
+  const draftCtx = useMemo<DraftContext>(
+    () => ({
+      draftId: draftId || "",
+      head,
+      rules,
+      holidays: holidayList,
+      employees: empMeta,
+      filedRequests,
+      commissions: commTotals,
+      openCarry,
+      openRetro,
+      loans: loansDue,
+      cashAdvances,
+      history,
+    }),
+    [draftId, head, rules, holidayList, empMeta, filedRequests, commTotals, openCarry, openRetro, loansDue, cashAdvances, history]
+  );
+  const computeLine = (ln: Line) => computeDraftLine(ln, draftCtx);
+  const buildPayrollInput = (ln: Line) => buildDraftPayrollInput(ln, draftCtx);
+
+  const previewTotals = useMemo(
+    () => (head ? draftTotals(lines, draftCtx) : { count: lines.length, gross: 0, net: 0 }),
+    [head, lines, draftCtx]
+  );
 
   /* ========================================================================
      ACTIONS
@@ -792,253 +793,37 @@ useEffect(() => {
   });
 }
 
+// ✅ the stored totals are recomputed by the payroll functions from inputs they read themselves
 useEffect(() => {
-  if (!draftId || !previewTotals) return;
-  updateDoc(doc(db, "payrollDrafts", draftId), {
-    totals: {
-      gross: previewTotals.gross,
-      net: previewTotals.net,
-      count: previewTotals.count,
-    },
-    updatedAt: serverTimestamp(),
-  }).catch(() => {});
+  if (!draftId || !head) return;
+  const t = setTimeout(() => {
+    recomputeDraft({ draftId }).catch(() => {});
+  }, 1500);
+  return () => clearTimeout(t);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
 }, [draftId, previewTotals.gross, previewTotals.net, previewTotals.count]);
 
-// 🔹 Utility: deeply remove undefined values
-function removeUndefined(obj: any): any {
-  if (Array.isArray(obj)) {
-    return obj.map(removeUndefined);
-  } else if (obj && typeof obj === "object") {
-    const clean: any = {};
-    for (const [k, v] of Object.entries(obj)) {
-      if (v !== undefined) {
-        clean[k] = removeUndefined(v);
-      }
-    }
-    return clean;
-  }
-  return obj;
-}
-
 const [execLoading, setExecLoading] = useState(false);
 const [adminLoading, setAdminLoading] = useState(false);
 
-// ---- helpers for merging filed requests with times ----
-function ymdKey(v: any): string | null {
-  if (!v) return null;
-  const d = new Date(v);
-  if (Number.isNaN(d.getTime())) return null;
-  return d.toISOString().slice(0, 10); // YYYY-MM-DD
-}
-
-async function fetchFiledWfhRemoteWithTimes(opts: {
-  employeeId: string;           // your HR ID eg "EMP007" (ln.employeeId)
-  cutoffStart: Date;
-  cutoffEnd: Date;
-}) {
-  const { employeeId, cutoffStart, cutoffEnd } = opts;
-  const reqCol = collection(db, "requests");
-
-  // support both schemas: details.* and root fields
-  const [qDetails, qRoot] = await Promise.all([
-    getDocs(query(reqCol, where("details.employeeId", "==", employeeId), where("details.status", "==", "approved"))),
-    getDocs(query(reqCol, where("employeeId", "==", employeeId), where("status", "==", "approved"))),
-  ]);
-
-  const rows: any[] = [];
-  const take = (doc: any) => {
-    const raw = doc.data() as any;
-    const det = raw.details ? raw.details : raw;
-
-    const type = String(det.type || "").toLowerCase();
-    if (!["remotework", "wfh"].includes(type)) return;
-
-    const d = new Date(det.date);
-    if (Number.isNaN(d.getTime())) return;
-    if (d < cutoffStart || d > cutoffEnd) return;
-
-    rows.push({
-      type,
-      date: det.date,                        // keep original
-      dateKey: ymdKey(det.date),             // normalized for merge
-      hours: Number(det.hours || 0),
-      timeIn: typeof det.timeIn === "string" ? det.timeIn : null,
-      timeOut: typeof det.timeOut === "string" ? det.timeOut : null,
-      filedAt: det.filedAt || null,
-    });
-  };
-
-  qDetails.forEach(take);
-  qRoot.forEach(take);
-  return rows;
-}
-
   async function adminFinalApprove() {
   if (!draftId || !isAdminFinal || !head) return;
   setAdminLoading(true);
-  const auth = getAuth();
-  const u = auth.currentUser;
-  if (!u) return;
-
-  const draftRef = doc(db, "payrollDrafts", draftId);
-  const slipsCol = collection(db, "payslips");
-
-  await runTransaction(db, async (tx) => {
-    for (const ln of lines) {
-      // ✅ compute via payrollLogic
-      const input = buildPayrollInput(ln);
-      const out = calculatePayroll(input);
-      const comm = commTotals[ln.id] || 0;
-
-      // ✅ fetch employee meta
-      const empDoc = await getDoc(doc(db, "employees", ln.employeeId));
-      let employeeEmail = "";
-      let employeeUid = "";
-      let designation = "";
-      let department = "";
-      let alias = "";
-      let employeeName = ln.name;
-
-      if (empDoc.exists()) {
-        const e = empDoc.data();
-        employeeEmail = (e.email || "").toLowerCase();
-        employeeUid = e.uid || "";
-        designation = e.position || "";
-        department = e.department || "";
-        alias = e.alias || "";
-        employeeName = e.name || ln.name;
-      }
-
-      // Build final filedRequests with string timeIn/timeOut merged in
-        const cutoffStart = head.cutoffStart ? new Date(head.cutoffStart) : new Date();
-        const cutoffEnd   = head.cutoffEnd   ? new Date(head.cutoffEnd)   : new Date();
-
-        // a) what you already collected (could be from UI, etc.)
-        const prelisted = (filedRequests[employeeName] || []).map((f: any) => ({
-          ...f,
-          dateKey: ymdKey(f.date),
-          filedAt: f.filedAt || new Date().toISOString(),
-          // may or may not have time strings
-          timeIn: typeof f.timeIn === "string" ? f.timeIn : null,
-          timeOut: typeof f.timeOut === "string" ? f.timeOut : null,
-        }));
-
-        // b) fetch APPROVED remotework/wfh requests from /requests with times
-        const fromReqs = await fetchFiledWfhRemoteWithTimes({
-          employeeId: ln.employeeId, // HR ID "EMP007" (matches your sample)
-          cutoffStart,
-          cutoffEnd,
-        });
-
-        // c) merge by dateKey, prefer times from /requests (they're canonical)
-        const byDate = new Map<string, any>();
-        for (const r of prelisted) {
-          if (!r.dateKey) continue;
-          byDate.set(r.dateKey, { ...r });
-        }
-        for (const r of fromReqs) {
-          if (!r.dateKey) continue;
-          const existing = byDate.get(r.dateKey) || {};
-          byDate.set(r.dateKey, {
-            ...existing,
-            ...r,
-            // ensure these fields exist for downstream UIs
-            timeIn: r.timeIn ?? existing.timeIn ?? null,
-            timeOut: r.timeOut ?? existing.timeOut ?? null,
-            // keep a readable filedAt
-            filedAt: r.filedAt || existing.filedAt || null,
-          });
-        }
-
-        const mergedFiledRequests = Array.from(byDate.values()).map((x) => {
-          // strip helper key before saving
-          const { dateKey, ...rest } = x;
-          return rest;
-        });
-
-      let daysOfWork = 0;
-      let cur = new Date(cutoffStart);
-
-      while (cur <= cutoffEnd) {
-        const day = cur.getDay();
-        if (day !== 0 && day !== 6) daysOfWork++;
-        cur.setDate(cur.getDate() + 1);
-      }
-
-      // ✅ detailed earnings
-      const earnings = [
-        { label: "Basic Pay", amount: out.cutoffPay, rateDay: `${out.dailyRate || 0}` },
-        { label: "Official Business (OB)", amount: out.obPay, note: `${input.obQuantity || 0} OBs` },
-        { label: "OT Pay", amount: out.otPay, note: `${input.otHours || 0} hrs` },
-        { label: "Holiday Pay", amount: out.holiday30Pay + out.holidayDoublePay + out.holidayOtDoublePay },
-        { label: "Night Differential", amount: out.nightDiffPay, note: `${input.ndHours || 0} hrs` },
-        { label: "RDOT Pay", amount: out.rdotPay, note: `${input.rdotHours || 0} hrs` },
-        { label: "Commission", amount: comm },
-      ].filter(e => e.amount && e.amount !== 0);
-
-      // ✅ detailed deductions
-      const deductions = [
-        { label: "Cash Advance", amount: out.cashAdvanceDeduction },
-        { label: "SSS", amount: out.sss },
-        { label: "Pagibig", amount: out.pagibig },
-        { label: "Philhealth", amount: out.philhealth },
-        { label: "Tardiness / Lates", amount: out.tardinessDeduction, note: `${input.tardinessMinutes || 0} mins` },
-      ].filter(d => d.amount && d.amount !== 0);
-
-      // ❌ REMOVE email sending here — will happen only in AllPayslipsPage → Publish
-
-      // ✅ save payslip
-      await addDoc(slipsCol, {
-        draftId,
-        employeeId: employeeUid || ln.employeeId,
-        employeeEmail,
-        employeeName,
-        designation,
-        department,
-        employeeAlias: alias,
-        cutoffLabel: head.cutoffLabel,
-        cutoffStart: head.cutoffStart,
-        cutoffEnd: head.cutoffEnd,
-        periodKey: head.periodKey,
-        workDays: ln.daysWorked || 0,
-        daysOfWork,
-        createdAt: serverTimestamp(),
-        status: "for_admin_review", // 👈 not ready yet
-
-        grossEarnings: out.grossEarnings + comm,
-        totalDeductions: out.totalDeductions,
-        netPay: out.netPay + comm,
-
-        earnings,
-        deductions,
-
-        details: removeUndefined({
-          input,
-          output: out,
-          commissions: comm,
-          filedRequests: mergedFiledRequests,   // <-- use merged list with timeIn/timeOut strings
-        }),
-      });
+  try {
+    // ✅ payslips and their ledger postings are written by approvePayrollDraft, never from the browser.
+    // Each call pays the next chunks of lines and skips the ones already paid, so calling again
+    // (here, or after an error) resumes the job without duplicating payslips.
+    for (;;) {
+      const { data } = await approveDraft({ draftId });
+      if (data.status === "approved") break;
+      await new Promise((r) => setTimeout(r, 3000));
     }
-
-    // ✅ mark draft as approved
-    tx.update(draftRef, {
-      adminApproval: {
-        uid: u.uid,
-        name: u.displayName || u.email || "admin_final",
-        at: serverTimestamp(),
-      },
-      status: "approved",
-      totals: {
-        gross: previewTotals.gross,
-        net: previewTotals.net,
-        count: previewTotals.count,
-      },
-      updatedAt: serverTimestamp(),
-    });
-  });
-
-  setAdminLoading(false);
+  } catch (e) {
+    console.error(e);
+    alert(e instanceof Error ? e.message : String(e));
+  } finally {
+    setAdminLoading(false);
+  }
 }
 
     async function rejectDraft(role: string) {
@@ -1209,6 +994,24 @@ const updateCommField = (id: string, field: keyof CommRow, v: string) => {
 }
 
 
+  // a removed rule / plan commission is remembered on the line so the sync does not add it back this cutoff
+  async function removeCommission(lineId: string, c: CommissionDoc & { id: string }) {
+    if (!draftId) return;
+    if (c.source === "rule" && c.ruleId) {
+      await updateDoc(doc(db, "payrollDrafts", draftId, "lines", lineId), {
+        removedCommissionRules: arrayUnion(c.ruleId),
+        updatedAt: serverTimestamp(),
+      });
+    }
+    if (c.source === "plan" && c.month) {
+      await updateDoc(doc(db, "payrollDrafts", draftId, "lines", lineId), {
+        removedCommissionPlans: arrayUnion(c.month),
+        updatedAt: serverTimestamp(),
+      });
+    }
+    await deleteDoc(doc(db, "payrollDrafts", draftId, "lines", lineId, "commissions", c.id));
+  }
+
   // Freelancer modal
   const openFPModal = () => {
     setShowFPModal(true);
@@ -1224,6 +1027,88 @@ const updateCommField = (id: string, field: keyof CommRow, v: string) => {
   const [empPick, setEmpPick] = useState("");
   const [empDays, setEmpDays] = useState<string>(""); // optional initial days
 
+  // year-end tax annualization review (last December cutoff)
+  const [showAnnualModal, setShowAnnualModal] = useState(false);
+  const [annualYtd, setAnnualYtd] = useState<Record<string, YtdTax>>({});
+  const [annualLoading, setAnnualLoading] = useState(false);
+  const [annualErr, setAnnualErr] = useState("");
+
+  const isYearEndCutoff =
+    !!head &&
+    head.type !== "thirteenth_month" &&
+    !!head.cutoffEnd &&
+    new Date(head.cutoffEnd).getMonth() === 11 &&
+    inferCurrentCutoffHalf(head) === "second";
+  const annualYear = head?.cutoffEnd ? new Date(head.cutoffEnd).getFullYear() : new Date().getFullYear();
+
+  async function openAnnualization() {
+    setShowAnnualModal(true);
+    setAnnualErr("");
+    setAnnualLoading(true);
+    try {
+      const [slipSnap, pending] = await Promise.all([
+        getDocs(
+          query(
+            collection(db, "payslips"),
+            where("cutoffEnd", ">=", `${annualYear}-01-01`),
+            where("cutoffEnd", "<", `${annualYear + 1}-01-01`)
+          )
+        ),
+        pendingThirteenthMonth(annualYear),
+      ]);
+      // legacy payslips are keyed by auth uid — payHistory folds them into the employees doc id
+      const hist = payHistory(
+        slipSnap.docs.map((d) => d.data() as HistoryPayslip),
+        annualYear,
+        empMeta,
+        draftId,
+        pending
+      );
+      const byLine: Record<string, YtdTax> = {};
+      for (const ln of lines) {
+        const h = hist[String(ln.employeeId || ln.id).trim()];
+        if (h) byLine[ln.id] = yearEndYtd(h);
+      }
+      setAnnualYtd(byLine);
+    } catch (e) {
+      console.error(e);
+      setAnnualErr(e instanceof Error ? e.message : "Failed to load year-to-date payslips.");
+    } finally {
+      setAnnualLoading(false);
+    }
+  }
+
+  async function applyAnnualization() {
+    if (!draftId || !canEdit) return;
+    const by = getAuth().currentUser;
+    await Promise.all(
+      lines
+        .filter((ln) => annualYtd[ln.id] && empMeta[String(ln.employeeId || ln.id).trim()]?.category !== "freelancer")
+        .map((ln) =>
+          updateDoc(doc(db, "payrollDrafts", draftId, "lines", ln.id), {
+            // the year-to-date figures are read from the payslips whenever the line is computed
+            yearEnd: { year: annualYear, appliedAt: serverTimestamp(), appliedBy: by?.uid || "" },
+            updatedAt: serverTimestamp(),
+          })
+        )
+    );
+    setShowAnnualModal(false);
+  }
+
+  async function removeAnnualization() {
+    if (!draftId || !canEdit) return;
+    await Promise.all(
+      lines
+        .filter((ln) => ln.yearEnd)
+        .map((ln) =>
+          updateDoc(doc(db, "payrollDrafts", draftId, "lines", ln.id), {
+            yearEnd: deleteField(),
+            updatedAt: serverTimestamp(),
+          })
+        )
+    );
+  }
+
   async function submitFreelancerPayment() {
   if (!draftId || !fpFreelancerId) return;
 
@@ -1241,7 +1126,14 @@ const updateCommField = (id: string, field: keyof CommRow, v: string) => {
   }));
   const grandTotal = newProjects.reduce((sum, p) => sum + p.total, 0);
 
-  if (grandTotal <= 0) {
+  // approved deliverables on the employee are priced on their own — the line only needs to exist
+  const empSnap = await getDoc(doc(db, "employees", fpFreelancerId));
+  const due = freelancerItemsDue(
+    (empSnap.data()?.freelancerItems || []) as FreelancerItem[],
+    toDateKey(head?.cutoffEnd),
+    draftId
+  );
+  if (grandTotal <= 0 && !due.length) {
     setShowFPModal(false);
     return;
   }
@@ -1263,9 +1155,7 @@ const updateCommField = (id: string, field: keyof CommRow, v: string) => {
       timeInOut: [],
 
       // merge new projects into existing
-      projects: newProjects,
-      adjustments: {},
-      adjustmentsTotal: grandTotal,  // 👈 payrollLogic will use this
+      ...(grandTotal > 0 ? { projects: newProjects, adjustments: {}, adjustmentsTotal: grandTotal } : {}), // 👈 payrollLogic will use this
       updatedAt: serverTimestamp(),
     },
     { merge: true }
@@ -1305,259 +1195,6 @@ useEffect(() => {
 }, [showAddEmpModal, lines.map(l => l.employeeId).join(",")]);
 
 
-/* ------------------------------------------------------------
-   DAILY MERGE HELPER
-   biometric + filed RemoteWork/WFH + RDOT
-   ------------------------------------------------------------ */
-function computeDailyWithFiled(
-  timeInOut: TimeInOut[],
-  reqs: FiledRequest[],
-  fixedOut?: string | null
-) {
-  const allDates = new Set<string>([
-    ...timeInOut.map(r => r.date),
-    ...reqs
-      .filter(r =>
-        ["remotework", "wfh", "rdot"].includes(r.type?.toLowerCase() || "")
-      )
-      .map(r => r.date || "")
-  ]);
-
-  let totalHours = 0;
-  let totalDays = 0;
-  let rdotHours = 0;
-
-  for (const d of Array.from(allDates)) {
-    if (!d) continue;
-    let dailyHours = 0;
-
-    // biometric for this date
-    const bio = timeInOut.find(r => r.date === d);
-    if (bio) {
-      const { hours } = computeHoursAndDaysForOne(bio.in, bio.out, fixedOut);
-      dailyHours += hours;
-    }
-
-    // filed remote/wfh for this date
-    const remotes = reqs.filter(
-      r =>
-        ["remotework", "wfh"].includes(r.type?.toLowerCase() || "") &&
-        r.date === d
-    );
-    for (const rw of remotes) {
-      if ((rw as any).timeIn && (rw as any).timeOut) {
-        const { hours } = computeHoursAndDaysForOne(
-          (rw as any).timeIn,
-          (rw as any).timeOut,
-          fixedOut
-        );
-        dailyHours += hours;
-      } else {
-        dailyHours += Number(rw.hours || 0);
-      }
-    }
-
-    // filed rdot for this date
-    const rdots = reqs.filter(
-      r => r.type?.toLowerCase() === "rdot" && r.date === d
-    );
-    for (const rd of rdots) {
-      if ((rd as any).timeIn && (rd as any).timeOut) {
-        const { hours } = computeHoursAndDaysForOne(
-          (rd as any).timeIn,
-          (rd as any).timeOut,
-          fixedOut
-        );
-        rdotHours += hours;
-      } else {
-        rdotHours += Number(rd.hours || 0);
-      }
-    }
-
-    // ✅ cap total worked at 8h/day
-    if (dailyHours > 8) dailyHours = 8;
-
-    totalHours += dailyHours;
-    totalDays += Math.round((dailyHours / 8) * 1000) / 1000;
-  }
-
-  return { totalHours, totalDays, rdotHours };
-}
-
-/* ------------------------------------------------------------
-   BUILD PAYROLL INPUT FOR payrollLogic
-   ------------------------------------------------------------ */
-function buildPayrollInput(ln: Line): PayrollInputLike {
-  const empId = String(ln.employeeId || ln.id).trim();
-  const meta =
-    empMeta[empId] || {
-      name: "",
-      category: normalizeCategory(ln.category),
-      monthlySalary: 0,
-      perDayRate: 0,
-      fixedWorkedDays: 0,
-    };
-
-  const canonicalName = meta.name || empId;
-  const reqs = filedRequests[canonicalName] || [];
-
-  // --- DAILY MERGE ---
-  const { totalDays, rdotHours } = computeDailyWithFiled(
-    ln.timeInOut,
-    reqs,
-    meta.fixedOut
-  );
-
-  // Determine worked days (probationary might have fixed cutoff days)
-  let workedDays = Math.max(totalDays, 0.0001);
-
-// ✅ manual override from line.daysWorked
-if (typeof ln.daysWorked === "number" && ln.daysWorked > 0) {
-  workedDays = ln.daysWorked;
-} else if (meta.fixedWorkedDays && meta.fixedWorkedDays > 0) {
-  workedDays = meta.fixedWorkedDays;
-}
-
-
-  // Determine base rate strategy:
-  const hasPerDay = Number(meta.perDayRate || 0) > 0;
-  const normalizedMonthly = hasPerDay
-    ? Number(meta.perDayRate) * 22 * 2
-    : Number(meta.monthlySalary || ln.monthlySalary || 0);
-
-  // OB + OT requests
-  // OB + OT requests
-const obReqs = reqs.filter(r => r.type === "OB");
-const obQtyReq = obReqs.length;
-
-// ✅ compute OB total with rates
-const obPayFromReqs = obReqs.reduce((s, r) => {
-  const rate = Number(r.suggestedRate || meta.rates?.ob || 1500); // fallback if missing
-  return s + rate;
-}, 0);
-
-// Manual adjustments still just count
-const obQtyAdj = Number(ln.adjustments?.OB?.length || 0);
-
-const obQuantity = obQtyReq + obQtyAdj;
-
-  const otHrsReq = reqs
-    .filter(r => r.type === "OT")
-    .reduce((s, r) => s + Number(r.hours || 0), 0);
-
-  // Manual adjustments
-  const otHrsAdj = (ln.adjustments?.OT || []).reduce(
-    (s, a) => s + Number(a.hours || 0),
-    0
-  );
-  const otHours = otHrsReq + otHrsAdj;
-
-// Cash advances
-const half = head ? inferCurrentCutoffHalf(head) : "first";
-const caList = cashAdvances[canonicalName] || [];
-let totalAmount = caList.reduce((s, c) => s + Number(c.totalAmount || 0), 0);
-let perCutOff = caList.reduce((s, c) => s + Number(c.perCutOff || 0), 0);
-const startIsSecond = caList.some(c => c.startDateCutOff === "second");
-
-// ✅ allow finance manual override
-if (typeof ln.manualCashAdvance === "number") {
-  perCutOff = ln.manualCashAdvance;
-  totalAmount = ln.manualCashAdvance; // keep them equal if manual
-}
-
-  // Category
-  let category: PayrollInputLike["category"];
-  if (meta.category === "core_probationary") {
-    category = "core_probationary";
-  } else if (meta.category === "intern") {
-    category = "intern";
-  } else if (meta.category === "freelancer") {
-    category = "freelancer";
-  } else if (meta.category === "owner") {
-    category = "owner";
-  } else {
-    category = "core";
-  }
-
-  // --- TARDINESS COMPUTATION ---
-  let tardyMins = 0;
-  ln.timeInOut.forEach(r => {
-    if (r.in) {
-      const tIn = new Date(r.in);
-      const mins = tIn.getHours() * 60 + tIn.getMinutes();
-      const startWindow = 7 * 60; // 07:00
-      const endWindow = 8 * 60; // 08:00
-
-      if (mins > startWindow && mins < endWindow) {
-        tardyMins += mins - startWindow;
-      } else if (mins >= endWindow) {
-        return;
-      }
-    }
-  });
-
-  // --- FREELANCER SHORT CIRCUIT ---
-  if (category === "freelancer") {
-    return {
-      monthlySalary: 0,
-      perDayRate: 0,
-      cutoffWorkingDays: 0,
-      workedDays: 0,
-      obQuantity: 0,
-      otHours: 0,
-      ndHours: 0,
-      rdotHours: 0,
-      holiday30Hours: 0,
-      holidayDoubleHours: 0,
-      holidayOtDoubleHours: 0,
-      tardinessMinutes: 0,
-      category: "freelancer",
-      benefits: { sss: false, philhealth: false, pagibig: false },
-     cashAdvance: {
-  totalAmount,
-  perCutOff,
-  currentCutOff: half,
-  startDateCutOff: startIsSecond ? "second" : "first",
-  approved: caList.length > 0,
-},
-      manualNetPay: ln.adjustmentsTotal || 0,
-    };
-  }
-
-  // --- NORMAL EMPLOYEES ---
-  return {
-    monthlySalary: normalizedMonthly,
-    perDayRate: meta.perDayRate,
-    cutoffWorkingDays: head?.workedDays || 0,
-    workedDays,
-    fixedWorkedDays: meta.fixedWorkedDays || 0,   
-    obQuantity,
-    obPayFromReqs, // ✅ new field for OB from requests
-    otHours,
-    ndHours: 0,
-    rdotHours, // ✅ merged
-    holiday30Hours: 0,
-    holidayDoubleHours: 0,
-    holidayOtDoubleHours: 0,
-    tardinessMinutes: tardyMins,
-    category,
-    benefits: {
-      sss: meta.sss || false,
-      philhealth: meta.philhealth || false,
-      pagibig: meta.pagibig || false,
-    },
-    cashAdvance: {
-      totalAmount,
-      perCutOff,
-      currentCutOff: half,
-      startDateCutOff: startIsSecond ? "second" : "first",
-      approved: caList.length > 0,
-        // ✅ inject manual override if present
-  override: typeof ln.manualCashAdvance === "number" ? ln.manualCashAdvance : undefined,
-    },
-  };
-}
-
 const uid = getAuth().currentUser?.uid || "";
 
 const alreadyExecApproved =
@@ -1611,7 +1248,13 @@ const alreadyAdminApproved =
         {/* Header + actions */}
         <div className="mb-6 flex items-start justify-between gap-3">
           <div>
-            <h1 className="text-2xl md:text-3xl font-bold">Payroll Draft</h1>
+            <h1 className="text-2xl md:text-3xl font-bold">
+              {head.type === "thirteenth_month"
+                ? `13th Month Pay Run ${head.year ?? ""}`
+                : head.type === "final_pay"
+                  ? "Final Pay"
+                  : "Payroll Draft"}
+            </h1>
             <p className="text-gray-300 mt-1">
               {head.cutoffLabel || head.periodKey} • Status: <span className="font-semibold">{head.status}</span>
             </p>
@@ -1625,9 +1268,52 @@ const alreadyAdminApproved =
                 Worked Days in Cutoff: <span className="font-semibold text-blue-400">{head.workedDays}</span>
               </p>
             )}
+            {head.payRules && (
+              <p className="text-gray-500 text-xs mt-1">
+                Pay rules as of {head.payRules.asOf}: {head.payRules.version}
+                {rulesOutdated && (
+                  <>
+                    {" "}
+                    • <span className="text-amber-300">settings changed since pinned</span>
+                    {isFinance && head.status === "draft" && currentRules && (
+                      <button
+                        type="button"
+                        onClick={() => {
+                          if (confirm("Re-pin this draft to the current pay rules? Every line will be recomputed.")) {
+                            pinPayRules(currentRules).catch((e) => alert(e instanceof Error ? e.message : String(e)));
+                          }
+                        }}
+                        className="ml-2 underline text-amber-300 hover:text-amber-200"
+                      >
+                        Use current rules
+                      </button>
+                    )}
+                  </>
+                )}
+              </p>
+            )}
+            {isFinance && orphanAdvances.length > 0 && (
+              <p className="text-amber-300 text-xs mt-1">
+                ⚠️ {orphanAdvances.length} open cash advance{orphanAdvances.length > 1 ? "s" : ""} match no employee
+                and {orphanAdvances.length > 1 ? "are" : "is"} not being deducted:{" "}
+                {orphanAdvances
+                  .map((ca) => `${ca.employeeName || "(no name)"} ${peso(advanceBalance(ca))}`)
+                  .join(", ")}
+                . Link each to its employee to collect it.
+              </p>
+            )}
           </div>
 
          <div className="flex items-center gap-2">
+  {head.type === "final_pay" && (
+    <button
+      type="button"
+      onClick={() => navigate(`/finance/final-pay/${draftId}/sheet`)}
+      className="px-4 py-2 rounded-lg text-sm font-medium transition bg-gray-700 hover:bg-gray-600 text-white"
+    >
+      Computation Sheet
+    </button>
+  )}
   {/* Finance role only */}
   {isFinance && (
     <>
@@ -1648,6 +1334,16 @@ const alreadyAdminApproved =
       + Add Employee (no biometric)
     </button>
 
+      {isYearEndCutoff && head.status === "draft" && (
+        <button
+          type="button"
+          onClick={openAnnualization}
+          className="px-4 py-2 rounded-lg text-sm font-medium transition bg-teal-600 hover:bg-teal-500 text-white"
+        >
+          Tax Annualization
+        </button>
+      )}
+
       {head.status === "draft" && (
         <button
           type="button"
@@ -1705,15 +1401,22 @@ const alreadyAdminApproved =
           : "bg-emerald-600 hover:bg-emerald-500"
       }`}
     >
-      {adminLoading ? "Approving..." : alreadyAdminApproved ? "Approved" : "Approve to Publish"}
+      {adminLoading
+        ? `Approving... ${head.approvalJob?.done ?? 0}/${head.approvalJob?.total ?? lines.length}`
+        : alreadyAdminApproved
+        ? "Approved"
+        : head.approvalJob?.state === "running"
+        ? `Resume Approval (${head.approvalJob.done}/${head.approvalJob.total})`
+        : "Approve to Publish"}
     </button>
 
+      {/* once payslips are being written the draft can only be approved */}
       <button
         type="button"
-        disabled={alreadyAdminApproved}
+        disabled={alreadyAdminApproved || adminLoading || !!head.approvalJob}
         onClick={() => rejectDraft("admin_final")}
         className={`px-4 py-2 rounded-lg text-sm font-medium transition text-white ${
-          alreadyAdminApproved
+          alreadyAdminApproved || adminLoading || head.approvalJob
             ? "bg-gray-600 cursor-not-allowed"
             : "bg-rose-600 hover:bg-rose-500"
         }`}
@@ -1757,7 +1460,7 @@ const alreadyAdminApproved =
             const meta = empMeta[empId];
             // ALWAYS display canonical /employees.name; never alias
             const canonicalName = meta?.name || empId;
-            const p = calculatePayroll(buildPayrollInput(ln));
+            const p = computeLine(ln);
             const comm = commTotals[ln.id] || 0;
 
 
@@ -1795,13 +1498,14 @@ const alreadyAdminApproved =
       type="number"
       step="00"
       min="0"
-      value={ln.daysWorked?.toFixed(3) ?? totalDays.toFixed(3)}
+      value={(ln.daysWorkedOverride ?? ln.daysWorked)?.toFixed(3) ?? totalDays.toFixed(3)}
       onChange={async (e) => {
-        const val = parseFloat(e.target.value) || 0;
+        // a finance edit overrides the biometric attendance; clearing the field goes back to it
+        const val = e.target.value === "" ? null : Math.max(0, parseFloat(e.target.value) || 0);
         await updateDoc(
           doc(db, "payrollDrafts", draftId!, "lines", ln.id),
           {
-            daysWorked: val,
+            daysWorkedOverride: val === null ? deleteField() : val,
             updatedAt: serverTimestamp(),
           }
         );
@@ -1809,7 +1513,7 @@ const alreadyAdminApproved =
       className="bg-white/10 border border-white/20 rounded px-2 py-1 text-sm w-24 text-blue-300 font-mono"
     />
   ) : (
-    <span>{(ln.daysWorked ?? totalDays).toFixed(3)}</span>
+    <span>{(ln.daysWorkedOverride ?? ln.daysWorked ?? totalDays).toFixed(3)}</span>
   )}
 </div>
       <div className="text-sm font-mono text-emerald-300">
@@ -1821,7 +1525,12 @@ const alreadyAdminApproved =
 
                     <div className="text-sm font-mono text-amber-300">Commission: {peso(comm)}</div>
                     {/* Net pay for ALL employees (not just owners) */}
-                    <div className="text-sm font-semibold text-green-400">Net: {peso((p.netPay || 0) + comm)}</div>
+                    <div className="text-sm font-semibold text-green-400">Net: {peso(settleNetPay(p, comm).netPay)}</div>
+                    {settleNetPay(p, comm).carriedForward > 0 && (
+                      <div className="text-xs text-amber-300">
+                        Carry to next cutoff: {peso(settleNetPay(p, comm).carriedForward)}
+                      </div>
+                    )}
 
                     {canEdit ? (
                       <>
@@ -2040,9 +1749,77 @@ const alreadyAdminApproved =
                               : "N/A"}
                           </p>
                         )}
+                        {(cashAdvances[empId] || []).length > 0 && (
+                          <ul className="mt-3 space-y-1 text-xs text-gray-400">
+                            {(cashAdvances[empId] || []).map((ca) => {
+                              const line = computeLine(ln).cashAdvanceLines.find((c) => c.advanceId === ca.advanceId);
+                              return (
+                                <li key={ca.advanceId}>
+                                  Advance balance <span className="font-mono">{peso(ca.balance)}</span> •{" "}
+                                  {peso(ca.perCutOff)}/cutoff • this cutoff{" "}
+                                  <span className="font-mono text-amber-300">{peso(line?.amount || 0)}</span>
+                                </li>
+                              );
+                            })}
+                          </ul>
+                        )}
                       </div>
                     </div>
 
+                    {/* Commissions (typed in the modal, or added from the employee's commission rules / plan) */}
+                    {(commEntries[ln.id] || []).length > 0 && (
+                      <div className="mt-6 rounded-xl border border-white/10 p-4 bg-gray-800/30">
+                        <h4 className="font-semibold mb-3">Commissions</h4>
+                        <ul className="space-y-1 text-sm">
+                          {(commEntries[ln.id] || []).map((c) => (
+                            <li key={c.id} className="flex items-center justify-between gap-3">
+                              <span>
+                                {c.client}
+                                {c.source === "rule" && (
+                                  <span className="ml-2 text-xs px-2 py-0.5 rounded-full bg-blue-500/20 text-blue-300 border border-blue-400/30">
+                                    from rule
+                                  </span>
+                                )}
+                                {c.source === "plan" && (
+                                  <button
+                                    onClick={() =>
+                                      navigate(
+                                        `/finance/commissions?employee=${encodeURIComponent(String(ln.employeeId || ln.id))}&month=${c.month}`
+                                      )
+                                    }
+                                    className="ml-2 text-xs px-2 py-0.5 rounded-full bg-emerald-500/20 text-emerald-300 border border-emerald-400/30"
+                                  >
+                                    statement
+                                  </button>
+                                )}
+                                {c.type === "plan" && (
+                                  <span className="ml-2 text-xs text-gray-400">
+                                    {c.percent}% effective on {peso(c.amount)}
+                                  </span>
+                                )}
+                                {c.type === "sales" && (
+                                  <span className="ml-2 text-xs text-gray-400">
+                                    {c.percent}% of {peso(c.amount)}
+                                  </span>
+                                )}
+                              </span>
+                              <span className="flex items-center gap-3">
+                                <span className="font-mono text-amber-300">{peso(c.commission)}</span>
+                                {canEdit && (
+                                  <button
+                                    onClick={() => removeCommission(ln.id, c)}
+                                    className="text-xs text-rose-400 hover:text-rose-300"
+                                  >
+                                    Remove
+                                  </button>
+                                )}
+                              </span>
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+
                     {/* Payroll summary using payrollLogic */}
                     <div className="mt-6 rounded-xl border border-white/10 p-4 bg-gray-800/30">
                       <h4 className="font-semibold mb-3">Payroll Summary</h4>
@@ -2051,35 +1828,132 @@ const alreadyAdminApproved =
                           <div>
                             Daily Rate:{" "}
                             <span className="font-mono">
-                              {peso((calculatePayroll(buildPayrollInput(ln)).dailyRate as number) || 0)}
+                              {peso((computeLine(ln).dailyRate as number) || 0)}
                             </span>
                           </div>
                           <div>
                             Cut-off Pay:{" "}
-                            <span className="font-mono">{peso((calculatePayroll(buildPayrollInput(ln)).cutoffPay as number) || 0)}</span>
+                            <span className="font-mono">{peso((computeLine(ln).cutoffPay as number) || 0)}</span>
                           </div>
+                          {computeLine(ln).segments.map((sg) => (
+                            <div key={sg.start} className="pl-3 text-xs text-gray-400">
+                              {sg.label}: <span className="font-mono">{peso(sg.cutoffPay)}</span> @{" "}
+                              {peso(sg.dailyRate)}/day
+                            </div>
+                          ))}
                           <div>
                             OB Pay:{" "}
-                            <span className="font-mono">{peso((calculatePayroll(buildPayrollInput(ln)).obPay as number) || 0)}</span>
+                            <span className="font-mono">{peso((computeLine(ln).obPay as number) || 0)}</span>
                           </div>
+                          {computeLine(ln).freelancerItems.map((it) => (
+                            <div key={it.itemId}>
+                              {it.project} ({it.quantity} × {peso(it.rate)}):{" "}
+                              <span className="font-mono text-emerald-300">{peso(it.amount)}</span>
+                            </div>
+                          ))}
+                          {head.type === "thirteenth_month" && (
+                            <div>
+                              13th Month:{" "}
+                              <span className="font-mono">{peso(computeLine(ln).thirteenthMonthPay || 0)}</span>
+                              <span className="text-gray-400">
+                                {" "}
+                                ({peso(lineThirteenthMonth(ln, draftCtx)?.basicPayEarned || 0)} ÷ 12)
+                              </span>
+                            </div>
+                          )}
+                          {computeLine(ln).finalPay && (
+                            <>
+                              <div>
+                                13th Month (pro-rated):{" "}
+                                <span className="font-mono">{peso(computeLine(ln).thirteenthMonthPay)}</span>
+                              </div>
+                              <div>
+                                Leave Conversion ({computeLine(ln).finalPay?.leaveDays || 0} day/s):{" "}
+                                <span className="font-mono">{peso(computeLine(ln).finalPay?.leaveConversionPay || 0)}</span>
+                              </div>
+                              <div>
+                                Other Loans:{" "}
+                                <span className="font-mono text-red-300">{peso(computeLine(ln).finalPay?.loanBalance || 0)}</span>
+                              </div>
+                              {(computeLine(ln).finalPay?.balanceDue || 0) > 0 && (
+                                <div className="text-amber-300">
+                                  Balance due from employee:{" "}
+                                  <span className="font-mono">{peso(computeLine(ln).finalPay?.balanceDue || 0)}</span>
+                                </div>
+                              )}
+                            </>
+                          )}
                         </div>
                         <div className="space-y-1">
-                          <div>OT Pay: <span className="font-mono">{peso((calculatePayroll(buildPayrollInput(ln)).otPay as number) || 0)}</span></div>
-                          <div>Night Diff: <span className="font-mono">{peso((calculatePayroll(buildPayrollInput(ln)).nightDiffPay as number) || 0)}</span></div>
-                          <div>RDOT: <span className="font-mono">{peso((calculatePayroll(buildPayrollInput(ln)).rdotPay as number) || 0)}</span></div>
+                          <div>OT Pay: <span className="font-mono">{peso((computeLine(ln).otPay as number) || 0)}</span></div>
+                          <div>Night Diff: <span className="font-mono">{peso((computeLine(ln).nightDiffPay as number) || 0)}</span></div>
+                          <div>RDOT: <span className="font-mono">{peso((computeLine(ln).rdotPay as number) || 0)}</span></div>
+                          {computeLine(ln).retroPay > 0 && (
+                            <div>
+                              Retro Pay:{" "}
+                              <span className="font-mono text-emerald-300">{peso(computeLine(ln).retroPay)}</span>
+                            </div>
+                          )}
+                          {computeLine(ln).recurringItems.map((r) => (
+                            <div key={r.itemId}>
+                              {r.label}:{" "}
+                              <span className={`font-mono ${r.kind === "earning" ? "text-emerald-300" : "text-red-300"}`}>
+                                {peso(r.amount)}
+                              </span>
+                              {r.kind === "earning" && !r.taxable && <span className="text-gray-400"> (non-taxable)</span>}
+                            </div>
+                          ))}
+                          {computeLine(ln).loanDeductions.map((l) => (
+                            <div key={l.loanId}>
+                              {l.label}:{" "}
+                              <span className="font-mono text-red-300">{peso(l.amount)}</span>
+                              <span className="text-gray-400"> (bal. {peso(l.balanceAfter)})</span>
+                            </div>
+                          ))}
+                          {computeLine(ln).absenceDeduction > 0 && (
+                            <div>
+                              Absences ({computeLine(ln).absentDays} day/s):{" "}
+                              <span className="font-mono text-red-300">{peso(computeLine(ln).absenceDeduction)}</span>
+                            </div>
+                          )}
+                          {computeLine(ln).undertimeDeduction > 0 && (
+                            <div>
+                              Undertime ({computeLine(ln).undertimeMinutes} mins):{" "}
+                              <span className="font-mono text-red-300">{peso(computeLine(ln).undertimeDeduction)}</span>
+                            </div>
+                          )}
                         </div>
                         <div className="space-y-1">
                           <div>
                             Gross Earnings:{" "}
                             <span className="font-mono">
-                              {peso(((calculatePayroll(buildPayrollInput(ln)).grossEarnings as number) || 0) + (commTotals[ln.id] || 0))}
+                              {peso(sumPesos(computeLine(ln).grossEarnings || 0, commTotals[ln.id] || 0))}
                             </span>
                           </div>
-                          <div> Total Deductions: <span className="font-mono">{peso((calculatePayroll(buildPayrollInput(ln)).totalDeductions as number) || 0)}</span></div>
+                          <div>Withholding Tax: <span className="font-mono">{peso((computeLine(ln).withholdingTax as number) || 0)}</span></div>
+                          {computeLine(ln).expandedWithholdingTax > 0 && (
+                            <div>
+                              EWT ({computeLine(ln).ewtRate}%):{" "}
+                              <span className="font-mono">{peso(computeLine(ln).expandedWithholdingTax)}</span>
+                            </div>
+                          )}
+                          {ln.yearEnd && (
+                            <div>
+                              Year-end Tax {computeLine(ln).yearEndTaxAdjustment < 0 ? "Refund" : "Adjustment"}:{" "}
+                              <span className="font-mono">{peso(computeLine(ln).yearEndTaxAdjustment)}</span>
+                            </div>
+                          )}
+                          {computeLine(ln).priorPeriodBalance > 0 && (
+                            <div>
+                              Prior Period Balance:{" "}
+                              <span className="font-mono text-amber-300">{peso(computeLine(ln).priorPeriodBalance)}</span>
+                            </div>
+                          )}
+                          <div> Total Deductions: <span className="font-mono">{peso((computeLine(ln).totalDeductions as number) || 0)}</span></div>
                           <div className="font-semibold">
                             Net Pay:{" "}
                             <span className="font-mono text-green-400">
-                              {peso(((calculatePayroll(buildPayrollInput(ln)).netPay as number) || 0) + (commTotals[ln.id] || 0))}
+                              {peso(settleNetPay(computeLine(ln), commTotals[ln.id] || 0).netPay)}
                             </span>
                           </div>
                         </div>
@@ -2227,7 +2101,11 @@ const alreadyAdminApproved =
 {showFPModal && (
   <div className="fixed inset-0 bg-black/60 flex items-center justify-center p-4 z-50">
     <div className="w-full max-w-2xl bg-gray-900 border border-white/10 rounded-xl p-6">
-      <h3 className="text-lg font-semibold mb-4">Add Freelancer Payment</h3>
+      <h3 className="text-lg font-semibold mb-1">Add Freelancer Payment</h3>
+      <p className="text-xs text-gray-400 mb-4">
+        Approved deliverables on the freelancer's profile are added automatically; enter only extra work here.
+        EWT is withheld on both.
+      </p>
 
       {/* Freelancer Selector */}
       <div className="mb-4">
@@ -2354,6 +2232,106 @@ const alreadyAdminApproved =
   </div>
 )}
 
+{showAnnualModal && (
+  <div className="fixed inset-0 bg-black/60 flex items-center justify-center p-4 z-50">
+    <div className="w-full max-w-6xl bg-gray-900 border border-white/10 rounded-xl p-6 max-h-[90vh] overflow-y-auto">
+      <h3 className="text-lg font-semibold mb-1">Year-end Tax Annualization {annualYear}</h3>
+      <p className="text-xs text-gray-400 mb-4">
+        Annual taxable = year-to-date payslips (incl. 13th month excess, and that of a 13th month run not approved yet)
+        + this cutoff. Adjustment = annual tax due −
+        tax withheld so far − this cutoff&apos;s withholding; positive is collected, negative is refunded on this payslip.
+      </p>
+
+      {annualErr && (
+        <div className="mb-3 p-3 bg-red-500/20 border border-red-500/30 text-red-200 rounded-lg text-sm">{annualErr}</div>
+      )}
+
+      {annualLoading ? (
+        <div className="py-10 flex justify-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-teal-500" />
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="text-gray-300 border-b border-white/10">
+              <tr>
+                <th className="text-left py-2 pr-3">Employee</th>
+                <th className="text-right py-2 px-2">Payslips</th>
+                <th className="text-right py-2 px-2">YTD Taxable</th>
+                <th className="text-right py-2 px-2">This Cutoff</th>
+                <th className="text-right py-2 px-2">Annual Taxable</th>
+                <th className="text-right py-2 px-2">Annual Tax Due</th>
+                <th className="text-right py-2 px-2">Withheld YTD</th>
+                <th className="text-right py-2 px-2">This Cutoff WHT</th>
+                <th className="text-right py-2 pl-2">Collect / (Refund)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {lines
+                .filter((ln) => empMeta[String(ln.employeeId || ln.id).trim()]?.category !== "freelancer")
+                .map((ln) => {
+                  const empId = String(ln.employeeId || ln.id).trim();
+                  const ytd = annualYtd[ln.id] || { ytdTaxableIncome: 0, ytdWithholdingTax: 0, payslipCount: 0 };
+                  const p = calculatePayroll({ ...buildPayrollInput(ln), yearEnd: ytd });
+                  return (
+                    <tr key={ln.id} className="border-b border-white/5">
+                      <td className="py-2 pr-3">
+                        {empMeta[empId]?.name || empId}
+                        {ln.yearEnd && <span className="ml-2 text-xs text-teal-300">applied</span>}
+                      </td>
+                      <td className="text-right px-2">{ytd.payslipCount}</td>
+                      <td className="text-right px-2 font-mono">{peso(ytd.ytdTaxableIncome)}</td>
+                      <td className="text-right px-2 font-mono">{peso(p.taxableIncome)}</td>
+                      <td className="text-right px-2 font-mono">{peso(p.annualTaxableIncome)}</td>
+                      <td className="text-right px-2 font-mono">{peso(p.annualTaxDue)}</td>
+                      <td className="text-right px-2 font-mono">{peso(ytd.ytdWithholdingTax)}</td>
+                      <td className="text-right px-2 font-mono">{peso(p.withholdingTax)}</td>
+                      <td
+                        className={`text-right pl-2 font-mono ${
+                          p.yearEndTaxAdjustment < 0 ? "text-emerald-300" : p.yearEndTaxAdjustment > 0 ? "text-amber-300" : ""
+                        }`}
+                      >
+                        {p.yearEndTaxAdjustment < 0
+                          ? `(${peso(-p.yearEndTaxAdjustment)})`
+                          : peso(p.yearEndTaxAdjustment)}
+                      </td>
+                    </tr>
+                  );
+                })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <div className="mt-5 flex justify-end gap-2">
+        <button
+          onClick={() => setShowAnnualModal(false)}
+          className="px-4 py-2 rounded bg-gray-700 hover:bg-gray-600"
+        >
+          Close
+        </button>
+        {canEdit && lines.some((ln) => ln.yearEnd) && (
+          <button
+            onClick={removeAnnualization}
+            className="px-4 py-2 rounded bg-rose-600 hover:bg-rose-500"
+          >
+            Remove from Draft
+          </button>
+        )}
+        {canEdit && (
+          <button
+            disabled={annualLoading || !!annualErr}
+            onClick={applyAnnualization}
+            className="px-4 py-2 rounded bg-teal-600 hover:bg-teal-500 disabled:bg-gray-600 disabled:cursor-not-allowed"
+          >
+            Apply to Draft
+          </button>
+        )}
+      </div>
+    </div>
+  </div>
+)}
+
 {showAddEmpModal && (
   <div className="fixed inset-0 bg-black/60 flex items-center justify-center p-4 z-50">
     <div className="w-full max-w-lg bg-gray-900 border border-white/10 rounded-xl p-6">
@@ -2428,6 +2406,7 @@ const alreadyAdminApproved =
 
               // start with optional initial days (editable inline in the list)
               daysWorked: daysNum,
+              ...(empDays ? { daysWorkedOverride: daysNum } : {}),
 
               adjustments: {},
               adjustmentsTotal: 0,
@@ -9,8 +9,14 @@ import {
   orderBy,
   limit,
   Timestamp,
+  where,
+  addDoc,
+  doc,
+  setDoc,
+  serverTimestamp,
 } from "firebase/firestore";
 import { getAuth, onAuthStateChanged } from "firebase/auth";
+import { sumBasicPayByEmployee, type PayslipBasicLike } from "../../utils/thirteenthMonth";
 
 type DraftHead = {
   id: string;
@@ -25,6 +31,7 @@ type DraftHead = {
   execApprovals?: Array<{ uid: string; name?: string; approvedAt?: any }>;
   adminApproval?: { uid: string; name?: string; approvedAt?: any } | null;
   totals?: { gross?: number; net?: number; count?: number };
+  type?: "regular" | "thirteenth_month" | "final_pay";
 };
 
 const db = getFirestore();
@@ -55,6 +62,8 @@ export default function PayrollPage() {
   const [drafts, setDrafts] = useState<DraftHead[]>([]);
   const [userReady, setUserReady] = useState(false);
   const [error, setError] = useState("");
+  const [thirteenthYear, setThirteenthYear] = useState<number>(new Date().getFullYear());
+  const [creating13th, setCreating13th] = useState(false);
 
   const [stats, setStats] = useState({
   totalEmployees: 0,
@@ -112,6 +121,7 @@ export default function PayrollPage() {
           requiredExecApprovals: typeof d.requiredExecApprovals === "number" ? d.requiredExecApprovals : 2,
           execApprovals: Array.isArray(d.execApprovals) ? d.execApprovals : [],
           adminApproval: d.adminApproval ?? null,
+          type: d.type ?? "regular",
           totals: {
             gross: 0, // or compute if you store line gross
             net: 0,   // same here
@@ -137,6 +147,94 @@ export default function PayrollPage() {
 }, [userReady]);
 
 
+  /* ───────── 13th month run ───────── */
+  async function createThirteenthMonthRun() {
+    const me = auth.currentUser;
+    if (!me) return;
+    setCreating13th(true);
+    setError("");
+    try {
+      const year = thirteenthYear;
+      const periodKey = `${year}_13th_month`;
+
+      const existing = await getDocs(
+        query(collection(db, "payrollDrafts"), where("periodKey", "==", periodKey), limit(1))
+      );
+      if (!existing.empty) throw new Error(`A 13th month run for ${year} already exists.`);
+
+      // basic pay earned per employee from this year's payslips
+      const slipSnap = await getDocs(
+        query(
+          collection(db, "payslips"),
+          where("cutoffEnd", ">=", `${year}-01-01`),
+          where("cutoffEnd", "<", `${year + 1}-01-01`)
+        )
+      );
+      const slips: PayslipBasicLike[] = slipSnap.docs.map((d) => d.data() as PayslipBasicLike);
+      const sums = sumBasicPayByEmployee(slips, year);
+      // separated employees already got their pro-rated 13th month with final pay
+      const finalPaid = new Set(
+        slips
+          .filter((p) => p.payrollType === "final_pay" && p.status !== "rejected")
+          .map((p) => String(p.employeeDocId || p.employeeId || "").trim())
+      );
+
+      // resolve legacy payslips keyed by auth uid back to employees doc ids
+      const empSnap = await getDocs(collection(db, "employees"));
+      const byKey = new Map<string, { id: string; name: string; category: string }>();
+      empSnap.forEach((d) => {
+        const e = d.data() as { name?: string; uid?: string; category?: string; type?: string };
+        const row = { id: d.id, name: e.name || d.id, category: String(e.category || e.type || "core") };
+        byKey.set(d.id, row);
+        if (e.uid) byKey.set(String(e.uid), row);
+      });
+
+      const perEmployee = new Map<string, { name: string; category: string }>();
+      for (const key of Object.keys(sums)) {
+        const emp = byKey.get(key);
+        if (!emp || emp.category === "freelancer" || finalPaid.has(emp.id)) continue;
+        perEmployee.set(emp.id, { name: emp.name, category: emp.category });
+      }
+      if (!perEmployee.size) throw new Error(`No payslips with basic pay found for ${year}.`);
+
+      const draftRef = await addDoc(collection(db, "payrollDrafts"), {
+        type: "thirteenth_month",
+        year,
+        status: "draft",
+        periodKey,
+        cutoffLabel: `13th Month Pay ${year}`,
+        cutoffStart: new Date(year, 0, 1, 0, 0, 0, 0).toISOString(),
+        cutoffEnd: new Date(year, 11, 31, 23, 59, 59, 999).toISOString(),
+        createdAt: serverTimestamp(),
+        createdBy: { uid: me.uid, name: me.displayName || me.email || "user" },
+        requiredExecApprovals: 2,
+      });
+
+      for (const [employeeId, v] of perEmployee.entries()) {
+        await setDoc(doc(db, "payrollDrafts", draftRef.id, "lines", employeeId), {
+          employeeId,
+          name: v.name,
+          category: v.category,
+          periodKey,
+          daysWorked: 0,
+          hoursWorked: 0,
+          timeInOut: [],
+          adjustments: {},
+          adjustmentsTotal: 0,
+          commissionsTotal: 0,
+          // the amount is summed from the payslips whenever the draft is computed (lineThirteenthMonth)
+          updatedAt: serverTimestamp(),
+        });
+      }
+
+      navigate(`/finance/payroll/drafts/${draftRef.id}`);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to create 13th month run.");
+    } finally {
+      setCreating13th(false);
+    }
+  }
+
   return (
     <div className="min-h-screen bg-gray-900 rounded-2xl text-white pt-20 px-4 sm:px-6 lg:px-8 pb-8">
       <div className="max-w-7xl mx-auto">
@@ -188,6 +286,29 @@ export default function PayrollPage() {
             </button>
           </div>
 
+          <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl border border-white/10 p-6 text-center">
+            <h2 className="text-xl font-semibold mb-4">13th Month Pay Run</h2>
+            <p className="text-gray-300 mb-4">
+              Adds up each employee’s basic pay from the year’s payslips and divides by 12. The run goes through the
+              same exec/admin approval and payslip publishing as a regular cutoff.
+            </p>
+            <div className="flex items-center justify-center gap-3">
+              <input
+                type="number"
+                value={thirteenthYear}
+                onChange={(e) => setThirteenthYear(Number(e.target.value) || new Date().getFullYear())}
+                className="w-28 bg-white/10 border border-white/20 rounded-lg px-3 py-2 text-white text-center"
+              />
+              <button
+                onClick={createThirteenthMonthRun}
+                disabled={creating13th}
+                className="bg-emerald-600 hover:bg-emerald-500 disabled:opacity-60 text-white px-6 py-3 rounded-xl transition"
+              >
+                {creating13th ? "Creating…" : "Create 13th Month Run"}
+              </button>
+            </div>
+          </div>
+
           {/* Drafts list */}
           <div className="bg-gray-800/50 backdrop-blur-sm rounded-xl border border-white/10 p-6">
             <div className="flex items-center justify-between mb-4">
@@ -247,6 +368,12 @@ export default function PayrollPage() {
                         </td>
                         <td className="py-3 px-4 text-gray-300">
                           {d.cutoffLabel ?? `${toDateString(d.cutoffStart)} – ${toDateString(d.cutoffEnd)}`}
+                          {d.type === "thirteenth_month" && (
+                            <span className="ml-2 text-xs text-emerald-300">(13th month)</span>
+                          )}
+                          {d.type === "final_pay" && (
+                            <span className="ml-2 text-xs text-amber-300">(final pay)</span>
+                          )}
                         </td>
                         <td className="py-3 px-4 text-gray-300">{d.periodKey}</td>
                         <td className="py-3 px-4 text-gray-300">
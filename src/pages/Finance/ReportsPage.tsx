@@ -1,5 +1,6 @@
 import { useEffect, useMemo, useState } from "react";
 import { db } from "../../firebase/firebase";
+import { sumPesos } from "../../utils/money";
 import {
   collection,
   getDocs,
@@ -175,11 +176,11 @@ for (const d of qSnap.docs) {
       id: ps.id,
       employeeId: P.employeeId,
       employeeName: P.employeeName,
-      grossPay: Number(P.grossPay || 0),
+      grossPay: Number(P.grossEarnings ?? P.grossPay ?? 0),
       deductions: Number(P.totalDeductions || 0),
       netPay: Number(P.netPay || 0),
     });
-    sum += Number(P.netPay || 0);
+    sum = sumPesos(sum, Number(P.netPay || 0));
   });
 
   draft.totalNet = sum;
@@ -213,7 +214,7 @@ setDrafts(results);
         toDate(d.publishedAt) ||
         new Date();
       const idx = when.getMonth();
-      buckets[idx].total += Number(d.totalNet || 0);
+      buckets[idx].total = sumPesos(buckets[idx].total, Number(d.totalNet || 0));
       buckets[idx].count += 1;
       buckets[idx].items.push(d);
     });
@@ -221,7 +222,7 @@ setDrafts(results);
   }, [drafts]);
 
   const yearTotal = useMemo(
-    () => perMonth.reduce((a, b) => a + b.total, 0),
+    () => sumPesos(...perMonth.map((b) => b.total)),
     [perMonth]
   );
   const bestMonth = useMemo(() => {
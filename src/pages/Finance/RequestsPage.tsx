@@ -8,10 +8,12 @@ import {
   query,
   serverTimestamp,
   doc,
+  getDoc,
   where,
   setDoc,
 } from "firebase/firestore";
 import { getAuth } from "firebase/auth";
+import { OB_CATEGORIES, resolveObRate, type ObCategoryKey, type ObRateSchedule } from "../../utils/obRates";
 
 // ───────────────────────── Types ─────────────────────────
 type ReqType = "ob" | "ot" | "sl" | "bl" | "vl" | "mhl" | "rdot";
@@ -26,13 +28,9 @@ type MyEmployee = {
   obRates: Array<{ category: string; rate: number }>;
 };
 
-// Normalize OB category keys
-type ObKey = "assisted" | "videographer" | "talent";
-const OB_LABEL: Record<ObKey, string> = {
-  assisted: "Assisted",
-  videographer: "Videographer",
-  talent: "Talent",
-};
+// OB category keys come from the OB rate catalog
+type ObKey = ObCategoryKey;
+const OB_LABEL = Object.fromEntries(OB_CATEGORIES.map((c) => [c.key, c.label])) as Record<ObKey, string>;
 
 // ───────────────────── Component ───────────────────────
 export default function RequestsPage() {
@@ -52,6 +50,7 @@ export default function RequestsPage() {
   // form: OB
   const [obTitle, setObTitle] = useState("");
   const [obCategoryKey, setObCategoryKey] = useState<ObKey>("assisted");
+  const [obRateSchedules, setObRateSchedules] = useState<ObRateSchedule[]>([]);
 
   // form: OT
   const [otTimeout, setOtTimeout] = useState("");
@@ -116,10 +115,11 @@ export default function RequestsPage() {
               : [],
           });
         } else {
+          // payroll staff set the name: filed requests are matched to payroll lines by it
           const empRef = doc(db, "employees", u.uid);
           await setDoc(empRef, {
             employeeId: u.uid,
-            name: u.displayName || "",
+            name: "",
             email,
             type: "core",
             obRates: [],
@@ -127,7 +127,7 @@ export default function RequestsPage() {
           setMeEmp({
             id: u.uid,
             employeeId: u.uid,
-            name: u.displayName || "",
+            name: "",
             email,
             type: "core",
             obRates: [],
@@ -139,25 +139,32 @@ export default function RequestsPage() {
     })();
   }, [auth]);
 
-  function suggestObRate(emp: MyEmployee, key: ObKey): { rate?: number; source?: string } {
-  // Interns always ₱500 for assisted
-  if (emp.type === "intern" && key === "assisted") {
-    return { rate: 500, source: "fixed-intern-assisted" };
-  }
-
-  // Look up from employee's obRates
-  const label = OB_LABEL[key] || key;
-  const lookupKey = label.toLowerCase();
-
-  const hit = emp.obRates.find(
-    (r) => (r.category || "").toLowerCase().trim() === lookupKey
-  );
-
-  if (hit) {
-    return { rate: hit.rate, source: "employee.obRates" };
-  }
+  // OB rate catalog (settings/obRates)
+  useEffect(() => {
+    (async () => {
+      try {
+        const snap = await getDoc(doc(db, "settings", "obRates"));
+        setObRateSchedules(snap.exists() ? ((snap.data().schedules as ObRateSchedule[]) || []) : []);
+      } catch {
+        setObRateSchedules([]);
+      }
+    })();
+  }, []);
 
-  return {};
+  function suggestObRate(emp: MyEmployee, key: ObKey): { rate?: number; source?: string } {
+  // Same resolution as the payroll draft: employee override → intern rate → company default
+  const r = resolveObRate({
+    category: key,
+    isIntern: emp.type === "intern",
+    employeeRates: emp.obRates,
+    schedules: obRateSchedules,
+    asOf: date || null,
+  });
+  if (!r.rate) return {};
+  return {
+    rate: r.rate,
+    source: r.source === "employee" ? "employee.obRates" : `obRates.${r.source}@${r.effectiveFrom}`,
+  };
 }
 
 
@@ -343,9 +350,11 @@ export default function RequestsPage() {
                     onChange={(e) => setObCategoryKey(e.target.value as ObKey)}
                     className="inp select-gray"
                   >
-                    <option value="assisted">Assisted</option>
-                    <option value="videographer">Videographer</option>
-                    <option value="talent">Talent</option>
+                    {OB_CATEGORIES.map((c) => (
+                      <option key={c.key} value={c.key}>
+                        {c.label}
+                      </option>
+                    ))}
                   </select>
                 </div>
               </div>
@@ -0,0 +1,363 @@
+// src/pages/Finance/RetroPayPage.tsx
+// Retro pay calculator. Reprices an employee's published payslips since a back-dated raise and saves the
+// difference to /retroPay; the next payroll draft pays it as a "Retro Pay" earning. The raise is a pay change
+// recorded on the employee (EditEmployeePage), and the payroll functions reprice the named payslips themselves.
+import { useEffect, useMemo, useState } from "react";
+import { addDoc, collection, getDocs, onSnapshot, orderBy, query, serverTimestamp, where } from "firebase/firestore";
+import { getAuth } from "firebase/auth";
+import { db } from "../../firebase/firebase";
+import { sumPesos } from "../../utils/money";
+import type { CompensationChange } from "../../utils/paySegments";
+import { normalizeCategory } from "../../utils/draftPayroll";
+import {
+  computeRetroPay,
+  retroRate,
+  type RetroPayAdjustment,
+  type RetroPayslipLike,
+  type RetroPayslipLine,
+} from "../../utils/retroPay";
+
+type Emp = {
+  id: string; // employees doc id
+  employeeId: string;
+  name: string;
+  category: string;
+  monthlySalary: number;
+  perDayRate: number;
+  compensationHistory: CompensationChange[];
+};
+
+const peso = (n: number) =>
+  `₱${(Number(n) || 0).toLocaleString("en-PH", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+function fmtDate(v: unknown): string {
+  const t = v as { toDate?: () => Date } | null;
+  if (t && typeof t.toDate === "function") return t.toDate().toLocaleDateString();
+  return "—";
+}
+
+export default function RetroPayPage() {
+  const [emps, setEmps] = useState<Emp[]>([]);
+  const [adjustments, setAdjustments] = useState<RetroPayAdjustment[]>([]);
+
+  // form
+  const [employeeDocId, setEmployeeDocId] = useState("");
+  const [effectiveFrom, setEffectiveFrom] = useState("");
+  const [note, setNote] = useState("");
+
+  // result
+  const [lines, setLines] = useState<RetroPayslipLine[] | null>(null);
+  const [calculating, setCalculating] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [err, setErr] = useState("");
+  const [ok, setOk] = useState("");
+
+  useEffect(() => {
+    (async () => {
+      const snap = await getDocs(collection(db, "employees"));
+      const list: Emp[] = snap.docs.map((d) => {
+        const x = d.data() as Partial<Emp> & { type?: string; status?: string };
+        return {
+          id: d.id,
+          employeeId: x.employeeId || "",
+          name: x.name || d.id,
+          category: normalizeCategory(x.category || x.type),
+          monthlySalary: Number(x.monthlySalary || 0),
+          perDayRate: Number(x.perDayRate || 0),
+          compensationHistory: Array.isArray(x.compensationHistory) ? x.compensationHistory : [],
+        };
+      });
+      list.sort((a, b) => a.name.localeCompare(b.name));
+      setEmps(list);
+    })();
+  }, []);
+
+  useEffect(() => {
+    const unsub = onSnapshot(
+      query(collection(db, "retroPay"), orderBy("createdAt", "desc")),
+      (snap) => setAdjustments(snap.docs.map((d) => ({ ...(d.data() as Omit<RetroPayAdjustment, "id">), id: d.id }))),
+      (e) => console.error("retroPay subscribe error:", e)
+    );
+    return () => unsub();
+  }, []);
+
+  const selected = useMemo(() => emps.find((e) => e.id === employeeDocId), [emps, employeeDocId]);
+  const isDaily = selected?.category === "core_probationary";
+
+  const changes = useMemo(
+    () => [...(selected?.compensationHistory || [])].sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom)),
+    [selected]
+  );
+  const change = changes.find((h) => h.effectiveFrom === effectiveFrom);
+  const rate = change && selected ? retroRate(change, selected.category) : { monthlySalary: 0, perDayRate: 0 };
+
+  // preselect the latest recorded pay change
+  const pickEmployee = (id: string) => {
+    setEmployeeDocId(id);
+    setLines(null);
+    setErr("");
+    setOk("");
+    const e = emps.find((x) => x.id === id);
+    const last = [...(e?.compensationHistory || [])].sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom)).pop();
+    setEffectiveFrom(last?.effectiveFrom || "");
+  };
+  const total = lines ? sumPesos(...lines.map((l) => l.difference)) : 0;
+
+  const calculate = async () => {
+    setErr("");
+    setOk("");
+    setLines(null);
+    if (!selected) return setErr("Select an employee.");
+    if (!change) return setErr("Pick the pay change. Record it on the employee first (Edit Employee → pay history).");
+    if (!(isDaily ? rate.perDayRate : rate.monthlySalary)) return setErr("The pay change has no rate.");
+    setCalculating(true);
+    try {
+      const snap = await getDocs(
+        query(collection(db, "payslips"), where("employeeDocId", "==", selected.id), where("status", "==", "ready"))
+      );
+      const slips = snap.docs.map((d) => ({ ...(d.data() as Omit<RetroPayslipLike, "id">), id: d.id }));
+      // payslips already repriced by an earlier adjustment for the same effective date are skipped
+      const done = new Set(
+        adjustments
+          .filter((a) => a.employeeId === selected.id && a.effectiveFrom === effectiveFrom)
+          .flatMap((a) => a.payslips.map((p) => p.payslipId))
+      );
+      setLines(computeRetroPay(slips.filter((s) => !done.has(s.id)), rate, effectiveFrom).payslips);
+    } catch (e) {
+      console.error(e);
+      setErr("Failed to load payslips.");
+    } finally {
+      setCalculating(false);
+    }
+  };
+
+  const save = async () => {
+    if (!selected || !lines?.length) return;
+    if (total <= 0) return setErr("Nothing to pay — the new rate does not raise any published payslip.");
+    setSaving(true);
+    try {
+      await addDoc(collection(db, "retroPay"), {
+        employeeId: selected.id,
+        employeeName: selected.name,
+        effectiveFrom,
+        rate,
+        amount: total,
+        payslips: lines,
+        status: "open",
+        note: note.trim() || null,
+        createdAt: serverTimestamp(),
+        createdBy: getAuth().currentUser?.email || null,
+      });
+      setOk(`Retro pay of ${peso(total)} will be added to ${selected.name}'s next payroll draft.`);
+      setLines(null);
+      setNote("");
+    } catch (e) {
+      console.error(e);
+      setErr("Failed to save retro pay.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-900 rounded-2xl text-white pt-20 pb-20">
+      <div className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="text-center mb-8">
+          <h1 className="text-3xl font-bold">Retro Pay</h1>
+          <p className="text-gray-300 mt-1">
+            Reprice published payslips at a back-dated rate. The difference is paid as Retro Pay on the next draft.
+          </p>
+        </div>
+
+        <div className="rounded-2xl border border-white/10 bg-gray-800/40 p-5 mb-5 space-y-4">
+          <div className="grid md:grid-cols-4 gap-4">
+            <div className="md:col-span-2">
+              <label className="lbl">Employee</label>
+              <select className="inp" value={employeeDocId} onChange={(e) => pickEmployee(e.target.value)}>
+                <option value="">Select employee…</option>
+                {emps.map((e) => (
+                  <option key={e.id} value={e.id}>
+                    {e.name} {e.employeeId ? `(${e.employeeId})` : ""}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="lbl">Pay Change Effective</label>
+              <select
+                className="inp"
+                value={effectiveFrom}
+                onChange={(e) => {
+                  setEffectiveFrom(e.target.value);
+                  setLines(null);
+                }}
+              >
+                <option value="">{changes.length ? "Select pay change…" : "No pay change recorded"}</option>
+                {changes.map((h) => (
+                  <option key={h.effectiveFrom} value={h.effectiveFrom}>
+                    {h.effectiveFrom}
+                    {h.note ? ` — ${h.note}` : ""}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="lbl">{isDaily ? "New Per Day Rate (₱)" : "New Monthly Salary (₱)"}</label>
+              <input
+                type="number"
+                className="inp"
+                value={change ? (isDaily ? rate.perDayRate : rate.monthlySalary) : ""}
+                readOnly
+              />
+            </div>
+          </div>
+          {selected && (
+            <p className="text-xs text-gray-400">
+              On file: {isDaily ? `${peso(selected.perDayRate)}/day` : `${peso(selected.monthlySalary)}/month`}. Pay
+              changes are recorded on the employee. A cutoff the effective date falls inside is pro-rated by workdays.
+            </p>
+          )}
+          {err && <div className="text-rose-300 text-sm">{err}</div>}
+          {ok && <div className="text-emerald-300 text-sm">{ok}</div>}
+          <div className="flex justify-end">
+            <button
+              onClick={calculate}
+              disabled={calculating}
+              className="px-5 py-2 rounded-xl bg-blue-600 hover:bg-blue-500 disabled:opacity-60"
+            >
+              {calculating ? "Calculating…" : "Calculate"}
+            </button>
+          </div>
+        </div>
+
+        {lines && (
+          <div className="rounded-2xl border border-white/10 bg-gray-800/40 p-5 mb-8 space-y-4">
+            {lines.length === 0 ? (
+              <p className="text-gray-400 text-sm">No published payslips since {effectiveFrom} change at this rate.</p>
+            ) : (
+              <>
+                <div className="overflow-x-auto rounded-xl border border-white/10">
+                  <table className="min-w-full divide-y divide-white/10 text-sm">
+                    <thead className="bg-gray-800/60 text-left text-xs uppercase tracking-wider text-gray-400">
+                      <tr>
+                        <th className="px-4 py-3">Cutoff</th>
+                        <th className="px-4 py-3">Payslip</th>
+                        <th className="px-4 py-3 text-right">Old Rate</th>
+                        <th className="px-4 py-3 text-right">New Rate</th>
+                        <th className="px-4 py-3 text-right">Share</th>
+                        <th className="px-4 py-3 text-right">Difference</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-white/10">
+                      {lines.map((l) => (
+                        <tr key={l.payslipId}>
+                          <td className="px-4 py-3">{l.cutoffLabel || l.periodKey || "—"}</td>
+                          <td className="px-4 py-3 font-mono text-xs text-gray-400">{l.payslipId}</td>
+                          <td className="px-4 py-3 text-right font-mono">{peso(l.before)}</td>
+                          <td className="px-4 py-3 text-right font-mono">{peso(l.after)}</td>
+                          <td className="px-4 py-3 text-right">{Math.round(l.share * 100)}%</td>
+                          <td className="px-4 py-3 text-right font-mono">{peso(l.difference)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+                <div className="flex flex-col md:flex-row md:items-end gap-4">
+                  <div className="flex-1">
+                    <label className="lbl">Note</label>
+                    <input
+                      className="inp"
+                      placeholder="e.g. Approved raise, memo 2025-014"
+                      value={note}
+                      onChange={(e) => setNote(e.target.value)}
+                    />
+                  </div>
+                  <div className="text-right">
+                    <div className="text-sm text-gray-400">Retro Pay</div>
+                    <div className="text-2xl font-bold text-emerald-300">{peso(total)}</div>
+                  </div>
+                  <button
+                    onClick={save}
+                    disabled={saving}
+                    className="px-5 py-2 rounded-xl bg-emerald-600 hover:bg-emerald-500 disabled:opacity-60"
+                  >
+                    {saving ? "Saving…" : "Add to Next Draft"}
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        <h2 className="text-lg font-semibold mb-3">Adjustments</h2>
+        <div className="overflow-x-auto rounded-2xl border border-white/10">
+          <table className="min-w-full divide-y divide-white/10">
+            <thead className="bg-gray-800/60 text-left text-xs uppercase tracking-wider text-gray-400">
+              <tr>
+                <th className="px-4 py-3">Employee</th>
+                <th className="px-4 py-3">Effective</th>
+                <th className="px-4 py-3">Payslips</th>
+                <th className="px-4 py-3">Created</th>
+                <th className="px-4 py-3 text-right">Amount</th>
+                <th className="px-4 py-3">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/10 bg-gray-900/20 text-sm">
+              {adjustments.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-4 py-6 text-center text-gray-400">
+                    No retro pay yet.
+                  </td>
+                </tr>
+              ) : (
+                adjustments.map((a) => (
+                  <tr key={a.id}>
+                    <td className="px-4 py-3">{a.employeeName}</td>
+                    <td className="px-4 py-3">{a.effectiveFrom}</td>
+                    <td className="px-4 py-3 text-xs text-gray-300">
+                      {a.payslips.map((p) => p.cutoffLabel || p.periodKey).join(", ")}
+                    </td>
+                    <td className="px-4 py-3">{fmtDate(a.createdAt)}</td>
+                    <td className="px-4 py-3 text-right font-mono">{peso(a.amount)}</td>
+                    <td className="px-4 py-3">
+                      {a.status === "open" ? (
+                        <span className="text-amber-300">Open</span>
+                      ) : (
+                        <span className="text-emerald-300">
+                          Paid{a.appliedPeriodKey ? ` in ${a.appliedPeriodKey}` : ""}
+                        </span>
+                      )}
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <style>{`
+        .inp {
+          width: 100%;
+          padding: 0.75rem 1rem;
+          background: rgba(255,255,255,0.06);
+          border: 1px solid rgba(255,255,255,0.15);
+          border-radius: 0.75rem;
+          color: #fff;
+          outline: none;
+        }
+        .inp:focus {
+          box-shadow: 0 0 0 2px rgba(59,130,246,0.5);
+          border-color: rgba(59,130,246,0.6);
+        }
+        .lbl {
+          display:block;
+          font-size: 0.9rem;
+          font-weight: 500;
+          color: #d1d5db;
+          margin-bottom: 0.35rem;
+        }
+      `}</style>
+    </div>
+  );
+}
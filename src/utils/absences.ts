@@ -0,0 +1,96 @@
+// src/utils/absences.ts
+// Absences and undertime for monthly-rated (core) employees. Their basic pay is the full semi-monthly amount;
+// every workday in the cutoff is either worked, on paid leave, a holiday, or an absence.
+import { holidaysOn, isRestDay, previousWorkday, toDateKey, type HolidayLite } from "./holidays";
+
+export interface CutoffAttendance {
+  workdays: number; // Mon–Fri in the cutoff, holidays included (same count as payrollDrafts.workedDays)
+  presentDays: number;
+  paidLeaveDays: number;
+  holidayDays: number; // unworked holidays covered by the monthly rate
+  absentDays: number;
+  absentDates: string[];
+  undertimeMinutes: number;
+}
+
+const SHIFT_MINUTES = 480;
+
+/** Filed request types that are approved leaves (requests.type, upper-cased). */
+export const LEAVE_REQUEST_TYPES = ["LEAVE", "SL", "VL", "BL", "MHL"];
+
+/** Approved leave types paid out of the monthly rate (SL, VL, BL, MHL); adjustments saying "without pay" are not. */
+export function isPaidLeave(type?: string | null): boolean {
+  return !/without pay|lwop|unpaid/i.test(String(type || ""));
+}
+
+/** Leave size in days: ≤ 1 is read as days, anything larger as hours. */
+export function leaveDays(hoursOrDays?: number | null): number {
+  const v = Number(hoursOrDays) || 0;
+  if (v <= 0) return 1;
+  return v <= 1 ? v : Math.min(1, v / 8);
+}
+
+export function classifyCutoffAttendance(opts: {
+  start: string | Date;
+  end: string | Date;
+  hoursByDate: Record<string, number>; // worked hours per YYYY-MM-DD, capped at 8
+  tardyByDate?: Record<string, number>; // minutes already deducted as tardiness
+  paidLeaveByDate?: Record<string, number>; // days (0–1)
+  holidays: HolidayLite[];
+}): CutoffAttendance {
+  const startKey = toDateKey(opts.start) || "";
+  const endKey = toDateKey(opts.end) || "";
+  const out: CutoffAttendance = {
+    workdays: 0,
+    presentDays: 0,
+    paidLeaveDays: 0,
+    holidayDays: 0,
+    absentDays: 0,
+    absentDates: [],
+    undertimeMinutes: 0,
+  };
+  if (!startKey || !endKey) return out;
+
+  const hours = (k: string) => Number(opts.hoursByDate[k]) || 0;
+  const leave = (k: string) => Math.min(1, Number(opts.paidLeaveByDate?.[k]) || 0);
+  const nonWorkingHolidays = (k: string) => holidaysOn(k, opts.holidays).filter((h) => h.type !== "special_working");
+
+  const [y, m, d] = startKey.split("-").map(Number);
+  const cur = new Date(y, m - 1, d);
+  for (;;) {
+    const key = `${cur.getFullYear()}-${String(cur.getMonth() + 1).padStart(2, "0")}-${String(cur.getDate()).padStart(2, "0")}`;
+    if (key > endKey) break;
+    cur.setDate(cur.getDate() + 1);
+    if (isRestDay(key)) continue;
+    out.workdays += 1;
+
+    const worked = hours(key);
+    const hols = nonWorkingHolidays(key);
+    if (hols.length && !worked) {
+      // unworked regular holiday is unpaid when the employee was absent the workday before
+      const regular = hols.some((h) => (h.type || "regular") === "regular");
+      const prev = previousWorkday(key, opts.holidays);
+      const absentBefore = regular && prev >= startKey && !hours(prev) && !leave(prev);
+      if (absentBefore) {
+        out.absentDays += 1;
+        out.absentDates.push(key);
+      } else {
+        out.holidayDays += 1;
+      }
+      continue;
+    }
+
+    const onLeave = leave(key);
+    out.paidLeaveDays += onLeave;
+    if (worked) {
+      out.presentDays += 1;
+      const short = SHIFT_MINUTES - Math.round(worked * 60) - Math.round(onLeave * SHIFT_MINUTES);
+      out.undertimeMinutes += Math.max(0, short - (Number(opts.tardyByDate?.[key]) || 0));
+    } else if (onLeave < 1) {
+      out.absentDays += 1 - onLeave;
+      out.absentDates.push(key);
+    }
+  }
+  out.absentDays = Math.round(out.absentDays * 1000) / 1000;
+  return out;
+}
@@ -0,0 +1,48 @@
+// src/utils/carryForward.ts
+// Unrecovered deductions (/carryForwards). When a cutoff's deductions exceed its pay, net pay stops at ₱0 and
+// the shortfall opens a carry-forward; the next cutoff deducts it as "Prior Period Balance" and closes it.
+import { subtractPesos, sumPesos } from "./money";
+
+export interface CarryForward {
+  id: string;
+  employeeId: string; // employees doc id (payroll line employeeId)
+  employeeName: string;
+  amount: number;
+  status: "open" | "recovered";
+  sourceDraftId: string;
+  sourcePeriodKey?: string;
+  sourceCutoffLabel?: string | null;
+  recoveredDraftId?: string;
+  recoveredPeriodKey?: string;
+  createdAt?: unknown;
+  recoveredAt?: unknown;
+}
+
+/** Open balance per employee. */
+export function openBalances(list: CarryForward[]): Record<string, { amount: number; items: CarryForward[] }> {
+  const out: Record<string, { amount: number; items: CarryForward[] }> = {};
+  for (const cf of list) {
+    if (cf.status !== "open") continue;
+    const row = (out[cf.employeeId] ||= { amount: 0, items: [] });
+    row.amount = sumPesos(row.amount, cf.amount);
+    row.items.push(cf);
+  }
+  return out;
+}
+
+/**
+ * Final net for a line whose commissions are added outside the engine: the commission covers any shortfall
+ * first, and only what is still unrecovered is carried forward.
+ */
+export function settleNetPay(
+  out: { netPay: number; unrecoveredDeductions?: number },
+  commission: number
+): { netPay: number; carriedForward: number } {
+  const shortfall = Number(out.unrecoveredDeductions) || 0;
+  const comm = Math.max(0, Number(commission) || 0);
+  const covered = Math.min(shortfall, comm);
+  return {
+    netPay: subtractPesos(sumPesos(out.netPay, comm), covered),
+    carriedForward: subtractPesos(shortfall, covered),
+  };
+}
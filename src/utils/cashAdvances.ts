@@ -0,0 +1,128 @@
+// src/utils/cashAdvances.ts
+// Cash advances (/cashAdvances) as a ledger. Each approved advance is deducted by its per-cutoff amount until its
+// balance is paid; final approval posts every deduction to cashAdvances/{id}/ledger, lowers the balance and
+// closes the advance at zero.
+import { toDateKey } from "./holidays";
+import { cutoffContaining } from "./paySegments";
+import type { CashAdvanceDeductionInput } from "./payrollLogic";
+
+export interface CashAdvance {
+  id: string;
+  employeeId: string; // employees doc id (older advances hold the HR employee code, or nothing — see advanceOwner)
+  employeeCode?: string | null; // HR employee code, e.g. EMP001
+  employeeName: string;
+  totalAmount: number;
+  perCutOff: number;
+  startDateCutOff: "first" | "second";
+  startCutoff?: string; // YYYY-MM-DD, start of the first cutoff deducted (missing on older advances — see advanceStartCutoff)
+  balance?: number; // missing on advances filed before the ledger = nothing deducted yet
+  approved: boolean;
+  status?: "pending" | "approved" | "rejected" | "paid" | "settled";
+  note?: string;
+  filedAt?: unknown;
+  approvedAt?: unknown;
+  paidAt?: unknown;
+}
+
+/** One posted deduction (cashAdvances/{id}/ledger). */
+export interface CashAdvanceLedgerEntry {
+  id: string;
+  amount: number;
+  balanceBefore: number;
+  balanceAfter: number;
+  draftId: string;
+  periodKey: string;
+  cutoffLabel?: string | null;
+  payslipId: string;
+  postedAt?: unknown;
+  postedBy?: string | null;
+}
+
+export function advanceBalance(ca: Pick<CashAdvance, "balance" | "totalAmount">): number {
+  return Math.max(0, Number(ca.balance ?? ca.totalAmount) || 0);
+}
+
+export function isOpenAdvance(ca: CashAdvance): boolean {
+  return ca.approved === true && !["rejected", "paid", "settled"].includes(String(ca.status)) && advanceBalance(ca) > 0;
+}
+
+/** How advances are matched to employees: doc id, then HR employee code, then (oldest advances) full name. */
+export interface AdvanceOwnerIndex {
+  ids: Set<string>;
+  byCode: Record<string, string>;
+  byName: Record<string, string>; // names shared by two employees are left out — they cannot be told apart
+}
+
+const nameKey = (v: unknown) => String(v || "").trim().replace(/\s+/g, " ").toLowerCase();
+
+export function advanceOwnerIndex(employees: { id: string; employeeId?: unknown; name?: unknown }[]): AdvanceOwnerIndex {
+  const index: AdvanceOwnerIndex = { ids: new Set(), byCode: {}, byName: {} };
+  const seen = new Set<string>();
+  for (const e of employees) {
+    index.ids.add(e.id);
+    const code = String(e.employeeId || "").trim();
+    if (code) index.byCode[code] = e.id;
+    const name = nameKey(e.name);
+    if (!name) continue;
+    if (seen.has(name)) delete index.byName[name];
+    else index.byName[name] = e.id;
+    seen.add(name);
+  }
+  return index;
+}
+
+/**
+ * employees doc id of the advance. Advances filed before the ledger hold the HR employee code; the oldest hold
+ * neither and are matched by name as they were before. "" when nothing matches (see unmatchedAdvances).
+ */
+export function advanceOwner(ca: Pick<CashAdvance, "employeeId" | "employeeName">, index: AdvanceOwnerIndex): string {
+  const id = String(ca.employeeId || "").trim();
+  if (index.ids.has(id)) return id;
+  return index.byCode[id] || index.byName[nameKey(ca.employeeName)] || "";
+}
+
+const filedMillis = (v: unknown) => (v as { toMillis?: () => number } | null)?.toMillis?.() ?? 0;
+
+/**
+ * Start of the first cutoff the advance is deducted in. Older advances only hold the half: they start in the first
+ * cutoff of that half on or after the day they were approved (or filed). undefined when neither date is known.
+ */
+export function advanceStartCutoff(
+  ca: Pick<CashAdvance, "startCutoff" | "startDateCutOff" | "approvedAt" | "filedAt">
+): string | undefined {
+  if (ca.startCutoff) return ca.startCutoff;
+  const millis = filedMillis(ca.approvedAt ?? ca.filedAt);
+  if (!millis) return undefined;
+  const c = cutoffContaining(toDateKey(new Date(millis)) as string);
+  if (c.half === (ca.startDateCutOff === "second" ? "second" : "first")) return c.start;
+  const [y, m, d] = c.end.split("-").map(Number);
+  return cutoffContaining(toDateKey(new Date(y, m - 1, d + 1)) as string).start;
+}
+
+/** Open advances per employee doc id, oldest first, as engine inputs. */
+export function openAdvances(
+  list: CashAdvance[],
+  index: AdvanceOwnerIndex
+): Record<string, CashAdvanceDeductionInput[]> {
+  const out: Record<string, CashAdvanceDeductionInput[]> = {};
+  const sorted = list
+    .filter(isOpenAdvance)
+    .sort((a, b) => filedMillis(a.approvedAt ?? a.filedAt) - filedMillis(b.approvedAt ?? b.filedAt));
+  for (const ca of sorted) {
+    const owner = advanceOwner(ca, index);
+    if (!owner) continue;
+    (out[owner] ||= []).push({
+      advanceId: ca.id,
+      perCutOff: Number(ca.perCutOff) || 0,
+      balance: advanceBalance(ca),
+      startDateCutOff: ca.startDateCutOff === "second" ? "second" : "first",
+      startCutoff: advanceStartCutoff(ca),
+    });
+  }
+  return out;
+}
+
+/** Open advances no employee could be matched to — still owed, so finance has to link them by hand. */
+export function unmatchedAdvances(list: CashAdvance[], index: AdvanceOwnerIndex): CashAdvance[] {
+  return list.filter((ca) => isOpenAdvance(ca) && !advanceOwner(ca, index));
+}
@@ -0,0 +1,213 @@
+// src/utils/commissionPlans.ts
+// Tiered sales commissions. A plan (/commissionPlans) is a ladder of marginal rates over the month's credited
+// sales; each employee is assigned one (employees.commissionPlanId). Sales and refunds live in the /sales ledger,
+// split between employees by share. A month's statement pays the tiers on the credited sales and claws back
+// refunds at the effective rate of the month the refunded sale was paid in; clawbacks the month cannot absorb carry
+// to the next statement. PayrollDraftPage adds the statement of every month that ends inside the cutoff.
+import { multiplyPesos, roundPesos, subtractPesos, sumPesos } from "./money";
+
+export interface CommissionTier {
+  from: number; // monthly credited sales this rate starts at
+  rate: number; // % of the sales above `from` (up to the next tier)
+}
+
+export interface CommissionPlan {
+  id: string;
+  name: string;
+  tiers: CommissionTier[];
+  active: boolean;
+  note?: string | null;
+  createdAt?: unknown;
+  updatedAt?: unknown;
+}
+
+export interface SaleSplit {
+  employeeId: string; // employees doc id
+  employeeName: string;
+  share: number; // % of the sale credited to this employee
+}
+
+export interface SaleEntry {
+  id: string;
+  date: string; // YYYY-MM-DD
+  client: string;
+  project?: string | null;
+  amount: number; // always positive; a refund reduces by this much
+  kind: "sale" | "refund";
+  saleId?: string | null; // refunds: the sale refunded (splits copied from it)
+  splits: SaleSplit[];
+  note?: string | null;
+  createdAt?: unknown;
+  createdBy?: string | null;
+}
+
+export interface TierLine {
+  from: number;
+  to: number | null;
+  rate: number;
+  base: number; // credited sales inside this tier
+  commission: number;
+}
+
+export interface StatementSale {
+  saleId: string;
+  date: string;
+  client: string;
+  project?: string | null;
+  amount: number;
+  share: number;
+  credited: number;
+}
+
+export interface ClawbackLine {
+  refundId: string;
+  saleId: string | null;
+  date: string;
+  client: string;
+  credited: number; // this employee's share of the refund
+  rate: number; // effective % paid on the refunded sale's month
+  clawback: number;
+}
+
+export interface CommissionStatement {
+  employeeId: string;
+  month: string; // YYYY-MM
+  planId: string;
+  planName: string;
+  sales: StatementSale[];
+  creditedSales: number;
+  tiers: TierLine[];
+  commission: number;
+  effectiveRate: number; // commission ÷ credited sales, in %
+  clawbacks: ClawbackLine[];
+  clawbackTotal: number;
+  carriedIn: number; // clawbacks earlier statements could not absorb
+  net: number; // payable this month, never below zero
+  carriedOut: number; // clawbacks left for the next statement
+}
+
+const monthOf = (date: string) => String(date || "").slice(0, 7);
+
+const nextMonth = (month: string) => {
+  const [y, m] = month.split("-").map(Number);
+  return m === 12 ? `${y + 1}-01` : `${y}-${String(m + 1).padStart(2, "0")}`;
+};
+
+/** Tiers sorted by `from`, the first starting at zero. */
+export function normalizeTiers(tiers: CommissionTier[] | undefined): CommissionTier[] {
+  const list = (tiers || [])
+    .map((t) => ({ from: Math.max(0, Number(t.from) || 0), rate: Math.max(0, Number(t.rate) || 0) }))
+    .sort((a, b) => a.from - b.from);
+  if (!list.length || list[0].from > 0) list.unshift({ from: 0, rate: 0 });
+  return list;
+}
+
+/** Marginal tiers: each rate applies only to the sales between its threshold and the next one. */
+export function evaluateTiers(tiers: CommissionTier[] | undefined, creditedSales: number) {
+  const ladder = normalizeTiers(tiers);
+  const sales = Math.max(0, Number(creditedSales) || 0);
+  const lines: TierLine[] = ladder.map((t, i) => {
+    const to = i + 1 < ladder.length ? ladder[i + 1].from : null;
+    const base = roundPesos(Math.max(0, Math.min(sales, to ?? Infinity) - t.from));
+    return { from: t.from, to, rate: t.rate, base, commission: multiplyPesos(base, t.rate / 100) };
+  });
+  return { lines, commission: sumPesos(...lines.map((l) => l.commission)) };
+}
+
+function creditedIn(ledger: SaleEntry[], employeeId: string, month: string, kind: SaleEntry["kind"]) {
+  return ledger
+    .filter((s) => s.kind === kind && monthOf(s.date) === month)
+    .flatMap((s) =>
+      (s.splits || [])
+        .filter((sp) => sp.employeeId === employeeId && Number(sp.share) > 0)
+        .map((sp) => ({ entry: s, share: Number(sp.share), credited: multiplyPesos(Number(s.amount) || 0, Number(sp.share) / 100) }))
+    );
+}
+
+/** Tier commission on one month's credited sales (no clawbacks). */
+function monthCommission(ledger: SaleEntry[], employeeId: string, plan: Pick<CommissionPlan, "tiers">, month: string) {
+  const sales = creditedIn(ledger, employeeId, month, "sale");
+  const creditedSales = sumPesos(...sales.map((s) => s.credited));
+  const { lines, commission } = evaluateTiers(plan.tiers, creditedSales);
+  const effectiveRate = creditedSales ? Math.round((commission / creditedSales) * 1e6) / 1e4 : 0;
+  return { sales, creditedSales, lines, commission, effectiveRate };
+}
+
+/** One employee's statement for `month` (YYYY-MM), carrying unabsorbed clawbacks from the first month in the ledger. */
+export function commissionStatement(
+  ledger: SaleEntry[],
+  employeeId: string,
+  plan: CommissionPlan,
+  month: string
+): CommissionStatement {
+  const byId = new Map(ledger.map((s) => [s.id, s]));
+  const months = ledger
+    .filter((s) => (s.splits || []).some((sp) => sp.employeeId === employeeId))
+    .map((s) => monthOf(s.date))
+    .filter((m) => m && m < month)
+    .sort();
+
+  let carriedIn = 0;
+  let statement: CommissionStatement | null = null;
+  for (let m = months[0] || month; ; m = nextMonth(m)) {
+    const base = monthCommission(ledger, employeeId, plan, m);
+    const clawbacks: ClawbackLine[] = creditedIn(ledger, employeeId, m, "refund").map(({ entry, credited }) => {
+      const sale = entry.saleId ? byId.get(entry.saleId) : undefined;
+      const rate = monthCommission(ledger, employeeId, plan, sale ? monthOf(sale.date) : m).effectiveRate;
+      return {
+        refundId: entry.id,
+        saleId: entry.saleId || null,
+        date: entry.date,
+        client: entry.client,
+        credited,
+        rate,
+        clawback: multiplyPesos(credited, rate / 100),
+      };
+    });
+    const clawbackTotal = sumPesos(...clawbacks.map((c) => c.clawback));
+    const owed = sumPesos(clawbackTotal, carriedIn);
+    const net = Math.max(0, subtractPesos(base.commission, owed));
+    const carriedOut = Math.max(0, subtractPesos(owed, base.commission));
+    statement = {
+      employeeId,
+      month: m,
+      planId: plan.id,
+      planName: plan.name,
+      sales: base.sales.map(({ entry, share, credited }) => ({
+        saleId: entry.id,
+        date: entry.date,
+        client: entry.client,
+        project: entry.project || null,
+        amount: Number(entry.amount) || 0,
+        share,
+        credited,
+      })),
+      creditedSales: base.creditedSales,
+      tiers: base.lines,
+      commission: base.commission,
+      effectiveRate: base.effectiveRate,
+      clawbacks,
+      clawbackTotal,
+      carriedIn,
+      net,
+      carriedOut,
+    };
+    if (m >= month) break;
+    carriedIn = carriedOut;
+  }
+  return statement;
+}
+
+/** Months (YYYY-MM) whose last day falls inside the cutoff — each month is paid on exactly one cutoff. */
+export function monthsEndingIn(cutoffStart: string, cutoffEnd: string): string[] {
+  const out: string[] = [];
+  for (let m = monthOf(cutoffStart); m && m <= monthOf(cutoffEnd); m = nextMonth(m)) {
+    const [y, mo] = m.split("-").map(Number);
+    const last = `${m}-${String(new Date(y, mo, 0).getDate()).padStart(2, "0")}`;
+    if (last >= cutoffStart && last <= cutoffEnd) out.push(m);
+  }
+  return out;
+}
+
+/** Deterministic commissions doc id for a month's statement on a draft line. */
+export const planCommissionId = (month: string) => `plan_${month}`;
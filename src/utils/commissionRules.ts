@@ -0,0 +1,37 @@
+// src/utils/commissionRules.ts
+// Standing commissions set on the employee (employees.commissionRules): a flat amount per cutoff for the listed
+// payroll months. recomputePayrollDraft adds every rule due in the cutoff to the line's commissions subcollection.
+import { toDateKey } from "./holidays";
+import { roundPesos } from "./money";
+
+export interface CommissionRule {
+  id: string;
+  amount: number;
+  payrollMonths: string[]; // ["2025-08", "2025-09"]
+}
+
+/** Deterministic commissions doc id, so a rule is added once per line and stays removed once removed. */
+export const ruleCommissionId = (ruleId: string) => `rule_${ruleId}`;
+
+/** Rules listing the cutoff's payroll month — the month its end date falls in, so 26–10 is the later month's. */
+export function commissionRulesDue(rules: CommissionRule[] | undefined, cutoffEnd: unknown) {
+  const end = toDateKey(cutoffEnd);
+  if (!end) return [];
+  const month = end.slice(0, 7);
+  return (rules || []).filter(
+    (r) => r.id && Number(r.amount) > 0 && (r.payrollMonths || []).some((m) => String(m).trim() === month)
+  );
+}
+
+/** The commissions doc a due rule adds to a draft line (the writer stamps createdAt). */
+export function ruleCommissionDoc(r: CommissionRule) {
+  return {
+    client: `Commission rule (${r.payrollMonths.join(", ")})`,
+    type: "others",
+    amount: Number(r.amount),
+    percent: 0,
+    commission: roundPesos(Number(r.amount)),
+    source: "rule",
+    ruleId: r.id,
+  };
+}
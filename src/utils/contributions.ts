@@ -0,0 +1,226 @@
+// src/utils/contributions.ts
+// Government contribution schedules (SSS, PhilHealth, Pag-IBIG) and their computations.
+// Every schedule is effective-dated: add next year's row instead of editing code paths.
+import type { AnnualTaxTable, WithholdingTable } from "./withholdingTax";
+import type { PremiumMatrix } from "./premiumPay";
+import { floorPesos, roundPesos, subtractPesos, sumPesos } from "./money";
+
+export type CutoffHalf = "first" | "second";
+
+export interface EffectiveDated {
+  effectiveFrom: string; // YYYY-MM-DD
+}
+
+/** Latest entry whose effectiveFrom is on/before `asOf` (falls back to the oldest). */
+export function pickEffective<T extends EffectiveDated>(list: T[], asOf?: string | null): T | null {
+  if (!list.length) return null;
+  const sorted = [...list].sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+  const key = (asOf ? String(asOf) : new Date().toISOString()).slice(0, 10);
+  let hit: T | null = null;
+  for (const row of sorted) {
+    if (row.effectiveFrom <= key) hit = row;
+  }
+  return hit || sorted[0];
+}
+
+/** Monthly amount → this cutoff's share. Second half takes the remainder so both halves sum exactly. */
+export function splitMonthly(monthly: number, half: CutoffHalf): number {
+  const first = roundPesos(monthly / 2);
+  return half === "first" ? first : subtractPesos(monthly, first);
+}
+
+/* ========================================================================
+   SSS
+   ======================================================================== */
+export interface SssSchedule extends EffectiveDated {
+  employeeRate: number; // e.g. 0.05
+  employerRate: number; // e.g. 0.10
+  minMsc: number; // lowest monthly salary credit
+  maxMsc: number; // highest monthly salary credit (incl. MPF)
+  mscStep: number; // bracket width
+  regularMscCap: number; // MSC above this goes to MPF (WISP)
+  ecThreshold: number; // MSC below this pays ecLow, otherwise ecHigh
+  ecLow: number;
+  ecHigh: number;
+}
+
+export const DEFAULT_SSS_SCHEDULES: SssSchedule[] = [
+  {
+    effectiveFrom: "2023-01-01",
+    employeeRate: 0.045,
+    employerRate: 0.095,
+    minMsc: 4000,
+    maxMsc: 30000,
+    mscStep: 500,
+    regularMscCap: 20000,
+    ecThreshold: 15000,
+    ecLow: 10,
+    ecHigh: 30,
+  },
+  {
+    effectiveFrom: "2025-01-01",
+    employeeRate: 0.05,
+    employerRate: 0.1,
+    minMsc: 5000,
+    maxMsc: 35000,
+    mscStep: 500,
+    regularMscCap: 20000,
+    ecThreshold: 15000,
+    ecLow: 10,
+    ecHigh: 30,
+  },
+];
+
+export interface SssContribution {
+  msc: number;
+  regularMsc: number;
+  mpfMsc: number;
+  employeeRegular: number;
+  employeeMpf: number;
+  employerRegular: number;
+  employerMpf: number;
+  ec: number;
+  employee: number; // regular + MPF
+  employer: number; // regular + MPF + EC
+}
+
+/** Monthly salary credit: brackets are centered on each MSC (±half a step). */
+export function sssMsc(monthlyCompensation: number, s: SssSchedule): number {
+  const comp = Math.max(0, Number(monthlyCompensation) || 0);
+  const stepped = Math.floor((comp + s.mscStep / 2) / s.mscStep) * s.mscStep;
+  return Math.min(s.maxMsc, Math.max(s.minMsc, stepped));
+}
+
+/** Monthly SSS contribution for a given compensation. */
+export function computeSss(monthlyCompensation: number, s: SssSchedule): SssContribution {
+  const msc = sssMsc(monthlyCompensation, s);
+  const regularMsc = Math.min(msc, s.regularMscCap);
+  const mpfMsc = Math.max(0, msc - s.regularMscCap);
+  const employeeRegular = roundPesos(regularMsc * s.employeeRate);
+  const employeeMpf = roundPesos(mpfMsc * s.employeeRate);
+  const employerRegular = roundPesos(regularMsc * s.employerRate);
+  const employerMpf = roundPesos(mpfMsc * s.employerRate);
+  const ec = msc < s.ecThreshold ? s.ecLow : s.ecHigh;
+
+  return {
+    msc,
+    regularMsc,
+    mpfMsc,
+    employeeRegular,
+    employeeMpf,
+    employerRegular,
+    employerMpf,
+    ec,
+    employee: sumPesos(employeeRegular, employeeMpf),
+    employer: sumPesos(employerRegular, employerMpf, ec),
+  };
+}
+
+/* ========================================================================
+   PHILHEALTH
+   ======================================================================== */
+export interface PhilhealthSchedule extends EffectiveDated {
+  rate: number; // premium rate of monthly basic salary, e.g. 0.05
+  floor: number; // income floor
+  ceiling: number; // income ceiling
+}
+
+export const DEFAULT_PHILHEALTH_SCHEDULES: PhilhealthSchedule[] = [
+  { effectiveFrom: "2023-01-01", rate: 0.04, floor: 10000, ceiling: 80000 },
+  { effectiveFrom: "2024-01-01", rate: 0.05, floor: 10000, ceiling: 100000 },
+];
+
+export interface PhilhealthContribution {
+  base: number; // salary after floor/ceiling
+  premium: number;
+  employee: number;
+  employer: number;
+}
+
+/** Monthly PhilHealth premium, shared 50/50 (employer takes the odd centavo). */
+export function computePhilhealth(monthlyBasic: number, s: PhilhealthSchedule): PhilhealthContribution {
+  const basic = Math.max(0, Number(monthlyBasic) || 0);
+  const base = Math.min(s.ceiling, Math.max(s.floor, basic));
+  const premium = roundPesos(base * s.rate);
+  const employee = floorPesos(premium / 2);
+  return {
+    base,
+    premium,
+    employee,
+    employer: subtractPesos(premium, employee),
+  };
+}
+
+/* ========================================================================
+   PAG-IBIG (HDMF)
+   ======================================================================== */
+export interface PagibigSchedule extends EffectiveDated {
+  lowThreshold: number; // compensation at/below this uses lowEmployeeRate
+  lowEmployeeRate: number; // e.g. 0.01
+  employeeRate: number; // e.g. 0.02
+  employerRate: number; // e.g. 0.02
+  maxFundSalary: number; // contributions are computed on at most this amount
+}
+
+export const DEFAULT_PAGIBIG_SCHEDULES: PagibigSchedule[] = [
+  {
+    effectiveFrom: "2019-01-01",
+    lowThreshold: 1500,
+    lowEmployeeRate: 0.01,
+    employeeRate: 0.02,
+    employerRate: 0.02,
+    maxFundSalary: 5000,
+  },
+  {
+    effectiveFrom: "2024-02-01",
+    lowThreshold: 1500,
+    lowEmployeeRate: 0.01,
+    employeeRate: 0.02,
+    employerRate: 0.02,
+    maxFundSalary: 10000,
+  },
+];
+
+export interface PagibigContribution {
+  fundSalary: number;
+  mandatory: number; // employee share required by the schedule
+  voluntary: number; // extra on top of the mandatory share
+  employee: number;
+  employer: number;
+}
+
+/**
+ * Monthly Pag-IBIG contribution. `voluntaryMonthly` is the employee's elected total
+ * monthly contribution; it only applies when higher than the mandatory share.
+ */
+export function computePagibig(
+  monthlyCompensation: number,
+  s: PagibigSchedule,
+  voluntaryMonthly = 0
+): PagibigContribution {
+  const comp = Math.max(0, Number(monthlyCompensation) || 0);
+  const fundSalary = Math.min(comp, s.maxFundSalary);
+  const eeRate = comp <= s.lowThreshold ? s.lowEmployeeRate : s.employeeRate;
+  const mandatory = roundPesos(fundSalary * eeRate);
+  const elected = Math.max(0, Number(voluntaryMonthly) || 0);
+  const employee = Math.max(mandatory, elected);
+  return {
+    fundSalary,
+    mandatory,
+    voluntary: subtractPesos(employee, mandatory),
+    employee,
+    employer: roundPesos(fundSalary * s.employerRate),
+  };
+}
+
+/* ========================================================================
+   SETTINGS DOC  (settings/statutory)
+   ======================================================================== */
+export interface StatutoryTables {
+  sss?: SssSchedule[];
+  philhealth?: PhilhealthSchedule[];
+  pagibig?: PagibigSchedule[];
+  withholding?: WithholdingTable[];
+  annualTax?: AnnualTaxTable[];
+  premiumMatrix?: PremiumMatrix;
+}
@@ -0,0 +1,1294 @@
+// src/utils/draftPayroll.ts
+// Everything between a payroll draft line and calculatePayroll: attendance merged with filed requests, holidays,
+// split cutoffs, OB pricing and the ledgers deducted on the cutoff — plus the payslip rows built from the result.
+// 13th month, final pay and year-end lines hold only what finance picked; their amounts come from the employee's
+// earlier payslips (payHistory). PayrollDraftPage runs it for the live preview; the payroll Cloud Functions
+// (functions/src) run the same code on inputs they read themselves, and only their numbers are saved.
+import {
+  calculatePayroll,
+  calculateThirteenthMonthPayroll,
+  type CashAdvanceDeductionInput,
+  type LoanDeductionInput,
+  type PayrollInput,
+  type PayrollOutput,
+  type RecurringPayLine,
+} from "./payrollLogic";
+import {
+  computeThirteenthMonth,
+  sumBasicPayByEmployee,
+  thirteenthMonthDue,
+  type PayslipBasicLike,
+  type ThirteenthMonthResult,
+} from "./thirteenthMonth";
+import type { PayRuleSet } from "./payRules";
+import { sumYtdTaxByEmployee, type PayslipTaxLike, type YtdTax } from "./withholdingTax";
+import { classifyDay, previousWorkday, regularHolidaysInRange, toDateKey, type HolidayLite } from "./holidays";
+import type { PremiumHours } from "./premiumPay";
+import { roundPesos, subtractPesos, sumPesos } from "./money";
+import { openBalances, settleNetPay, type CarryForward } from "./carryForward";
+import { openRetroPay, type RetroPayAdjustment } from "./retroPay";
+import { resolveObRate } from "./obRates";
+import { classifyCutoffAttendance, isPaidLeave, leaveDays, LEAVE_REQUEST_TYPES } from "./absences";
+import { countWorkdays, cutoffContaining, splitCutoff, type CompensationChange } from "./paySegments";
+import {
+  allocateWorkedDays,
+  calculateFinalPay,
+  type FinalPayOutput,
+  type FinalPaySelection,
+  type FinalPaySetup,
+} from "./finalPay";
+import { dueLoans, type Loan } from "./loans";
+import type { CommissionRule } from "./commissionRules";
+import { freelancerItemsDue, type FreelancerItem } from "./freelancerPay";
+
+/* ========================================================================
+   TYPES
+   ======================================================================== */
+export type NormalizedCategory = "core" | "core_probationary" | "intern" | "freelancer" | "owner";
+
+export type TimeInOut = { date: string; in: string | null; out: string | null };
+
+/** The draft fields the computation reads (payrollDrafts/{id}). */
+export interface DraftHeadLike {
+  periodKey: string;
+  cutoffLabel: string | null;
+  cutoffStart: string | null;
+  cutoffEnd: string | null;
+  workedDays?: number;
+  type?: "regular" | "thirteenth_month" | "final_pay"; // missing = regular cutoff
+  year?: number; // thirteenth_month runs
+  financeConfig?: { holidays?: HolidayLite[] };
+  payRules?: PayRuleSet;
+}
+
+/** The line fields the computation reads (payrollDrafts/{id}/lines/{lineId}). */
+export interface DraftLine {
+  id: string;
+  employeeId: string;
+  name: string; // may be an alias snapshot; the employees doc has the canonical name
+  daysWorked: number; // biometric count, shown on the draft; attendance is priced from timeInOut
+  daysWorkedOverride?: number; // days worked set by finance on the draft; replaces the biometric attendance
+  category?: NormalizedCategory;
+  monthlySalary?: number;
+  timeInOut: TimeInOut[];
+  adjustments?: {
+    OT?: { date: string; hours: number; rate?: number }[];
+    OB?: { date: string; hours?: number; note?: string }[];
+    LEAVES?: { date: string; type: string; hoursOrDays: number }[];
+  };
+  adjustmentsTotal?: number;
+  projects?: { project: string; qty: number; rate: number; total: number }[]; // freelancers: payments entered on the draft
+  manualCashAdvance?: number; // manual override
+  removedCommissionRules?: string[]; // commission rule ids finance removed from this cutoff
+  recurringItems?: RecurringPayLine[]; // copied from employees.recurringItems when the draft was published
+  finalPay?: FinalPaySelection; // final_pay runs only
+  yearEnd?: { year: number; appliedAt?: unknown; appliedBy?: string }; // tax annualization applied to the line
+}
+
+export type EmployeeDoc = {
+  name: string;
+  alias?: string;
+  category: NormalizedCategory | "core_probationary" | string;
+  monthlySalary?: number;
+  perDayRate?: number;
+  perDayOrMonthly?: number;
+  dailyProbationary?: number;
+  allowancePerDay?: number;
+  fixedWorkedDays?: number;
+  fixedOut?: string | null;
+  benefits?: {
+    sss?: boolean;
+    philhealth?: boolean;
+    pagibig?: boolean;
+  };
+  pagibigVoluntary?: number;
+  uid?: string;
+  hireDate?: unknown; // Firestore Timestamp
+  separationDate?: unknown;
+  compensationHistory?: CompensationChange[];
+  commissionRules?: CommissionRule[];
+  commissionPlanId?: string | null;
+  freelancerItems?: FreelancerItem[];
+  ewtRate?: number | null;
+  obRates?: { category: string; rate: number }[];
+  rates?: {
+    ob?: number;
+    obShoot?: number;
+    obEvents?: number;
+    ot?: number;
+  };
+};
+
+/** Canonical employee data, keyed by employees doc id. */
+export interface EmployeeMeta {
+  name: string;
+  alias?: string;
+  category: NormalizedCategory;
+  monthlySalary: number;
+  perDayRate: number;
+  allowancePerDay?: number;
+  fixedWorkedDays: number;
+  fixedOut?: string | null;
+  rates?: EmployeeDoc["rates"];
+  obRates?: EmployeeDoc["obRates"];
+  sss?: boolean;
+  philhealth?: boolean;
+  pagibig?: boolean;
+  pagibigVoluntary?: number;
+  uid?: string;
+  hireDate?: string | null;
+  separationDate?: string | null;
+  compensationHistory?: CompensationChange[];
+  commissionRules?: CommissionRule[];
+  commissionPlanId?: string | null;
+  freelancerItems?: FreelancerItem[];
+  ewtRate?: number | null;
+}
+
+export type FiledRequest = {
+  type: "OB" | "OT" | "LEAVE" | "REMOTEWORK" | "WFH" | "RDOT";
+  date?: string;
+  hours?: number;
+  category?: "shoot" | "events" | "ob";
+  status: "approved" | "pending" | "rejected";
+  employeeName?: string;
+  suggestedRate?: number;
+  filedAt?: unknown;
+
+  // 👇 always require explicit filed in/out for remote & rdot
+  timeIn?: string | null;
+  timeOut?: string | null;
+};
+
+type OpenLedger<T> = Record<string, { amount: number; items: T[] }>;
+
+/** Everything a line is computed from besides the line itself. Maps are keyed by employees doc id unless noted. */
+export interface DraftContext {
+  draftId: string;
+  head: DraftHeadLike | null;
+  rules?: PayRuleSet;
+  holidays: HolidayLite[]; // company holidays, used when the draft has no financeConfig.holidays snapshot
+  employees: Record<string, EmployeeMeta>;
+  filedRequests: Record<string, FiledRequest[]>; // by full name
+  commissions: Record<string, number>; // by line id
+  openCarry: OpenLedger<CarryForward>;
+  openRetro: OpenLedger<RetroPayAdjustment>;
+  loans: Record<string, LoanDeductionInput[]>;
+  cashAdvances: Record<string, CashAdvanceDeductionInput[]>;
+  history?: Record<string, PayHistory>; // 13th month, final pay and year-end lines: the employee's earlier payslips
+}
+
+export type DraftLineOutput = PayrollOutput & Partial<Pick<FinalPayOutput, "finalPay">>;
+
+export interface PayslipRow {
+  label: string;
+  amount: number;
+  rateDay?: string;
+  note?: string;
+}
+
+/* ========================================================================
+   EMPLOYEES & FILED REQUESTS
+   ======================================================================== */
+/** Firestore Timestamp / Date / string → YYYY-MM-DD. */
+const timestampKey = (v: unknown) => toDateKey((v as { toDate?: () => Date } | null)?.toDate?.() ?? v);
+
+export function inferCurrentCutoffHalf(head: Pick<DraftHeadLike, "cutoffLabel">): "first" | "second" {
+  const label = head.cutoffLabel || "";
+  if (label.includes("11–25") || label.includes("11-25")) return "second";
+  return "first";
+}
+
+// Normalize category strings (handles hyphen/underscore/case)
+export function normalizeCategory(input?: string | null): NormalizedCategory {
+  const s = String(input || "").toLowerCase();
+  if (s.includes("owner")) return "owner";
+  if (s.includes("freelancer")) return "freelancer";
+  if (s.includes("intern")) return "intern";
+  if (s.includes("core") && (s.includes("probationary") || s.includes("probation"))) {
+    return "core_probationary";
+  }
+  return "core";
+}
+
+/** employees doc → the fields a line is priced from; a missing doc prices as a core employee with no rate. */
+export function employeeMeta(id: string, e: EmployeeDoc | null | undefined): EmployeeMeta {
+  if (!e) {
+    return {
+      name: id,
+      category: "core",
+      monthlySalary: 0,
+      perDayRate: 0,
+      fixedWorkedDays: 0,
+      fixedOut: null,
+      rates: {},
+      sss: false,
+      philhealth: false,
+      pagibig: false,
+    };
+  }
+  const category = normalizeCategory(e.category);
+  return {
+    name: e.name ? String(e.name) : id,
+    alias: e.alias ? String(e.alias) : undefined,
+    category,
+    monthlySalary: Number(e.monthlySalary || 0) || 0,
+    perDayRate: Number(e.perDayRate || e.perDayOrMonthly || e.dailyProbationary || 0) || 0,
+    allowancePerDay: Number(e.allowancePerDay || 0) || undefined,
+    fixedWorkedDays: Number(e.fixedWorkedDays || 0),
+    fixedOut: category === "intern" ? "16:00" : e.fixedOut || null,
+    rates: e.rates || {},
+    obRates: e.obRates || [],
+    // ✅ pull booleans from nested benefits
+    sss: Boolean(e.benefits?.sss),
+    philhealth: Boolean(e.benefits?.philhealth),
+    pagibig: Boolean(e.benefits?.pagibig),
+    pagibigVoluntary: Number(e.pagibigVoluntary || 0),
+    uid: e.uid || undefined,
+    hireDate: timestampKey(e.hireDate),
+    separationDate: timestampKey(e.separationDate),
+    compensationHistory: Array.isArray(e.compensationHistory) ? e.compensationHistory : [],
+    commissionRules: Array.isArray(e.commissionRules) ? e.commissionRules : [],
+    commissionPlanId: e.commissionPlanId || null,
+    freelancerItems: Array.isArray(e.freelancerItems) ? e.freelancerItems : [],
+    ewtRate: typeof e.ewtRate === "number" ? e.ewtRate : null,
+  };
+}
+
+type RequestDoc = {
+  type?: string;
+  employeeName?: string;
+  name?: string;
+  date?: string;
+  filedDate?: string;
+  hours?: number;
+  category?: string;
+  obType?: string;
+  suggestedRate?: number;
+  filedAt?: unknown;
+  createdAt?: unknown;
+  in?: string | null;
+  out?: string | null;
+  details?: {
+    type?: string;
+    kind?: string;
+    date?: string;
+    hours?: number;
+    categoryKey?: string;
+    category?: string;
+    suggestedRate?: number;
+    in?: string | null;
+    out?: string | null;
+  };
+};
+
+/** Approved /requests docs filed inside the cutoff, grouped by the employee's full name. */
+export function filedRequestsByName(
+  docs: RequestDoc[],
+  cutoffStart: string,
+  cutoffEnd: string
+): Record<string, FiledRequest[]> {
+  const start = new Date(cutoffStart);
+  const end = new Date(cutoffEnd);
+  // ✅ move end to 23:59:59
+  end.setHours(23, 59, 59, 999);
+
+  const map: Record<string, FiledRequest[]> = {};
+  for (const r of docs) {
+    const details = r.details || {}; // ✅ wrapper fallback
+    const fullName = String(r.employeeName || r.name || "").trim();
+    if (!fullName) continue;
+
+    // ✅ date comes from details first
+    const dtStr: string | undefined = details.date || r.date || r.filedDate;
+    if (dtStr) {
+      const dt = new Date(dtStr);
+      // ✅ End date must be INCLUDED (<= end)
+      if (isNaN(dt.getTime()) || dt < start || dt > new Date(end.getTime() + 24 * 60 * 60 * 1000 - 1)) continue;
+    }
+
+    const fr: FiledRequest = {
+      type: String(r.type || details.type || details.kind || "OB").toUpperCase() as FiledRequest["type"],
+      date: dtStr,
+      hours: Number(details.hours ?? r.hours ?? 0),
+      category: (details.categoryKey || details.category || r.category || r.obType || undefined) as FiledRequest["category"],
+      status: "approved",
+      employeeName: fullName,
+      suggestedRate: Number(details.suggestedRate ?? r.suggestedRate ?? 0) || undefined,
+      filedAt: r.filedAt || r.createdAt || null,
+
+      // ✅ pick up filed in/out (always required for remotework/wfh/rdot)
+      timeIn: details.in || r.in || null,
+      timeOut: details.out || r.out || null,
+    };
+
+    (map[fullName] ||= []).push(fr);
+  }
+  return map;
+}
+
+/**
+ * Carry-forwards, retro pay and loans the draft deducts. Balances the draft opened itself are only deducted from
+ * the next one, 13th month runs deduct nothing, and final pay settles every active loan whatever its start cutoff.
+ */
+export function draftLedgers(
+  head: DraftHeadLike | null,
+  draftId: string,
+  src: { carryForwards: CarryForward[]; retroPay: RetroPayAdjustment[]; loans: Loan[] }
+): Pick<DraftContext, "openCarry" | "openRetro" | "loans"> {
+  if (head?.type === "thirteenth_month") return { openCarry: {}, openRetro: {}, loans: {} };
+  return {
+    openCarry: openBalances(src.carryForwards.filter((cf) => cf.sourceDraftId !== draftId)),
+    openRetro: openRetroPay(src.retroPay),
+    loans: dueLoans(src.loans, head?.type === "final_pay" ? null : toDateKey(head?.cutoffEnd)),
+  };
+}
+
+/* ========================================================================
+   PAY HISTORY (13th month, final pay, year-end)
+   ======================================================================== */
+/** What an employee's earlier payslips add up to. */
+export interface PayHistory {
+  year: number;
+  lastPaidThrough: string | null; // cutoff end of the last regular payslip
+  basicPayEarned: number; // regular payslips whose cutoff ends in the year
+  payslipCount: number;
+  thirteenthPaid: number; // 13th month released in the year (13th month runs, final pay)
+  thirteenthExemptUsed: number; // part of the ₱90,000 ceiling those releases used
+  thirteenthPendingTaxable: number; // taxable excess of a 13th month run of the year not released yet
+  ytd: YtdTax; // taxable compensation and tax withheld in the year
+}
+
+/** The payslip fields the history is summed from (/payslips). */
+export type HistoryPayslip = PayslipTaxLike &
+  PayslipBasicLike & {
+    details?: { output?: { thirteenthMonthPay?: number; finalPay?: { thirteenthMonth?: { exempt?: number } } } };
+  };
+
+/** The year the draft's history is summed for: a 13th month run's year, else the year its cutoff ends in. */
+export function draftYear(head: DraftHeadLike | null): number {
+  return head?.year || Number((toDateKey(head?.cutoffEnd) || toDateKey(new Date()) || "").slice(0, 4));
+}
+
+const emptyHistory = (year: number): PayHistory => ({
+  year,
+  lastPaidThrough: null,
+  basicPayEarned: 0,
+  payslipCount: 0,
+  thirteenthPaid: 0,
+  thirteenthExemptUsed: 0,
+  thirteenthPendingTaxable: 0,
+  ytd: { ytdTaxableIncome: 0, ytdWithholdingTax: 0, payslipCount: 0 },
+});
+
+/** The 13th month still due for the year: basic pay ÷ 12, less what was already released. */
+const thirteenthDue = (h: PayHistory) =>
+  thirteenthMonthDue(computeThirteenthMonth(h.year, h.basicPayEarned, h.payslipCount), h.thirteenthPaid, h.thirteenthExemptUsed);
+
+/**
+ * Each employee's payslips summed for `year`; the draft's own payslips are left out. Payslips are keyed by
+ * employees doc id, older ones by auth uid — both are folded into the doc id. `pendingThirteenth` lists the
+ * employees on a 13th month run of the year that is not approved yet.
+ */
+export function payHistory(
+  payslips: HistoryPayslip[],
+  year: number,
+  employees: Record<string, Pick<EmployeeMeta, "uid">>,
+  excludeDraftId?: string,
+  pendingThirteenth: Iterable<string> = []
+): Record<string, PayHistory> {
+  const pending = new Set(pendingThirteenth);
+  const slips = payslips.filter((p) => p.status !== "rejected" && (!excludeDraftId || p.draftId !== excludeDraftId));
+  const ytd = sumYtdTaxByEmployee(slips, year);
+  const basic = sumBasicPayByEmployee(slips, year);
+  const out: Record<string, PayHistory> = {};
+  for (const [id, e] of Object.entries(employees)) {
+    const keys = new Set([id, e.uid].filter((k): k is string => !!k));
+    const own = slips.filter((p) => keys.has(String(p.employeeDocId || p.employeeId || "").trim()));
+    const h = emptyHistory(year);
+    for (const k of keys) {
+      if (ytd[k]) {
+        h.ytd.ytdTaxableIncome = sumPesos(h.ytd.ytdTaxableIncome, ytd[k].ytdTaxableIncome);
+        h.ytd.ytdWithholdingTax = sumPesos(h.ytd.ytdWithholdingTax, ytd[k].ytdWithholdingTax);
+        h.ytd.payslipCount += ytd[k].payslipCount;
+      }
+      if (basic[k]) {
+        h.basicPayEarned = sumPesos(h.basicPayEarned, basic[k].basicPayEarned);
+        h.payslipCount += basic[k].payslipCount;
+      }
+    }
+    h.lastPaidThrough =
+      own
+        .filter((p) => !p.payrollType || p.payrollType === "regular")
+        .map((p) => timestampKey(p.cutoffEnd))
+        .filter((k): k is string => !!k)
+        .sort()
+        .pop() || null;
+
+    const released = own.filter(
+      (p) =>
+        (p.payrollType === "thirteenth_month" || p.payrollType === "final_pay") &&
+        timestampKey(p.cutoffEnd)?.startsWith(String(year))
+    );
+    for (const p of released) {
+      const o = p.details?.output || {};
+      const paid = Number(o.thirteenthMonthPay || 0);
+      h.thirteenthPaid = sumPesos(h.thirteenthPaid, paid);
+      h.thirteenthExemptUsed = sumPesos(
+        h.thirteenthExemptUsed,
+        p.payrollType === "final_pay"
+          ? Number(o.finalPay?.thirteenthMonth?.exempt || 0)
+          : subtractPesos(paid, Number(o.taxableIncome || 0))
+      );
+    }
+    if (pending.has(id)) h.thirteenthPendingTaxable = thirteenthDue(h).taxable;
+    out[id] = h;
+  }
+  return out;
+}
+
+function historyOf(ln: DraftLine, ctx: DraftContext): PayHistory {
+  return ctx.history?.[String(ln.employeeId || ln.id).trim()] || emptyHistory(draftYear(ctx.head));
+}
+
+/**
+ * What a year-end line annualizes: the year's payslips plus the taxable excess of a 13th month run that is not
+ * approved yet — otherwise that excess would escape the annualization when the run is approved after it.
+ */
+export function yearEndYtd(history: PayHistory): YtdTax {
+  return {
+    ...history.ytd,
+    ytdTaxableIncome: sumPesos(history.ytd.ytdTaxableIncome, history.thirteenthPendingTaxable),
+  };
+}
+
+/** A 13th month run's line: the year's basic pay ÷ 12, less what was already released this year. */
+export function lineThirteenthMonth(ln: DraftLine, ctx: DraftContext): ThirteenthMonthResult | null {
+  if (ctx.head?.type !== "thirteenth_month") return null;
+  return thirteenthDue(historyOf(ln, ctx));
+}
+
+const nextDay = (key: string) => {
+  const [y, m, d] = key.split("-").map(Number);
+  return toDateKey(new Date(y, m - 1, d + 1)) as string;
+};
+
+const monthlyRate = (rate: { monthlySalary: number; perDayRate: number }) =>
+  Number(rate.perDayRate || 0) > 0 ? Number(rate.perDayRate) * 22 * 2 : Number(rate.monthlySalary || 0);
+
+/**
+ * Unpaid days of a final pay: the day after the last payslip (or the separation cutoff's start) through the
+ * separation date.
+ */
+export function unpaidPeriod(meta: EmployeeMeta, history: PayHistory, separationDate: string) {
+  const cutoff = cutoffContaining(separationDate);
+  const afterPaid = history.lastPaidThrough ? nextDay(history.lastPaidThrough) : cutoff.start;
+  const from = [afterPaid, cutoff.start, meta.hireDate || ""].sort().pop() as string;
+  return {
+    cutoff,
+    from,
+    gap: afterPaid < cutoff.start,
+    days: from <= separationDate ? countWorkdays(from, separationDate) : 0,
+  };
+}
+
+/** Why a final pay cannot be set up yet: regular payroll has not reached the separation cutoff. */
+export function finalPayGap(meta: EmployeeMeta, history: PayHistory, separationDate: string): string | null {
+  const { cutoff, gap } = unpaidPeriod(meta, history, separationDate);
+  return gap
+    ? `The last payslip ends ${history.lastPaidThrough}. Run the regular payroll up to ${cutoff.start} first — ` +
+        "final pay covers the separation cutoff only."
+    : null;
+}
+
+/** Daily rate unused leave is converted at. */
+export function leaveDailyRate(meta: EmployeeMeta, separationDate: string): number {
+  if (meta.category === "core_probationary") return meta.perDayRate;
+  if (meta.category === "intern") return Number(meta.allowancePerDay || 0);
+  const c = cutoffContaining(separationDate);
+  return Math.round((monthlyRate(meta) / 2 / (countWorkdays(c.start, c.end) || 1)) * 100) / 100;
+}
+
+/** A final pay run's setup from what finance picked, the employees doc, the payslips and the open cash advances. */
+export function finalPaySetup(
+  meta: EmployeeMeta,
+  history: PayHistory,
+  sel: FinalPaySelection,
+  cashAdvanceBalance: number
+): FinalPaySetup {
+  const { cutoff, from } = unpaidPeriod(meta, history, sel.separationDate);
+  const current = { monthlySalary: meta.monthlySalary, perDayRate: meta.perDayRate, allowancePerDay: meta.allowancePerDay };
+  const cut =
+    from <= sel.separationDate
+      ? splitCutoff({
+          start: from,
+          end: cutoff.end,
+          hireDate: meta.hireDate,
+          separationDate: sel.separationDate,
+          history: meta.compensationHistory || [],
+          current,
+        })
+      : { segments: [] };
+  const daysWorked = Math.max(0, Number(sel.daysWorked) || 0);
+  const segments = allocateWorkedDays(cut.segments, daysWorked).map((s) => ({
+    start: s.start,
+    end: s.end,
+    startReason: s.startReason,
+    endReason: s.endReason,
+    workingDays: s.workingDays,
+    effectiveFrom: s.effectiveFrom,
+    monthlySalary: monthlyRate(s.rate),
+    perDayRate: s.rate.perDayRate,
+    allowancePerDay: s.rate.allowancePerDay,
+    workedDays: s.workedDays,
+  }));
+  const benefits = { sss: !!meta.sss, pagibig: !!meta.pagibig, philhealth: !!meta.philhealth };
+
+  const salary: PayrollInput = {
+    monthlySalary: segments.length ? segments[segments.length - 1].monthlySalary : monthlyRate(current),
+    perDayRate: meta.perDayRate,
+    allowancePerDay: meta.allowancePerDay,
+    workedDays: daysWorked,
+    fixedWorkedDays: meta.fixedWorkedDays,
+    cutoffWorkingDays: countWorkdays(cutoff.start, cutoff.end),
+    otHours: 0,
+    ndHours: 0,
+    rdotHours: 0,
+    holiday30Hours: 0,
+    holidayDoubleHours: 0,
+    holidayOtDoubleHours: 0,
+    tardinessMinutes: 0,
+    segments,
+    category: meta.category,
+    cutoffHalf: cutoff.half,
+    asOf: sel.separationDate,
+    pagibigVoluntary: meta.pagibigVoluntary || 0,
+    // no salary left to pay → no contributions either
+    benefits: segments.length ? benefits : { sss: false, pagibig: false, philhealth: false },
+    cashAdvance: { totalAmount: 0, perCutOff: 0, currentCutOff: cutoff.half, startDateCutOff: "first", approved: false },
+  };
+
+  return {
+    separationDate: sel.separationDate,
+    lastPaidThrough: history.lastPaidThrough,
+    reason: sel.reason,
+    salary,
+    thirteenth: {
+      year: Number(sel.separationDate.slice(0, 4)),
+      basicPayEarned: history.basicPayEarned,
+      payslipCount: history.payslipCount,
+      alreadyPaid: history.thirteenthPaid,
+      exemptUsed: history.thirteenthExemptUsed,
+    },
+    leave: { days: Math.max(0, Number(sel.leaveDays) || 0), dailyRate: leaveDailyRate(meta, sel.separationDate) },
+    cashAdvanceBalance,
+    loanBalance: Math.max(0, Number(sel.loanBalance) || 0),
+    ytd: { ytdTaxableIncome: history.ytd.ytdTaxableIncome, ytdWithholdingTax: history.ytd.ytdWithholdingTax },
+  };
+}
+
+/** A final pay run's line, set up from the draft's inputs. */
+export function lineFinalPay(ln: DraftLine, ctx: DraftContext): FinalPaySetup | null {
+  if (ctx.head?.type !== "final_pay" || !ln.finalPay) return null;
+  const empId = String(ln.employeeId || ln.id).trim();
+  return finalPaySetup(
+    ctx.employees[empId] || employeeMeta(empId, null),
+    historyOf(ln, ctx),
+    ln.finalPay,
+    sumPesos(...(ctx.cashAdvances[empId] || []).map((c) => c.balance))
+  );
+}
+
+/* ========================================================================
+   ATTENDANCE
+   ======================================================================== */
+// Attendance windows & breaks
+const SHIFT_IN = { h: 7, m: 0 };
+const SHIFT_OUT = { h: 17, m: 30 };
+
+function clipToShift(timeIn: Date | null, timeOut: Date | null) {
+  if (!timeIn || !timeOut) return { start: null as Date | null, end: null as Date | null };
+  const dayStart = new Date(timeIn.getFullYear(), timeIn.getMonth(), timeIn.getDate(), SHIFT_IN.h, SHIFT_IN.m, 0, 0);
+  const dayEnd = new Date(timeIn.getFullYear(), timeIn.getMonth(), timeIn.getDate(), SHIFT_OUT.h, SHIFT_OUT.m, 0, 0);
+  const start = timeIn > dayStart ? timeIn : dayStart;
+  const end = timeOut < dayEnd ? timeOut : dayEnd;
+  if (end <= start) return { start: null, end: null };
+  return { start, end };
+}
+
+/** Hours and days one biometric (or filed) in/out pair counts for. Read in local time — Asia/Manila. */
+export function computeHoursAndDaysForOne(
+  inISO: string | null,
+  outISO: string | null,
+  fixedOut?: string | null
+) {
+  if ((inISO && !outISO) || (!inISO && outISO)) {
+    return { hours: 4, days: 0.5 };
+  }
+
+  const tIn = inISO ? new Date(inISO) : null;
+  const tOut = outISO ? new Date(outISO) : null;
+  if (!tIn || !tOut) return { hours: 0, days: 0 };
+
+  const inM = tIn.getHours() * 60 + tIn.getMinutes();
+  const outM = tOut.getHours() * 60 + tOut.getMinutes();
+  if (inM < 360 || outM < 420 || outM <= inM) {
+    return { hours: 0, days: 0 };
+  }
+
+  // 🔹 Hard rule: if time-in is 12:00–12:59 → half-day regardless of time-out
+  if (tIn.getHours() === 12) {
+    return { hours: 4, days: 0.5 };
+  }
+
+  // --- apply fixed out for interns ---
+  let adjustedOut = tOut;
+  if (fixedOut) {
+    const [hh, mm] = fixedOut.split(":").map(Number);
+    if (!isNaN(hh) && !isNaN(mm)) {
+      const forced = new Date(tOut.getFullYear(), tOut.getMonth(), tOut.getDate(), hh, mm, 0, 0);
+      if (forced.getTime() < adjustedOut.getTime()) {
+        adjustedOut = forced;
+      }
+    }
+  }
+
+  const { start, end } = clipToShift(tIn, adjustedOut);
+  if (!start || !end) return { hours: 0, days: 0 };
+
+  // 🔹 Hard rule: If actual timeout ≤ 1:59 PM → always half-day
+  if (end.getHours() < 13 || (end.getHours() === 13 && end.getMinutes() <= 59)) {
+    return { hours: 4, days: 0.5 };
+  }
+
+  let mins = (end.getTime() - start.getTime()) / 60000;
+
+  // Deduct lunch only if they worked into it
+  const lunchStart = new Date(start.getFullYear(), start.getMonth(), start.getDate(), 12, 0);
+  const lunchEnd = new Date(start.getFullYear(), start.getMonth(), start.getDate(), 13, 0);
+  if (end > lunchStart) {
+    const overlap =
+      Math.max(0, Math.min(end.getTime(), lunchEnd.getTime()) - Math.max(start.getTime(), lunchStart.getTime())) /
+      60000;
+    mins -= overlap;
+  }
+
+  if (mins < 0) mins = 0;
+
+  let hours = Math.round((mins / 60) * 100) / 100;
+  if (hours > 8) hours = 8;
+
+  let days = hours / 8;
+  if (days > 1) days = 1;
+
+  if (fixedOut) {
+    days = 1;
+    hours = 8;
+  }
+
+  return { hours, days };
+}
+
+/* ------------------------------------------------------------
+   DAILY MERGE HELPER
+   biometric + filed RemoteWork/WFH + RDOT
+   ------------------------------------------------------------ */
+export function computeDailyWithFiled(
+  timeInOut: TimeInOut[],
+  reqs: FiledRequest[],
+  fixedOut?: string | null
+) {
+  const allDates = new Set<string>([
+    ...timeInOut.map(r => r.date),
+    ...reqs
+      .filter(r =>
+        ["remotework", "wfh", "rdot"].includes(r.type?.toLowerCase() || "")
+      )
+      .map(r => r.date || "")
+  ]);
+
+  let totalHours = 0;
+  let totalDays = 0;
+  let rdotHours = 0;
+  const perDay: { date: string; hours: number; rdotHours: number }[] = [];
+
+  // a filed pair is counted like a biometric one; without both times the filed hours are taken as-is
+  const filedHours = (r: FiledRequest) =>
+    r.timeIn && r.timeOut ? computeHoursAndDaysForOne(r.timeIn, r.timeOut, fixedOut).hours : Number(r.hours || 0);
+
+  for (const d of Array.from(allDates)) {
+    if (!d) continue;
+    let dailyHours = 0;
+    let dayRdot = 0;
+
+    // biometric for this date
+    const bio = timeInOut.find(r => r.date === d);
+    if (bio) {
+      const { hours } = computeHoursAndDaysForOne(bio.in, bio.out, fixedOut);
+      dailyHours += hours;
+    }
+
+    // filed remote/wfh for this date
+    for (const rw of reqs.filter(r => ["remotework", "wfh"].includes(r.type?.toLowerCase() || "") && r.date === d)) {
+      dailyHours += filedHours(rw);
+    }
+
+    // filed rdot for this date
+    for (const rd of reqs.filter(r => r.type?.toLowerCase() === "rdot" && r.date === d)) {
+      dayRdot += filedHours(rd);
+    }
+    rdotHours += dayRdot;
+
+    // ✅ cap total worked at 8h/day
+    if (dailyHours > 8) dailyHours = 8;
+
+    totalHours += dailyHours;
+    totalDays += Math.round((dailyHours / 8) * 1000) / 1000;
+    perDay.push({ date: d, hours: dailyHours, rdotHours: dayRdot });
+  }
+
+  return { totalHours, totalDays, rdotHours, perDay };
+}
+
+/* ========================================================================
+   COMPUTE
+   ======================================================================== */
+/** One line of a regular cutoff, 13th month or final pay run. */
+export function computeDraftLine(ln: DraftLine, ctx: DraftContext): DraftLineOutput {
+  const thirteenth = lineThirteenthMonth(ln, ctx);
+  if (thirteenth) return calculateThirteenthMonthPayroll(thirteenth);
+  const setup = lineFinalPay(ln, ctx);
+  if (setup) return calculateFinalPay({ ...setup, salary: buildDraftPayrollInput(ln, ctx) });
+  return calculatePayroll(buildDraftPayrollInput(ln, ctx));
+}
+
+/** Count, gross and net of the whole draft — commissions added outside the engine, as on the payslips. */
+export function draftTotals(lines: DraftLine[], ctx: DraftContext) {
+  let gross = 0;
+  let net = 0;
+  for (const ln of lines) {
+    const p = computeDraftLine(ln, ctx);
+    const comm = ctx.commissions[ln.id] || 0;
+    gross = sumPesos(gross, p.grossEarnings || 0, comm);
+    net = sumPesos(net, settleNetPay(p, comm).netPay);
+  }
+  return { count: lines.length, gross, net };
+}
+
+/* ------------------------------------------------------------
+   BUILD PAYROLL INPUT FOR payrollLogic
+   ------------------------------------------------------------ */
+export function buildDraftPayrollInput(ln: DraftLine, ctx: DraftContext): PayrollInput {
+  const { head, rules, openCarry, openRetro, cashAdvances } = ctx;
+  const empId = String(ln.employeeId || ln.id).trim();
+  const comm = ctx.commissions[ln.id] || 0;
+
+  // final pay: the unpaid days after the last payslip (finalPaySetup)
+  const setup = lineFinalPay(ln, ctx);
+  if (setup) {
+    return {
+      ...setup.salary,
+      rules,
+      otherTaxableIncome: comm,
+      priorPeriodBalance: openCarry[empId]?.amount || 0,
+      retroPay: openRetro[empId]?.amount || 0,
+      loans: ctx.loans[empId],
+      cashAdvance: { ...setup.salary.cashAdvance, advances: cashAdvances[empId] || [] },
+    };
+  }
+  const meta: EmployeeMeta =
+    ctx.employees[empId] || {
+      name: "",
+      category: normalizeCategory(ln.category),
+      monthlySalary: 0,
+      perDayRate: 0,
+      fixedWorkedDays: 0,
+    };
+
+  const canonicalName = meta.name || empId;
+  const reqs = ctx.filedRequests[canonicalName] || [];
+
+  // Category
+  const category: PayrollInput["category"] = meta.category;
+
+  // --- DAILY MERGE ---
+  const { perDay } = computeDailyWithFiled(
+    ln.timeInOut,
+    reqs,
+    meta.fixedOut
+  );
+
+  // Determine base rate strategy:
+  const monthlyFor = (rate: { monthlySalary: number; perDayRate: number }) =>
+    Number(rate.perDayRate || 0) > 0
+      ? Number(rate.perDayRate) * 22 * 2
+      : Number(rate.monthlySalary || ln.monthlySalary || 0);
+  const normalizedMonthly = monthlyFor(meta);
+
+  // ✅ price each OB from the catalog as of its date (employee override → intern → company default)
+  const obRate = (date: string | undefined, cat?: string) => ({
+    date: toDateKey(date) || undefined,
+    ...resolveObRate({
+      category: cat,
+      isIntern: category === "intern",
+      employeeRates: meta.obRates,
+      schedules: rules ? [rules.obRates] : undefined,
+      asOf: toDateKey(date) || head?.cutoffEnd || null,
+    }),
+  });
+
+  const hols = head?.financeConfig?.holidays || ctx.holidays;
+
+  // Approved paid leaves (filed SL/VL/BL/MHL + manual adjustments), in days per date
+  const paidLeaveByDate: Record<string, number> = {};
+  const addLeave = (date: string | undefined, days: number) => {
+    const key = toDateKey(date);
+    if (key) paidLeaveByDate[key] = Math.min(1, (paidLeaveByDate[key] || 0) + days);
+  };
+  reqs
+    .filter(r => LEAVE_REQUEST_TYPES.includes(String(r.type).toUpperCase()))
+    .forEach(r => addLeave(r.date, leaveDays(r.hours)));
+  (ln.adjustments?.LEAVES || [])
+    .filter(l => isPaidLeave(l.type))
+    .forEach(l => addLeave(l.date, leaveDays(l.hoursOrDays)));
+
+  // only an explicit finance edit overrides attendance — daysWorked is always set on published lines
+  const override =
+    typeof ln.daysWorkedOverride === "number" && ln.daysWorkedOverride >= 0 ? ln.daysWorkedOverride : undefined;
+
+  /* Attendance for the whole line, or only the dates inside one segment of a split cutoff
+     (entries without a date go to the last segment; a manual override arrives already spread over the segments). */
+  const attendance = (range?: {
+    start: string;
+    end: string;
+    workingDays: number;
+    last: boolean;
+    manualDays?: number;
+  }) => {
+    const manualDays = range ? range.manualDays : override;
+    const within = (v: unknown) => {
+      if (!range) return true;
+      const key = toDateKey(v);
+      return key ? key >= range.start && key <= range.end : range.last;
+    };
+    const days = perDay.filter(d => within(d.date));
+
+    // Determine worked days (probationary might have fixed cutoff days)
+    let workedDays = Math.max(
+      days.reduce((sum, d) => sum + Math.round((d.hours / 8) * 1000) / 1000, 0),
+      0.0001
+    );
+
+    // ✅ manual override from line.daysWorkedOverride
+    if (manualDays !== undefined) {
+      workedDays = manualDays;
+    } else if (meta.fixedWorkedDays && meta.fixedWorkedDays > 0) {
+      workedDays = range
+        ? Math.round(((meta.fixedWorkedDays * range.workingDays) / (head?.workedDays || range.workingDays)) * 1000) / 1000
+        : meta.fixedWorkedDays;
+    }
+
+    // OB requests + manual OBs
+    const obEntries = [
+      ...reqs.filter(r => r.type === "OB" && within(r.date)).map((r) => obRate(r.date, r.category)),
+      ...(ln.adjustments?.OB || []).filter(o => within(o.date)).map((o) => ({ ...obRate(o.date), note: "manual" })),
+    ];
+
+    // --- HOLIDAYS: bucket each day's hours by day type (premium matrix) ---
+    const premiumHours: PremiumHours = {};
+    const bucket = (t: keyof PremiumHours) =>
+      (premiumHours[t] ||= { hours: 0, otHours: 0 }) as { hours: number; otHours: number };
+    let holidayWorkedDays = 0; // paid in full by the matrix, so taken out of basic pay
+    let rdotHours = 0;
+    const presentDates = new Set<string>();
+
+    for (const d of days) {
+      const key = toDateKey(d.date);
+      if (!key) continue;
+      if (d.hours > 0) presentDates.add(key);
+      const dayType = classifyDay(key, hols);
+      if (d.hours > 0 && dayType !== "regular" && dayType !== "rest_day") {
+        bucket(dayType).hours += d.hours;
+        holidayWorkedDays += Math.round((d.hours / 8) * 1000) / 1000;
+      }
+      if (d.rdotHours > 0) {
+        const restType = classifyDay(key, hols, true);
+        if (restType === "rest_day") rdotHours += d.rdotHours;
+        else bucket(restType).hours += d.rdotHours;
+      }
+    }
+
+    // OT (filed + manual) is priced by the day it was rendered
+    let otHours = 0;
+    const otEntries = [
+      ...reqs.filter(r => r.type === "OT").map(r => ({ date: r.date, hours: Number(r.hours || 0) })),
+      ...(ln.adjustments?.OT || []).map(a => ({ date: a.date, hours: Number(a.hours || 0) })),
+    ].filter(o => within(o.date));
+    for (const o of otEntries) {
+      const key = toDateKey(o.date);
+      const dayType = key ? classifyDay(key, hols) : "regular";
+      if (dayType === "regular") otHours += o.hours;
+      else bucket(dayType).otHours += o.hours;
+    }
+
+    workedDays = Math.max(0, workedDays - holidayWorkedDays);
+
+    const from = range?.start || toDateKey(head?.cutoffStart) || "";
+    const to = range?.end || toDateKey(head?.cutoffEnd) || "";
+
+    // Unworked regular holidays: paid when present (or on leave) the workday before
+    let unworkedHolidayDays = 0;
+    if (from && to && !(meta.fixedWorkedDays > 0)) {
+      const leaveDates = new Set(Object.keys(paidLeaveByDate));
+      for (const h of regularHolidaysInRange(new Date(`${from}T00:00:00`), new Date(`${to}T00:00:00`), hols)) {
+        if (presentDates.has(h.date)) continue;
+        const prev = previousWorkday(h.date, hols);
+        const prevInCutoff = prev >= from;
+        if (!prevInCutoff || presentDates.has(prev) || leaveDates.has(prev)) unworkedHolidayDays += h.count;
+      }
+    }
+
+    // --- TARDINESS COMPUTATION ---
+    let tardyMins = 0;
+    const tardyByDate: Record<string, number> = {};
+    ln.timeInOut.filter(r => within(r.date)).forEach(r => {
+      if (r.in) {
+        const tIn = new Date(r.in);
+        const mins = tIn.getHours() * 60 + tIn.getMinutes();
+        const startWindow = 7 * 60; // 07:00
+        const endWindow = 8 * 60; // 08:00
+
+        if (mins > startWindow && mins < endWindow) {
+          tardyMins += mins - startWindow;
+          const key = toDateKey(r.date);
+          if (key) tardyByDate[key] = (tardyByDate[key] || 0) + mins - startWindow;
+        }
+      }
+    });
+
+    // --- ABSENCES & UNDERTIME (core: full semi-monthly basic less unpaid days) ---
+    let absentDays = 0;
+    let undertimeMinutes = 0;
+    if (category === "core" && from && to) {
+      if (manualDays !== undefined) {
+        // manual days-worked override: everything short of the cutoff's (or segment's) working days is an absence
+        const workingDays = range ? range.workingDays : meta.fixedWorkedDays || head?.workedDays || 0;
+        absentDays = Math.max(0, Number(workingDays) - manualDays);
+      } else if (!(meta.fixedWorkedDays > 0)) {
+        const hoursByDate: Record<string, number> = {};
+        for (const d of days) {
+          const key = toDateKey(d.date);
+          if (key) hoursByDate[key] = Math.min(8, (hoursByDate[key] || 0) + d.hours);
+        }
+        const att = classifyCutoffAttendance({
+          start: from,
+          end: to,
+          hoursByDate,
+          tardyByDate,
+          paidLeaveByDate,
+          holidays: hols,
+        });
+        absentDays = att.absentDays;
+        undertimeMinutes = att.undertimeMinutes;
+      }
+    }
+
+    return {
+      workedDays,
+      obEntries,
+      otHours,
+      rdotHours,
+      premiumHours,
+      unworkedHolidayDays,
+      tardinessMinutes: tardyMins,
+      absentDays,
+      undertimeMinutes,
+    };
+  };
+
+  const whole = attendance();
+
+  // --- SEGMENTS: hire, separation and pay changes inside the cutoff are priced separately ---
+  // (a manual days-worked override is spread over the segments, earliest first)
+  const cut =
+    category === "freelancer"
+      ? { split: false, segments: [] }
+      : splitCutoff({
+          start: head?.cutoffStart,
+          end: head?.cutoffEnd,
+          hireDate: meta.hireDate,
+          separationDate: meta.separationDate,
+          history: meta.compensationHistory,
+          current: { monthlySalary: meta.monthlySalary, perDayRate: meta.perDayRate },
+        });
+  const manualBySegment = override !== undefined ? allocateWorkedDays(cut.segments, override) : undefined;
+  const segments = cut.split
+    ? cut.segments.map((seg, i) => ({
+        start: seg.start,
+        end: seg.end,
+        startReason: seg.startReason,
+        endReason: seg.endReason,
+        workingDays: seg.workingDays,
+        effectiveFrom: seg.effectiveFrom,
+        monthlySalary: monthlyFor(seg.rate),
+        perDayRate: seg.rate.perDayRate,
+        ...attendance({
+          ...seg,
+          last: i === cut.segments.length - 1,
+          manualDays: manualBySegment?.[i].workedDays,
+        }),
+      }))
+    : undefined;
+
+  // Cash advances
+  const half = head ? inferCurrentCutoffHalf(head) : "first";
+  const caList = cashAdvances[empId] || [];
+  const cashAdvance: PayrollInput["cashAdvance"] = {
+    totalAmount: sumPesos(...caList.map((c) => c.balance)),
+    perCutOff: sumPesos(...caList.map((c) => c.perCutOff)),
+    currentCutOff: half,
+    startDateCutOff: caList.length > 0 && caList.every((c) => c.startDateCutOff === "second") ? "second" : "first",
+    approved: caList.length > 0,
+    advances: caList,
+    // ✅ inject manual override if present
+    override: typeof ln.manualCashAdvance === "number" ? ln.manualCashAdvance : undefined,
+  };
+
+  // --- FREELANCER SHORT CIRCUIT ---
+  if (category === "freelancer") {
+    return {
+      monthlySalary: 0,
+      perDayRate: 0,
+      cutoffWorkingDays: 0,
+      workedDays: 0,
+      obQuantity: 0,
+      otHours: 0,
+      ndHours: 0,
+      rdotHours: 0,
+      holiday30Hours: 0,
+      holidayDoubleHours: 0,
+      holidayOtDoubleHours: 0,
+      tardinessMinutes: 0,
+      category: "freelancer",
+      benefits: { sss: false, philhealth: false, pagibig: false },
+      cashAdvance,
+      manualNetPay: ln.adjustmentsTotal || 0,
+      freelancerItems: freelancerItemsDue(meta.freelancerItems, toDateKey(head?.cutoffEnd), ctx.draftId),
+      ewtRate: typeof meta.ewtRate === "number" ? meta.ewtRate : undefined,
+      asOf: head?.cutoffEnd || null,
+      rules,
+      priorPeriodBalance: openCarry[empId]?.amount || 0,
+      loans: ctx.loans[empId],
+      recurringItems: ln.recurringItems,
+    };
+  }
+
+  // --- NORMAL EMPLOYEES ---
+  return {
+    // contributions follow the rate in effect at the end of the cutoff
+    monthlySalary: segments?.length ? segments[segments.length - 1].monthlySalary : normalizedMonthly,
+    perDayRate: meta.perDayRate,
+    cutoffWorkingDays: head?.workedDays || 0,
+    workedDays: whole.workedDays,
+    fixedWorkedDays: meta.fixedWorkedDays || 0,
+    obQuantity: whole.obEntries.length,
+    obEntries: whole.obEntries,
+    otHours: whole.otHours,
+    ndHours: 0,
+    rdotHours: whole.rdotHours, // ✅ merged (rest days that are not holidays)
+    premiumHours: whole.premiumHours,
+    unworkedHolidayDays: whole.unworkedHolidayDays,
+    holiday30Hours: 0,
+    holidayDoubleHours: 0,
+    holidayOtDoubleHours: 0,
+    tardinessMinutes: whole.tardinessMinutes,
+    absentDays: whole.absentDays,
+    undertimeMinutes: whole.undertimeMinutes,
+    segments,
+    category,
+    cutoffHalf: half,
+    asOf: head?.cutoffEnd || null,
+    rules,
+    pagibigVoluntary: meta.pagibigVoluntary || 0,
+    otherTaxableIncome: comm, // commissions are added outside the engine but are taxable
+    yearEnd: ln.yearEnd ? yearEndYtd(historyOf(ln, ctx)) : undefined,
+    priorPeriodBalance: openCarry[empId]?.amount || 0,
+    retroPay: openRetro[empId]?.amount || 0,
+    loans: ctx.loans[empId],
+    recurringItems: ln.recurringItems,
+    benefits: {
+      sss: meta.sss || false,
+      philhealth: meta.philhealth || false,
+      pagibig: meta.pagibig || false,
+    },
+    cashAdvance,
+  };
+}
+
+/* ========================================================================
+   PAYSLIP ROWS
+   ======================================================================== */
+const peso = (n: number) =>
+  `₱${(Number(n) || 0).toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+/** Earnings and deduction rows of a line's payslip; zero rows are dropped, so the row sums are the payslip totals. */
+export function payslipRows(
+  ln: DraftLine,
+  input: PayrollInput,
+  out: DraftLineOutput,
+  ctx: DraftContext
+): { earnings: PayslipRow[]; deductions: PayslipRow[] } {
+  const empId = String(ln.employeeId || ln.id).trim();
+  const comm = ctx.commissions[ln.id] || 0;
+
+  // ✅ detailed earnings
+  const thirteenth = lineThirteenthMonth(ln, ctx);
+  const retro = out.retroPay ? ctx.openRetro[empId]?.items || [] : [];
+  const earnings: PayslipRow[] = thirteenth
+    ? [
+        {
+          label: "13th Month Pay",
+          amount: out.thirteenthMonthPay,
+          note:
+            `${peso(thirteenth.basicPayEarned)} basic pay ÷ 12` +
+            (thirteenth.alreadyPaid ? ` − ${peso(thirteenth.alreadyPaid)} already released` : "") +
+            ` • exempt ${peso(thirteenth.exempt)} • taxable ${peso(thirteenth.taxable)}`,
+        },
+      ]
+    : [
+        ...(out.segments.length
+          ? out.segments.map((sg) => ({
+              label: `Basic Pay — ${sg.label}`,
+              amount: sg.cutoffPay,
+              rateDay: `${sg.dailyRate || 0}`,
+              note: `${input.category === "core" ? sg.workingDays : sg.workedDays} day(s) × ${peso(sg.dailyRate)}`,
+            }))
+          : [
+              {
+                label: "Basic Pay",
+                amount: out.cutoffPay,
+                rateDay: `${out.dailyRate || 0}`,
+                note: input.category === "core" ? `${peso(input.monthlySalary)} monthly ÷ 2` : undefined,
+              },
+            ]),
+        {
+          label: "Official Business (OB)",
+          amount: out.obPay,
+          note: `${input.obQuantity || 0} OBs${
+            out.obLines?.length ? ` (${out.obLines.map((l) => `${l.date ? `${l.date} ` : ""}${peso(l.rate)}`).join(", ")})` : ""
+          }`,
+        },
+        { label: "OT Pay", amount: out.otPay, note: `${input.otHours || 0} hrs × ${peso(out.otRate)}` },
+        {
+          label: "Holiday Pay",
+          amount: sumPesos(out.holiday30Pay, out.holidayDoublePay, out.holidayOtDoublePay, out.unworkedHolidayPay),
+          note: out.unworkedHolidayPay ? `incl. ${input.unworkedHolidayDays} unworked regular holiday(s)` : undefined,
+        },
+        { label: "Night Differential", amount: out.nightDiffPay, note: `${input.ndHours || 0} hrs` },
+        { label: "RDOT Pay", amount: out.rdotPay, note: `${input.rdotHours || 0} hrs` },
+        {
+          label: "Retro Pay",
+          amount: out.retroPay,
+          note: retro
+            .map((r) => `from ${r.effectiveFrom}: ${r.payslips.map((p) => p.cutoffLabel || p.periodKey).join(", ")}`)
+            .join(" • "),
+        },
+        ...out.freelancerItems.map((it) => ({
+          label: it.project,
+          amount: it.amount,
+          note: `${it.quantity} × ${peso(it.rate)}${it.deliveredOn ? ` • delivered ${it.deliveredOn}` : ""}`,
+        })),
+        {
+          label: "Freelance Payments",
+          amount: subtractPesos(out.freelancerFees, ...out.freelancerItems.map((it) => it.amount)),
+          note: (ln.projects || []).map((p) => `${p.project} ${p.qty} × ${peso(p.rate)}`).join(" • ") || undefined,
+        },
+        { label: "Commission", amount: roundPesos(comm) },
+        ...out.recurringItems
+          .filter((r) => r.kind === "earning")
+          .map((r) => ({ label: r.label, amount: r.amount, note: r.taxable ? "Taxable" : "Non-taxable" })),
+        ...(out.finalPay
+          ? [
+              {
+                label: "13th Month Pay (pro-rated)",
+                amount: out.thirteenthMonthPay,
+                note:
+                  `${peso(out.finalPay.thirteenthMonth.basicPayEarned)} basic pay ÷ 12` +
+                  (out.finalPay.thirteenthMonthAlreadyPaid
+                    ? ` − ${peso(out.finalPay.thirteenthMonthAlreadyPaid)} already released`
+                    : "") +
+                  ` • taxable ${peso(out.finalPay.thirteenthMonth.taxable)}`,
+              },
+              {
+                label: "Leave Conversion",
+                amount: out.finalPay.leaveConversionPay,
+                note: `${out.finalPay.leaveDays} day(s) × ${peso(out.finalPay.leaveDailyRate)}`,
+              },
+            ]
+          : []),
+      ];
+
+  // ✅ detailed deductions
+  const carried = out.priorPeriodBalance ? ctx.openCarry[empId]?.items || [] : [];
+  const deductions: PayslipRow[] = [
+    {
+      label: out.finalPay ? "Cash Advance Balance" : "Cash Advance",
+      amount: out.cashAdvanceDeduction,
+      note: out.cashAdvanceLines
+        .filter((c) => c.advanceId)
+        .map((c) => `Balance ${peso(c.balance)} → ${peso(c.balanceAfter)}`)
+        .join(" • ") || undefined,
+    },
+    {
+      label: "SSS",
+      amount: out.sss,
+      note: `MSC ${peso(out.sssMsc)} • ER share ${peso(out.sssEmployer)} (incl. EC ${peso(out.sssEc)})`,
+    },
+    {
+      label: "Pagibig",
+      amount: out.pagibig,
+      note:
+        `ER share ${peso(out.pagibigEmployer)}` +
+        (out.pagibigVoluntary ? ` • incl. voluntary ${peso(out.pagibigVoluntary)}` : ""),
+    },
+    { label: "Philhealth", amount: out.philhealth, note: `ER share ${peso(out.philhealthEmployer)}` },
+    { label: "Withholding Tax", amount: out.withholdingTax, note: `Taxable income ${peso(out.taxableIncome)}` },
+    {
+      label: "Expanded Withholding Tax (EWT)",
+      amount: out.expandedWithholdingTax,
+      note: `${out.ewtRate}% of ${peso(out.freelancerFees)} fees`,
+    },
+    {
+      label: out.finalPay
+        ? out.yearEndTaxAdjustment < 0 ? "Tax Refund" : "Tax Collection"
+        : out.yearEndTaxAdjustment < 0 ? "Year-end Tax Refund" : "Year-end Tax Adjustment",
+      amount: out.yearEndTaxAdjustment,
+      note: `Annual taxable ${peso(out.annualTaxableIncome)} • annual tax due ${peso(out.annualTaxDue)}`,
+    },
+    { label: "Tardiness / Lates", amount: out.tardinessDeduction, note: `${input.tardinessMinutes || 0} mins` },
+    { label: "Absences", amount: out.absenceDeduction, note: `${out.absentDays} day(s)` },
+    { label: "Undertime", amount: out.undertimeDeduction, note: `${out.undertimeMinutes} mins` },
+    {
+      label: "Prior Period Balance",
+      amount: out.priorPeriodBalance,
+      note: carried.length
+        ? `Unrecovered from ${carried.map((cf) => cf.sourceCutoffLabel || cf.sourcePeriodKey).join(", ")}`
+        : undefined,
+    },
+    ...out.loanDeductions.map((l) => ({
+      label: l.label,
+      amount: l.amount,
+      note: `Balance ${peso(l.balance)} → ${peso(l.balanceAfter)}`,
+    })),
+    ...out.recurringItems.filter((r) => r.kind === "deduction").map((r) => ({ label: r.label, amount: r.amount })),
+    { label: "Other Loans", amount: out.finalPay?.loanBalance || 0 },
+  ];
+
+  return {
+    earnings: earnings.filter((e) => e.amount && e.amount !== 0),
+    deductions: deductions.filter((d) => d.amount && d.amount !== 0),
+  };
+}
@@ -0,0 +1,207 @@
+// src/utils/finalPay.ts
+// Final pay for separating employees (payrollDrafts.type === "final_pay"). The unpaid days up to the separation
+// date go through calculatePayroll like any cutoff; the pro-rated 13th month and converted leave credits are added
+// on top, the year's tax is annualized, and whatever the employee still owes is netted out.
+import { calculatePayroll, type PayrollInput, type PayrollOutput, type TraceStep } from "./payrollLogic";
+import {
+  basicPayEarned,
+  computeThirteenthMonth,
+  thirteenthMonthDue,
+  THIRTEENTH_MONTH_EXEMPT_CEILING,
+  type ThirteenthMonthResult,
+} from "./thirteenthMonth";
+import { multiplyPesos, roundPesos, subtractPesos, sumPesos } from "./money";
+import { countWorkdays } from "./paySegments";
+import type { YtdTax } from "./withholdingTax";
+
+/** Monetized unused vacation leave up to this many days is a de minimis benefit. */
+export const LEAVE_CONVERSION_EXEMPT_DAYS = 10;
+
+/** What finance picks on a final-pay line (payrollDrafts/{id}/lines/{employeeId}.finalPay); the amounts are derived. */
+export interface FinalPaySelection {
+  separationDate: string; // YYYY-MM-DD, last day employed
+  reason?: string;
+  daysWorked: number; // workdays worked after the last payslip, spread over the unpaid segments
+  leaveDays: number; // unused leave credits to convert
+  loanBalance: number; // loans not recorded in /loans
+}
+
+/**
+ * A final pay run's inputs, derived from the selection, the employees doc and the employee's payslips
+ * (finalPaySetup in draftPayroll); kept on the payslip as details.finalPaySetup.
+ */
+export interface FinalPaySetup {
+  separationDate: string; // YYYY-MM-DD, last day employed
+  lastPaidThrough: string | null; // cutoff end of the last regular payslip
+  reason?: string;
+  salary: PayrollInput; // the unpaid days, lastPaidThrough + 1 → separationDate
+  thirteenth: {
+    year: number;
+    basicPayEarned: number; // regular payslips this year, before the last salary
+    payslipCount: number;
+    alreadyPaid: number; // 13th month released earlier this year
+    exemptUsed: number; // part of the ₱90,000 ceiling those releases used
+  };
+  leave: { days: number; dailyRate: number };
+  cashAdvanceBalance: number; // open advances at setup; the draft deducts their live balances instead
+  loanBalance: number; // loans not recorded in /loans (those come in as salary.loans)
+  ytd: Pick<YtdTax, "ytdTaxableIncome" | "ytdWithholdingTax">;
+}
+
+export interface FinalPayBreakdown {
+  separationDate: string;
+  lastPaidThrough: string | null;
+  lastSalary: number; // gross for the unpaid days
+  thirteenthMonth: ThirteenthMonthResult; // what is paid now (after earlier releases)
+  thirteenthMonthAlreadyPaid: number;
+  leaveDays: number;
+  leaveDailyRate: number;
+  leaveConversionPay: number;
+  leaveConversionExempt: number;
+  cashAdvanceBalance: number;
+  loanBalance: number; // other loans; /loans balances are in loanDeductions
+  taxRefund: number; // withheld this year beyond the annual tax due
+  balanceDue: number; // deductions beyond gross — still owed by the employee
+}
+
+export interface FinalPayOutput extends PayrollOutput {
+  finalPay: FinalPayBreakdown;
+}
+
+/** Unused leave credits × daily rate; days past the de minimis limit share the ₱90,000 ceiling with the 13th month. */
+function convertLeave(days: number, dailyRate: number, ceilingLeft: number) {
+  const d = Math.max(0, Number(days) || 0);
+  const amount = multiplyPesos(Math.max(0, Number(dailyRate) || 0), d);
+  const deMinimis = multiplyPesos(Math.max(0, Number(dailyRate) || 0), Math.min(d, LEAVE_CONVERSION_EXEMPT_DAYS));
+  const excess = subtractPesos(amount, deMinimis);
+  const excessExempt = Math.min(excess, ceilingLeft);
+  return { amount, exempt: sumPesos(deMinimis, excessExempt), taxable: subtractPesos(excess, excessExempt) };
+}
+
+export function calculateFinalPay(setup: FinalPaySetup): FinalPayOutput {
+  const salary = setup.salary;
+
+  // 1. 13th month on the year's basic pay including the last salary, less what was already released
+  const lastBasic = basicPayEarned(calculatePayroll({ ...salary, yearEnd: undefined }));
+  const t = setup.thirteenth;
+  const full = computeThirteenthMonth(t.year, sumPesos(t.basicPayEarned, lastBasic), t.payslipCount + 1);
+  const thirteenthMonth = thirteenthMonthDue(full, t.alreadyPaid, t.exemptUsed);
+  const alreadyPaid = thirteenthMonth.alreadyPaid || 0;
+  const ceilingLeft = Math.max(0, THIRTEENTH_MONTH_EXEMPT_CEILING - (Number(t.exemptUsed) || 0));
+  const thirteenthExempt = thirteenthMonth.exempt;
+
+  // 2. Leave conversion
+  const leave = convertLeave(setup.leave.days, setup.leave.dailyRate, subtractPesos(ceilingLeft, thirteenthExempt));
+
+  // 3. Last salary with the taxable benefits, annualized; the remaining cash advances and loans are deducted in
+  //    full — from the advances' own balances when they are known, else the balance entered at setup
+  const half = salary.cashAdvance.currentCutOff;
+  const caBalance = Math.max(0, Number(setup.cashAdvanceBalance) || 0);
+  const out = calculatePayroll({
+    ...salary,
+    loans: salary.loans?.map((l) => ({ ...l, amortization: l.balance })),
+    otherTaxableIncome: sumPesos(Number(salary.otherTaxableIncome) || 0, thirteenthMonth.taxable, leave.taxable),
+    yearEnd: setup.ytd,
+    cashAdvance: {
+      ...salary.cashAdvance,
+      override: undefined,
+      advances: salary.cashAdvance.advances
+        ? salary.cashAdvance.advances.map((a) => ({ ...a, perCutOff: a.balance, startDateCutOff: half }))
+        : [{ advanceId: "", perCutOff: caBalance, balance: caBalance, startDateCutOff: half }],
+    },
+  });
+
+  // 4. Totals — nothing is carried to a next cutoff; a shortfall is a balance the employee owes
+  const loanBalance = Math.max(0, roundPesos(Number(setup.loanBalance) || 0));
+  const grossEarnings = sumPesos(out.grossEarnings, thirteenthMonth.amount, leave.amount);
+  const totalDeductions = sumPesos(out.totalDeductions, loanBalance);
+  const netPay = Math.max(0, subtractPesos(grossEarnings, totalDeductions));
+  const balanceDue = Math.max(0, subtractPesos(totalDeductions, grossEarnings));
+  const taxRefund = Math.max(0, -sumPesos(out.withholdingTax, out.yearEndTaxAdjustment));
+
+  const steps: TraceStep[] = out.trace.steps.filter(
+    (s) => !["totalDeductions", "netPay", "unrecoveredDeductions"].includes(s.key)
+  );
+  steps.push({
+    key: "thirteenthMonthPay",
+    label: "13th Month Pay (pro-rated)",
+    value: thirteenthMonth.amount,
+    formula: "basic pay earned this year incl. last salary ÷ 12 − 13th month already released",
+    inputs: { basicPayEarned: full.basicPayEarned, lastSalaryBasic: lastBasic, alreadyPaid, exempt: thirteenthExempt },
+  });
+  if (leave.amount) {
+    steps.push({
+      key: "leaveConversionPay",
+      label: "Leave conversion",
+      value: leave.amount,
+      formula: `unused leave days × daily rate (first ${LEAVE_CONVERSION_EXEMPT_DAYS} days de minimis)`,
+      inputs: { days: setup.leave.days, dailyRate: setup.leave.dailyRate, exempt: leave.exempt },
+    });
+  }
+  if (loanBalance) {
+    steps.push({ key: "loanBalance", label: "Other loans", value: loanBalance, formula: "outstanding balance, deducted in full" });
+  }
+  steps.push(
+    {
+      key: "totalDeductions",
+      label: "Total deductions",
+      value: totalDeductions,
+      formula: "last salary deductions (incl. annualized tax, cash advance and loan balances) + other loans",
+      inputs: { salaryDeductions: out.totalDeductions, loanBalance },
+    },
+    {
+      key: "netPay",
+      label: "Final pay",
+      value: netPay,
+      formula: "max(0, gross − total deductions)",
+      inputs: { grossEarnings, totalDeductions },
+    }
+  );
+  if (balanceDue) {
+    steps.push({
+      key: "balanceDue",
+      label: "Balance due from employee",
+      value: balanceDue,
+      formula: "total deductions − gross",
+      inputs: { totalDeductions, grossEarnings },
+    });
+  }
+
+  return {
+    ...out,
+    thirteenthMonthPay: thirteenthMonth.amount,
+    grossEarnings,
+    totalDeductions,
+    unrecoveredDeductions: 0,
+    netPay,
+    trace: { ...out.trace, steps },
+    finalPay: {
+      separationDate: setup.separationDate,
+      lastPaidThrough: setup.lastPaidThrough,
+      lastSalary: out.grossEarnings,
+      thirteenthMonth,
+      thirteenthMonthAlreadyPaid: alreadyPaid,
+      leaveDays: Math.max(0, Number(setup.leave.days) || 0),
+      leaveDailyRate: Math.max(0, Number(setup.leave.dailyRate) || 0),
+      leaveConversionPay: leave.amount,
+      leaveConversionExempt: leave.exempt,
+      cashAdvanceBalance: out.cashAdvanceDeduction,
+      loanBalance,
+      taxRefund,
+      balanceDue,
+    },
+  };
+}
+
+/** Spreads the days worked over the unpaid segments, earliest first. */
+export function allocateWorkedDays<T extends { start: string; end: string }>(
+  segments: T[],
+  daysWorked: number
+): Array<T & { workedDays: number }> {
+  let left = Math.max(0, Number(daysWorked) || 0);
+  return segments.map((s) => {
+    const take = Math.min(left, countWorkdays(s.start, s.end));
+    left -= take;
+    return { ...s, workedDays: take };
+  });
+}
@@ -0,0 +1,48 @@
+// src/utils/freelancerPay.ts
+// Freelancer deliverables (employees.freelancerItems): project × quantity × rate. An item is paid on the first
+// regular cutoff ending on or after its delivery date once finance approves it; final approval marks it paid so it
+// is never priced twice. calculatePayroll withholds expanded withholding tax (EWT) on the fees instead of
+// contributions and compensation tax.
+import type { FreelancerPayItemInput } from "./payrollLogic";
+
+export type FreelancerItemStatus = "pending" | "approved" | "paid";
+
+export interface FreelancerItem {
+  id: string;
+  project: string;
+  quantity: number;
+  rate: number;
+  deliveredOn?: string | null; // YYYY-MM-DD
+  status?: FreelancerItemStatus; // missing = pending (items saved before approval existed)
+  paidDraftId?: string | null;
+  paidPayslipId?: string | null;
+}
+
+export const FREELANCER_ITEM_STATUSES: Record<FreelancerItemStatus, string> = {
+  pending: "Pending approval",
+  approved: "Approved",
+  paid: "Paid",
+};
+
+/**
+ * Approved items delivered by `cutoffEnd` (YYYY-MM-DD) and not yet paid. Items already marked paid by `draftId`
+ * stay in, so a draft re-read after its own approval still shows what it paid.
+ */
+export function freelancerItemsDue(
+  items: FreelancerItem[] | undefined,
+  cutoffEnd: string | null,
+  draftId?: string | null
+): FreelancerPayItemInput[] {
+  if (!cutoffEnd) return [];
+  return (items || [])
+    .filter((it) => it.id && it.deliveredOn && it.deliveredOn <= cutoffEnd)
+    .filter((it) => it.status === "approved" || (it.status === "paid" && !!draftId && it.paidDraftId === draftId))
+    .filter((it) => Number(it.quantity) > 0 && Number(it.rate) > 0)
+    .map((it) => ({
+      itemId: it.id,
+      project: it.project || "Project",
+      quantity: Number(it.quantity),
+      rate: Number(it.rate),
+      deliveredOn: it.deliveredOn || null,
+    }));
+}
@@ -0,0 +1,93 @@
+// src/utils/holidays.ts
+// Company holidays (/holidays, snapshotted onto drafts as financeConfig.holidays) and day classification
+// for the premium pay matrix.
+import type { DayType } from "./premiumPay";
+
+export type HolidayType = "regular" | "special_non_working" | "special_working";
+
+export const HOLIDAY_TYPES: { key: HolidayType; label: string }[] = [
+  { key: "regular", label: "Regular holiday" },
+  { key: "special_non_working", label: "Special non-working" },
+  { key: "special_working", label: "Special working" },
+];
+
+export interface HolidayLite {
+  name: string;
+  date: string; // YYYY-MM-DD
+  recurring: boolean;
+  type?: HolidayType; // missing on older entries → treated as regular
+}
+
+const localKey = (d: Date) =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+
+/**
+ * Normalizes "MM/DD/YYYY", "YYYY-MM-DD" or anything Date can parse to a local YYYY-MM-DD key.
+ * Full ISO timestamps (cutoffStart/cutoffEnd are local midnight saved as UTC) go through Date so they land on the local day.
+ */
+export function toDateKey(v: unknown): string | null {
+  if (!v) return null;
+  if (v instanceof Date) return isNaN(v.getTime()) ? null : localKey(v);
+  const s = String(v).trim();
+  const us = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(s);
+  if (us) return `${us[3]}-${us[1].padStart(2, "0")}-${us[2].padStart(2, "0")}`;
+  if (/^\d{4}-\d{2}-\d{2}$/.test(s)) return s;
+  const d = new Date(s);
+  return isNaN(d.getTime()) ? null : localKey(d);
+}
+
+/** Holidays falling on `dateKey` (recurring ones match on month/day). */
+export function holidaysOn(dateKey: string, holidays: HolidayLite[]): HolidayLite[] {
+  return holidays.filter((h) =>
+    h.recurring ? h.date.slice(5, 10) === dateKey.slice(5, 10) : h.date.slice(0, 10) === dateKey
+  );
+}
+
+/** Saturday/Sunday — the same rest days the cutoff's working-day count uses. */
+export function isRestDay(dateKey: string): boolean {
+  const [y, m, d] = dateKey.split("-").map(Number);
+  const day = new Date(y, m - 1, d).getDay();
+  return day === 0 || day === 6;
+}
+
+/** Premium matrix day type for a date. Special working holidays are paid as ordinary days. */
+export function classifyDay(dateKey: string, holidays: HolidayLite[], restDay = isRestDay(dateKey)): DayType {
+  const hits = holidaysOn(dateKey, holidays);
+  const regular = hits.filter((h) => (h.type || "regular") === "regular").length;
+  const special = hits.some((h) => h.type === "special_non_working");
+
+  if (regular >= 2) return restDay ? "double_holiday_rest_day" : "double_holiday";
+  if (regular === 1) return restDay ? "regular_holiday_rest_day" : "regular_holiday";
+  if (special) return restDay ? "special_rest_day" : "special";
+  return restDay ? "rest_day" : "regular";
+}
+
+/**
+ * Regular holidays in [start, end] that fall on workdays, with how many regular holidays share the date
+ * (2 = double holiday, paid 200% even when unworked).
+ */
+export function regularHolidaysInRange(start: Date, end: Date, holidays: HolidayLite[]): { date: string; count: number }[] {
+  const out: { date: string; count: number }[] = [];
+  const cur = new Date(start.getFullYear(), start.getMonth(), start.getDate());
+  while (cur <= end) {
+    const key = localKey(cur);
+    if (!isRestDay(key)) {
+      const count = holidaysOn(key, holidays).filter((h) => (h.type || "regular") === "regular").length;
+      if (count) out.push({ date: key, count });
+    }
+    cur.setDate(cur.getDate() + 1);
+  }
+  return out;
+}
+
+/** The last workday (not a rest day or holiday) before `dateKey`. */
+export function previousWorkday(dateKey: string, holidays: HolidayLite[]): string {
+  const [y, m, d] = dateKey.split("-").map(Number);
+  const cur = new Date(y, m - 1, d);
+  for (let i = 0; i < 14; i++) {
+    cur.setDate(cur.getDate() - 1);
+    const key = localKey(cur);
+    if (!isRestDay(key) && !holidaysOn(key, holidays).some((h) => h.type !== "special_working")) return key;
+  }
+  return localKey(cur);
+}
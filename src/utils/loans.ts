@@ -0,0 +1,67 @@
+// src/utils/loans.ts
+// Amortized loans (/loans): SSS, Pag-IBIG and company loans deducted every cutoff from their start cutoff until the
+// balance is paid. calculatePayroll prices one line per loan; final approval posts each deduction to
+// loans/{id}/ledger and lowers the balance, closing the loan at zero.
+import type { LoanDeductionInput } from "./payrollLogic";
+
+export type LoanType = "sss_salary" | "sss_calamity" | "pagibig_mpl" | "pagibig_calamity" | "company";
+
+export const LOAN_TYPES: Record<LoanType, string> = {
+  sss_salary: "SSS Salary Loan",
+  sss_calamity: "SSS Calamity Loan",
+  pagibig_mpl: "Pag-IBIG Multi-Purpose Loan",
+  pagibig_calamity: "Pag-IBIG Calamity Loan",
+  company: "Company Loan",
+};
+
+export interface Loan {
+  id: string;
+  employeeId: string; // employees doc id (payroll line employeeId)
+  employeeName: string;
+  type: LoanType;
+  reference?: string | null; // SSS / Pag-IBIG loan number
+  principal: number;
+  amortization: number; // per cutoff
+  startCutoff: string; // YYYY-MM-DD, start of the first cutoff deducted
+  balance: number;
+  status: "active" | "paid" | "cancelled";
+  note?: string | null;
+  createdAt?: unknown;
+  createdBy?: string | null;
+  paidAt?: unknown;
+}
+
+/** One posted deduction (loans/{id}/ledger). */
+export interface LoanLedgerEntry {
+  id: string;
+  amount: number;
+  balanceBefore: number;
+  balanceAfter: number;
+  draftId: string;
+  periodKey: string;
+  cutoffLabel?: string | null;
+  payslipId: string;
+  postedAt?: unknown;
+  postedBy?: string | null;
+}
+
+export function loanLabel(l: Pick<Loan, "type" | "reference">): string {
+  const name = LOAN_TYPES[l.type] || "Loan";
+  return l.reference ? `${name} #${l.reference}` : name;
+}
+
+/** Loans due in a cutoff ending `cutoffEnd`, per employee, as engine inputs. */
+export function dueLoans(list: Loan[], cutoffEnd: string | null): Record<string, LoanDeductionInput[]> {
+  const out: Record<string, LoanDeductionInput[]> = {};
+  for (const l of list) {
+    if (l.status !== "active" || !(Number(l.balance) > 0)) continue;
+    if (cutoffEnd && l.startCutoff && l.startCutoff > cutoffEnd) continue;
+    (out[l.employeeId] ||= []).push({
+      loanId: l.id,
+      label: loanLabel(l),
+      amortization: Number(l.amortization) || 0,
+      balance: Number(l.balance) || 0,
+    });
+  }
+  return out;
+}
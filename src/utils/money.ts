@@ -0,0 +1,51 @@
+// src/utils/money.ts
+// Money arithmetic in integer centavos.
+//
+// Amounts are still stored and passed around as pesos, but every peso value the payroll engine
+// produces is rounded to the centavo exactly once, and every sum/difference is done in centavos,
+// so payslip lines always add up to their totals.
+//
+// Rounding policy (half away from zero, to the centavo):
+//   • rates (daily rate, hourly rate) are NOT rounded — they only feed amounts
+//   • each earning / deduction component is rounded once, where it is computed
+//   • premium hour lines are rounded per line; the category totals are sums of those lines
+//   • monthly contributions are rounded per schedule, then split with the second half taking the remainder
+//   • gross, total deductions and net are sums/differences of already-rounded components
+export type Centavos = number; // always an integer
+
+/** Pesos → centavos, half away from zero. Tolerates float noise like 1.005 * 100 = 100.49999… */
+export function toCentavos(pesos: number): Centavos {
+  const raw = Number(pesos) || 0;
+  const scaled = Number((Math.abs(raw) * 100).toFixed(6));
+  const c = Math.round(scaled);
+  return raw < 0 ? -c : c;
+}
+
+export function toPesos(c: Centavos): number {
+  return c / 100;
+}
+
+/** Rounds a peso amount to the centavo. */
+export function roundPesos(pesos: number): number {
+  return toPesos(toCentavos(pesos));
+}
+
+/** Rounds a peso amount down to the centavo (PhilHealth employee share). */
+export function floorPesos(pesos: number): number {
+  return toPesos(Math.floor(Number(((Number(pesos) || 0) * 100).toFixed(6))));
+}
+
+/** Exact sum of peso amounts (each rounded to the centavo first). */
+export function sumPesos(...amounts: number[]): number {
+  return toPesos(amounts.reduce((s, a) => s + toCentavos(a), 0));
+}
+
+/** Exact `a − b − c …` in pesos. */
+export function subtractPesos(a: number, ...bs: number[]): number {
+  return toPesos(bs.reduce((s, b) => s - toCentavos(b), toCentavos(a)));
+}
+
+/** Exact `pesos × quantity`, rounded once. */
+export function multiplyPesos(pesos: number, quantity: number): number {
+  return roundPesos((Number(pesos) || 0) * (Number(quantity) || 0));
+}
@@ -0,0 +1,75 @@
+// src/utils/obRates.ts
+// Official business (OB) rate catalog — settings/obRates.schedules, effective-dated.
+// Resolution order: employee override (employees.obRates) → intern rate → company default for the category.
+import { pickEffective, type EffectiveDated } from "./contributions";
+
+export type ObCategoryKey = "assisted" | "videographer" | "talent";
+
+export const OB_CATEGORIES: { key: ObCategoryKey; label: string }[] = [
+  { key: "assisted", label: "Assisted" },
+  { key: "videographer", label: "Videographer" },
+  { key: "talent", label: "Talent" },
+];
+
+export interface ObRateSchedule extends EffectiveDated {
+  rates: Record<ObCategoryKey, number>; // company default per category
+  internRate: number; // interns, any category
+}
+
+export const DEFAULT_OB_RATE_SCHEDULES: ObRateSchedule[] = [
+  {
+    effectiveFrom: "2023-01-01",
+    rates: { assisted: 1500, videographer: 2500, talent: 2000 },
+    internRate: 500,
+  },
+];
+
+export interface ResolvedObRate {
+  category: ObCategoryKey;
+  rate: number;
+  source: "employee" | "intern" | "company";
+  effectiveFrom?: string; // catalog entry used (company / intern)
+}
+
+/** Maps stored labels and legacy request categories ("shoot", "Videographer", …) to a catalog key. */
+export function normalizeObCategory(raw?: string | null): ObCategoryKey {
+  const s = String(raw || "").toLowerCase();
+  if (s.includes("video") || s.includes("shoot")) return "videographer";
+  if (s.includes("talent")) return "talent";
+  return "assisted";
+}
+
+/** Per-employee override from employees.obRates (matched by category key or label). */
+export function employeeObOverride(
+  obRates: Array<{ category?: string; rate?: number }> | undefined,
+  key: ObCategoryKey
+): number | undefined {
+  const label = OB_CATEGORIES.find((c) => c.key === key)?.label.toLowerCase();
+  const hit = (obRates || []).find((r) => {
+    const c = String(r.category || "").toLowerCase().trim();
+    return c === key || c === label;
+  });
+  return hit && Number(hit.rate) > 0 ? Number(hit.rate) : undefined;
+}
+
+export function resolveObRate(opts: {
+  category?: string | null;
+  isIntern?: boolean;
+  employeeRates?: Array<{ category?: string; rate?: number }>;
+  schedules?: ObRateSchedule[];
+  asOf?: string | null;
+}): ResolvedObRate {
+  const category = normalizeObCategory(opts.category);
+  const override = employeeObOverride(opts.employeeRates, category);
+  if (override !== undefined) return { category, rate: override, source: "employee" };
+
+  const schedule = pickEffective(opts.schedules?.length ? opts.schedules : DEFAULT_OB_RATE_SCHEDULES, opts.asOf);
+  if (!schedule) return { category, rate: 0, source: "company" };
+  if (opts.isIntern) return { category, rate: schedule.internRate, source: "intern", effectiveFrom: schedule.effectiveFrom };
+  return {
+    category,
+    rate: Number(schedule.rates?.[category] || 0),
+    source: "company",
+    effectiveFrom: schedule.effectiveFrom,
+  };
+}
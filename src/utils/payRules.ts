@@ -0,0 +1,135 @@
+// src/utils/payRules.ts
+// Pay rule versions. Company constants live in /payRules (one doc per effectiveFrom); statutory tables
+// (settings/statutory) and the OB catalog (settings/obRates) keep their own effective-dated lists.
+// `resolvePayRules` picks everything in effect on a date into one rule set. Drafts pin that set on their
+// cutoffEnd (payrollDrafts.payRules), so editing settings never changes the numbers of a draft already opened.
+import {
+  DEFAULT_PAGIBIG_SCHEDULES,
+  DEFAULT_PHILHEALTH_SCHEDULES,
+  DEFAULT_SSS_SCHEDULES,
+  pickEffective,
+  type EffectiveDated,
+  type PagibigSchedule,
+  type PhilhealthSchedule,
+  type SssSchedule,
+  type StatutoryTables,
+} from "./contributions";
+import {
+  DEFAULT_ANNUAL_TAX_TABLES,
+  DEFAULT_WITHHOLDING_TABLES,
+  type AnnualTaxTable,
+  type WithholdingTable,
+} from "./withholdingTax";
+import { resolvePremiumMatrix, type PremiumMatrix } from "./premiumPay";
+import { DEFAULT_OB_RATE_SCHEDULES, type ObRateSchedule } from "./obRates";
+
+export interface CompanyPayRules extends EffectiveDated {
+  internDailyAllowance: number; // interns without an allowance on file
+  ownerCutoffPay: number; // fixed owner pay per cutoff
+  freelancerEwtRate?: number; // % expanded withholding on freelancer fees (versions saved before it use the default)
+}
+
+/** EWT on professional fees of individuals without a sworn declaration of gross income ≤ ₱3M. */
+export const DEFAULT_FREELANCER_EWT_RATE = 10;
+
+export const DEFAULT_COMPANY_PAY_RULES: CompanyPayRules[] = [
+  { effectiveFrom: "2023-01-01", internDailyAllowance: 125, ownerCutoffPay: 60000, freelancerEwtRate: DEFAULT_FREELANCER_EWT_RATE },
+];
+
+export type RuleSource = "settings" | "default";
+
+export interface PayRuleSet {
+  version: string; // the entries picked, e.g. "company@2023-01-01 sss@2025-01-01 … premium@1c9a04f2 #5e0b77d1"
+  asOf: string; // YYYY-MM-DD the set was resolved for
+  company: CompanyPayRules;
+  sss: SssSchedule;
+  philhealth: PhilhealthSchedule;
+  pagibig: PagibigSchedule;
+  withholding: WithholdingTable;
+  annualTax: AnnualTaxTable;
+  premiumMatrix: PremiumMatrix;
+  obRates: ObRateSchedule;
+  sources: Record<Exclude<keyof PayRuleSet, "version" | "asOf" | "sources">, RuleSource>;
+}
+
+export interface PayRuleSources {
+  company?: CompanyPayRules[]; // /payRules
+  statutory?: StatutoryTables; // settings/statutory
+  obRates?: ObRateSchedule[]; // settings/obRates.schedules
+}
+
+/** JSON with sorted keys — Firestore does not keep map key order, so compare rule sets this way. */
+export function stableKey(v: unknown): string {
+  return v && typeof v === "object"
+    ? Array.isArray(v)
+      ? `[${v.map(stableKey).join(",")}]`
+      : `{${Object.keys(v as Record<string, unknown>)
+          .sort()
+          .map((k) => `${JSON.stringify(k)}:${stableKey((v as Record<string, unknown>)[k])}`)
+          .join(",")}}`
+    : JSON.stringify(v);
+}
+
+// 32-bit FNV-1a of the stable JSON: short enough for a label, changes with any priced value
+function fingerprint(v: unknown): string {
+  let h = 0x811c9dc5;
+  for (const ch of stableKey(v)) {
+    h ^= ch.codePointAt(0) || 0;
+    h = Math.imul(h, 0x01000193) >>> 0;
+  }
+  return h.toString(16).padStart(8, "0");
+}
+
+function pick<T extends EffectiveDated>(configured: T[] | undefined, defaults: T[], asOf: string): T {
+  return pickEffective(configured?.length ? configured : defaults, asOf) as T;
+}
+
+/** Everything in effect on `asOf` (today when missing), settings first, code defaults otherwise. */
+export function resolvePayRules(src: PayRuleSources, asOf?: string | null): PayRuleSet {
+  const day = (asOf ? String(asOf) : new Date().toISOString()).slice(0, 10);
+  const st = src.statutory || {};
+
+  const company = pick(src.company, DEFAULT_COMPANY_PAY_RULES, day);
+  const sss = pick(st.sss, DEFAULT_SSS_SCHEDULES, day);
+  const philhealth = pick(st.philhealth, DEFAULT_PHILHEALTH_SCHEDULES, day);
+  const pagibig = pick(st.pagibig, DEFAULT_PAGIBIG_SCHEDULES, day);
+  const withholding = pick(st.withholding, DEFAULT_WITHHOLDING_TABLES, day);
+  const annualTax = pick(st.annualTax, DEFAULT_ANNUAL_TAX_TABLES, day);
+  const obRates = pick(src.obRates, DEFAULT_OB_RATE_SCHEDULES, day);
+  const premiumMatrix = resolvePremiumMatrix(st.premiumMatrix);
+  const configured = (v: unknown): RuleSource => (v && (!Array.isArray(v) || v.length) ? "settings" : "default");
+
+  return {
+    version: [
+      `company@${company.effectiveFrom}`,
+      `sss@${sss.effectiveFrom}`,
+      `philhealth@${philhealth.effectiveFrom}`,
+      `pagibig@${pagibig.effectiveFrom}`,
+      `bir@${withholding.effectiveFrom}`,
+      `annual@${annualTax.effectiveFrom}`,
+      `ob@${obRates.effectiveFrom}`,
+      `premium@${fingerprint(premiumMatrix)}`, // not effective-dated
+      // every priced value, so an entry edited in place under the same date still changes the version
+      `#${fingerprint({ company, sss, philhealth, pagibig, withholding, annualTax, premiumMatrix, obRates })}`,
+    ].join(" "),
+    asOf: day,
+    company,
+    sss,
+    philhealth,
+    pagibig,
+    withholding,
+    annualTax,
+    premiumMatrix,
+    obRates,
+    sources: {
+      company: configured(src.company),
+      sss: configured(st.sss),
+      philhealth: configured(st.philhealth),
+      pagibig: configured(st.pagibig),
+      withholding: configured(st.withholding),
+      annualTax: configured(st.annualTax),
+      premiumMatrix: configured(st.premiumMatrix),
+      obRates: configured(src.obRates),
+    },
+  };
+}
@@ -0,0 +1,147 @@
+// src/utils/paySegments.ts
+// Cutoff segments for mid-cutoff hires, separations and pay changes. A cutoff is cut at the hire date, the day
+// after separation and every compensation change (employees.compensationHistory); each piece is priced at the
+// rate in effect and the engine adds them up into one payslip.
+import { pickEffective, type EffectiveDated } from "./contributions";
+import { isRestDay, toDateKey } from "./holidays";
+
+/** One pay change on the employee record, effective from its date until the next one. */
+export interface CompensationChange extends EffectiveDated {
+  monthlySalary?: number;
+  perDayRate?: number;
+  allowancePerDay?: number;
+  note?: string;
+  recordedAt?: string;
+}
+
+export interface CompensationRate {
+  monthlySalary: number;
+  perDayRate: number;
+  allowancePerDay?: number;
+}
+
+export type SegmentBoundary = "cutoff" | "hire" | "separation" | "rate_change";
+
+export interface CutoffSegment {
+  start: string; // YYYY-MM-DD, inclusive
+  end: string; // YYYY-MM-DD, inclusive
+  startReason: SegmentBoundary;
+  endReason: SegmentBoundary;
+  workingDays: number; // Mon–Fri in the segment, holidays included
+  rate: CompensationRate;
+  effectiveFrom?: string; // compensationHistory entry the rate came from
+}
+
+const addDays = (key: string, n: number) => {
+  const [y, m, d] = key.split("-").map(Number);
+  const dt = new Date(y, m - 1, d + n);
+  return `${dt.getFullYear()}-${String(dt.getMonth() + 1).padStart(2, "0")}-${String(dt.getDate()).padStart(2, "0")}`;
+};
+
+/** Mon–Fri in [start, end]. */
+export function countWorkdays(start: string, end: string): number {
+  let n = 0;
+  for (let k = start; k <= end; k = addDays(k, 1)) if (!isRestDay(k)) n += 1;
+  return n;
+}
+
+/** Semi-monthly cutoff (26–10 / 11–25) a date falls in. */
+export function cutoffContaining(dateKey: string): { start: string; end: string; half: "first" | "second" } {
+  const [y, m, d] = dateKey.split("-").map(Number);
+  const key = (dt: Date) =>
+    `${dt.getFullYear()}-${String(dt.getMonth() + 1).padStart(2, "0")}-${String(dt.getDate()).padStart(2, "0")}`;
+  if (d >= 11 && d <= 25) return { start: key(new Date(y, m - 1, 11)), end: key(new Date(y, m - 1, 25)), half: "second" };
+  const startMonth = d >= 26 ? m - 1 : m - 2;
+  return {
+    start: key(new Date(y, startMonth, 26)),
+    end: key(new Date(y, startMonth + 1, 10)),
+    half: "first",
+  };
+}
+
+/** Rate on a date: the latest history entry on or before it, the employee's current fields otherwise. */
+export function rateOn(date: string, current: CompensationRate, history: CompensationChange[] = []): {
+  rate: CompensationRate;
+  effectiveFrom?: string;
+} {
+  const hit = history.length ? pickEffective(history, date) : null;
+  if (!hit || hit.effectiveFrom > date) return { rate: current };
+  return {
+    rate: {
+      monthlySalary: Number(hit.monthlySalary ?? current.monthlySalary) || 0,
+      perDayRate: Number(hit.perDayRate ?? current.perDayRate) || 0,
+      allowancePerDay: hit.allowancePerDay ?? current.allowancePerDay,
+    },
+    effectiveFrom: hit.effectiveFrom,
+  };
+}
+
+/**
+ * Splits [start, end] into priced segments. `split` is false when the whole cutoff is one segment at one rate
+ * (the usual case) — callers then compute the line as before. An employee not employed at all in the cutoff
+ * gets `split: true` with no segments.
+ */
+export function splitCutoff(opts: {
+  start: unknown;
+  end: unknown;
+  hireDate?: unknown;
+  separationDate?: unknown;
+  history?: CompensationChange[];
+  current: CompensationRate;
+}): { split: boolean; segments: CutoffSegment[] } {
+  const start = toDateKey(opts.start);
+  const end = toDateKey(opts.end);
+  if (!start || !end) return { split: false, segments: [] };
+
+  const hire = toDateKey(opts.hireDate);
+  const separation = toDateKey(opts.separationDate);
+  const from = hire && hire > start ? hire : start;
+  const to = separation && separation < end ? separation : end;
+  if (from > to) return { split: true, segments: [] };
+
+  const history = (opts.history || []).filter((h) => toDateKey(h.effectiveFrom));
+  const cuts = history
+    .map((h) => toDateKey(h.effectiveFrom) as string)
+    .filter((k) => k > from && k <= to)
+    .sort();
+
+  const segments: CutoffSegment[] = [];
+  let segStart = from;
+  let startReason: SegmentBoundary = from === start ? "cutoff" : "hire";
+  for (const cut of [...new Set(cuts), null]) {
+    const segEnd = cut ? addDays(cut, -1) : to;
+    const { rate, effectiveFrom } = rateOn(segStart, opts.current, history);
+    segments.push({
+      start: segStart,
+      end: segEnd,
+      startReason,
+      endReason: cut ? "rate_change" : to === end ? "cutoff" : "separation",
+      workingDays: countWorkdays(segStart, segEnd),
+      rate,
+      effectiveFrom,
+    });
+    if (cut) {
+      segStart = cut;
+      startReason = "rate_change";
+    }
+  }
+
+  const whole = segments.length === 1 && from === start && to === end;
+  const sameRate =
+    whole &&
+    segments[0].rate.monthlySalary === opts.current.monthlySalary &&
+    segments[0].rate.perDayRate === opts.current.perDayRate;
+  return { split: !(whole && sameRate), segments };
+}
+
+/** Short label for a segment, e.g. "Jun 16–20 (hired)". */
+export function segmentLabel(s: Pick<CutoffSegment, "start" | "end" | "startReason" | "endReason">): string {
+  const fmt = (k: string) =>
+    new Date(`${k}T00:00:00`).toLocaleDateString("en-US", { month: "short", day: "numeric" });
+  const notes = [
+    s.startReason === "hire" && "hired",
+    s.startReason === "rate_change" && "new rate",
+    s.endReason === "separation" && "separated",
+  ].filter(Boolean);
+  return `${fmt(s.start)}–${fmt(s.end)}${notes.length ? ` (${notes.join(", ")})` : ""}`;
+}
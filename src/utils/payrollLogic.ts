@@ -1,4 +1,20 @@
 // src/utils/payrollLogic.ts
+// Every peso amount is rounded to the centavo once and all totals are summed in centavos — see utils/money.ts.
+// Every rate, schedule and company constant comes from the resolved pay rule set (utils/payRules.ts).
+import { computePagibig, computePhilhealth, computeSss, splitMonthly, type CutoffHalf } from "./contributions";
+import { computeAnnualTax, computeWithholding, type YtdTax } from "./withholdingTax";
+import type { ThirteenthMonthResult } from "./thirteenthMonth";
+import { multiplyPesos, roundPesos, subtractPesos, sumPesos } from "./money";
+import { resolveObRate, type ObCategoryKey, type ResolvedObRate } from "./obRates";
+import {
+  mergePremiumHours,
+  pricePremiumHours,
+  WORKDAY_HOLIDAY_TYPES,
+  type PremiumHours,
+  type PremiumLine,
+} from "./premiumPay";
+import { DEFAULT_FREELANCER_EWT_RATE, resolvePayRules, type PayRuleSet } from "./payRules";
+import { segmentLabel, type CutoffSegment } from "./paySegments";
 
 export interface PayrollInput {
   monthlySalary: number;
@@ -7,13 +23,18 @@ export interface PayrollInput {
   workedDays: number;
   obQuantity?: number;
   obRate?: number; // 👈 keep but not used directly
+  // legacy hour inputs — merged into premiumHours (regular OT/ND, rest day, special, regular holiday)
   otHours: number;
   ndHours: number;
   rdotHours: number;
   holiday30Hours: number;
   holidayDoubleHours: number;
   holidayOtDoubleHours: number;
+  premiumHours?: PremiumHours; // hours per day type, priced by the premium matrix
+  unworkedHolidayDays?: number; // eligible unworked regular holidays (a double holiday counts 2), paid 100% each
   tardinessMinutes: number;
+  absentDays?: number; // core: unpaid workdays in the cutoff (see utils/absences.ts)
+  undertimeMinutes?: number; // core: minutes short of the shift, tardiness excluded
   cutoffWorkingDays?: number;
   fixedWorkedDays?: number; // 👈 NEW — support fixed divisor
   category: "core" | "core_probationary" | "intern" | "freelancer" | "owner";
@@ -26,15 +47,141 @@ export interface PayrollInput {
     startDateCutOff: "first" | "second";
     approved: boolean;
     override?: number; // 👈 for manual override
+    advances?: CashAdvanceDeductionInput[]; // open advances (utils/cashAdvances.ts); replaces the summed fields above
   };
-  manualNetPay?: number; // for manual override
-  obPayFromReqs?: number; // 👈 injected from filed requests
+  manualNetPay?: number; // freelancers: payments entered on the draft itself (line.adjustmentsTotal)
+  freelancerItems?: FreelancerPayItemInput[]; // freelancers: approved deliverables due this cutoff (utils/freelancerPay.ts)
+  ewtRate?: number; // freelancers: % expanded withholding set on the employee, overrides the pay rules
+  obPayFromReqs?: number; // 👈 injected from filed requests (legacy — superseded by obEntries)
+  obEntries?: ObEntry[]; // one per OB, rate already resolved from the OB catalog
+  cutoffHalf?: CutoffHalf; // which semi-monthly cutoff (contributions are split across both)
+  asOf?: string | null; // cutoff end date — picks the code-default rules when `rules` is missing
+  rules?: PayRuleSet; // pay rules pinned on the draft (payrollDrafts.payRules)
+  pagibigVoluntary?: number; // employee-elected monthly Pag-IBIG contribution (employees.pagibigVoluntary)
+  nonTaxableEarnings?: number; // part of gross that is exempt (de minimis etc.)
+  otherTaxableIncome?: number; // taxable pay added outside the engine (e.g. commissions)
+  yearEnd?: Pick<YtdTax, "ytdTaxableIncome" | "ytdWithholdingTax">; // set on the final December cutoff once annualization is applied
+  priorPeriodBalance?: number; // deductions earlier cutoffs could not recover (open carryForwards)
+  loans?: LoanDeductionInput[]; // active loans due this cutoff (utils/loans.ts)
+  retroPay?: number; // back pay for a back-dated raise (open retroPay adjustments)
+  recurringItems?: RecurringPayLine[]; // allowances / deductions set on the employee (utils/recurringItems.ts)
+  segments?: PaySegmentInput[]; // set when hire/separation/pay changes split the cutoff (utils/paySegments.ts)
+}
+
+/** One piece of a split cutoff: its rate and the attendance that fell inside it. */
+export interface PaySegmentInput
+  extends Pick<CutoffSegment, "start" | "end" | "startReason" | "endReason" | "workingDays" | "effectiveFrom">,
+    Partial<
+      Pick<
+        PayrollInput,
+        | "monthlySalary"
+        | "perDayRate"
+        | "allowancePerDay"
+        | "otHours"
+        | "rdotHours"
+        | "premiumHours"
+        | "unworkedHolidayDays"
+        | "tardinessMinutes"
+        | "absentDays"
+        | "undertimeMinutes"
+        | "obEntries"
+      >
+    > {
+  workedDays: number;
+}
+
+export interface PaySegmentLine {
+  start: string;
+  end: string;
+  label: string;
+  workingDays: number;
+  workedDays: number;
+  dailyRate: number;
+  cutoffPay: number;
+  effectiveFrom?: string;
+}
+
+// Cutoff-wide attendance a segment must not inherit — each segment brings its own
+const SEGMENT_RESET: Partial<PayrollInput> = {
+  obQuantity: 0,
+  obPayFromReqs: 0,
+  obEntries: [],
+  otHours: 0,
+  ndHours: 0,
+  rdotHours: 0,
+  holiday30Hours: 0,
+  holidayDoubleHours: 0,
+  holidayOtDoubleHours: 0,
+  premiumHours: undefined,
+  unworkedHolidayDays: 0,
+  tardinessMinutes: 0,
+  absentDays: undefined,
+  undertimeMinutes: 0,
+};
+
+/** An active loan's amortization and the balance still owed. */
+export interface LoanDeductionInput {
+  loanId: string;
+  label: string;
+  amortization: number; // per cutoff
+  balance: number;
+}
+
+export interface LoanDeductionLine extends LoanDeductionInput {
+  amount: number; // min(amortization, balance)
+  balanceAfter: number;
+}
+
+/** A freelancer deliverable due this cutoff. */
+export interface FreelancerPayItemInput {
+  itemId: string;
+  project: string;
+  quantity: number;
+  rate: number;
+  deliveredOn?: string | null;
+}
+
+export interface FreelancerPayLine extends FreelancerPayItemInput {
+  amount: number; // quantity × rate
+}
+
+/** A recurring pay item due this cutoff, copied onto the draft line. */
+export interface RecurringPayLine {
+  itemId: string;
+  label: string;
+  kind: "earning" | "deduction";
+  taxable: boolean; // earnings only — non-taxable ones are left out of taxable income
+  amount: number;
+}
+
+export interface CashAdvanceDeductionInput {
+  advanceId: string;
+  perCutOff: number;
+  balance: number;
+  startDateCutOff: "first" | "second";
+  startCutoff?: string; // YYYY-MM-DD, start of the first cutoff deducted; missing = deducted every cutoff
+}
+
+export interface CashAdvanceDeductionLine extends CashAdvanceDeductionInput {
+  amount: number; // min(perCutOff, balance), or this advance's share of a manual override
+  balanceAfter: number;
+}
+
+export interface ObEntry {
+  date?: string;
+  category: ObCategoryKey;
+  rate: number;
+  quantity?: number; // defaults to 1
+  source: ResolvedObRate["source"];
+  effectiveFrom?: string;
+  note?: string;
 }
 
 export interface PayrollOutput {
   dailyRate: number;
   cutoffPay: number;
   obPay: number;
+  obLines: ObEntry[]; // rate applied to each OB
   otRate: number;
   otPay: number;
   nightDiffPay: number;
@@ -42,45 +189,183 @@ export interface PayrollOutput {
   holiday30Pay: number;
   holidayDoublePay: number;
   holidayOtDoublePay: number;
+  premiumLines: PremiumLine[]; // every priced hour bucket with its multiplier
+  unworkedHolidayPay: number;
+  retroPay: number;
+  recurringItems: RecurringPayLine[]; // priced recurring earnings and deductions, broken out on the payslip
+  recurringEarnings: number;
+  recurringDeductions: number;
+  thirteenthMonthPay: number;
+  freelancerItems: FreelancerPayLine[]; // freelancers: each deliverable priced
+  freelancerFees: number; // freelancers: deliverables + payments entered on the draft (the EWT base)
+  ewtRate: number; // freelancers: % applied
+  expandedWithholdingTax: number; // freelancers: EWT withheld on the fees (BIR 2307), in place of compensation tax
   grossEarnings: number;
   sss: number;
+  sssEmployer: number; // employer share incl. EC (not deducted)
+  sssEc: number;
+  sssMsc: number;
   pagibig: number;
+  pagibigEmployer: number; // employer counterpart (not deducted)
+  pagibigVoluntary: number; // part of `pagibig` above the mandatory share
   philhealth: number;
+  philhealthEmployer: number; // employer half of the premium (not deducted)
+  taxableIncome: number;
+  withholdingTax: number;
+  annualTaxableIncome: number; // YTD + this cutoff (annualized cutoffs only)
+  annualTaxDue: number;
+  yearEndTaxAdjustment: number; // + collect / − refund, on top of this cutoff's withholding
   cashAdvanceDeduction: number;
+  cashAdvanceLines: CashAdvanceDeductionLine[]; // one per advance, posted to cashAdvances/{id}/ledger on final approval
+  loanDeductions: LoanDeductionLine[]; // one per loan, posted to loans/{id}/ledger on final approval
+  loanDeduction: number;
   tardinessDeduction: number;
+  absentDays: number;
+  absenceDeduction: number;
+  undertimeMinutes: number;
+  undertimeDeduction: number;
+  segments: PaySegmentLine[]; // empty unless the cutoff was split
+  priorPeriodBalance: number;
   totalDeductions: number;
+  unrecoveredDeductions: number; // deductions beyond gross — carried to the next cutoff
   netPay: number;
+  trace: PayrollTrace;
 }
 
-const DEFAULT_INTERN_DAILY = 125;
-const OWNER_CUTOFF_PAY = 60000;
+/* ========================================================================
+   COMPUTATION TRACE  (stored as payslips.details.trace)
+   ======================================================================== */
+export const PAYROLL_ENGINE_VERSION = "payrollLogic/1";
 
-export const calculatePayroll = (data: PayrollInput): PayrollOutput => {
-  // ✅ Freelancers: just return their stored grand total as net pay
-  if (data.category === "freelancer") {
-    const net = Number(data.manualNetPay || 0);
-    return {
-      dailyRate: 0,
-      cutoffPay: 0,
-      obPay: 0,
-      otRate: 0,
-      otPay: 0,
-      nightDiffPay: 0,
-      rdotPay: 0,
-      holiday30Pay: 0,
-      holidayDoublePay: 0,
-      holidayOtDoublePay: 0,
-      grossEarnings: net,
-      sss: 0,
-      pagibig: 0,
-      philhealth: 0,
-      cashAdvanceDeduction: 0,
-      tardinessDeduction: 0,
-      totalDeductions: 0,
-      netPay: net,
-    };
-  }
+export interface TraceStep {
+  key: string; // PayrollOutput field this step explains
+  label: string;
+  value: number;
+  formula: string;
+  inputs?: Record<string, number | string>;
+  rule?: string; // schedule / config entry used, e.g. "SSS schedule 2025-01-01 (settings)"
+}
+
+export interface PayrollTrace {
+  engineVersion: string;
+  rulesVersion?: string; // PayRuleSet.version the numbers were computed with
+  steps: TraceStep[];
+}
+
+const emptyOutput = (): PayrollOutput => ({
+  dailyRate: 0,
+  cutoffPay: 0,
+  obPay: 0,
+  obLines: [],
+  otRate: 0,
+  otPay: 0,
+  nightDiffPay: 0,
+  rdotPay: 0,
+  holiday30Pay: 0,
+  holidayDoublePay: 0,
+  holidayOtDoublePay: 0,
+  premiumLines: [],
+  unworkedHolidayPay: 0,
+  retroPay: 0,
+  recurringItems: [],
+  recurringEarnings: 0,
+  recurringDeductions: 0,
+  thirteenthMonthPay: 0,
+  freelancerItems: [],
+  freelancerFees: 0,
+  ewtRate: 0,
+  expandedWithholdingTax: 0,
+  grossEarnings: 0,
+  sss: 0,
+  sssEmployer: 0,
+  sssEc: 0,
+  sssMsc: 0,
+  pagibig: 0,
+  pagibigEmployer: 0,
+  pagibigVoluntary: 0,
+  philhealth: 0,
+  philhealthEmployer: 0,
+  taxableIncome: 0,
+  withholdingTax: 0,
+  annualTaxableIncome: 0,
+  annualTaxDue: 0,
+  yearEndTaxAdjustment: 0,
+  cashAdvanceDeduction: 0,
+  cashAdvanceLines: [],
+  loanDeductions: [],
+  loanDeduction: 0,
+  tardinessDeduction: 0,
+  absentDays: 0,
+  absenceDeduction: 0,
+  undertimeMinutes: 0,
+  undertimeDeduction: 0,
+  segments: [],
+  priorPeriodBalance: 0,
+  totalDeductions: 0,
+  unrecoveredDeductions: 0,
+  netPay: 0,
+  trace: { engineVersion: PAYROLL_ENGINE_VERSION, steps: [] },
+});
 
+/**
+ * 13th month run (payrollDrafts.type === "thirteenth_month"): no contributions or withholding here;
+ * the taxable excess is reported as taxableIncome and settled in the year-end annualization.
+ */
+export const calculateThirteenthMonthPayroll = (t: ThirteenthMonthResult): PayrollOutput => ({
+  ...emptyOutput(),
+  thirteenthMonthPay: t.amount,
+  grossEarnings: t.amount,
+  taxableIncome: t.taxable,
+  netPay: t.amount,
+  trace: {
+    engineVersion: PAYROLL_ENGINE_VERSION,
+    steps: [
+      {
+        key: "thirteenthMonthPay",
+        label: "13th Month Pay",
+        value: t.amount,
+        formula: "basic pay earned in the year ÷ 12 − 13th month already released",
+        inputs: { year: t.year, basicPayEarned: t.basicPayEarned, payslips: t.payslipCount, alreadyPaid: t.alreadyPaid || 0 },
+      },
+      {
+        key: "taxableIncome",
+        label: "Taxable excess",
+        value: t.taxable,
+        formula: "13th month − exempt portion (₱90,000 ceiling)",
+        inputs: { amount: t.amount, exempt: t.exempt },
+      },
+    ],
+  },
+});
+
+/** Earnings plus the attendance deductions priced off the same daily rate. */
+interface Earnings {
+  dailyRate: number;
+  cutoffPay: number;
+  obPay: number;
+  obLines: ObEntry[];
+  otRate: number;
+  otPay: number;
+  nightDiffPay: number;
+  rdotPay: number;
+  holiday30Pay: number;
+  holidayDoublePay: number;
+  holidayOtDoublePay: number;
+  premiumLines: PremiumLine[];
+  unworkedHolidayPay: number;
+  tardinessDeduction: number;
+  absentDays: number;
+  absenceDeduction: number;
+  undertimeMinutes: number;
+  undertimeDeduction: number;
+}
+
+function priceEarnings(
+  data: PayrollInput & { segmentWorkingDays?: number },
+  rules: PayRuleSet,
+  trace: (step: TraceStep) => void,
+  traceDeduction: (step: TraceStep) => void
+): Earnings {
   // Safe defaults
   const safeMonthly = Number(data.monthlySalary) || 0;
   const workedDays = Math.max(0, Number(data.workedDays) || 0);
@@ -91,6 +376,10 @@ export const calculatePayroll = (data: PayrollInput): PayrollOutput => {
   const h2x = Number(data.holidayDoubleHours) || 0;
   const h2xOt = Number(data.holidayOtDoubleHours) || 0;
   const tardyMins = Math.max(0, Number(data.tardinessMinutes) || 0);
+  let absentDays = 0;
+
+  const asOf = rules.asOf;
+  const covered = data.segmentWorkingDays; // segment of a split cutoff: workdays it covers
 
   let dailyRate = 0;
   let cutoffPay = 0;
@@ -104,103 +393,785 @@ export const calculatePayroll = (data: PayrollInput): PayrollOutput => {
           ? data.fixedWorkedDays
           : data.cutoffWorkingDays) || workedDays || 1;
 
+      // full semi-monthly basic (pro-rated for a segment); unworked days come off as absences below
       dailyRate = cutoffBase / divisor;
-      cutoffPay = dailyRate * workedDays;
+      cutoffPay = covered != null && covered < divisor ? multiplyPesos(dailyRate, covered) : roundPesos(cutoffBase);
+      absentDays = Math.max(0, data.absentDays ?? (covered ?? divisor) - workedDays);
+      trace({
+        key: "dailyRate",
+        label: "Daily rate",
+        value: dailyRate,
+        formula: "monthly salary ÷ 2 ÷ working days in cutoff",
+        inputs: { monthlySalary: safeMonthly, divisor },
+      });
       break;
     }
     case "core_probationary": {
       dailyRate = Number(data.perDayRate) || 0;
-      cutoffPay = dailyRate * workedDays;
+      cutoffPay = multiplyPesos(dailyRate, workedDays);
+      trace({ key: "dailyRate", label: "Daily rate", value: dailyRate, formula: "per-day rate on file" });
       break;
     }
     case "intern": {
-      dailyRate = Number(data.allowancePerDay) || DEFAULT_INTERN_DAILY;
-      cutoffPay = dailyRate * workedDays;
+      dailyRate = Number(data.allowancePerDay) || rules.company.internDailyAllowance;
+      cutoffPay = multiplyPesos(dailyRate, workedDays);
+      trace({
+        key: "dailyRate",
+        label: "Daily allowance",
+        value: dailyRate,
+        formula: data.allowancePerDay ? "allowance per day on file" : "default intern allowance",
+        rule: data.allowancePerDay ? undefined : `pay rules ${rules.company.effectiveFrom} (${rules.sources.company})`,
+      });
       break;
     }
     case "owner": {
       dailyRate = 0;
-      cutoffPay = OWNER_CUTOFF_PAY;
+      const days = Number(data.cutoffWorkingDays) || 0;
+      cutoffPay =
+        covered != null && days > 0 && covered < days
+          ? roundPesos((rules.company.ownerCutoffPay * covered) / days)
+          : roundPesos(rules.company.ownerCutoffPay);
       break;
     }
   }
+  trace({
+    key: "cutoffPay",
+    label: "Basic pay",
+    value: cutoffPay,
+    formula:
+      data.category === "owner"
+        ? covered != null && cutoffPay !== roundPesos(rules.company.ownerCutoffPay)
+          ? "fixed owner pay × workdays in segment ÷ working days in cutoff"
+          : "fixed owner pay per cutoff"
+        : data.category === "core"
+          ? covered != null && cutoffPay !== roundPesos(safeMonthly / 2)
+            ? "daily rate × workdays in segment"
+            : "monthly salary ÷ 2"
+          : "daily rate × days worked",
+    inputs:
+      data.category === "owner"
+        ? covered != null ? { workdays: covered } : {}
+        : data.category === "core"
+          ? covered != null ? { monthlySalary: safeMonthly, dailyRate, workdays: covered } : { monthlySalary: safeMonthly }
+          : { dailyRate, workedDays },
+    rule: data.category === "owner" ? `pay rules ${rules.company.effectiveFrom} (${rules.sources.company})` : undefined,
+  });
 
-  // 2. OB Pay
+  // 2. OB Pay — each OB priced from the OB rate catalog (employee override → intern → company default)
   const obQuantity = Number(data.obQuantity) || 0;
+  let obLines: ObEntry[] = [];
   let obPay = 0;
-  if (typeof data.obPayFromReqs === "number" && data.obPayFromReqs > 0) {
-    obPay = data.obPayFromReqs;
-  } else {
-    if (data.category === "intern") {
-      obPay = obQuantity * 500;
-    } else {
-      if (data.obCategory === "videographer") {
-        obPay = obQuantity * 2500;
-      } else if (data.obCategory === "talent") {
-        obPay = obQuantity * 2000;
-      } else {
-        obPay = obQuantity * 1500; // default assisted
-      }
-    }
+  if (data.obEntries?.length) {
+    obLines = data.obEntries.map((e) => ({ ...e, rate: roundPesos(e.rate) }));
+  } else if (typeof data.obPayFromReqs === "number" && data.obPayFromReqs > 0) {
+    obPay = roundPesos(data.obPayFromReqs);
+  } else if (obQuantity > 0) {
+    const r = resolveObRate({
+      category: data.obCategory,
+      isIntern: data.category === "intern",
+      schedules: [rules.obRates],
+      asOf,
+    });
+    obLines = [{ ...r, quantity: obQuantity }];
+  }
+  if (obLines.length) obPay = sumPesos(...obLines.map((l) => multiplyPesos(l.rate, l.quantity ?? 1)));
+  if (obPay) {
+    trace({
+      key: "obPay",
+      label: "Official business",
+      value: obPay,
+      formula: obLines.length ? "Σ rate per OB (OB rate catalog)" : "sum of rates on approved OB requests",
+      inputs: Object.fromEntries(
+        obLines.map((l, i) => [
+          `${l.date || `#${i + 1}`} ${l.category}`,
+          `${l.rate}${(l.quantity ?? 1) !== 1 ? ` × ${l.quantity}` : ""} (${l.source}${l.effectiveFrom ? ` ${l.effectiveFrom}` : ""})`,
+        ])
+      ),
+    });
   }
 
-  // 3. OT & premiums
-  const otRate = dailyRate / 8;
-  const otPay = otRate * otHours;
-  const nightDiffPay = otRate * 1.1 * ndHours;
-  const rdotPay = otRate * 1.3 * rdotHours;
-  const holiday30Pay = otRate * 0.3 * h30;
-  const holidayDoublePay = otRate * 2 * h2x;
-  const holidayOtDoublePay = otRate * 2 * 1.3 * h2xOt;
+  // 3. OT & premiums — each hour bucket priced by its compound DOLE multiplier
+  const matrix = rules.premiumMatrix;
+  const hourlyRate = dailyRate / 8;
+  const premiumHours = mergePremiumHours(data.premiumHours || {}, {
+    regular: { otHours, ndHours },
+    rest_day: { hours: rdotHours },
+    special: { hours: h30 },
+    regular_holiday: { hours: h2x, otHours: h2xOt },
+  });
+  // core basic already pays every workday, so worked holidays only add the premium above 100%
+  const premiumLines = pricePremiumHours(
+    hourlyRate,
+    premiumHours,
+    matrix,
+    data.category === "core" ? { inBasic: WORKDAY_HOLIDAY_TYPES } : {}
+  );
+  const sumLines = (pick: (l: PremiumLine) => boolean) =>
+    sumPesos(...premiumLines.filter(pick).map((l) => l.amount));
+  const isRegularHoliday = (l: PremiumLine) =>
+    l.dayType.startsWith("regular_holiday") || l.dayType.startsWith("double_holiday");
+  const isSpecialHoliday = (l: PremiumLine) => l.dayType.startsWith("special");
 
-  // 4. Gross Earnings
-  const grossEarnings =
-    cutoffPay +
-    obPay +
-    otPay +
-    nightDiffPay +
-    rdotPay +
-    holiday30Pay +
-    holidayDoublePay +
-    holidayOtDoublePay;
-
-  // 5. Gov’t deductions
-  const sss = data.benefits?.sss ? 425 : 0;
-  const pagibig = data.benefits?.pagibig ? 100 : 0;
-  const philhealth = data.benefits?.philhealth ? 212.5 : 0;
-
-  // 6. Tardiness
+  const otRate = hourlyRate * matrix.days.regular.ot;
+  const otPay = sumLines((l) => l.dayType === "regular" && l.kind === "ot");
+  const nightDiffPay = sumLines((l) => l.kind === "nd" || l.kind === "nd_ot");
+  const rdotPay = sumLines((l) => l.dayType === "rest_day" && (l.kind === "hours" || l.kind === "ot"));
+  const holiday30Pay = sumLines((l) => isSpecialHoliday(l) && (l.kind === "hours" || l.kind === "ot"));
+  const holidayDoublePay = sumLines((l) => isRegularHoliday(l) && l.kind === "hours");
+  const holidayOtDoublePay = sumLines((l) => isRegularHoliday(l) && l.kind === "ot");
+  for (const l of premiumLines) {
+    trace({
+      key: "premiumLines",
+      label: `${l.dayType.replace(/_/g, " ")} — ${l.kind.replace("_", " + ")}`,
+      value: l.amount,
+      formula: l.kind.startsWith("nd") ? "hourly rate × day multiplier × ND rate × hours" : "hourly rate × multiplier × hours",
+      inputs: { hourlyRate, multiplier: l.multiplier, hours: l.hours },
+      rule: `premium matrix (${rules.sources.premiumMatrix})`,
+    });
+  }
+
+  // Unworked regular holidays — daily-paid employees covered by the Labor Code holiday pay rule
+  // (core already has them in the semi-monthly basic)
+  const unworkedHolidayPay =
+    data.category === "core_probationary"
+      ? multiplyPesos(dailyRate, Math.max(0, Number(data.unworkedHolidayDays) || 0))
+      : 0;
+  if (unworkedHolidayPay) {
+    trace({
+      key: "unworkedHolidayPay",
+      label: "Unworked regular holiday pay",
+      value: unworkedHolidayPay,
+      formula: "daily rate × eligible unworked regular holidays",
+      inputs: { dailyRate, days: Number(data.unworkedHolidayDays) || 0 },
+    });
+  }
+
+  // Tardiness, absences & undertime — traced with the deductions
   const tardinessDeduction =
-    tardyMins > 0 ? Number(((dailyRate / 480) * tardyMins).toFixed(2)) : 0;
-
-  // 7. Cash Advance
-  let cashAdvanceDeduction = 0;
-  if (typeof data.cashAdvance.override === "number") {
-    cashAdvanceDeduction = data.cashAdvance.override;
-  } else if (data.cashAdvance.approved && data.cashAdvance.perCutOff > 0) {
-    const sameHalf =
-      data.cashAdvance.currentCutOff === data.cashAdvance.startDateCutOff;
-    const secondHalfAfterFirstStart =
-      data.cashAdvance.startDateCutOff === "first" &&
-      data.cashAdvance.currentCutOff === "second";
-
-    if (sameHalf || secondHalfAfterFirstStart) {
-      cashAdvanceDeduction = Math.min(
-        data.cashAdvance.perCutOff,
-        data.cashAdvance.totalAmount
+    tardyMins > 0 ? multiplyPesos(dailyRate / 480, tardyMins) : 0;
+  if (tardinessDeduction) {
+    traceDeduction({
+      key: "tardinessDeduction",
+      label: "Tardiness",
+      value: tardinessDeduction,
+      formula: "daily rate ÷ 480 × minutes late",
+      inputs: { dailyRate, minutes: tardyMins },
+    });
+  }
+
+  const absenceDeduction = absentDays > 0 ? multiplyPesos(dailyRate, absentDays) : 0;
+  if (absenceDeduction) {
+    traceDeduction({
+      key: "absenceDeduction",
+      label: "Absences",
+      value: absenceDeduction,
+      formula: "daily rate × unpaid workdays",
+      inputs: { dailyRate, days: absentDays },
+    });
+  }
+  const undertimeMinutes = data.category === "core" ? Math.max(0, Number(data.undertimeMinutes) || 0) : 0;
+  const undertimeDeduction = undertimeMinutes > 0 ? multiplyPesos(dailyRate / 480, undertimeMinutes) : 0;
+  if (undertimeDeduction) {
+    traceDeduction({
+      key: "undertimeDeduction",
+      label: "Undertime",
+      value: undertimeDeduction,
+      formula: "daily rate ÷ 480 × minutes short",
+      inputs: { dailyRate, minutes: undertimeMinutes },
+    });
+  }
+
+  return {
+    dailyRate,
+    cutoffPay,
+    obPay,
+    obLines,
+    otRate,
+    otPay,
+    nightDiffPay,
+    rdotPay,
+    holiday30Pay,
+    holidayDoublePay,
+    holidayOtDoublePay,
+    premiumLines,
+    unworkedHolidayPay,
+    tardinessDeduction,
+    absentDays,
+    absenceDeduction,
+    undertimeMinutes,
+    undertimeDeduction,
+  };
+}
+
+/** Adds up the segments of a split cutoff; rates shown are the last segment's. */
+function combineEarnings(parts: Earnings[]): Earnings {
+  const sum = (k: keyof Earnings) => sumPesos(...parts.map((p) => p[k] as number));
+  const last = parts[parts.length - 1];
+  return {
+    dailyRate: last?.dailyRate || 0,
+    cutoffPay: sum("cutoffPay"),
+    obPay: sum("obPay"),
+    obLines: parts.flatMap((p) => p.obLines),
+    otRate: last?.otRate || 0,
+    otPay: sum("otPay"),
+    nightDiffPay: sum("nightDiffPay"),
+    rdotPay: sum("rdotPay"),
+    holiday30Pay: sum("holiday30Pay"),
+    holidayDoublePay: sum("holidayDoublePay"),
+    holidayOtDoublePay: sum("holidayOtDoublePay"),
+    premiumLines: parts.flatMap((p) => p.premiumLines),
+    unworkedHolidayPay: sum("unworkedHolidayPay"),
+    tardinessDeduction: sum("tardinessDeduction"),
+    absentDays: Math.round(parts.reduce((s, p) => s + p.absentDays, 0) * 1000) / 1000,
+    absenceDeduction: sum("absenceDeduction"),
+    undertimeMinutes: parts.reduce((s, p) => s + p.undertimeMinutes, 0),
+    undertimeDeduction: sum("undertimeDeduction"),
+  };
+}
+
+/** Cash advance deductions — per advance, the last deduction capped at its balance. */
+function deductCashAdvances(
+  ca: PayrollInput["cashAdvance"],
+  asOf: string | null | undefined,
+  trace: (step: TraceStep) => void
+) {
+  const advances: CashAdvanceDeductionInput[] =
+    ca.advances ??
+    (ca.approved
+      ? [{ advanceId: "", perCutOff: ca.perCutOff, balance: ca.totalAmount, startDateCutOff: ca.startDateCutOff }]
+      : []);
+  const override = typeof ca.override === "number" ? Math.max(0, roundPesos(ca.override)) : undefined;
+  const cashAdvanceLines: CashAdvanceDeductionLine[] = [];
+  let overrideLeft = override ?? 0;
+  for (const a of advances) {
+    const balance = Math.max(0, roundPesos(Number(a.balance) || 0));
+    // every cutoff from the one the advance starts in (asOf is this cutoff's end date)
+    const started = !a.startCutoff || !asOf || a.startCutoff <= asOf;
+    // a manual override is applied to the oldest advances first
+    const amount =
+      override !== undefined
+        ? Math.min(overrideLeft, balance)
+        : started
+        ? Math.min(Math.max(0, roundPesos(Number(a.perCutOff) || 0)), balance)
+        : 0;
+    overrideLeft = subtractPesos(overrideLeft, amount);
+    if (amount) cashAdvanceLines.push({ ...a, balance, amount, balanceAfter: subtractPesos(balance, amount) });
+  }
+  // what is posted to the ledgers — an override never deducts more than the advances still owe
+  const cashAdvanceDeduction = sumPesos(...cashAdvanceLines.map((l) => l.amount));
+  if (cashAdvanceDeduction) {
+    trace({
+      key: "cashAdvanceDeduction",
+      label: "Cash advance",
+      value: cashAdvanceDeduction,
+      formula:
+        override !== undefined
+          ? "manual override by finance, capped at the remaining balance"
+          : "Σ min(per-cutoff amortization, remaining balance) per advance",
+      inputs: {
+        ...(override !== undefined ? { override } : {}),
+        advances: advances.length,
+        perCutOff: sumPesos(...advances.map((a) => Number(a.perCutOff) || 0)),
+        balance: sumPesos(...advances.map((a) => Number(a.balance) || 0)),
+      },
+    });
+  }
+  return { cashAdvanceLines, cashAdvanceDeduction };
+}
+
+/** Loan deductions — one line per loan, the last amortization capped at the balance. */
+function deductLoans(loans: LoanDeductionInput[] | undefined, trace: (step: TraceStep) => void) {
+  const loanDeductions: LoanDeductionLine[] = [];
+  for (const l of loans || []) {
+    const balance = Math.max(0, roundPesos(Number(l.balance) || 0));
+    const amount = Math.min(Math.max(0, roundPesos(Number(l.amortization) || 0)), balance);
+    if (!amount) continue;
+    loanDeductions.push({ ...l, balance, amount, balanceAfter: subtractPesos(balance, amount) });
+    trace({
+      key: "loanDeduction",
+      label: `Loan — ${l.label}`,
+      value: amount,
+      formula: "min(amortization per cutoff, remaining balance)",
+      inputs: { amortization: Number(l.amortization) || 0, balance },
+    });
+  }
+  return { loanDeductions, loanDeduction: sumPesos(...loanDeductions.map((l) => l.amount)) };
+}
+
+/**
+ * Freelancers: no attendance, contributions or compensation tax. Gross is the deliverables due this cutoff (plus
+ * payments entered on the draft and recurring earnings); EWT is withheld on the fees, then cash advances, loans,
+ * recurring deductions and any prior period balance come off as for employees.
+ */
+function calculateFreelancerPayroll(data: PayrollInput): PayrollOutput {
+  const rules = data.rules ?? resolvePayRules({}, data.asOf);
+  const steps: TraceStep[] = [];
+  const trace = (step: TraceStep) => {
+    steps.push(step);
+  };
+
+  // 1. Fees — each approved deliverable, plus payments entered on the draft
+  const freelancerItems: FreelancerPayLine[] = (data.freelancerItems || [])
+    .map((it) => ({ ...it, amount: multiplyPesos(Number(it.rate) || 0, Number(it.quantity) || 0) }))
+    .filter((it) => it.amount > 0);
+  for (const it of freelancerItems) {
+    trace({
+      key: "freelancerFees",
+      label: it.project,
+      value: it.amount,
+      formula: "quantity × rate",
+      inputs: { quantity: it.quantity, rate: it.rate, ...(it.deliveredOn ? { deliveredOn: it.deliveredOn } : {}) },
+    });
+  }
+  const draftPayments = Math.max(0, roundPesos(Number(data.manualNetPay) || 0));
+  if (draftPayments) {
+    trace({
+      key: "freelancerFees",
+      label: "Payments entered on the draft",
+      value: draftPayments,
+      formula: "Σ project × qty × rate (freelancer payment modal)",
+    });
+  }
+  const freelancerFees = sumPesos(...freelancerItems.map((it) => it.amount), draftPayments);
+
+  // 2. Recurring items
+  const recurringItems: RecurringPayLine[] = (data.recurringItems || [])
+    .map((r) => ({ ...r, amount: Math.max(0, roundPesos(Number(r.amount) || 0)) }))
+    .filter((r) => r.amount);
+  const recurringEarnings = sumPesos(...recurringItems.filter((r) => r.kind === "earning").map((r) => r.amount));
+  const recurringDeductions = sumPesos(...recurringItems.filter((r) => r.kind === "deduction").map((r) => r.amount));
+
+  const grossEarnings = sumPesos(freelancerFees, recurringEarnings);
+  trace({
+    key: "grossEarnings",
+    label: "Gross earnings",
+    value: grossEarnings,
+    formula: "freelancer fees + recurring earnings",
+    inputs: { freelancerFees, recurringEarnings },
+  });
+
+  // 3. Expanded withholding tax on the fees
+  const ewtRate = Math.max(0, Number(data.ewtRate ?? rules.company.freelancerEwtRate ?? DEFAULT_FREELANCER_EWT_RATE) || 0);
+  const expandedWithholdingTax = multiplyPesos(freelancerFees, ewtRate / 100);
+  if (expandedWithholdingTax) {
+    trace({
+      key: "expandedWithholdingTax",
+      label: "Expanded withholding tax",
+      value: expandedWithholdingTax,
+      formula: "freelancer fees × EWT rate",
+      inputs: { freelancerFees, ewtRate },
+      rule:
+        data.ewtRate !== undefined
+          ? "EWT rate on the employee"
+          : `Pay rules ${rules.company.effectiveFrom} (${rules.sources.company})`,
+    });
+  }
+
+  // 4. Cash advances, loans, recurring deductions, prior period balance
+  const { cashAdvanceLines, cashAdvanceDeduction } = deductCashAdvances(data.cashAdvance, data.asOf, trace);
+  const { loanDeductions, loanDeduction } = deductLoans(data.loans, trace);
+  for (const r of recurringItems.filter((r) => r.kind === "deduction")) {
+    trace({ key: "recurringDeductions", label: r.label, value: r.amount, formula: "recurring deduction" });
+  }
+  const priorPeriodBalance = Math.max(0, roundPesos(Number(data.priorPeriodBalance) || 0));
+
+  // 5. Totals
+  const totalDeductions = sumPesos(
+    expandedWithholdingTax,
+    cashAdvanceDeduction,
+    loanDeduction,
+    recurringDeductions,
+    priorPeriodBalance
+  );
+  const netPay = Math.max(0, subtractPesos(grossEarnings, totalDeductions));
+  const unrecoveredDeductions = Math.max(0, subtractPesos(totalDeductions, grossEarnings));
+  trace({
+    key: "netPay",
+    label: "Net pay",
+    value: netPay,
+    formula: "max(0, gross − EWT − cash advance − loans − recurring deductions − prior period balance)",
+    inputs: { grossEarnings, totalDeductions },
+  });
+
+  return {
+    ...emptyOutput(),
+    recurringItems,
+    recurringEarnings,
+    recurringDeductions,
+    freelancerItems,
+    freelancerFees,
+    ewtRate,
+    expandedWithholdingTax,
+    grossEarnings,
+    cashAdvanceDeduction,
+    cashAdvanceLines,
+    loanDeductions,
+    loanDeduction,
+    priorPeriodBalance,
+    totalDeductions,
+    unrecoveredDeductions,
+    netPay,
+    trace: { engineVersion: PAYROLL_ENGINE_VERSION, rulesVersion: rules.version, steps },
+  };
+}
+
+export const calculatePayroll = (data: PayrollInput): PayrollOutput => {
+  // ✅ Freelancers: deliverables less EWT, no attendance or contributions
+  if (data.category === "freelancer") return calculateFreelancerPayroll(data);
+
+  const safeMonthly = Number(data.monthlySalary) || 0;
+  const rules = data.rules ?? resolvePayRules({}, data.asOf);
+
+  const steps: TraceStep[] = [];
+  const trace = (step: TraceStep) => {
+    steps.push(step);
+  };
+  const attendanceSteps: TraceStep[] = [];
+
+  // 1–3. Basic, OB, OT & premiums — per segment when hire/separation/pay changes split the cutoff
+  const segments: PaySegmentLine[] = [];
+  let earnings: Earnings;
+  if (data.segments) {
+    const parts = data.segments.map((seg) => {
+      const label = segmentLabel(seg);
+      const tag = (step: TraceStep): TraceStep => ({ ...step, label: `${step.label} — ${label}` });
+      const part = priceEarnings(
+        {
+          ...data,
+          ...SEGMENT_RESET,
+          ...seg,
+          monthlySalary: seg.monthlySalary ?? data.monthlySalary,
+          perDayRate: seg.perDayRate ?? data.perDayRate,
+          segmentWorkingDays: seg.workingDays,
+        },
+        rules,
+        (step) => trace(tag(step)),
+        (step) => attendanceSteps.push(tag(step))
       );
-    }
+      segments.push({
+        start: seg.start,
+        end: seg.end,
+        label,
+        workingDays: seg.workingDays,
+        workedDays: Number(seg.workedDays) || 0,
+        dailyRate: part.dailyRate,
+        cutoffPay: part.cutoffPay,
+        effectiveFrom: seg.effectiveFrom,
+      });
+      return part;
+    });
+    earnings = combineEarnings(parts);
+  } else {
+    earnings = priceEarnings(data, rules, trace, (step) => attendanceSteps.push(step));
+  }
+  const {
+    dailyRate,
+    cutoffPay,
+    obPay,
+    obLines,
+    otRate,
+    otPay,
+    nightDiffPay,
+    rdotPay,
+    holiday30Pay,
+    holidayDoublePay,
+    holidayOtDoublePay,
+    premiumLines,
+    unworkedHolidayPay,
+    tardinessDeduction,
+    absentDays,
+    absenceDeduction,
+    undertimeMinutes,
+    undertimeDeduction,
+  } = earnings;
+  if (segments.length) {
+    trace({
+      key: "cutoffPay",
+      label: "Basic pay (all segments)",
+      value: cutoffPay,
+      formula: "Σ basic pay per segment",
+      inputs: Object.fromEntries(segments.map((s) => [s.label, s.cutoffPay])),
+    });
+  }
+
+  // 3b. Retro pay — differences from earlier cutoffs repriced at a back-dated rate (taxed now)
+  const retroPay = roundPesos(Number(data.retroPay) || 0);
+  if (retroPay) {
+    trace({
+      key: "retroPay",
+      label: "Retro pay",
+      value: retroPay,
+      formula: "Σ (pay at new rate − pay at old rate) over payslips since the effective date",
+    });
+  }
+
+  // 3c. Recurring items — allowances add to gross (only taxable ones are taxed), deductions come off net pay
+  const recurringItems: RecurringPayLine[] = (data.recurringItems || [])
+    .map((r) => ({ ...r, amount: Math.max(0, roundPesos(Number(r.amount) || 0)) }))
+    .filter((r) => r.amount);
+  const recurringEarningLines = recurringItems.filter((r) => r.kind === "earning");
+  const recurringEarnings = sumPesos(...recurringEarningLines.map((r) => r.amount));
+  const recurringNonTaxable = sumPesos(...recurringEarningLines.filter((r) => !r.taxable).map((r) => r.amount));
+  for (const r of recurringEarningLines) {
+    trace({
+      key: "recurringEarnings",
+      label: r.label,
+      value: r.amount,
+      formula: r.taxable ? "recurring earning (taxable)" : "recurring earning (non-taxable)",
+    });
+  }
+
+  // 4. Gross Earnings
+  const grossEarnings = sumPesos(
+    cutoffPay,
+    obPay,
+    otPay,
+    nightDiffPay,
+    rdotPay,
+    holiday30Pay,
+    holidayDoublePay,
+    holidayOtDoublePay,
+    unworkedHolidayPay,
+    retroPay,
+    recurringEarnings
+  );
+  trace({
+    key: "grossEarnings",
+    label: "Gross earnings",
+    value: grossEarnings,
+    formula: "basic + OB + OT + night diff + rest day + holiday pay + retro pay + recurring earnings",
+    inputs: {
+      cutoffPay,
+      obPay,
+      otPay,
+      nightDiffPay,
+      rdotPay,
+      holidayPay: sumPesos(holiday30Pay, holidayDoublePay, holidayOtDoublePay, unworkedHolidayPay),
+      retroPay,
+      recurringEarnings,
+    },
+  });
+
+  // 5. Gov’t deductions (monthly contribution, split across the two cutoffs)
+  const half: CutoffHalf = data.cutoffHalf || data.cashAdvance.currentCutOff || "first";
+  // core employees contribute on their monthly salary; daily-rated on this cutoff's pay annualized to a month
+  const monthlyBasis = data.category === "core" ? safeMonthly : cutoffPay * 2;
+  // a split with no segments: not yet hired or already separated for the whole cutoff — nothing to contribute on
+  const employed = !data.segments || data.segments.length > 0;
+
+  let sss = 0;
+  let sssEmployer = 0;
+  let sssEc = 0;
+  let sssMsc = 0;
+  if (employed && data.benefits?.sss) {
+    const schedule = rules.sss;
+    const c = computeSss(monthlyBasis, schedule);
+    sss = splitMonthly(c.employee, half);
+    sssEmployer = splitMonthly(c.employer, half);
+    sssEc = splitMonthly(c.ec, half);
+    sssMsc = c.msc;
+    trace({
+      key: "sss",
+      label: "SSS (employee share)",
+      value: sss,
+      formula: "MSC × EE rate (regular + MPF), monthly amount split across both cutoffs",
+      inputs: { monthlyBasis, msc: c.msc, eeRate: schedule.employeeRate, monthly: c.employee, half },
+      rule: `SSS schedule ${schedule.effectiveFrom} (${rules.sources.sss})`,
+    });
+  }
+
+  let pagibig = 0;
+  let pagibigEmployer = 0;
+  let pagibigVoluntary = 0;
+  if (employed && data.benefits?.pagibig) {
+    const schedule = rules.pagibig;
+    const c = computePagibig(monthlyBasis, schedule, data.pagibigVoluntary);
+    pagibig = splitMonthly(c.employee, half);
+    pagibigEmployer = splitMonthly(c.employer, half);
+    pagibigVoluntary = splitMonthly(c.voluntary, half);
+    trace({
+      key: "pagibig",
+      label: "Pag-IBIG (employee share)",
+      value: pagibig,
+      formula: "max(fund salary × EE rate, elected voluntary), monthly amount split across both cutoffs",
+      inputs: { monthlyBasis, fundSalary: c.fundSalary, mandatory: c.mandatory, voluntary: c.voluntary, half },
+      rule: `Pag-IBIG schedule ${schedule.effectiveFrom} (${rules.sources.pagibig})`,
+    });
+  }
+
+  let philhealth = 0;
+  let philhealthEmployer = 0;
+  if (employed && data.benefits?.philhealth) {
+    const schedule = rules.philhealth;
+    const c = computePhilhealth(monthlyBasis, schedule);
+    philhealth = splitMonthly(c.employee, half);
+    philhealthEmployer = splitMonthly(c.employer, half);
+    trace({
+      key: "philhealth",
+      label: "PhilHealth (employee share)",
+      value: philhealth,
+      formula: "clamp(salary, floor, ceiling) × rate ÷ 2, monthly amount split across both cutoffs",
+      inputs: { monthlyBasis, base: c.base, rate: schedule.rate, premium: c.premium, half },
+      rule: `PhilHealth schedule ${schedule.effectiveFrom} (${rules.sources.philhealth})`,
+    });
+  }
+
+  // 6. Tardiness, absences & undertime (priced with the earnings above)
+  steps.push(...attendanceSteps);
+
+  // 6b. Withholding tax — mandatory contributions are exempt, voluntary Pag-IBIG is not
+  let taxableIncome = 0;
+  let withholdingTax = 0;
+  if (data.category !== "intern") {
+    const mandatoryContributions = subtractPesos(sumPesos(sss, philhealth, pagibig), pagibigVoluntary);
+    taxableIncome = Math.max(
+      0,
+      subtractPesos(
+        sumPesos(grossEarnings, Number(data.otherTaxableIncome) || 0),
+        Number(data.nonTaxableEarnings) || 0,
+        recurringNonTaxable,
+        tardinessDeduction,
+        absenceDeduction,
+        undertimeDeduction,
+        mandatoryContributions
+      )
+    );
+    const table = rules.withholding;
+    withholdingTax = computeWithholding(taxableIncome, table);
+    trace({
+      key: "taxableIncome",
+      label: "Taxable income",
+      value: taxableIncome,
+      formula:
+        "gross + other taxable − non-taxable (incl. non-taxable recurring) − tardiness − absences − undertime − mandatory contributions",
+      inputs: {
+        grossEarnings,
+        otherTaxableIncome: Number(data.otherTaxableIncome) || 0,
+        nonTaxableEarnings: Number(data.nonTaxableEarnings) || 0,
+        recurringNonTaxable,
+        tardinessDeduction,
+        absenceDeduction,
+        undertimeDeduction,
+        mandatoryContributions,
+      },
+    });
+    trace({
+      key: "withholdingTax",
+      label: "Withholding tax",
+      value: withholdingTax,
+      formula: "fixed tax + rate × (taxable − bracket floor)",
+      inputs: { taxableIncome },
+      rule: `BIR semi-monthly table ${table.effectiveFrom} (${rules.sources.withholding})`,
+    });
+  }
+
+  // 6c. Year-end annualization — true up the whole year's withholding on the last cutoff
+  let annualTaxableIncome = 0;
+  let annualTaxDue = 0;
+  let yearEndTaxAdjustment = 0;
+  if (data.yearEnd && data.category !== "intern") {
+    annualTaxableIncome = sumPesos(Number(data.yearEnd.ytdTaxableIncome) || 0, taxableIncome);
+    annualTaxDue = computeAnnualTax(annualTaxableIncome, [rules.annualTax], rules.asOf);
+    yearEndTaxAdjustment = subtractPesos(annualTaxDue, Number(data.yearEnd.ytdWithholdingTax) || 0, withholdingTax);
+    trace({
+      key: "yearEndTaxAdjustment",
+      label: "Year-end tax adjustment",
+      value: yearEndTaxAdjustment,
+      formula: "annual tax due − withheld year-to-date − this cutoff's withholding",
+      inputs: {
+        annualTaxableIncome,
+        annualTaxDue,
+        ytdWithholdingTax: Number(data.yearEnd.ytdWithholdingTax) || 0,
+        withholdingTax,
+      },
+      rule: `BIR annual table ${rules.annualTax.effectiveFrom} (${rules.sources.annualTax})`,
+    });
+  }
+
+  // 7. Cash Advance — per advance, the last deduction capped at its balance
+  const { cashAdvanceLines, cashAdvanceDeduction } = deductCashAdvances(data.cashAdvance, data.asOf, trace);
+
+  // 7b. Loans — one line per loan, the last amortization capped at the balance
+  const { loanDeductions, loanDeduction } = deductLoans(data.loans, trace);
+
+  // 7c. Recurring deductions (HMO dependents, uniforms …)
+  const recurringDeductionLines = recurringItems.filter((r) => r.kind === "deduction");
+  const recurringDeductions = sumPesos(...recurringDeductionLines.map((r) => r.amount));
+  for (const r of recurringDeductionLines) {
+    trace({ key: "recurringDeductions", label: r.label, value: r.amount, formula: "recurring deduction" });
+  }
+
+  // 7d. Prior period balance — what earlier cutoffs could not deduct
+  const priorPeriodBalance = Math.max(0, roundPesos(Number(data.priorPeriodBalance) || 0));
+  if (priorPeriodBalance) {
+    trace({
+      key: "priorPeriodBalance",
+      label: "Prior period balance",
+      value: priorPeriodBalance,
+      formula: "unrecovered deductions carried forward from earlier cutoffs",
+    });
   }
 
   // 8. Totals
-  const totalDeductions =
-    sss + pagibig + philhealth + cashAdvanceDeduction + tardinessDeduction;
-  const netPay = Math.max(0, grossEarnings - totalDeductions);
+  const totalDeductions = sumPesos(
+    sss,
+    pagibig,
+    philhealth,
+    withholdingTax,
+    yearEndTaxAdjustment,
+    cashAdvanceDeduction,
+    loanDeduction,
+    recurringDeductions,
+    tardinessDeduction,
+    absenceDeduction,
+    undertimeDeduction,
+    priorPeriodBalance
+  );
+  const netPay = Math.max(0, subtractPesos(grossEarnings, totalDeductions));
+  const unrecoveredDeductions = Math.max(0, subtractPesos(totalDeductions, grossEarnings));
+  trace({
+    key: "totalDeductions",
+    label: "Total deductions",
+    value: totalDeductions,
+    formula:
+      "SSS + Pag-IBIG + PhilHealth + withholding + year-end adjustment + cash advance + loans + recurring deductions + tardiness + absences + undertime + prior period balance",
+    inputs: {
+      sss,
+      pagibig,
+      philhealth,
+      withholdingTax,
+      yearEndTaxAdjustment,
+      cashAdvanceDeduction,
+      loanDeduction,
+      recurringDeductions,
+      tardinessDeduction,
+      absenceDeduction,
+      undertimeDeduction,
+      priorPeriodBalance,
+    },
+  });
+  trace({
+    key: "netPay",
+    label: "Net pay",
+    value: netPay,
+    formula: "max(0, gross − total deductions)",
+    inputs: { grossEarnings, totalDeductions },
+  });
+  if (unrecoveredDeductions) {
+    trace({
+      key: "unrecoveredDeductions",
+      label: "Carried to next cutoff",
+      value: unrecoveredDeductions,
+      formula: "total deductions − gross (deducted next cutoff as prior period balance)",
+      inputs: { totalDeductions, grossEarnings },
+    });
+  }
 
   return {
     dailyRate,
     cutoffPay,
     obPay,
+    obLines,
     otRate,
     otPay,
     nightDiffPay,
@@ -208,13 +1179,46 @@ export const calculatePayroll = (data: PayrollInput): PayrollOutput => {
     holiday30Pay,
     holidayDoublePay,
     holidayOtDoublePay,
+    premiumLines,
+    unworkedHolidayPay,
+    retroPay,
+    recurringItems,
+    recurringEarnings,
+    recurringDeductions,
+    thirteenthMonthPay: 0,
+    freelancerItems: [],
+    freelancerFees: 0,
+    ewtRate: 0,
+    expandedWithholdingTax: 0,
     grossEarnings,
     sss,
+    sssEmployer,
+    sssEc,
+    sssMsc,
     pagibig,
+    pagibigEmployer,
+    pagibigVoluntary,
     philhealth,
+    philhealthEmployer,
+    taxableIncome,
+    withholdingTax,
+    annualTaxableIncome,
+    annualTaxDue,
+    yearEndTaxAdjustment,
     cashAdvanceDeduction,
+    cashAdvanceLines,
+    loanDeductions,
+    loanDeduction,
     tardinessDeduction,
+    absentDays,
+    absenceDeduction,
+    undertimeMinutes,
+    undertimeDeduction,
+    segments,
+    priorPeriodBalance,
     totalDeductions,
+    unrecoveredDeductions,
     netPay,
+    trace: { engineVersion: PAYROLL_ENGINE_VERSION, rulesVersion: rules.version, steps },
   };
 };
@@ -0,0 +1,138 @@
+// src/utils/premiumPay.ts
+// DOLE premium pay matrix: every worked hour is priced by the multiplier for its day type,
+// compounded with overtime and night differential. Lives in settings/statutory.premiumMatrix.
+import { roundPesos } from "./money";
+
+export type DayType =
+  | "regular"
+  | "rest_day"
+  | "special"
+  | "special_rest_day"
+  | "regular_holiday"
+  | "regular_holiday_rest_day"
+  | "double_holiday"
+  | "double_holiday_rest_day";
+
+export const DAY_TYPES: { key: DayType; label: string }[] = [
+  { key: "regular", label: "Ordinary day" },
+  { key: "rest_day", label: "Rest day" },
+  { key: "special", label: "Special non-working holiday" },
+  { key: "special_rest_day", label: "Special holiday on rest day" },
+  { key: "regular_holiday", label: "Regular holiday" },
+  { key: "regular_holiday_rest_day", label: "Regular holiday on rest day" },
+  { key: "double_holiday", label: "Double holiday" },
+  { key: "double_holiday_rest_day", label: "Double holiday on rest day" },
+];
+
+export interface DayMultipliers {
+  base: number; // first 8 hours, × hourly rate
+  ot: number; // hours beyond 8, × hourly rate
+}
+
+export interface PremiumMatrix {
+  ndRate: number; // night differential (10pm–6am) on top of the hour's rate, e.g. 0.10
+  days: Record<DayType, DayMultipliers>;
+}
+
+// DOLE Handbook on Workers' Statutory Monetary Benefits
+export const DEFAULT_PREMIUM_MATRIX: PremiumMatrix = {
+  ndRate: 0.1,
+  days: {
+    regular: { base: 1, ot: 1.25 },
+    rest_day: { base: 1.3, ot: 1.69 },
+    special: { base: 1.3, ot: 1.69 },
+    special_rest_day: { base: 1.5, ot: 1.95 },
+    regular_holiday: { base: 2, ot: 2.6 },
+    regular_holiday_rest_day: { base: 2.6, ot: 3.38 },
+    double_holiday: { base: 3, ot: 3.9 },
+    double_holiday_rest_day: { base: 3.9, ot: 5.07 },
+  },
+};
+
+/** Stored matrix merged over the defaults (missing day types keep the DOLE value). */
+export function resolvePremiumMatrix(m?: Partial<PremiumMatrix> | null): PremiumMatrix {
+  return {
+    ndRate: typeof m?.ndRate === "number" ? m.ndRate : DEFAULT_PREMIUM_MATRIX.ndRate,
+    days: { ...DEFAULT_PREMIUM_MATRIX.days, ...(m?.days || {}) },
+  };
+}
+
+/**
+ * Hours worked on one day type.
+ * `hours`/`otHours` are paid in full at the matrix rate, so they must not also be counted in workedDays.
+ * `ndHours`/`ndOtHours` are the subset of those hours falling in the night window — only the ND premium is added.
+ */
+export interface PremiumBucket {
+  hours?: number;
+  otHours?: number;
+  ndHours?: number;
+  ndOtHours?: number;
+}
+
+export type PremiumHours = Partial<Record<DayType, PremiumBucket>>;
+
+export interface PremiumLine {
+  dayType: DayType;
+  kind: "hours" | "ot" | "nd" | "nd_ot";
+  hours: number;
+  multiplier: number; // applied to the hourly rate
+  amount: number;
+}
+
+/** Compound multiplier for one hour: day type × (OT) × (night differential). */
+export function premiumMultiplier(m: PremiumMatrix, dayType: DayType, opts: { ot?: boolean; nd?: boolean } = {}): number {
+  const row = m.days[dayType];
+  const rate = opts.ot ? row.ot : row.base;
+  return opts.nd ? rate * m.ndRate : rate; // ND is paid as a premium on hours already counted
+}
+
+/** Workday holidays — already paid at 100% inside a monthly-rated employee's basic pay. */
+export const WORKDAY_HOLIDAY_TYPES: DayType[] = ["special", "regular_holiday", "double_holiday"];
+
+/**
+ * Prices every bucket against the matrix.
+ * `inBasic` day types are already paid at 100% in basic pay, so their regular hours only earn the premium above it.
+ */
+export function pricePremiumHours(
+  hourlyRate: number,
+  hours: PremiumHours,
+  m: PremiumMatrix,
+  opts: { inBasic?: DayType[] } = {}
+): PremiumLine[] {
+  const out: PremiumLine[] = [];
+  const kinds: [PremiumLine["kind"], keyof PremiumBucket, { ot?: boolean; nd?: boolean }][] = [
+    ["hours", "hours", {}],
+    ["ot", "otHours", { ot: true }],
+    ["nd", "ndHours", { nd: true }],
+    ["nd_ot", "ndOtHours", { ot: true, nd: true }],
+  ];
+  for (const { key } of DAY_TYPES) {
+    const b = hours[key];
+    if (!b) continue;
+    for (const [kind, field, flags] of kinds) {
+      const h = Math.max(0, Number(b[field]) || 0);
+      if (!h) continue;
+      const covered = kind === "hours" && opts.inBasic?.includes(key) ? 1 : 0;
+      const multiplier = Math.max(0, premiumMultiplier(m, key, flags) - covered);
+      out.push({ dayType: key, kind, hours: h, multiplier, amount: roundPesos(hourlyRate * multiplier * h) });
+    }
+  }
+  return out;
+}
+
+/** Adds two sets of hour buckets together. */
+export function mergePremiumHours(a: PremiumHours, b: PremiumHours): PremiumHours {
+  const out: PremiumHours = {};
+  for (const { key } of DAY_TYPES) {
+    const x = a[key];
+    const y = b[key];
+    if (!x && !y) continue;
+    out[key] = {
+      hours: (Number(x?.hours) || 0) + (Number(y?.hours) || 0),
+      otHours: (Number(x?.otHours) || 0) + (Number(y?.otHours) || 0),
+      ndHours: (Number(x?.ndHours) || 0) + (Number(y?.ndHours) || 0),
+      ndOtHours: (Number(x?.ndOtHours) || 0) + (Number(y?.ndOtHours) || 0),
+    };
+  }
+  return out;
+}
@@ -0,0 +1,42 @@
+// src/utils/recurringItems.ts
+// Recurring pay items set on the employee (employees.recurringItems): rice / transportation allowances, HMO
+// dependent premiums, uniform deductions … AttendancePage copies the ones due onto each new draft line, and
+// calculatePayroll prices them as separate payslip lines.
+import type { RecurringPayLine } from "./payrollLogic";
+
+export type RecurringHalf = "first" | "second" | "both";
+
+export interface RecurringPayItem {
+  id: string;
+  label: string;
+  kind: "earning" | "deduction";
+  taxable: boolean; // earnings only
+  amount: number; // per cutoff it applies to
+  half: RecurringHalf; // "first" = 26–10 cutoff, "second" = 11–25 cutoff
+  startDate: string; // YYYY-MM-DD
+  endDate?: string | null; // YYYY-MM-DD, open-ended when empty
+}
+
+export const RECURRING_HALVES: Record<RecurringHalf, string> = {
+  both: "Every cutoff",
+  first: "1st cutoff (26–10)",
+  second: "2nd cutoff (11–25)",
+};
+
+/** Items due in the cutoff `start`–`end` (YYYY-MM-DD): the right half and overlapping their date range. */
+export function dueRecurringItems(
+  items: RecurringPayItem[] | undefined,
+  cutoff: { start: string; end: string; half: "first" | "second" }
+): RecurringPayLine[] {
+  return (items || [])
+    .filter((it) => Number(it.amount) > 0)
+    .filter((it) => it.half === "both" || it.half === cutoff.half)
+    .filter((it) => (!it.startDate || it.startDate <= cutoff.end) && (!it.endDate || it.endDate >= cutoff.start))
+    .map((it) => ({
+      itemId: it.id,
+      label: it.label || (it.kind === "earning" ? "Allowance" : "Deduction"),
+      kind: it.kind === "deduction" ? "deduction" : "earning",
+      taxable: it.kind === "earning" && Boolean(it.taxable),
+      amount: Number(it.amount) || 0,
+    }));
+}
@@ -0,0 +1,193 @@
+// src/utils/retroPay.ts
+// Retro pay for back-dated raises (/retroPay). Each published payslip since the effective date is recomputed
+// through calculatePayroll at the new rate; the difference is paid as a "Retro Pay" earning on the employee's
+// next draft and the adjustment is closed when that draft is finally approved. The new rate is the pay change
+// recorded on the employee for the effective date, and the payroll functions reprice every open adjustment
+// themselves (repriceRetroPay) — the amount saved with it is what the calculator showed.
+import { calculatePayroll, type PayrollInput, type PayrollOutput } from "./payrollLogic";
+import { roundPesos, subtractPesos, sumPesos } from "./money";
+import { countWorkdays, type CompensationChange } from "./paySegments";
+import { toDateKey } from "./holidays";
+
+export interface RetroRate {
+  monthlySalary: number;
+  perDayRate: number;
+}
+
+export interface RetroPayslipLine {
+  payslipId: string;
+  periodKey?: string;
+  cutoffLabel?: string | null;
+  before: number; // rate-driven pay at the old rate
+  after: number; // same cutoff at the new rate
+  share: number; // part of the cutoff on/after the effective date (1 = whole cutoff)
+  difference: number;
+}
+
+export interface RetroPayAdjustment {
+  id: string;
+  employeeId: string; // employees doc id (payroll line employeeId)
+  employeeName: string;
+  effectiveFrom: string; // YYYY-MM-DD
+  rate: RetroRate;
+  amount: number;
+  payslips: RetroPayslipLine[];
+  status: "open" | "applied";
+  note?: string;
+  createdAt?: unknown;
+  createdBy?: string | null;
+  appliedDraftId?: string;
+  appliedPeriodKey?: string;
+  appliedPayslipId?: string;
+  appliedAt?: unknown;
+}
+
+/** The payslip fields the calculator reads. */
+export interface RetroPayslipLike {
+  id: string;
+  employeeId?: string;
+  employeeDocId?: string;
+  status?: string;
+  payrollType?: string;
+  periodKey?: string;
+  cutoffLabel?: string | null;
+  cutoffStart?: unknown;
+  cutoffEnd?: unknown;
+  details?: { input?: PayrollInput };
+}
+
+/** Pay that moves with the rate: gross less the attendance deductions priced off the same daily rate. */
+export function rateDrivenPay(out: PayrollOutput): number {
+  return subtractPesos(
+    out.grossEarnings,
+    out.retroPay,
+    out.tardinessDeduction,
+    out.absenceDeduction,
+    out.undertimeDeduction
+  );
+}
+
+/** The stored payslip input at another rate; segments starting on/after the effective date take the new rate. */
+export function withRate(input: PayrollInput, rate: RetroRate, effectiveFrom: string): PayrollInput {
+  const monthlySalary = rate.perDayRate > 0 ? rate.perDayRate * 22 * 2 : rate.monthlySalary;
+  return {
+    ...input,
+    monthlySalary,
+    perDayRate: rate.perDayRate,
+    retroPay: 0,
+    segments: input.segments?.map((s) =>
+      s.start >= effectiveFrom ? { ...s, monthlySalary, perDayRate: rate.perDayRate } : s
+    ),
+  };
+}
+
+/**
+ * One payslip's difference. A cutoff the effective date falls inside is pro-rated by workdays
+ * (unless the payslip was already split into segments — those are repriced segment by segment).
+ */
+export function retroForPayslip(slip: RetroPayslipLike, rate: RetroRate, effectiveFrom: string): RetroPayslipLine | null {
+  const input = slip.details?.input;
+  if (!input || slip.payrollType === "thirteenth_month" || input.category === "freelancer" || input.category === "owner") {
+    return null;
+  }
+  const start = toDateKey(slip.cutoffStart);
+  const end = toDateKey(slip.cutoffEnd);
+  if (!start || !end || end < effectiveFrom) return null;
+
+  const before = rateDrivenPay(calculatePayroll({ ...input, retroPay: 0 }));
+  const after = rateDrivenPay(calculatePayroll(withRate(input, rate, effectiveFrom)));
+  const straddles = start < effectiveFrom && !input.segments?.length;
+  const share = straddles ? countWorkdays(effectiveFrom, end) / (countWorkdays(start, end) || 1) : 1;
+  const difference = roundPesos(subtractPesos(after, before) * share);
+
+  return {
+    payslipId: slip.id,
+    periodKey: slip.periodKey,
+    cutoffLabel: slip.cutoffLabel ?? null,
+    before,
+    after,
+    share: Math.round(share * 1000) / 1000,
+    difference,
+  };
+}
+
+export function computeRetroPay(
+  slips: RetroPayslipLike[],
+  rate: RetroRate,
+  effectiveFrom: string
+): { amount: number; payslips: RetroPayslipLine[] } {
+  const payslips = slips
+    .map((s) => retroForPayslip(s, rate, effectiveFrom))
+    .filter((l): l is RetroPayslipLine => !!l && l.difference !== 0)
+    .sort((a, b) => String(a.periodKey || "").localeCompare(String(b.periodKey || "")));
+  return { amount: sumPesos(...payslips.map((l) => l.difference)), payslips };
+}
+
+/** Open retro pay per employee. */
+export function openRetroPay(list: RetroPayAdjustment[]): Record<string, { amount: number; items: RetroPayAdjustment[] }> {
+  const out: Record<string, { amount: number; items: RetroPayAdjustment[] }> = {};
+  for (const r of list) {
+    if (r.status !== "open") continue;
+    const row = (out[r.employeeId] ||= { amount: 0, items: [] });
+    row.amount = sumPesos(row.amount, r.amount);
+    row.items.push(r);
+  }
+  return out;
+}
+
+/** The employee fields an adjustment is repriced from. */
+export interface RetroEmployee {
+  category: string;
+  uid?: string;
+  compensationHistory?: CompensationChange[];
+}
+
+/** The rate of a recorded pay change; daily-paid (probationary) employees are repriced by the day. */
+export function retroRate(change: CompensationChange, category: string): RetroRate {
+  return {
+    monthlySalary: Number(change.monthlySalary || 0),
+    perDayRate: category === "core_probationary" ? Number(change.perDayRate || 0) : 0,
+  };
+}
+
+const createdMs = (v: unknown) => (v as { toMillis?: () => number } | null)?.toMillis?.() ?? 0;
+
+/**
+ * The open adjustments repriced from the payslips they name and the employee's pay change on their effective
+ * date. `adjustments` holds every adjustment of the employees, applied ones too: a payslip an earlier adjustment
+ * for the same date already repriced is left out, as is one that is not the employee's. An adjustment whose pay
+ * change is no longer on the employee pays nothing.
+ */
+export function repriceRetroPay(
+  adjustments: RetroPayAdjustment[],
+  payslips: Record<string, RetroPayslipLike>,
+  employees: Record<string, RetroEmployee>
+): RetroPayAdjustment[] {
+  const ordered = [...adjustments].sort(
+    (a, b) => Number(a.status === "open") - Number(b.status === "open") || createdMs(a.createdAt) - createdMs(b.createdAt)
+  );
+  const repriced = new Set<string>();
+  const out: RetroPayAdjustment[] = [];
+  for (const a of ordered) {
+    const key = (payslipId: string) => `${a.employeeId}|${a.effectiveFrom}|${payslipId}`;
+    const named = (a.payslips || []).map((p) => p.payslipId);
+    if (a.status === "open") {
+      const emp = employees[a.employeeId];
+      const change = emp?.compensationHistory?.find((h) => h.effectiveFrom === a.effectiveFrom);
+      const slips = named
+        .filter((id) => !repriced.has(key(id)))
+        .map((id) => payslips[id])
+        .filter(
+          (s): s is RetroPayslipLike =>
+            !!s &&
+            s.status !== "rejected" &&
+            (s.employeeDocId === a.employeeId || (!!emp?.uid && !s.employeeDocId && s.employeeId === emp.uid))
+        );
+      const rate = change ? retroRate(change, emp.category) : { monthlySalary: 0, perDayRate: 0 };
+      const priced = change ? computeRetroPay(slips, rate, a.effectiveFrom) : { amount: 0, payslips: [] };
+      out.push({ ...a, rate, ...priced });
+    }
+    named.forEach((id) => repriced.add(key(id)));
+  }
+  return out;
+}
@@ -0,0 +1,117 @@
+// src/utils/thirteenthMonth.ts
+// 13th month pay: total basic pay earned in the calendar year ÷ 12.
+// New hires and separated employees are pro-rated naturally — only the basic pay they actually earned is summed.
+import { roundPesos, subtractPesos, sumPesos } from "./money";
+
+export const THIRTEENTH_MONTH_EXEMPT_CEILING = 90000;
+
+export interface ThirteenthMonthResult {
+  year: number;
+  basicPayEarned: number;
+  payslipCount: number;
+  amount: number;
+  exempt: number; // portion under the ₱90,000 ceiling
+  taxable: number; // excess, picked up by year-end annualization
+  alreadyPaid?: number; // 13th month released earlier in the year, deducted from `amount`
+}
+
+// Minimal payslip shape read from /payslips
+export interface PayslipBasicLike {
+  employeeId?: string;
+  employeeDocId?: string;
+  cutoffEnd?: unknown;
+  payrollType?: string;
+  status?: string;
+  details?: { output?: BasicPayLike };
+}
+
+// The parts of a PayrollOutput that make up basic pay earned
+export interface BasicPayLike {
+  cutoffPay?: number;
+  tardinessDeduction?: number;
+  absenceDeduction?: number;
+  undertimeDeduction?: number;
+}
+
+/**
+ * Basic pay actually earned in a cutoff. `cutoffPay` is the full semi-monthly basic for core employees; absences,
+ * undertime and tardiness are deducted separately and are not basic pay earned.
+ */
+export function basicPayEarned(o: BasicPayLike | undefined): number {
+  if (!o) return 0;
+  return Math.max(
+    0,
+    subtractPesos(
+      Number(o.cutoffPay || 0),
+      sumPesos(Number(o.tardinessDeduction || 0), Number(o.absenceDeduction || 0), Number(o.undertimeDeduction || 0))
+    )
+  );
+}
+
+function toDate(v: unknown): Date | null {
+  if (!v) return null;
+  if (typeof (v as { toDate?: unknown }).toDate === "function") return (v as { toDate: () => Date }).toDate();
+  const d = new Date(v as string | number | Date);
+  return isNaN(d.getTime()) ? null : d;
+}
+
+/** Sums basic pay earned (`basicPayEarned` of `details.output`) per employee for regular payslips whose cutoff ends in `year`. */
+export function sumBasicPayByEmployee(
+  payslips: PayslipBasicLike[],
+  year: number
+): Record<string, { basicPayEarned: number; payslipCount: number }> {
+  const out: Record<string, { basicPayEarned: number; payslipCount: number }> = {};
+  for (const p of payslips) {
+    if (p.status === "rejected") continue;
+    if (p.payrollType && p.payrollType !== "regular") continue;
+    const end = toDate(p.cutoffEnd);
+    if (!end || end.getFullYear() !== year) continue;
+    const key = String(p.employeeDocId || p.employeeId || "").trim();
+    if (!key) continue;
+    const basic = basicPayEarned(p.details?.output);
+    if (!out[key]) out[key] = { basicPayEarned: 0, payslipCount: 0 };
+    out[key].basicPayEarned = sumPesos(out[key].basicPayEarned, basic);
+    out[key].payslipCount += 1;
+  }
+  return out;
+}
+
+/**
+ * 13th month for one employee. `exemptUsed` is any part of the ceiling already used this year
+ * (e.g. a 13th month released with final pay).
+ */
+export function computeThirteenthMonth(
+  year: number,
+  basicPayEarned: number,
+  payslipCount = 0,
+  exemptUsed = 0
+): ThirteenthMonthResult {
+  const basic = roundPesos(Math.max(0, Number(basicPayEarned) || 0));
+  const amount = roundPesos(basic / 12);
+  const room = Math.max(0, THIRTEENTH_MONTH_EXEMPT_CEILING - Math.max(0, Number(exemptUsed) || 0));
+  const exempt = Math.min(amount, room);
+  return {
+    year,
+    basicPayEarned: basic,
+    payslipCount,
+    amount,
+    exempt,
+    taxable: subtractPesos(amount, exempt),
+  };
+}
+
+/**
+ * What is still due of `full` after `alreadyPaid` was released earlier in the year; those releases used
+ * `exemptUsed` of the ceiling.
+ */
+export function thirteenthMonthDue(
+  full: ThirteenthMonthResult,
+  alreadyPaid = 0,
+  exemptUsed = 0
+): ThirteenthMonthResult {
+  const paid = Math.max(0, Number(alreadyPaid) || 0);
+  const amount = Math.max(0, subtractPesos(full.amount, paid));
+  const room = Math.max(0, THIRTEENTH_MONTH_EXEMPT_CEILING - Math.max(0, Number(exemptUsed) || 0));
+  const exempt = Math.min(amount, room);
+  return { ...full, amount, exempt, taxable: subtractPesos(amount, exempt), alreadyPaid: paid };
+}
@@ -0,0 +1,152 @@
+// src/utils/withholdingTax.ts
+// BIR withholding tax on compensation (semi-monthly tables), effective-dated like the contribution schedules.
+import { pickEffective, type EffectiveDated } from "./contributions";
+import { roundPesos, sumPesos } from "./money";
+
+export interface TaxBracket {
+  over: number; // taxable income above this amount…
+  base: number; // …pays this fixed tax
+  rate: number; // …plus this rate on the excess
+}
+
+export interface WithholdingTable extends EffectiveDated {
+  period: "semi_monthly";
+  brackets: TaxBracket[]; // ascending by `over`
+}
+
+export const DEFAULT_WITHHOLDING_TABLES: WithholdingTable[] = [
+  {
+    effectiveFrom: "2018-01-01",
+    period: "semi_monthly",
+    brackets: [
+      { over: 0, base: 0, rate: 0 },
+      { over: 10417, base: 0, rate: 0.2 },
+      { over: 16667, base: 1250, rate: 0.25 },
+      { over: 33333, base: 5416.67, rate: 0.3 },
+      { over: 83333, base: 20416.67, rate: 0.32 },
+      { over: 333333, base: 100416.67, rate: 0.35 },
+    ],
+  },
+  {
+    effectiveFrom: "2023-01-01",
+    period: "semi_monthly",
+    brackets: [
+      { over: 0, base: 0, rate: 0 },
+      { over: 10417, base: 0, rate: 0.15 },
+      { over: 16667, base: 937.5, rate: 0.2 },
+      { over: 33333, base: 4270.7, rate: 0.25 },
+      { over: 83333, base: 16770.7, rate: 0.3 },
+      { over: 333333, base: 91770.7, rate: 0.35 },
+    ],
+  },
+];
+
+/** Tax due on one period's taxable income under `table`. */
+export function computeWithholding(taxableIncome: number, table: { brackets: TaxBracket[] }): number {
+  const income = Math.max(0, Number(taxableIncome) || 0);
+  let hit: TaxBracket | null = null;
+  for (const b of table.brackets) {
+    if (income > b.over) hit = b;
+  }
+  if (!hit) return 0;
+  return roundPesos(hit.base + (income - hit.over) * hit.rate);
+}
+
+/** Picks the table in effect on `asOf` (defaults when no tables are configured). */
+export function resolveWithholdingTable(
+  tables: WithholdingTable[] | undefined,
+  asOf?: string | null
+): WithholdingTable | null {
+  return pickEffective(tables?.length ? tables : DEFAULT_WITHHOLDING_TABLES, asOf);
+}
+
+/* ========================================================================
+   YEAR-END ANNUALIZATION
+   ======================================================================== */
+export interface AnnualTaxTable extends EffectiveDated {
+  period: "annual";
+  brackets: TaxBracket[];
+}
+
+export const DEFAULT_ANNUAL_TAX_TABLES: AnnualTaxTable[] = [
+  {
+    effectiveFrom: "2018-01-01",
+    period: "annual",
+    brackets: [
+      { over: 0, base: 0, rate: 0 },
+      { over: 250000, base: 0, rate: 0.2 },
+      { over: 400000, base: 30000, rate: 0.25 },
+      { over: 800000, base: 130000, rate: 0.3 },
+      { over: 2000000, base: 490000, rate: 0.32 },
+      { over: 8000000, base: 2410000, rate: 0.35 },
+    ],
+  },
+  {
+    effectiveFrom: "2023-01-01",
+    period: "annual",
+    brackets: [
+      { over: 0, base: 0, rate: 0 },
+      { over: 250000, base: 0, rate: 0.15 },
+      { over: 400000, base: 22500, rate: 0.2 },
+      { over: 800000, base: 102500, rate: 0.25 },
+      { over: 2000000, base: 402500, rate: 0.3 },
+      { over: 8000000, base: 2202500, rate: 0.35 },
+    ],
+  },
+];
+
+/** Annual income tax due on the year's total taxable compensation. */
+export function computeAnnualTax(
+  annualTaxable: number,
+  tables: AnnualTaxTable[] | undefined,
+  asOf?: string | null
+): number {
+  const table = pickEffective(tables?.length ? tables : DEFAULT_ANNUAL_TAX_TABLES, asOf);
+  if (!table) return 0;
+  return computeWithholding(annualTaxable, table);
+}
+
+// Minimal payslip shape read from /payslips
+export interface PayslipTaxLike {
+  draftId?: string;
+  employeeId?: string;
+  employeeDocId?: string;
+  cutoffEnd?: unknown;
+  status?: string;
+  details?: {
+    output?: { taxableIncome?: number; withholdingTax?: number; yearEndTaxAdjustment?: number };
+  };
+}
+
+export interface YtdTax {
+  ytdTaxableIncome: number;
+  ytdWithholdingTax: number;
+  payslipCount: number;
+}
+
+/** Taxable compensation and tax withheld per employee for payslips whose cutoff ends in `year`. */
+export function sumYtdTaxByEmployee(
+  payslips: PayslipTaxLike[],
+  year: number,
+  excludeDraftId?: string
+): Record<string, YtdTax> {
+  const out: Record<string, YtdTax> = {};
+  for (const p of payslips) {
+    if (p.status === "rejected") continue;
+    if (excludeDraftId && p.draftId === excludeDraftId) continue;
+    const end = p.cutoffEnd ? new Date(String(p.cutoffEnd)) : null;
+    if (!end || isNaN(end.getTime()) || end.getFullYear() !== year) continue;
+    const key = String(p.employeeDocId || p.employeeId || "").trim();
+    if (!key) continue;
+    const o = p.details?.output || {};
+    if (!out[key]) out[key] = { ytdTaxableIncome: 0, ytdWithholdingTax: 0, payslipCount: 0 };
+    out[key].ytdTaxableIncome = sumPesos(out[key].ytdTaxableIncome, Number(o.taxableIncome || 0));
+    out[key].ytdWithholdingTax = sumPesos(
+      out[key].ytdWithholdingTax,
+      Number(o.withholdingTax || 0),
+      Number(o.yearEndTaxAdjustment || 0)
+    );
+    out[key].payslipCount += 1;
+  }
+  return out;
+}